@@ -11,8 +11,9 @@ import { AppProvider, useAppState } from "@/lib/store";
 import { ProjectDialog } from "@/components/project-dialog";
 import { BusinessDialog } from "@/components/business-dialog";
 import { usePwaInstall } from "@/hooks/use-pwa-install";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { Download, X, Loader2 } from "lucide-react";
+import { Download, X, Loader2, LogOut } from "lucide-react";
 import type { Project } from "@shared/schema";
 
 // Lazy load view components for better performance
@@ -23,6 +24,7 @@ const ChangelogView = lazy(() => import("@/pages/changelog-view"));
 const InboxView = lazy(() => import("@/pages/inbox-view"));
 const SettingsView = lazy(() => import("@/pages/settings-view"));
 const ManagerView = lazy(() => import("@/pages/manager-view"));
+const AuthPage = lazy(() => import("@/pages/auth-page"));
 
 function LoadingFallback() {
   return (
@@ -69,6 +71,7 @@ function AppLayout() {
   const [bizDialogOpen, setBizDialogOpen] = useState(false);
   const { currentView } = useAppState();
   const { showBanner, promptInstall, dismissBanner } = usePwaInstall();
+  const { user, logoutMutation } = useAuth();
 
   const viewTitles: Record<string, string> = {
     "all-tasks": "All Tasks",
@@ -128,7 +131,24 @@ function AppLayout() {
                 {viewTitles[currentView] || "Tasks"}
               </span>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-1">
+              {user && (
+                <span className="text-xs text-muted-foreground mr-1 hidden sm:inline" data-testid="text-current-user">
+                  {user.username}
+                </span>
+              )}
+              <ThemeToggle />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="Sign out"
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </div>
           </header>
           <main className="flex-1 overflow-hidden">
             <MainContent />
@@ -148,14 +168,38 @@ function AppLayout() {
   );
 }
 
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="h-screen w-full">
+        <LoadingFallback />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Suspense fallback={<LoadingFallback />}>
+        <AuthPage />
+      </Suspense>
+    );
+  }
+
+  return (
+    <AppProvider>
+      <AppLayout />
+    </AppProvider>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
         <TooltipProvider>
-          <AppProvider>
-            <AppLayout />
-          </AppProvider>
+          <AuthGate />
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
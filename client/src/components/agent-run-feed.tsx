@@ -2,6 +2,10 @@ import { useState, useEffect, useRef } from "react";
 import { DiffView } from "@/components/diff-view";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import {
   Loader2,
   FileCode,
@@ -15,20 +19,17 @@ import {
   AlertCircle,
   CheckCircle2,
   Brain,
+  ShieldCheck,
+  MessageSquare,
+  XCircle,
+  Pencil,
+  Terminal,
+  Gauge,
 } from "lucide-react";
+import type { AgentStep, AgentStagedFile, AgentApprovalDecision, AgentBudget } from "@shared/schema";
 
-interface AgentStep {
-  type: "thinking" | "tool_call" | "tool_result" | "file_write" | "pr_created" | "error" | "done" | "complete";
-  content?: string;
-  tool?: string;
-  input?: any;
-  result?: string;
-  path?: string;
-  fileContent?: string;
-  description?: string;
-  prUrl?: string;
-  prNumber?: number;
-  branchName?: string;
+function formatTokens(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
 }
 
 const toolIcons: Record<string, typeof FileCode> = {
@@ -36,7 +37,10 @@ const toolIcons: Record<string, typeof FileCode> = {
   list_directory: FolderOpen,
   search_code: Search,
   write_file: PenLine,
+  apply_edit: PenLine,
   create_pull_request: GitPullRequest,
+  commit_and_push: GitPullRequest,
+  run_command: Terminal,
 };
 
 const toolLabels: Record<string, string> = {
@@ -44,47 +48,226 @@ const toolLabels: Record<string, string> = {
   list_directory: "Listing",
   search_code: "Searching",
   write_file: "Writing",
+  apply_edit: "Editing",
   create_pull_request: "Creating PR",
+  commit_and_push: "Pushing",
+  run_command: "Running",
 };
 
+/** Review-before-deploy controls: keep, edit or drop each staged file, or send the agent back with feedback. */
+function ApprovalPanel({
+  businessId,
+  runId,
+  files,
+}: {
+  businessId: string;
+  runId: string;
+  files: AgentStagedFile[];
+}) {
+  const { toast } = useToast();
+  const [included, setIncluded] = useState<Set<string>>(() => new Set(files.map(f => f.path)));
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [feedback, setFeedback] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (decision: AgentApprovalDecision) => {
+    setSubmitting(true);
+    try {
+      await apiRequest("POST", `/api/businesses/${businessId}/agent-runs/${runId}/approval`, decision);
+    } catch (err: any) {
+      toast({ title: "Could not submit review", description: err.message, variant: "destructive" });
+      setSubmitting(false);
+    }
+  };
+
+  const approve = () => submit({
+    action: "approve",
+    files: files
+      .filter(f => included.has(f.path))
+      .map(f => ({ path: f.path, content: edits[f.path] ?? f.content, description: f.description })),
+  });
+
+  const toggle = (set: Set<string>, path: string) => {
+    const next = new Set(set);
+    next.has(path) ? next.delete(path) : next.add(path);
+    return next;
+  };
+
+  return (
+    <div className="border border-amber-500/30 rounded-md overflow-hidden" data-testid="panel-agent-approval">
+      <div className="flex items-center gap-2 px-3 py-2 bg-amber-500/10 border-b border-amber-500/20">
+        <ShieldCheck className="w-3.5 h-3.5 text-amber-500" />
+        <span className="text-xs font-semibold text-amber-500">Review before deploy</span>
+        <span className="text-[11px] text-muted-foreground ml-auto">
+          {included.size} of {files.length} file{files.length !== 1 ? "s" : ""} selected
+        </span>
+      </div>
+      <div className="divide-y divide-border/50">
+        {files.map(file => (
+          <div key={file.path}>
+            <div className="flex items-center gap-2 px-3 py-1.5">
+              <Checkbox
+                checked={included.has(file.path)}
+                onCheckedChange={() => setIncluded(prev => toggle(prev, file.path))}
+                disabled={submitting}
+                data-testid={`checkbox-approve-${file.path}`}
+              />
+              <button
+                className="flex items-center gap-1.5 flex-1 min-w-0 text-left"
+                onClick={() => setExpanded(prev => toggle(prev, file.path))}
+              >
+                {expanded.has(file.path) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <span className={`text-[11px] font-mono truncate ${included.has(file.path) ? "text-emerald-400" : "text-muted-foreground line-through"}`}>
+                  {file.path}
+                </span>
+                {edits[file.path] !== undefined && <Badge variant="secondary" className="text-[9px]">edited</Badge>}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-[11px] gap-1"
+                disabled={submitting}
+                onClick={() => setEditing(editing === file.path ? null : file.path)}
+                data-testid={`button-edit-staged-${file.path}`}
+              >
+                <Pencil className="w-3 h-3" />
+                {editing === file.path ? "Done" : "Edit"}
+              </Button>
+            </div>
+            {file.description && (
+              <div className="px-3 pb-1 text-[10px] text-muted-foreground">{file.description}</div>
+            )}
+            {editing === file.path ? (
+              <Textarea
+                value={edits[file.path] ?? file.content}
+                onChange={e => setEdits(prev => ({ ...prev, [file.path]: e.target.value }))}
+                className="font-mono text-[11px] min-h-[240px] rounded-none border-x-0 border-b-0"
+                data-testid={`textarea-edit-staged-${file.path}`}
+              />
+            ) : expanded.has(file.path) && (
+              <div className="border-t border-border max-h-[300px] overflow-auto">
+                <DiffView original={file.originalContent || ""} modified={edits[file.path] ?? file.content} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="p-3 border-t border-border space-y-2 bg-muted/30">
+        <Textarea
+          value={feedback}
+          onChange={e => setFeedback(e.target.value)}
+          placeholder="Feedback for the agent (it will revise the files and ask again)..."
+          className="text-xs min-h-[60px]"
+          disabled={submitting}
+          data-testid="textarea-agent-feedback"
+        />
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-7 text-xs gap-1.5 bg-emerald-600 hover:bg-emerald-700 text-white"
+            disabled={submitting || included.size === 0}
+            onClick={approve}
+            data-testid="button-approve-deploy"
+          >
+            <CheckCircle2 className="w-3.5 h-3.5" />
+            Approve & Deploy
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs gap-1.5"
+            disabled={submitting || !feedback.trim()}
+            onClick={() => submit({ action: "feedback", message: feedback.trim() })}
+            data-testid="button-send-feedback"
+          >
+            <MessageSquare className="w-3.5 h-3.5" />
+            Send Feedback
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs gap-1.5 text-red-500 ml-auto"
+            disabled={submitting}
+            onClick={() => submit({ action: "reject" })}
+            data-testid="button-reject-changes"
+          >
+            <XCircle className="w-3.5 h-3.5" />
+            Reject
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Live feed of an agent run. Without `runId` it starts a new run for the task; with one it
+ * reattaches to that run — following it if still live, or replaying it if finished.
+ */
 export function AgentRunFeed({
   businessId,
+  runId,
   taskId,
   projectId,
   instructions,
   deployMode,
+  reviewBeforeDeploy,
+  budget,
+  onStarted,
   onComplete,
 }: {
   businessId: string;
-  taskId: string;
-  projectId: string;
+  runId?: string;
+  taskId?: string;
+  projectId?: string;
   instructions?: string;
   deployMode?: string;
+  reviewBeforeDeploy?: boolean;
+  budget?: AgentBudget;
+  onStarted?: (runId: string) => void;
   onComplete?: () => void;
 }) {
   const [steps, setSteps] = useState<AgentStep[]>([]);
   const [isRunning, setIsRunning] = useState(true);
+  const [activeRunId, setActiveRunId] = useState<string | undefined>(runId);
   const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
   const feedEndRef = useRef<HTMLDivElement>(null);
   const abortRef = useRef<AbortController | null>(null);
+  // Callbacks live in refs so a re-rendering parent never restarts the stream
+  const onStartedRef = useRef(onStarted);
+  const onCompleteRef = useRef(onComplete);
+  onStartedRef.current = onStarted;
+  onCompleteRef.current = onComplete;
 
   useEffect(() => {
     const controller = new AbortController();
     abortRef.current = controller;
+    setSteps([]);
+    setIsRunning(true);
+    setActiveRunId(runId);
 
     const run = async () => {
       try {
-        const res = await fetch(`/api/businesses/${businessId}/manager/agent-run`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ taskId, projectId, instructions, deployMode: deployMode || "push" }),
-          signal: controller.signal,
-        });
+        const res = runId
+          ? await fetch(`/api/businesses/${businessId}/agent-runs/${runId}/stream`, {
+              credentials: "include",
+              signal: controller.signal,
+            })
+          : await fetch(`/api/businesses/${businessId}/manager/agent-run`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ taskId, projectId, instructions, deployMode: deployMode || "push", reviewBeforeDeploy, budget }),
+              credentials: "include",
+              signal: controller.signal,
+            });
 
         if (!res.ok) {
           const err = await res.json().catch(() => ({ message: "Request failed" }));
           setSteps(prev => [...prev, { type: "error", content: err.message || "Agent run failed" }]);
           setIsRunning(false);
+          onCompleteRef.current?.();
           return;
         }
 
@@ -92,6 +275,7 @@ export function AgentRunFeed({
         if (!reader) {
           setSteps(prev => [...prev, { type: "error", content: "No response stream" }]);
           setIsRunning(false);
+          onCompleteRef.current?.();
           return;
         }
 
@@ -110,6 +294,13 @@ export function AgentRunFeed({
             if (line.startsWith("data: ")) {
               try {
                 const step = JSON.parse(line.slice(6)) as AgentStep;
+                if (step.type === "run_started") {
+                  if (step.runId) {
+                    setActiveRunId(step.runId);
+                    onStartedRef.current?.(step.runId);
+                  }
+                  continue;
+                }
                 setSteps(prev => [...prev, step]);
                 if (step.type === "complete" || step.type === "done") {
                   setIsRunning(false);
@@ -119,17 +310,17 @@ export function AgentRunFeed({
           }
         }
       } catch (err: any) {
-        if (err.name !== "AbortError") {
-          setSteps(prev => [...prev, { type: "error", content: err.message || "Connection lost" }]);
-        }
+        // Unmounting only detaches the feed; the run itself continues on the server
+        if (err.name === "AbortError") return;
+        setSteps(prev => [...prev, { type: "error", content: err.message || "Connection lost" }]);
       }
       setIsRunning(false);
-      onComplete?.();
+      onCompleteRef.current?.();
     };
 
     run();
     return () => controller.abort();
-  }, [businessId, taskId, projectId, instructions, deployMode, onComplete]);
+  }, [businessId, runId, taskId, projectId, instructions, deployMode, reviewBeforeDeploy, budget]);
 
   useEffect(() => {
     feedEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -145,6 +336,9 @@ export function AgentRunFeed({
 
   const fileWrites = steps.filter(s => s.type === "file_write");
   const prStep = steps.find(s => s.type === "pr_created");
+  const usage = steps.filter(s => s.type === "usage" && s.usage).pop()?.usage;
+  // Only the latest review request can still be answered, and only until a decision follows it
+  const pendingApprovalIdx = isRunning && steps[steps.length - 1]?.type === "awaiting_approval" ? steps.length - 1 : -1;
 
   return (
     <div className="border border-emerald-500/20 rounded-lg overflow-hidden bg-background">
@@ -152,9 +346,14 @@ export function AgentRunFeed({
       <div className="flex items-center gap-2 px-3 py-2 bg-emerald-500/10 border-b border-emerald-500/20">
         <Brain className="w-4 h-4 text-emerald-500" />
         <span className="text-xs font-semibold text-emerald-500">Agent Run</span>
-        {isRunning && <Loader2 className="w-3 h-3 animate-spin text-emerald-500 ml-auto" />}
-        {!isRunning && prStep && <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500 ml-auto" />}
-        {!isRunning && !prStep && steps.some(s => s.type === "error") && <AlertCircle className="w-3.5 h-3.5 text-red-500 ml-auto" />}
+        {usage && (
+          <span className="ml-auto text-[10px] font-mono text-muted-foreground" data-testid="text-agent-run-usage">
+            {formatTokens(usage.inputTokens)} in · {formatTokens(usage.outputTokens)} out · ${usage.costUsd.toFixed(2)}
+          </span>
+        )}
+        {isRunning && <Loader2 className={`w-3 h-3 animate-spin text-emerald-500 ${usage ? "" : "ml-auto"}`} />}
+        {!isRunning && prStep && <CheckCircle2 className={`w-3.5 h-3.5 text-emerald-500 ${usage ? "" : "ml-auto"}`} />}
+        {!isRunning && !prStep && steps.some(s => s.type === "error") && <AlertCircle className={`w-3.5 h-3.5 text-red-500 ${usage ? "" : "ml-auto"}`} />}
       </div>
 
       {/* Step feed */}
@@ -177,12 +376,21 @@ export function AgentRunFeed({
                     <Icon className="w-3.5 h-3.5 text-blue-400 shrink-0" />
                     <span className="text-[11px] text-blue-400 font-medium">{label}</span>
                     <span className="text-[11px] font-mono text-muted-foreground truncate">
-                      {step.input?.path || step.input?.query || step.input?.title || ""}
+                      {step.input?.path || step.input?.query || step.input?.title || step.input?.command || ""}
                     </span>
                   </div>
                 );
               }
 
+              case "tool_result":
+                // Only failed edits are worth showing — the agent gets the same message and retries
+                return step.tool === "apply_edit" ? (
+                  <div key={idx} className="flex items-start gap-2 px-3 py-1.5 bg-amber-500/5 rounded-md border border-amber-500/20">
+                    <AlertCircle className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+                    <span className="text-[11px] text-muted-foreground">Edit did not apply: {step.result}</span>
+                  </div>
+                ) : null;
+
               case "file_write":
                 return (
                   <div key={idx} className="border border-emerald-500/20 rounded-md overflow-hidden">
@@ -245,6 +453,71 @@ export function AgentRunFeed({
                   </div>
                 );
 
+              case "command_result": {
+                const passed = step.exitCode === 0;
+                const key = `cmd-${idx}`;
+                return (
+                  <div key={idx} className={`border rounded-md overflow-hidden ${passed ? "border-emerald-500/20" : "border-red-500/30"}`}>
+                    <button
+                      className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-muted/50 transition-colors"
+                      onClick={() => toggleFile(key)}
+                    >
+                      {expandedFiles.has(key) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                      <Terminal className={`w-3 h-3 ${passed ? "text-emerald-500" : "text-red-500"}`} />
+                      <span className="text-[11px] font-mono flex-1 truncate">{step.command}</span>
+                      <Badge variant="secondary" className={`text-[9px] ${passed ? "text-emerald-500" : "text-red-500"}`}>
+                        {step.exitCode === null ? "timed out" : passed ? "passed" : `exit ${step.exitCode}`}
+                      </Badge>
+                      {step.durationMs !== undefined && (
+                        <span className="text-[10px] text-muted-foreground">{(step.durationMs / 1000).toFixed(1)}s</span>
+                      )}
+                    </button>
+                    {expandedFiles.has(key) && (
+                      <pre className="border-t border-border max-h-[300px] overflow-auto px-3 py-2 text-[10px] font-mono whitespace-pre-wrap text-muted-foreground">
+                        {step.content || "(no output)"}
+                      </pre>
+                    )}
+                  </div>
+                );
+              }
+
+              case "usage":
+                return step.content ? (
+                  <div key={idx} className="flex items-center gap-2 py-1">
+                    <Gauge className="w-3.5 h-3.5 text-amber-500 shrink-0" />
+                    <span className="text-[11px] text-muted-foreground">{step.content}</span>
+                  </div>
+                ) : null;
+
+              case "budget_exceeded":
+                return (
+                  <div key={idx} className="flex items-start gap-2 px-3 py-2 bg-amber-500/10 rounded-md border border-amber-500/30">
+                    <Gauge className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+                    <span className="text-[11px] text-amber-500">{step.content}</span>
+                  </div>
+                );
+
+              case "awaiting_approval":
+                return idx === pendingApprovalIdx && activeRunId ? (
+                  <ApprovalPanel key={idx} businessId={businessId} runId={activeRunId} files={step.files || []} />
+                ) : (
+                  <div key={idx} className="flex items-center gap-2 py-1">
+                    <ShieldCheck className="w-3.5 h-3.5 text-amber-500 shrink-0" />
+                    <span className="text-[11px] text-amber-500 font-medium">Awaiting review</span>
+                    <span className="text-[11px] text-muted-foreground truncate">
+                      {(step.files || []).map(f => f.path).join(", ")}
+                    </span>
+                  </div>
+                );
+
+              case "approval_decision":
+                return (
+                  <div key={idx} className="flex items-start gap-2 px-3 py-2 bg-amber-500/5 rounded-md border border-amber-500/20">
+                    <ShieldCheck className="w-3.5 h-3.5 text-amber-500 shrink-0 mt-0.5" />
+                    <span className="text-[11px] text-muted-foreground whitespace-pre-wrap">{step.content}</span>
+                  </div>
+                );
+
               case "done":
                 return step.content ? (
                   <div key={idx} className="text-xs text-muted-foreground leading-relaxed whitespace-pre-wrap">
@@ -257,7 +530,7 @@ export function AgentRunFeed({
             }
           })}
 
-          {isRunning && steps.length > 0 && (
+          {isRunning && steps.length > 0 && pendingApprovalIdx === -1 && (
             <div className="flex items-center gap-2 py-1">
               <Loader2 className="w-3 h-3 animate-spin text-emerald-500" />
               <span className="text-[11px] text-muted-foreground">Working...</span>
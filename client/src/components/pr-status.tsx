@@ -0,0 +1,91 @@
+import type { CodeFix } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, CircleDashed, GitMerge, GitPullRequest, GitPullRequestClosed, Loader2, MessageSquare, XCircle } from "lucide-react";
+
+const FAILED_CONCLUSIONS = ["failure", "timed_out", "cancelled", "action_required", "startup_failure"];
+
+/** Live state of a code fix's pull request — open/merged/closed, reviews and CI checks — as reported by the GitHub webhook. */
+export function PullRequestStatus({ codeFix }: { codeFix: CodeFix }) {
+  if (!codeFix.prState) return null;
+
+  const reviews = (codeFix.reviews || []).filter(r => r.state !== "dismissed");
+  const checks = codeFix.checks || [];
+  const pending = checks.filter(c => c.status !== "completed");
+  const failed = checks.filter(c => c.status === "completed" && FAILED_CONCLUSIONS.includes(c.conclusion || ""));
+  const passed = checks.length - pending.length - failed.length;
+
+  return (
+    <div className="flex items-center gap-1.5 flex-wrap" data-testid={`pr-status-${codeFix.id}`}>
+      {codeFix.prState === "open" && (
+        <Badge className="text-[9px] bg-green-500/15 text-green-500 border-green-500/30">
+          <GitPullRequest className="w-2.5 h-2.5 mr-0.5" />
+          Open
+        </Badge>
+      )}
+      {codeFix.prState === "merged" && (
+        <Badge className="text-[9px] bg-purple-500/15 text-purple-500 border-purple-500/30">
+          <GitMerge className="w-2.5 h-2.5 mr-0.5" />
+          Merged
+        </Badge>
+      )}
+      {codeFix.prState === "closed" && (
+        <Badge className="text-[9px] bg-red-500/15 text-red-500 border-red-500/30">
+          <GitPullRequestClosed className="w-2.5 h-2.5 mr-0.5" />
+          Closed
+        </Badge>
+      )}
+
+      {reviews.map(review => (
+        <span
+          key={review.reviewer}
+          className="inline-flex items-center gap-0.5 text-[9px] text-muted-foreground"
+          title={`${review.reviewer}: ${review.state.replace("_", " ")} (${new Date(review.submittedAt).toLocaleString()})`}
+        >
+          {review.state === "approved" && <CheckCircle2 className="w-2.5 h-2.5 text-green-500" />}
+          {review.state === "changes_requested" && <XCircle className="w-2.5 h-2.5 text-red-500" />}
+          {review.state === "commented" && <MessageSquare className="w-2.5 h-2.5" />}
+          {review.reviewer}
+        </span>
+      ))}
+
+      {checks.length > 0 && (
+        <span
+          className="inline-flex items-center gap-0.5 text-[9px] text-muted-foreground"
+          title={checks.map(c => `${c.name}: ${c.status === "completed" ? c.conclusion || "done" : c.status.replace("_", " ")}`).join("\n")}
+        >
+          {failed.length > 0 ? (
+            <XCircle className="w-2.5 h-2.5 text-red-500" />
+          ) : pending.length > 0 ? (
+            <Loader2 className="w-2.5 h-2.5 animate-spin" />
+          ) : (
+            <CheckCircle2 className="w-2.5 h-2.5 text-green-500" />
+          )}
+          {failed.length > 0
+            ? `${failed.length} check${failed.length !== 1 ? "s" : ""} failed`
+            : pending.length > 0
+              ? `${passed}/${checks.length} checks passed`
+              : `${checks.length} check${checks.length !== 1 ? "s" : ""} passed`}
+        </span>
+      )}
+      {failed.map(check => check.url ? (
+        <a
+          key={check.name}
+          href={check.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[9px] text-red-500 hover:underline"
+        >
+          {check.name}
+        </a>
+      ) : (
+        <span key={check.name} className="text-[9px] text-red-500">{check.name}</span>
+      ))}
+      {codeFix.prState === "open" && reviews.length === 0 && checks.length === 0 && (
+        <span className="inline-flex items-center gap-0.5 text-[9px] text-muted-foreground">
+          <CircleDashed className="w-2.5 h-2.5" />
+          Awaiting review
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAppState } from "@/lib/store";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, Network, X } from "lucide-react";
+import type { Project, Task, TaskWorkflow } from "@shared/schema";
+import { statusCategory } from "@shared/taskWorkflow";
+import { blockersOf, isBlockedBy, openBlockers, taskReference, tasksBlockedBy } from "@shared/taskDependencies";
+
+const NODE_WIDTH = 92;
+const NODE_HEIGHT = 24;
+const COLUMN_GAP = 28;
+const ROW_GAP = 8;
+
+interface GraphNode {
+  task: Task;
+  level: number;
+  row: number;
+}
+
+/**
+ * Everything upstream (what this task waits on, transitively) at negative levels and everything
+ * downstream (what waits on it) at positive levels; a task reachable both ways keeps its first level.
+ */
+function layoutGraph(task: Task, tasks: Task[]): { nodes: GraphNode[]; edges: [string, string][] } {
+  const levels = new Map<string, number>([[task.id, 0]]);
+  const walk = (direction: -1 | 1) => {
+    let frontier = [task];
+    for (let level = direction; frontier.length > 0; level += direction) {
+      const next: Task[] = [];
+      for (const current of frontier) {
+        const neighbours = direction < 0 ? blockersOf(current, tasks) : tasksBlockedBy(current, tasks);
+        for (const neighbour of neighbours) {
+          if (levels.has(neighbour.id)) continue;
+          levels.set(neighbour.id, level);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+  };
+  walk(-1);
+  walk(1);
+
+  const rows = new Map<number, number>();
+  const nodes: GraphNode[] = [];
+  for (const t of tasks) {
+    const level = levels.get(t.id);
+    if (level === undefined) continue;
+    const row = rows.get(level) || 0;
+    rows.set(level, row + 1);
+    nodes.push({ task: t, level, row });
+  }
+
+  // Task IDs are unique across projects, so nodes are keyed by ID alone
+  const inGraph = new Set(nodes.map(n => n.task.id));
+  const edges: [string, string][] = [];
+  for (const node of nodes) {
+    for (const blocker of node.task.blockedBy || []) {
+      if (inGraph.has(blocker.taskId)) edges.push([blocker.taskId, node.task.id]);
+    }
+  }
+  return { nodes, edges };
+}
+
+function DependencyGraph({ task, tasks, workflowOf, onSelect }: {
+  task: Task;
+  tasks: Task[];
+  workflowOf: (projectId: string) => TaskWorkflow | undefined;
+  onSelect: (taskId: string) => void;
+}) {
+  const { nodes, edges } = layoutGraph(task, tasks);
+  const minLevel = Math.min(...nodes.map(n => n.level));
+  const maxLevel = Math.max(...nodes.map(n => n.level));
+  const maxRows = Math.max(...nodes.map(n => n.row + 1));
+  const width = (maxLevel - minLevel + 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = maxRows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  const position = new Map(nodes.map(n => [n.task.id, {
+    x: (n.level - minLevel) * (NODE_WIDTH + COLUMN_GAP),
+    y: n.row * (NODE_HEIGHT + ROW_GAP),
+  }]));
+
+  return (
+    <div className="overflow-x-auto" data-testid="dependency-graph">
+      <svg width={width + 8} height={height + 2} className="block">
+        <defs>
+          <marker id="dependency-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L6,3 L0,6 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+        {edges.map(([from, to]) => {
+          const a = position.get(from)!;
+          const b = position.get(to)!;
+          const x1 = a.x + NODE_WIDTH;
+          const y1 = a.y + NODE_HEIGHT / 2 + 1;
+          const x2 = b.x;
+          const y2 = b.y + NODE_HEIGHT / 2 + 1;
+          const mid = (x1 + x2) / 2;
+          return (
+            <path
+              key={`${from}-${to}`}
+              d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+              className="stroke-muted-foreground/60 fill-none"
+              strokeWidth={1}
+              markerEnd="url(#dependency-arrow)"
+            />
+          );
+        })}
+        {nodes.map(({ task: t }) => {
+          const { x, y } = position.get(t.id)!;
+          const workflow = workflowOf(t.projectId);
+          const category = workflow ? statusCategory(workflow, t.status) : undefined;
+          const done = category === "done";
+          const isCurrent = t.id === task.id;
+          const tone = isCurrent
+            ? "stroke-primary fill-primary/10"
+            : done
+              ? "stroke-green-500/60 fill-green-500/10"
+              : "stroke-border fill-muted/40";
+          return (
+            <g
+              key={t.id}
+              transform={`translate(${x},${y + 1})`}
+              className={isCurrent ? "" : "cursor-pointer"}
+              onClick={() => !isCurrent && onSelect(t.id)}
+              data-testid={`dependency-node-${t.id}`}
+            >
+              <title>{`${t.id}: ${t.title} (${t.status})`}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={4} className={tone} strokeWidth={1} />
+              <text x={6} y={NODE_HEIGHT / 2 + 3.5} className="fill-foreground font-mono" fontSize={10}>
+                {t.id.length > 12 ? `${t.id.slice(0, 11)}…` : t.id}
+              </text>
+              <circle
+                cx={NODE_WIDTH - 8}
+                cy={NODE_HEIGHT / 2}
+                r={3}
+                className={done ? "fill-green-500" : category === "todo" ? "fill-muted-foreground" : "fill-yellow-500"}
+              />
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+/**
+ * "Blocked by" / "blocks" edges of a task: a summary line, the graph, and editing of the task's blockers.
+ * `groups` are the tasks of every project in the business, since blockers may cross projects.
+ */
+export function TaskDependencies({ task, groups, projectId }: {
+  task: Task;
+  groups: { project: Project; tasks: Task[] }[];
+  projectId: string;
+}) {
+  const { toast } = useToast();
+  const { selectedBusinessId, setSelectedTaskId } = useAppState();
+  const [expanded, setExpanded] = useState(false);
+
+  const tasks = groups.flatMap(g => g.tasks);
+  const projectOf = (id: string) => groups.find(g => g.project.id === id)?.project;
+  const workflowOf = (id: string) => projectOf(id)?.workflow;
+  const blockers = blockersOf(task, tasks);
+  const blocking = tasksBlockedBy(task, tasks);
+  const open = openBlockers(task, tasks, workflowOf);
+  // This project's tasks first, then the rest of the business
+  const candidates = [...tasks]
+    .sort((a, b) => Number(b.projectId === projectId) - Number(a.projectId === projectId))
+    .filter(t => t.id !== task.id && !isBlockedBy(task, taskReference(t)));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "tasks"] });
+  };
+
+  const addBlockerMutation = useMutation({
+    mutationFn: async (blocker: Task) => {
+      const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/projects/${projectId}/tasks/${task.id}/blockers`, {
+        blockerId: blocker.id,
+        blockerProjectId: blocker.projectId,
+      });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Could not add blocker", description: err.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  const removeBlockerMutation = useMutation({
+    mutationFn: async (blockerId: string) => {
+      const res = await apiRequest("DELETE", `/api/businesses/${selectedBusinessId}/projects/${projectId}/tasks/${task.id}/blockers/${encodeURIComponent(blockerId)}`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Could not remove blocker", description: err.message.replace(/^\d+:\s*/, ""), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2" data-testid="task-dependencies">
+      <button
+        className="w-full flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        onClick={() => setExpanded(!expanded)}
+        data-testid="button-toggle-dependencies"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Network className="w-3 h-3" />
+        <span>Blocked by {blockers.length}</span>
+        <span>·</span>
+        <span>Blocks {blocking.length}</span>
+        {open.length > 0 && (
+          <Badge className="text-[9px] bg-red-500/15 text-red-500 border-red-500/30 ml-auto" data-testid="badge-open-blockers">
+            {open.length} unfinished blocker{open.length !== 1 ? "s" : ""}
+          </Badge>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="space-y-2 pl-4">
+          {(blockers.length > 0 || blocking.length > 0) && (
+            <DependencyGraph task={task} tasks={tasks} workflowOf={workflowOf} onSelect={setSelectedTaskId} />
+          )}
+
+          {blockers.length > 0 && (
+            <div className="space-y-1">
+              {blockers.map(b => (
+                <div key={b.id} className="flex items-center gap-1.5 bg-muted/50 rounded px-2 py-1 group">
+                  <span className="font-mono text-[10px] text-muted-foreground shrink-0">{b.id}</span>
+                  <span className="text-xs truncate flex-1">{b.title}</span>
+                  {b.projectId !== projectId && (
+                    <Badge variant="secondary" className="text-[8px] shrink-0 max-w-[110px] truncate" title={projectOf(b.projectId)?.name}>{projectOf(b.projectId)?.name}</Badge>
+                  )}
+                  <Badge variant="outline" className="text-[8px] shrink-0">{b.status}</Badge>
+                  <button
+                    className="opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={() => removeBlockerMutation.mutate(b.id)}
+                    title="Remove blocker"
+                    data-testid={`button-remove-blocker-${b.id}`}
+                  >
+                    <X className="w-3 h-3 text-muted-foreground hover:text-destructive" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {candidates.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(id) => {
+                const blocker = candidates.find(t => t.id === id);
+                if (blocker) addBlockerMutation.mutate(blocker);
+              }}
+              disabled={addBlockerMutation.isPending}
+            >
+              <SelectTrigger className="h-7 text-xs" data-testid="select-add-blocker">
+                <SelectValue placeholder="Add a task this one waits on…" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>
+                    <span className="font-mono text-[10px] text-muted-foreground mr-1.5">{t.id}</span>
+                    {t.title}
+                    {t.projectId !== projectId && (
+                      <span className="text-[10px] text-muted-foreground ml-1.5">· {projectOf(t.projectId)?.name}</span>
+                    )}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {blockers.length === 0 && blocking.length === 0 && candidates.length === 0 && (
+            <p className="text-[10px] text-muted-foreground">No other tasks in this business.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -55,8 +55,10 @@ import {
   Unlink,
   Link,
 } from "lucide-react";
-import type { Task, TaskStatus, RepositorySafe, DiscussionMessage, GeneratedPrompt, AIModel, CodeFix } from "@shared/schema";
+import type { Task, TaskStatus, Project, RepositorySafe, DiscussionMessage, GeneratedPrompt, AIModel, CodeFix, TaskReference, WorkflowCategory } from "@shared/schema";
 import { AI_MODELS } from "@shared/schema";
+import { allowedTransitions, firstStatusIn, statusCategory } from "@shared/taskWorkflow";
+import { openBlockers, sameTaskReference, taskReference } from "@shared/taskDependencies";
 import ReactMarkdown from "react-markdown";
 import {
   Tooltip,
@@ -69,8 +71,21 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 import { DiffView } from "@/components/diff-view";
+import { PullRequestStatus } from "@/components/pr-status";
+import { TaskDependencies } from "@/components/task-dependencies";
+import { TicketAttachments } from "@/components/ticket-attachments";
 
 function CodeBlockWithCopy({ children, onCopy }: { children?: React.ReactNode; onCopy?: () => void }) {
   const [copied, setCopied] = useState(false);
@@ -104,6 +119,12 @@ const priorityConfig: Record<string, { icon: typeof ArrowUp; color: string; labe
   Low: { icon: ArrowDown, color: "text-muted-foreground", label: "Low" },
 };
 
+const statusTriggerColors: Partial<Record<WorkflowCategory, string>> = {
+  done: "border-green-500/40 text-green-500 bg-green-500/10",
+  in_progress: "border-blue-500/40 text-blue-500 bg-blue-500/10",
+  review: "border-yellow-500/40 text-yellow-500 bg-yellow-500/10",
+};
+
 interface TaskDetailPanelProps {
   task: Task;
   projectId: string;
@@ -129,6 +150,7 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
   const [prCreatingFixId, setPrCreatingFixId] = useState<string | null>(null);
   const [startWorkResult, setStartWorkResult] = useState<{ branch: string; taskFile: string } | null>(null);
   const [linkingOpen, setLinkingOpen] = useState(false);
+  const [confirmStartBlocked, setConfirmStartBlocked] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
   const [streamingStage, setStreamingStage] = useState<string | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
@@ -146,18 +168,43 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
     enabled: !!selectedBusinessId,
   });
 
-  const { data: siblingTasks = [] } = useQuery<Task[]>({
-    queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks"],
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId],
     enabled: !!selectedBusinessId && !!projectId,
   });
 
+  const workflow = project?.workflow;
+  const category = workflow ? statusCategory(workflow, task.status) : undefined;
+  const allowedStatuses = useMemo(() => (workflow ? allowedTransitions(workflow, task.status) : []), [workflow, task.status]);
+  const doneStatus = workflow ? firstStatusIn(workflow, "done") : undefined;
+
+  const { data: businessTasks = [] } = useQuery<{ project: Project; tasks: Task[] }[]>({
+    queryKey: ["/api/businesses", selectedBusinessId, "tasks"],
+    enabled: !!selectedBusinessId,
+  });
+
+  const linkedTasks = useMemo(() => (task.dependencies || []).flatMap((ref) => {
+    const group = businessTasks.find(g => g.project.id === ref.projectId);
+    const linked = group?.tasks.find(t => t.id === ref.taskId);
+    return group && linked ? [{ task: linked, project: group.project }] : [];
+  }), [task.dependencies, businessTasks]);
+
+  // This project's tasks first, then the rest of the business
+  const linkCandidates = useMemo(() => {
+    const groups = [...businessTasks].sort((a, b) => Number(b.project.id === projectId) - Number(a.project.id === projectId));
+    return groups.flatMap(g => g.tasks
+      .filter(t => t.id !== task.id && !(task.dependencies || []).some(ref => sameTaskReference(ref, taskReference(t))))
+      .map(t => ({ task: t, project: g.project })));
+  }, [businessTasks, projectId, task.id, task.dependencies]);
+
   const linkTaskMutation = useMutation({
-    mutationFn: async (taskIds: string[]) => {
+    mutationFn: async (taskIds: (string | TaskReference)[]) => {
       const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/projects/${projectId}/link-tasks`, { taskIds });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks"] });
+      // The other end of the link may be in another project
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects"] });
       queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "tasks"] });
       toast({ title: "Tasks linked" });
     },
@@ -167,12 +214,15 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
   });
 
   const unlinkTaskMutation = useMutation({
-    mutationFn: async (dependencyId: string) => {
-      const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/projects/${projectId}/tasks/${task.id}/unlink`, { dependencyId });
+    mutationFn: async (dependency: TaskReference) => {
+      const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/projects/${projectId}/tasks/${task.id}/unlink`, {
+        dependencyId: dependency.taskId,
+        dependencyProjectId: dependency.projectId,
+      });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects"] });
       queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "tasks"] });
       toast({ title: "Task unlinked" });
     },
@@ -181,12 +231,18 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
     },
   });
 
+  const unfinishedBlockers = openBlockers(
+    task,
+    businessTasks.flatMap(g => g.tasks),
+    id => businessTasks.find(g => g.project.id === id)?.project.workflow,
+  );
+
   const startWorkMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (params?: { force?: boolean }) => {
       const res = await apiRequest(
         "POST",
         `/api/businesses/${selectedBusinessId}/projects/${projectId}/tasks/${task.id}/start-work`,
-        {}
+        { force: params?.force === true }
       );
       if (!res.ok) {
         const err = await res.json().catch(() => ({ message: "Failed to start work." }));
@@ -208,6 +264,8 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
     queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks", task.id, "discussion"],
     enabled: !!selectedBusinessId,
     staleTime: 0, // Always refetch when tab opens to prevent stale data
+    // Open code-fix PRs get review and CI updates from the webhook; poll so they show up
+    refetchInterval: (query) => query.state.data?.some(m => m.codeFix?.prState === "open") ? 30000 : false,
   });
 
   const discussMutation = useMutation({
@@ -256,16 +314,22 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
   });
 
   const generateFixMutation = useMutation({
-    mutationFn: async (instructions?: string) => {
+    mutationFn: async (params: { instructions?: string; regenerateFixId?: string }) => {
       const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/projects/${projectId}/tasks/${task.id}/generate-code-fix`, {
         model: selectedModel,
-        instructions,
+        instructions: params.instructions,
+        regenerateFixId: params.regenerateFixId,
       });
       return await safeJsonParse(res);
     },
-    onSuccess: () => {
+    onSuccess: (_data, params) => {
       queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks", task.id, "discussion"] });
-      toast({ title: "Code fix generated", description: "Review the diff below and create a PR when ready." });
+      toast({
+        title: params.regenerateFixId ? "Code fix regenerated" : "Code fix generated",
+        description: params.regenerateFixId
+          ? "The new fix was generated against the latest code; the conflicting one was discarded."
+          : "Review the diff below and create a PR when ready.",
+      });
     },
     onError: (err: any) => {
       let description = err.message || "Unknown error";
@@ -293,6 +357,9 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
       toast({ title: "Pull Request created!", description: `PR #${data.prNumber} opened successfully.` });
     },
     onError: (err: any) => {
+      // A conflict check marks the fix on the server, so refresh to show what clashed
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects", projectId, "tasks", task.id, "discussion"] });
+      setPrCreatingFixId(null);
       let description = err.message || "Unknown error";
       try {
         const cleaned = description.replace(/^\d+:\s*/, "");
@@ -470,7 +537,8 @@ export function TaskDetailPanel({ task, projectId, onEdit, onClose }: TaskDetail
       discussion.length === 0 &&
       !isStreaming &&
       !coolDispatchTriggered &&
-      selectedBusinessId
+      selectedBusinessId &&
+      workflow
     ) {
       setCoolDispatchTriggered(true);
       sendStreamingMessage({
@@ -486,10 +554,10 @@ Provide:
 2. A ready-to-use prompt in a fenced code block that a developer can paste directly into Cursor or Claude Code to implement this task. The fenced code block MUST:
    - Start with exactly this line: "Task ID: ${task.id}"
    - Be specific, actionable, and include all relevant context from the task description
-   - End with exactly this line: "IMPORTANT: When committing, include [${task.id}] in your commit message so this task is automatically moved to Quality Review."`,
+   - End with exactly this line: "IMPORTANT: When committing, include [${task.id}] in your commit message so this task is automatically moved to ${workflow.webhookStatus}."`,
       });
     }
-  }, [discussionLoading, discussion.length, isStreaming, coolDispatchTriggered, selectedBusinessId, task.title, task.description, task.type, task.priority, sendStreamingMessage]);
+  }, [discussionLoading, discussion.length, isStreaming, coolDispatchTriggered, selectedBusinessId, workflow, task.title, task.description, task.type, task.priority, sendStreamingMessage]);
 
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -522,13 +590,19 @@ Provide:
       queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "tasks"] });
       toast({ title: "Status updated" });
     },
+    onError: (err: Error) => {
+      let message = err.message.replace(/^\d+:\s*/, "");
+      try { message = JSON.parse(message).message || message; } catch {}
+      toast({ title: "Status not changed", description: message, variant: "destructive" });
+    },
   });
 
   const handlePromptCopy = useCallback(() => {
-    if (task.status !== "In Progress" && task.status !== "Done") {
-      statusMutation.mutate("In Progress" as TaskStatus);
+    // Copying the prompt means work has started, if the workflow lets the task move there yet
+    if (workflow && category === "todo" && allowedStatuses.includes(workflow.startStatus)) {
+      statusMutation.mutate(workflow.startStatus);
     }
-  }, [task.status, statusMutation]);
+  }, [workflow, category, allowedStatuses, statusMutation]);
 
   const markdownComponents = useMemo(() => ({
     pre: ({ children }: any) => <>{children}</>,
@@ -686,11 +760,16 @@ ${task.fixSteps}`;
   };
 
   const handleMarkAsDone = () => {
-    statusMutation.mutate("Done");
+    if (doneStatus) statusMutation.mutate(doneStatus);
   };
+  const canMarkDone = !!doneStatus && category !== "done" && allowedStatuses.includes(doneStatus);
 
   const PriorityIcon = priorityConfig[task.priority]?.icon || ArrowRight;
-  const isQualityReview = task.status === "Quality Review";
+  const isQualityReview = category === "review";
+  // The current status stays listed even when the workflow no longer has it; moves the workflow forbids are disabled
+  const statusOptions = [task.status, ...(workflow?.statuses.map((s) => s.name) || []).filter((name) => name !== task.status)].map((name) => (
+    <SelectItem key={name} value={name} disabled={name !== task.status && !allowedStatuses.includes(name)}>{name}</SelectItem>
+  ));
   const discussionCount = discussion.length;
 
   const autoAnalysisMsg = discussion.find((m) => m.isAutoAnalysis && m.sender === "claude");
@@ -840,7 +919,44 @@ ${task.fixSteps}`;
                         PR Created
                       </Badge>
                     )}
+                    {msg.codeFix.status === "conflict" && (
+                      <Badge className="text-[9px] bg-amber-500/15 text-amber-500 border-amber-500/30" data-testid={`badge-fix-conflict-${msg.codeFix.id}`}>
+                        <CircleAlert className="w-2.5 h-2.5 mr-0.5" />
+                        Conflicts
+                      </Badge>
+                    )}
+                    {msg.codeFix.status === "discarded" && !msg.codeFix.prState && (
+                      <Badge variant="outline" className="text-[9px] text-muted-foreground">
+                        Discarded
+                      </Badge>
+                    )}
                   </div>
+                  {msg.codeFix.status === "conflict" && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="default"
+                        className="h-6 text-[10px] gap-1"
+                        onClick={() => generateFixMutation.mutate({ regenerateFixId: msg.codeFix!.id })}
+                        disabled={generateFixMutation.isPending}
+                        data-testid={`button-regenerate-fix-${msg.codeFix.id}`}
+                      >
+                        {generateFixMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                        Regenerate against latest
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 text-[10px] gap-1"
+                        onClick={() => setPrCreatingFixId(msg.codeFix!.id)}
+                        disabled={createPrMutation.isPending}
+                        data-testid={`button-retry-pr-${msg.codeFix.id}`}
+                      >
+                        <GitPullRequest className="w-3 h-3" />
+                        Retry PR
+                      </Button>
+                    </div>
+                  )}
                   {msg.codeFix.status === "generated" && (
                     <Button
                       size="sm"
@@ -866,6 +982,12 @@ ${task.fixSteps}`;
                   )}
                 </div>
 
+                {msg.codeFix.prState && (
+                  <div className="px-3 py-1.5 border-b border-border">
+                    <PullRequestStatus codeFix={msg.codeFix} />
+                  </div>
+                )}
+
                 {prCreatingFixId === msg.codeFix.id && (
                   <div className="px-3 py-2 bg-muted/30 border-b border-border flex items-center gap-2">
                     <GitBranch className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
@@ -899,6 +1021,42 @@ ${task.fixSteps}`;
                   </div>
                 )}
 
+                {msg.codeFix.status === "conflict" && msg.codeFix.conflicts && msg.codeFix.conflicts.length > 0 && (
+                  <div className="px-3 py-2 bg-amber-500/5 border-b border-border space-y-1" data-testid={`fix-conflicts-${msg.codeFix.id}`}>
+                    <p className="text-[10px] text-muted-foreground">
+                      These files changed on the default branch since the fix was generated and could not be merged automatically
+                      {msg.codeFix.conflictsCheckedAt && ` (checked ${new Date(msg.codeFix.conflictsCheckedAt).toLocaleString()})`}:
+                    </p>
+                    {msg.codeFix.conflicts.map((conflict) => {
+                      const conflictKey = `${msg.codeFix!.id}:conflict:${conflict.path}`;
+                      const isExpanded = expandedDiffs.has(conflictKey);
+                      return (
+                        <div key={conflict.path}>
+                          <button
+                            className="w-full flex items-center gap-2 text-left"
+                            onClick={() => toggleDiffExpanded(msg.codeFix!.id, `conflict:${conflict.path}`)}
+                            disabled={!conflict.mergedContent}
+                          >
+                            {conflict.mergedContent && (isExpanded ? <ChevronDown className="w-3 h-3 text-muted-foreground shrink-0" /> : <ChevronRight className="w-3 h-3 text-muted-foreground shrink-0" />)}
+                            <CircleAlert className="w-3 h-3 text-amber-500 shrink-0" />
+                            <span className="font-mono text-[10px] text-foreground truncate">{conflict.path}</span>
+                            <span className="text-[9px] text-muted-foreground ml-auto shrink-0">
+                              {conflict.reason === "deleted"
+                                ? "deleted upstream"
+                                : `${conflict.hunks} conflicting region${conflict.hunks !== 1 ? "s" : ""}`}
+                            </span>
+                          </button>
+                          {isExpanded && conflict.mergedContent && (
+                            <pre className="mt-1 bg-background border border-border rounded p-2 text-[10px] font-mono overflow-auto max-h-[300px] whitespace-pre">
+                              {conflict.mergedContent}
+                            </pre>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 {msg.codeFix.files.map((file) => {
                   const diffKey = `${msg.codeFix!.id}:${file.path}`;
                   const isExpanded = expandedDiffs.has(diffKey);
@@ -925,7 +1083,7 @@ ${task.fixSteps}`;
             )}
             {isAuto && (
               <div className="flex items-center gap-2 mt-2 flex-wrap">
-                {analysisResult === "complete" && task.status !== "Done" && (
+                {analysisResult === "complete" && canMarkDone && (
                   <Button size="sm" variant="default" onClick={handleMarkAsDone} disabled={statusMutation.isPending} data-testid="button-mark-done">
                     <CheckCircle2 className="w-3 h-3 mr-1.5" />
                     Mark as Done
@@ -955,6 +1113,76 @@ ${task.fixSteps}`;
     );
   };
 
+  // Links can point at tasks in any project of the business
+  const linkedTasksSection = (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <label className="text-xs text-muted-foreground flex items-center gap-1">
+          <Link2 className="w-3 h-3" />
+          Linked Tasks {linkedTasks.length > 0 && `(${linkedTasks.length})`}
+        </label>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-5 text-[10px] px-1.5"
+          onClick={() => setLinkingOpen(!linkingOpen)}
+          data-testid="button-toggle-linking"
+        >
+          {linkingOpen ? "Done" : <><Link className="w-3 h-3 mr-0.5" /> Link</>}
+        </Button>
+      </div>
+      {linkedTasks.length > 0 && (
+        <div className="space-y-1 mb-2 max-h-[160px] overflow-y-auto">
+          {linkedTasks.map(({ task: depTask, project: depProject }) => (
+            <div key={`${depProject.id}:${depTask.id}`} className="flex items-center gap-1.5 bg-muted/50 rounded px-2 py-1 group" data-testid={`linked-task-${depTask.id}`}>
+              <span className="font-mono text-[10px] text-muted-foreground shrink-0">{depTask.id}</span>
+              <span className="text-xs truncate flex-1">{depTask.title}</span>
+              {depProject.id !== projectId && (
+                <Badge variant="secondary" className="text-[8px] shrink-0 max-w-[110px] truncate" title={depProject.name}>{depProject.name}</Badge>
+              )}
+              <Badge variant="outline" className="text-[8px] shrink-0">{depTask.status}</Badge>
+              <button
+                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={() => unlinkTaskMutation.mutate(taskReference(depTask))}
+                title="Unlink"
+              >
+                <Unlink className="w-3 h-3 text-muted-foreground hover:text-destructive" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {linkingOpen && (
+        <div className="border border-border rounded-md p-2 space-y-1 max-h-[200px] overflow-y-auto">
+          {linkCandidates.map(({ task: t, project: p }) => (
+            <button
+              key={`${p.id}:${t.id}`}
+              className="w-full flex items-center gap-1.5 px-2 py-1 rounded hover:bg-muted/50 transition-colors text-left"
+              onClick={() => {
+                linkTaskMutation.mutate([task.id, taskReference(t)]);
+              }}
+            >
+              <span className="font-mono text-[10px] text-muted-foreground shrink-0">{t.id}</span>
+              <span className="text-xs truncate flex-1">{t.title}</span>
+              {p.id !== projectId && (
+                <Badge variant="secondary" className="text-[8px] shrink-0 max-w-[110px] truncate" title={p.name}>{p.name}</Badge>
+              )}
+              <Badge variant="outline" className="text-[8px] shrink-0">{t.status}</Badge>
+            </button>
+          ))}
+          {linkCandidates.length === 0 && (
+            <p className="text-[10px] text-muted-foreground text-center py-2">
+              {businessTasks.every(g => g.tasks.every(t => t.id === task.id)) ? "No other tasks in this business" : "All tasks already linked"}
+            </p>
+          )}
+        </div>
+      )}
+      {linkedTasks.length === 0 && !linkingOpen && (
+        <p className="text-[10px] text-muted-foreground">No linked tasks. Click "Link" to connect related tasks from any project.</p>
+      )}
+    </div>
+  );
+
   if (isCoolDispatch) {
     return (
       <div className="w-[520px] flex flex-col border-l border-border bg-background shrink-0" data-testid="cool-dispatch-panel">
@@ -969,20 +1197,14 @@ ${task.fixSteps}`;
             >
               <SelectTrigger
                 className={`h-5 text-[10px] px-1.5 border rounded shrink-0 w-auto gap-1 focus:ring-0 ${
-                  task.status === "Done" ? "border-green-500/40 text-green-500 bg-green-500/10" :
-                  task.status === "In Progress" ? "border-blue-500/40 text-blue-500 bg-blue-500/10" :
-                  task.status === "Quality Review" ? "border-yellow-500/40 text-yellow-500 bg-yellow-500/10" :
-                  "border-border text-muted-foreground"
+                  (category && statusTriggerColors[category]) || "border-border text-muted-foreground"
                 }`}
                 data-testid="select-task-status"
               >
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="Open">Open</SelectItem>
-                <SelectItem value="In Progress">In Progress</SelectItem>
-                <SelectItem value="Quality Review">Quality Review</SelectItem>
-                <SelectItem value="Done">Done</SelectItem>
+                {statusOptions}
               </SelectContent>
             </Select>
           </div>
@@ -1027,6 +1249,11 @@ ${task.fixSteps}`;
         </ScrollArea>
 
         <div className="p-3 border-t border-border space-y-2">
+          <TicketAttachments attachments={task.attachments || []} />
+          {workflow && projectId && (
+            <TaskDependencies task={task} groups={businessTasks} projectId={projectId} />
+          )}
+          {linkedTasksSection}
           <div className="flex items-center gap-1.5 flex-wrap">
             <Button
               size="sm"
@@ -1035,7 +1262,7 @@ ${task.fixSteps}`;
               data-testid="button-regenerate-prompt"
               onClick={() => {
                 sendStreamingMessage({
-                  message: `Regenerate the Cursor/Claude Code prompt for this task from scratch.\n\nTask ID: ${task.id}\nTask title: "${task.title}"\nTask description: ${task.description || "(no description)"}\nType: ${task.type} | Priority: ${task.priority}\n\nProvide:\n1. A 2-3 sentence summary of what needs to be done.\n2. A complete, copy-paste-ready prompt in a fenced code block for Cursor or Claude Code. The fenced code block MUST:\n   - Start with exactly this line: "Task ID: ${task.id}"\n   - Be specific, actionable, and include all relevant context\n   - End with exactly this line: "IMPORTANT: When committing, include [${task.id}] in your commit message so this task is automatically moved to Quality Review."`,
+                  message: `Regenerate the Cursor/Claude Code prompt for this task from scratch.\n\nTask ID: ${task.id}\nTask title: "${task.title}"\nTask description: ${task.description || "(no description)"}\nType: ${task.type} | Priority: ${task.priority}\n\nProvide:\n1. A 2-3 sentence summary of what needs to be done.\n2. A complete, copy-paste-ready prompt in a fenced code block for Cursor or Claude Code. The fenced code block MUST:\n   - Start with exactly this line: "Task ID: ${task.id}"\n   - Be specific, actionable, and include all relevant context\n   - End with exactly this line: "IMPORTANT: When committing, include [${task.id}] in your commit message so this task is automatically moved to ${workflow?.webhookStatus || "Quality Review"}."`,
                 });
               }}
               disabled={isStreaming}
@@ -1060,18 +1287,18 @@ ${task.fixSteps}`;
               className="h-6 text-[10px] gap-1"
               data-testid="button-mark-done-cd"
               onClick={handleMarkAsDone}
-              disabled={statusMutation.isPending || task.status === "Done"}
+              disabled={statusMutation.isPending || !canMarkDone}
             >
               <CheckCircle2 className="w-3 h-3" />
               Mark done
             </Button>
-            {task.status === "Open" && task.repositoryId && !startWorkResult && (
+            {category === "todo" && workflow && allowedStatuses.includes(workflow.startStatus) && task.repositoryId && !startWorkResult && (
               <Button
                 size="sm"
                 variant="outline"
                 className="h-6 text-[10px] gap-1 border-emerald-600/40 text-emerald-600 hover:bg-emerald-600/10 dark:text-emerald-400 dark:border-emerald-400/40 dark:hover:bg-emerald-400/10"
                 data-testid="button-start-work"
-                onClick={() => startWorkMutation.mutate()}
+                onClick={() => (unfinishedBlockers.length > 0 ? setConfirmStartBlocked(true) : startWorkMutation.mutate({}))}
                 disabled={startWorkMutation.isPending}
               >
                 {startWorkMutation.isPending ? (
@@ -1135,6 +1362,26 @@ ${task.fixSteps}`;
             </Button>
           </div>
         </div>
+
+        <AlertDialog open={confirmStartBlocked} onOpenChange={setConfirmStartBlocked}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Start a blocked task?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {task.id} is waiting on {unfinishedBlockers.map(b => `${b.id} (${b.status})`).join(", ")}. Work started now may have to be redone once they land.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => startWorkMutation.mutate({ force: true })}
+                data-testid="button-confirm-start-blocked"
+              >
+                Start anyway
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     );
   }
@@ -1218,10 +1465,7 @@ ${task.fixSteps}`;
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Open">Open</SelectItem>
-                    <SelectItem value="In Progress">In Progress</SelectItem>
-                    <SelectItem value="Quality Review">Quality Review</SelectItem>
-                    <SelectItem value="Done">Done</SelectItem>
+                    {statusOptions}
                   </SelectContent>
                 </Select>
               </div>
@@ -1254,72 +1498,11 @@ ${task.fixSteps}`;
               </div>
             )}
 
-            {/* Linked Tasks */}
-            <div>
-              <div className="flex items-center justify-between mb-1.5">
-                <label className="text-xs text-muted-foreground flex items-center gap-1">
-                  <Link2 className="w-3 h-3" />
-                  Linked Tasks {task.dependencies && task.dependencies.length > 0 && `(${task.dependencies.length})`}
-                </label>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  className="h-5 text-[10px] px-1.5"
-                  onClick={() => setLinkingOpen(!linkingOpen)}
-                >
-                  {linkingOpen ? "Done" : <><Link className="w-3 h-3 mr-0.5" /> Link</>}
-                </Button>
-              </div>
-              {task.dependencies && task.dependencies.length > 0 && (
-                <div className="space-y-1 mb-2">
-                  {task.dependencies.map((depId) => {
-                    const depTask = siblingTasks.find(t => t.id === depId);
-                    if (!depTask) return null;
-                    return (
-                      <div key={depId} className="flex items-center gap-1.5 bg-muted/50 rounded px-2 py-1 group">
-                        <span className="font-mono text-[10px] text-muted-foreground shrink-0">{depTask.id}</span>
-                        <span className="text-xs truncate flex-1">{depTask.title}</span>
-                        <Badge variant="outline" className="text-[8px] shrink-0">{depTask.status}</Badge>
-                        <button
-                          className="opacity-0 group-hover:opacity-100 transition-opacity"
-                          onClick={() => unlinkTaskMutation.mutate(depId)}
-                          title="Unlink"
-                        >
-                          <Unlink className="w-3 h-3 text-muted-foreground hover:text-destructive" />
-                        </button>
-                      </div>
-                    );
-                  })}
-                </div>
-              )}
-              {linkingOpen && (
-                <div className="border border-border rounded-md p-2 space-y-1 max-h-[200px] overflow-y-auto">
-                  {siblingTasks
-                    .filter(t => t.id !== task.id && !(task.dependencies || []).includes(t.id))
-                    .map(t => (
-                      <button
-                        key={t.id}
-                        className="w-full flex items-center gap-1.5 px-2 py-1 rounded hover:bg-muted/50 transition-colors text-left"
-                        onClick={() => {
-                          linkTaskMutation.mutate([task.id, t.id]);
-                        }}
-                      >
-                        <span className="font-mono text-[10px] text-muted-foreground shrink-0">{t.id}</span>
-                        <span className="text-xs truncate flex-1">{t.title}</span>
-                        <Badge variant="outline" className="text-[8px] shrink-0">{t.status}</Badge>
-                      </button>
-                    ))}
-                  {siblingTasks.filter(t => t.id !== task.id && !(task.dependencies || []).includes(t.id)).length === 0 && (
-                    <p className="text-[10px] text-muted-foreground text-center py-2">
-                      {siblingTasks.length <= 1 ? "No other tasks in this project" : "All tasks already linked"}
-                    </p>
-                  )}
-                </div>
-              )}
-              {(!task.dependencies || task.dependencies.length === 0) && !linkingOpen && (
-                <p className="text-[10px] text-muted-foreground">No linked tasks. Click "Link" to connect related tasks.</p>
-              )}
-            </div>
+            {linkedTasksSection}
+
+            {workflow && projectId && (
+              <TaskDependencies task={task} groups={businessTasks} projectId={projectId} />
+            )}
 
             {task.description && (
               <>
@@ -1331,6 +1514,8 @@ ${task.fixSteps}`;
               </>
             )}
 
+            <TicketAttachments attachments={task.attachments || []} />
+
             {task.reasoning && (
               <div>
                 <label className="text-xs text-muted-foreground block mb-1.5">Reasoning</label>
@@ -1678,7 +1863,7 @@ ${task.fixSteps}`;
                         variant="ghost"
                         size="sm"
                         className="h-5 gap-1 text-[10px] text-muted-foreground hover:text-foreground px-1.5"
-                        onClick={() => generateFixMutation.mutate(discussionInput.trim() || undefined)}
+                        onClick={() => generateFixMutation.mutate({ instructions: discussionInput.trim() || undefined })}
                         disabled={generateFixMutation.isPending || discussMutation.isPending || isStreaming}
                         data-testid="button-generate-fix"
                       >
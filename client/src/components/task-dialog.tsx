@@ -33,6 +33,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Plus, Loader2, FileSearch, AlertCircle } from "lucide-react";
 import type { Task, Project, RepositorySafe } from "@shared/schema";
+import { allowedTransitions } from "@shared/taskWorkflow";
 
 function getProjectDefaultRepo(projects: Project[], projectId: string): string {
   const project = projects.find((p) => p.id === projectId);
@@ -46,7 +47,8 @@ const COLORS = [
 
 const formSchema = z.object({
   type: z.enum(["Bug", "Feature", "Task"]),
-  status: z.enum(["Open", "In Progress", "Quality Review", "Done"]),
+  // Empty for a new task means the project workflow's initial status
+  status: z.string(),
   priority: z.enum(["High", "Medium", "Low"]),
   title: z.string().min(1, "Title is required"),
   description: z.string(),
@@ -84,11 +86,18 @@ export function TaskDialog({ open, onOpenChange, projectId: initialProjectId, ta
     enabled: !!selectedBusinessId,
   });
 
+  const workflow = projects.find((p) => p.id === activeProjectId)?.workflow;
+  const statusOptions = !workflow
+    ? []
+    : task
+      ? [task.status, ...allowedTransitions(workflow, task.status)]
+      : workflow.statuses.map((s) => s.name);
+
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       type: task?.type || "Task",
-      status: task?.status || "Open",
+      status: task?.status || "",
       priority: task?.priority || "Medium",
       title: task?.title || "",
       description: task?.description || "",
@@ -115,7 +124,7 @@ export function TaskDialog({ open, onOpenChange, projectId: initialProjectId, ta
       const defaultRepoId = task?.repositoryId || getProjectDefaultRepo(projects, initialProjectId);
       form.reset({
         type: task?.type || "Task",
-        status: task?.status || "Open",
+        status: task?.status || "",
         priority: task?.priority || "Medium",
         title: task?.title || "",
         description: task?.description || "",
@@ -200,7 +209,8 @@ export function TaskDialog({ open, onOpenChange, projectId: initialProjectId, ta
       }
       mutation.mutate(partial as any);
     } else {
-      mutation.mutate(data);
+      const { status, ...rest } = data;
+      mutation.mutate(status ? data : (rest as typeof data));
     }
   };
 
@@ -220,6 +230,7 @@ export function TaskDialog({ open, onOpenChange, projectId: initialProjectId, ta
       if (!isEditing) {
         const defaultRepoId = getProjectDefaultRepo(projects, value);
         form.setValue("repositoryId", defaultRepoId);
+        form.setValue("status", "");
       }
     }
   };
@@ -377,17 +388,16 @@ export function TaskDialog({ open, onOpenChange, projectId: initialProjectId, ta
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Status</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-task-status">
-                          <SelectValue />
+                          <SelectValue placeholder={workflow?.initialStatus || "Select status"} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Open">Open</SelectItem>
-                        <SelectItem value="In Progress">In Progress</SelectItem>
-                        <SelectItem value="Quality Review">Quality Review</SelectItem>
-                        <SelectItem value="Done">Done</SelectItem>
+                        {statusOptions.map((name) => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
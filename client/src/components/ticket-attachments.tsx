@@ -0,0 +1,58 @@
+import { useAppState } from "@/lib/store";
+import { Paperclip } from "lucide-react";
+import type { Attachment } from "@shared/schema";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Screenshots as thumbnails and other files as links; both open the stored copy in a new tab. */
+export function TicketAttachments({ attachments, label = "Attachments" }: { attachments: Attachment[]; label?: string }) {
+  const { selectedBusinessId } = useAppState();
+  if (attachments.length === 0 || !selectedBusinessId) return null;
+
+  const urlOf = (a: Attachment) => `/api/businesses/${selectedBusinessId}/attachments/${a.id}`;
+  const images = attachments.filter(a => a.mediaType.startsWith("image/"));
+  const files = attachments.filter(a => !a.mediaType.startsWith("image/"));
+
+  return (
+    <div data-testid="ticket-attachments">
+      <label className="text-xs text-muted-foreground block mb-1.5">{label}</label>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(a => (
+            <a
+              key={a.id}
+              href={urlOf(a)}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={`${a.name} (${formatSize(a.size)})`}
+              className="block w-24 h-16 rounded border border-border overflow-hidden bg-muted/40 hover:border-primary transition-colors"
+              data-testid={`attachment-image-${a.id}`}
+            >
+              <img src={urlOf(a)} alt={a.name} loading="lazy" className="w-full h-full object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="flex flex-col gap-1 mt-1.5">
+          {files.map(a => (
+            <a
+              key={a.id}
+              href={urlOf(a)}
+              className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+              data-testid={`attachment-file-${a.id}`}
+            >
+              <Paperclip className="w-3 h-3 shrink-0" />
+              <span className="truncate">{a.name}</span>
+              <span className="shrink-0 text-[10px]">{formatSize(a.size)}</span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
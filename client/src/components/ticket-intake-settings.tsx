@@ -0,0 +1,958 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Bell, Copy, Eye, EyeOff, FlaskConical, KeyRound, Loader2, Plus, RefreshCw, RotateCcw, Save, Ticket, Trash2 } from "lucide-react";
+import {
+  inboxPriorityEnum,
+  inboxTypeEnum,
+  triageAgentEnum,
+  ticketEventEnum,
+  type CallbackDelivery,
+  type IntakeApiKey,
+  type Project,
+  type TriageConfig,
+  type TriageLane,
+  type TriagePreRule,
+  type TicketCallback,
+  type TicketEvent,
+} from "@shared/schema";
+
+const AGENT_LABELS: Record<TriageLane["assignedAgent"], string> = {
+  auto: "Triage agent decides",
+  claude_code: "Claude Code",
+  cursor_opus: "Cursor + Opus",
+  manual: "Manual",
+};
+
+const EVENT_LABELS: Record<TicketEvent, string> = {
+  triaged: "Triaged",
+  approved: "Approved",
+  merged: "Merged",
+  rejected: "Rejected",
+  task_in_review: "Task in review",
+  task_done: "Task done",
+};
+
+// Select items cannot have an empty value, so "no override" gets a placeholder of its own
+const SUGGEST = "__suggest";
+const FROM_URGENCY = "__urgency";
+const KEEP_URGENCY = "__keep";
+
+interface TriageConfigResponse {
+  config: TriageConfig;
+  isCustom: boolean;
+}
+
+type PreRuleDraft = Omit<TriagePreRule, "keywords" | "reporterTypes"> & { keywords: string; reporterTypes: string };
+
+interface TriageTestResult {
+  lane: string;
+  urgency: string;
+  assigned_agent: "claude_code" | "cursor_opus" | null;
+  triage_notes: string;
+  confidence: number;
+  routing: { inboxType: string; priority: string; projectId: string | null };
+}
+
+function splitList(text: string): string[] {
+  return text.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+function errorMessage(err: Error): string {
+  const message = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(message).message || message; } catch { return message; }
+}
+
+/** Settings for tickets sent in by the business's reporting app: intake API keys and how tickets are triaged. */
+export function TicketIntakeSettings({ bizId, isOwner }: { bizId: string; isOwner: boolean }) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Ticket className="w-5 h-5 text-muted-foreground" />
+          <h3 className="text-sm font-semibold">Ticket Intake</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Your reporting app sends tickets to <span className="font-mono">POST {window.location.origin}/api/tickets</span> with
+          the header <span className="font-mono">Authorization: Bearer &lt;intake key&gt;</span>. Tickets are triaged with the settings below and land in the inbox for approval.
+        </p>
+      </div>
+      <IntakeKeys bizId={bizId} isOwner={isOwner} />
+      <TriageConfigEditor bizId={bizId} isOwner={isOwner} />
+      <TicketCallbacks bizId={bizId} isOwner={isOwner} />
+    </div>
+  );
+}
+
+function IntakeKeys({ bizId, isOwner }: { bizId: string; isOwner: boolean }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [revokeKey, setRevokeKey] = useState<IntakeApiKey | null>(null);
+
+  const { data: keys = [] } = useQuery<IntakeApiKey[]>({
+    queryKey: ["/api/businesses", bizId, "intake-keys"],
+    enabled: isOwner,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (keyName: string) => {
+      const res = await apiRequest("POST", `/api/businesses/${bizId}/intake-keys`, { name: keyName });
+      return res.json() as Promise<{ key: IntakeApiKey; secret: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "intake-keys"] });
+      setNewSecret(data.secret);
+      setName("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not create key", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: string) => {
+      return apiRequest("DELETE", `/api/businesses/${bizId}/intake-keys/${keyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "intake-keys"] });
+      setRevokeKey(null);
+      toast({ title: "Intake key revoked" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not revoke key", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (!isOwner) {
+    return <p className="text-xs text-muted-foreground">Only owners can manage intake keys.</p>;
+  }
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="intake-keys">
+      <div className="flex items-center gap-2">
+        <KeyRound className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Intake Keys</span>
+        <Badge variant="secondary" className="text-xs">{keys.length}</Badge>
+      </div>
+
+      {keys.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No keys yet. Tickets are refused until the reporting app has one.</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border border-border">
+          {keys.map((key) => (
+            <div key={key.id} className="flex items-center gap-3 px-3 py-2" data-testid={`intake-key-${key.id}`}>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{key.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-mono">{key.keyPrefix}…</span>
+                  {" · "}created {new Date(key.createdAt).toLocaleDateString()}
+                  {" · "}{key.lastUsedAt ? `last used ${new Date(key.lastUsedAt).toLocaleString()}` : "never used"}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => setRevokeKey(key)}
+                data-testid={`button-revoke-intake-key-${key.id}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {newSecret && (
+        <div className="rounded-md border border-emerald-600/30 bg-emerald-600/5 p-3 space-y-1.5" data-testid="intake-key-secret">
+          <p className="text-xs font-medium">Copy the key now; it is not shown again.</p>
+          <div className="flex items-center gap-1">
+            <Input readOnly value={newSecret} className="h-7 text-xs font-mono" />
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => {
+                navigator.clipboard.writeText(newSecret);
+                toast({ title: "Intake key copied" });
+              }}
+            >
+              <Copy className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) createMutation.mutate(name.trim());
+        }}
+      >
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. Production app"
+          className="h-8 text-sm"
+          data-testid="input-intake-key-name"
+        />
+        <Button type="submit" size="sm" disabled={!name.trim() || createMutation.isPending} data-testid="button-create-intake-key">
+          <Plus className="w-3 h-3 mr-1" />
+          Create Key
+        </Button>
+      </form>
+
+      <AlertDialog open={!!revokeKey} onOpenChange={() => setRevokeKey(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Intake Key</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using "{revokeKey?.name}" will be refused immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeKey && revokeMutation.mutate(revokeKey.id)}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+function TriageConfigEditor({ bizId, isOwner }: { bizId: string; isOwner: boolean }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TriageConfig | null>(null);
+  const [rulesText, setRulesText] = useState("");
+  // Keywords and reporter types are edited as comma-separated text and split on save
+  const [preRules, setPreRules] = useState<PreRuleDraft[]>([]);
+  const [testDescription, setTestDescription] = useState("");
+  const [testReporter, setTestReporter] = useState("");
+
+  const { data } = useQuery<TriageConfigResponse>({
+    queryKey: ["/api/businesses", bizId, "triage-config"],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/businesses", bizId, "projects"],
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setDraft(data.config);
+    setRulesText(data.config.rules.join("\n"));
+    setPreRules(data.config.preRules.map((rule) => ({
+      ...rule,
+      keywords: rule.keywords.join(", "),
+      reporterTypes: rule.reporterTypes.join(", "),
+    })));
+  }, [data]);
+
+  const current: TriageConfig | null = draft && {
+    ...draft,
+    rules: rulesText.split("\n").map((r) => r.trim()).filter(Boolean),
+    preRules: preRules.map((rule) => ({
+      ...rule,
+      keywords: splitList(rule.keywords),
+      reporterTypes: splitList(rule.reporterTypes),
+    })),
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (config: TriageConfig | null) => {
+      const res = await apiRequest("PUT", `/api/businesses/${bizId}/triage-config`, { config });
+      return res.json() as Promise<TriageConfigResponse>;
+    },
+    onSuccess: (result, config) => {
+      queryClient.setQueryData(["/api/businesses", bizId, "triage-config"], result);
+      toast({ title: config ? "Triage settings saved" : "Triage settings reset to default" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not save triage settings", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/businesses/${bizId}/triage-config/test`, {
+        description: testDescription,
+        reporter_type: testReporter.trim() || undefined,
+        config: current,
+      });
+      return res.json() as Promise<TriageTestResult>;
+    },
+    onError: (err: Error) => {
+      toast({ title: "Triage test failed", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (!draft || !current) return null;
+
+  const laneIds = draft.lanes.map((l) => l.id);
+
+  const updateLane = (index: number, changes: Partial<TriageLane>) => {
+    setDraft({ ...draft, lanes: draft.lanes.map((l, i) => (i === index ? { ...l, ...changes } : l)) });
+  };
+
+  // Renames carry over to the fallback lane and the pre-rules that point at the lane
+  const renameLane = (index: number, id: string) => {
+    const old = draft.lanes[index].id;
+    setDraft({
+      ...draft,
+      lanes: draft.lanes.map((l, i) => (i === index ? { ...l, id } : l)),
+      fallbackLane: draft.fallbackLane === old ? id : draft.fallbackLane,
+    });
+    setPreRules(preRules.map((rule) => (rule.lane === old ? { ...rule, lane: id } : rule)));
+  };
+
+  const removeLane = (index: number) => {
+    const removed = draft.lanes[index].id;
+    const lanes = draft.lanes.filter((_, i) => i !== index);
+    const fallbackLane = draft.fallbackLane === removed ? lanes[0]?.id || "" : draft.fallbackLane;
+    setDraft({ ...draft, lanes, fallbackLane });
+    setPreRules(preRules.map((rule) => (rule.lane === removed ? { ...rule, lane: fallbackLane } : rule)));
+  };
+
+  const addLane = () => {
+    let id = "new_lane";
+    for (let n = 2; laneIds.includes(id); n++) id = `new_lane_${n}`;
+    setDraft({
+      ...draft,
+      lanes: [...draft.lanes, { id, description: "", inboxType: "Bug", defaultProjectId: null, defaultPriority: null, assignedAgent: "manual" }],
+    });
+  };
+
+  const updatePreRule = (index: number, changes: Partial<PreRuleDraft>) => {
+    setPreRules(preRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <Card className="p-4 space-y-4" data-testid="triage-config">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">Triage</span>
+        <Badge variant="outline" className="text-[10px]">{data?.isCustom ? "Custom" : "Default"}</Badge>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium">System prompt</label>
+        <Textarea
+          value={draft.systemPrompt}
+          onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+          disabled={!isOwner}
+          rows={3}
+          className="text-sm"
+          data-testid="input-triage-system-prompt"
+        />
+        <p className="text-[10px] text-muted-foreground">Describe the business and its users. The required JSON answer format is added automatically.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium">Lanes</label>
+        <p className="text-[10px] text-muted-foreground">
+          The triage agent picks a lane from its description; the lane decides the inbox type, and optionally the project, priority and agent, of the ticket.
+        </p>
+        {draft.lanes.map((lane, index) => (
+          <div key={index} className="rounded-md border border-border p-2.5 space-y-2" data-testid={`triage-lane-${index}`}>
+            <div className="flex items-center gap-2">
+              <Input
+                value={lane.id}
+                onChange={(e) => renameLane(index, e.target.value)}
+                disabled={!isOwner}
+                className="h-8 w-40 shrink-0 text-xs font-mono"
+                data-testid={`input-triage-lane-id-${index}`}
+              />
+              <Input
+                value={lane.description}
+                onChange={(e) => updateLane(index, { description: e.target.value })}
+                disabled={!isOwner}
+                placeholder="What belongs in this lane"
+                className="h-8 text-xs"
+                data-testid={`input-triage-lane-description-${index}`}
+              />
+              {isOwner && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => removeLane(index)}
+                  disabled={draft.lanes.length <= 1}
+                  data-testid={`button-remove-triage-lane-${index}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground block">Inbox type</label>
+                <Select value={lane.inboxType} onValueChange={(val) => updateLane(index, { inboxType: val as TriageLane["inboxType"] })} disabled={!isOwner}>
+                  <SelectTrigger className="h-7 text-xs" data-testid={`select-triage-lane-type-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {inboxTypeEnum.options.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground block">Project</label>
+                <Select
+                  value={lane.defaultProjectId || SUGGEST}
+                  onValueChange={(val) => updateLane(index, { defaultProjectId: val === SUGGEST ? null : val })}
+                  disabled={!isOwner}
+                >
+                  <SelectTrigger className="h-7 text-xs" data-testid={`select-triage-lane-project-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SUGGEST}>Suggested by AI</SelectItem>
+                    {projects.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground block">Priority</label>
+                <Select
+                  value={lane.defaultPriority || FROM_URGENCY}
+                  onValueChange={(val) => updateLane(index, { defaultPriority: val === FROM_URGENCY ? null : val as TriageLane["defaultPriority"] })}
+                  disabled={!isOwner}
+                >
+                  <SelectTrigger className="h-7 text-xs" data-testid={`select-triage-lane-priority-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FROM_URGENCY}>From urgency</SelectItem>
+                    {inboxPriorityEnum.options.map((priority) => (
+                      <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] text-muted-foreground block">Agent</label>
+                <Select value={lane.assignedAgent} onValueChange={(val) => updateLane(index, { assignedAgent: val as TriageLane["assignedAgent"] })} disabled={!isOwner}>
+                  <SelectTrigger className="h-7 text-xs" data-testid={`select-triage-lane-agent-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {triageAgentEnum.options.map((agent) => (
+                      <SelectItem key={agent} value={agent}>{AGENT_LABELS[agent]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        ))}
+        {isOwner && (
+          <Button size="sm" variant="outline" onClick={addLane} data-testid="button-add-triage-lane">
+            <Plus className="w-3 h-3 mr-1" />
+            Add Lane
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium">Fallback lane</label>
+        <Select value={draft.fallbackLane} onValueChange={(val) => setDraft({ ...draft, fallbackLane: val })} disabled={!isOwner}>
+          <SelectTrigger className="h-8 w-48 text-xs" data-testid="select-triage-fallback-lane">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {laneIds.filter(Boolean).map((id) => (
+              <SelectItem key={id} value={id}>{id}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-[10px] text-muted-foreground">Used when the triage agent is unavailable or answers with a lane that is not offered.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium">Pre-rules</label>
+        <p className="text-[10px] text-muted-foreground">
+          Checked in order before the triage agent. A ticket matches when its description contains any of the keywords and its reporter type is listed; an empty field matches anything.
+        </p>
+        {preRules.map((rule, index) => (
+          <div key={index} className="flex items-center gap-2" data-testid={`triage-pre-rule-${index}`}>
+            <Input
+              value={rule.keywords}
+              onChange={(e) => updatePreRule(index, { keywords: e.target.value })}
+              disabled={!isOwner}
+              placeholder="Keywords, comma-separated"
+              className="h-8 text-xs"
+              data-testid={`input-triage-pre-rule-keywords-${index}`}
+            />
+            <Input
+              value={rule.reporterTypes}
+              onChange={(e) => updatePreRule(index, { reporterTypes: e.target.value })}
+              disabled={!isOwner}
+              placeholder="Reporter types"
+              className="h-8 w-36 shrink-0 text-xs"
+              data-testid={`input-triage-pre-rule-reporters-${index}`}
+            />
+            <Select value={rule.lane} onValueChange={(val) => updatePreRule(index, { lane: val })} disabled={!isOwner}>
+              <SelectTrigger className="h-8 w-36 shrink-0 text-xs" data-testid={`select-triage-pre-rule-lane-${index}`}>
+                <SelectValue placeholder="Lane" />
+              </SelectTrigger>
+              <SelectContent>
+                {laneIds.filter(Boolean).map((id) => (
+                  <SelectItem key={id} value={id}>{id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={rule.urgency || KEEP_URGENCY}
+              onValueChange={(val) => updatePreRule(index, { urgency: val === KEEP_URGENCY ? null : val as TriagePreRule["urgency"] })}
+              disabled={!isOwner}
+            >
+              <SelectTrigger className="h-8 w-32 shrink-0 text-xs" data-testid={`select-triage-pre-rule-urgency-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_URGENCY}>Reported urgency</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+                <SelectItem value="normal">Normal</SelectItem>
+              </SelectContent>
+            </Select>
+            {isOwner && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setPreRules(preRules.filter((_, i) => i !== index))}
+                data-testid={`button-remove-triage-pre-rule-${index}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {isOwner && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPreRules([...preRules, { keywords: "", reporterTypes: "", lane: draft.fallbackLane, urgency: null }])}
+            data-testid="button-add-triage-pre-rule"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add Pre-rule
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium">Rules (one per line)</label>
+        <Textarea
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          disabled={!isOwner}
+          rows={4}
+          className="text-xs font-mono"
+          data-testid="input-triage-rules"
+        />
+        <p className="text-[10px] text-muted-foreground">Extra instructions for the triage agent.</p>
+      </div>
+
+      <div className="space-y-2 rounded-md border border-border p-3">
+        <label className="text-xs font-medium flex items-center gap-1.5">
+          <FlaskConical className="w-3.5 h-3.5" />
+          Try it
+        </label>
+        <div className="flex items-center gap-2">
+          <Input
+            value={testDescription}
+            onChange={(e) => setTestDescription(e.target.value)}
+            placeholder="A ticket description, e.g. The upload button does nothing on the route page"
+            className="h-8 text-xs"
+            data-testid="input-triage-test"
+          />
+          <Input
+            value={testReporter}
+            onChange={(e) => setTestReporter(e.target.value)}
+            placeholder="Reporter type"
+            className="h-8 w-32 shrink-0 text-xs"
+            data-testid="input-triage-test-reporter"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={!testDescription.trim() || testMutation.isPending}
+            data-testid="button-triage-test"
+          >
+            {testMutation.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : "Triage"}
+          </Button>
+        </div>
+        {testMutation.data && (
+          <div className="space-y-1" data-testid="text-triage-test-result">
+            <div className="flex items-center gap-1.5 flex-wrap">
+              <Badge variant="secondary" className="text-[10px]">{testMutation.data.lane}</Badge>
+              <Badge variant="outline" className="text-[10px]">{testMutation.data.urgency}</Badge>
+              <Badge variant="outline" className="text-[10px]">{testMutation.data.routing.inboxType}</Badge>
+              <Badge variant="outline" className="text-[10px]">{testMutation.data.routing.priority}</Badge>
+              <span className="text-[10px] text-muted-foreground">
+                {testMutation.data.routing.projectId
+                  ? projects.find((p) => p.id === testMutation.data.routing.projectId)?.name || testMutation.data.routing.projectId
+                  : "project suggested by AI"}
+                {" · "}
+                {testMutation.data.assigned_agent ? AGENT_LABELS[testMutation.data.assigned_agent] : "no agent"}
+              </span>
+            </div>
+            <p className="text-xs">
+              {testMutation.data.triage_notes}
+              <span className="text-muted-foreground"> ({testMutation.data.confidence}% confident)</span>
+            </p>
+          </div>
+        )}
+      </div>
+
+      {isOwner && (
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => saveMutation.mutate(null)}
+            disabled={saveMutation.isPending || !data?.isCustom}
+            data-testid="button-reset-triage-config"
+          >
+            <RotateCcw className="w-3.5 h-3.5 mr-1" />
+            Reset to Default
+          </Button>
+          <Button size="sm" onClick={() => saveMutation.mutate(current)} disabled={saveMutation.isPending} data-testid="button-save-triage-config">
+            <Save className="w-4 h-4 mr-1" />
+            {saveMutation.isPending ? "Saving..." : "Save Triage Settings"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function TicketCallbacks({ bizId, isOwner }: { bizId: string; isOwner: boolean }) {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<TicketEvent[]>([...ticketEventEnum.options]);
+
+  const { data: callbacks = [] } = useQuery<TicketCallback[]>({
+    queryKey: ["/api/businesses", bizId, "ticket-callbacks"],
+    enabled: isOwner,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/businesses/${bizId}/ticket-callbacks`, { url, events });
+      return res.json() as Promise<{ callback: TicketCallback; secret: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "ticket-callbacks"] });
+      queryClient.setQueryData(["/api/businesses", bizId, "ticket-callbacks", data.callback.id, "secret"], { secret: data.secret });
+      setUrl("");
+      toast({ title: "Callback added", description: "Use its secret to verify the X-Signature-256 header." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not add callback", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (!isOwner) {
+    return <p className="text-xs text-muted-foreground">Only owners can manage ticket callbacks.</p>;
+  }
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="ticket-callbacks">
+      <div className="flex items-center gap-2">
+        <Bell className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Status Callbacks</span>
+        <Badge variant="secondary" className="text-xs">{callbacks.length}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each event is POSTed as JSON with the headers <span className="font-mono">X-Ticket-Event</span>, <span className="font-mono">X-Delivery-Id</span> and
+        {" "}<span className="font-mono">X-Signature-256</span> (<span className="font-mono">sha256=</span> HMAC of the body with the callback's secret).
+        Failed deliveries are retried for about 15 hours before they are listed as failed below.
+      </p>
+
+      {callbacks.map((callback) => (
+        <CallbackRow key={callback.id} bizId={bizId} callback={callback} />
+      ))}
+
+      <div className="space-y-2 rounded-md border border-dashed border-border p-3">
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://reporting-app.example.com/hooks/tickets"
+          className="h-8 text-xs font-mono"
+          data-testid="input-callback-url"
+        />
+        <div className="flex items-center gap-3 flex-wrap">
+          {ticketEventEnum.options.map((event) => (
+            <label key={event} className="flex items-center gap-1.5 text-xs">
+              <Checkbox
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => setEvents(checked ? [...events, event] : events.filter((e) => e !== event))}
+              />
+              {EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          onClick={() => createMutation.mutate()}
+          disabled={!url.trim() || events.length === 0 || createMutation.isPending}
+          data-testid="button-add-callback"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Callback
+        </Button>
+      </div>
+
+      <FailedCallbackDeliveries bizId={bizId} />
+    </Card>
+  );
+}
+
+function CallbackRow({ bizId, callback }: { bizId: string; callback: TicketCallback }) {
+  const { toast } = useToast();
+  const [showSecret, setShowSecret] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const secretKey = ["/api/businesses", bizId, "ticket-callbacks", callback.id, "secret"];
+
+  const { data: secret } = useQuery<{ secret: string }>({
+    queryKey: secretKey,
+    enabled: showSecret,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "ticket-callbacks"] });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<TicketCallback, "events" | "active">>) => {
+      const res = await apiRequest("PATCH", `/api/businesses/${bizId}/ticket-callbacks/${callback.id}`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Could not update callback", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/businesses/${bizId}/ticket-callbacks/${callback.id}/secret`);
+      return res.json() as Promise<{ secret: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(secretKey, data);
+      setShowSecret(true);
+      toast({ title: "Callback secret regenerated", description: "Deliveries are signed with the new secret from now on." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not regenerate secret", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/businesses/${bizId}/ticket-callbacks/${callback.id}`),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "callback-deliveries"] });
+      setConfirmDelete(false);
+      toast({ title: "Callback removed" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not remove callback", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="rounded-md border border-border p-3 space-y-2" data-testid={`callback-${callback.id}`}>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={callback.active}
+          onCheckedChange={(active) => updateMutation.mutate({ active })}
+          data-testid={`switch-callback-active-${callback.id}`}
+        />
+        <span className={`text-xs font-mono truncate flex-1 ${callback.active ? "" : "text-muted-foreground line-through"}`}>{callback.url}</span>
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setConfirmDelete(true)} data-testid={`button-delete-callback-${callback.id}`}>
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-3 flex-wrap">
+        {ticketEventEnum.options.map((event) => (
+          <label key={event} className="flex items-center gap-1.5 text-xs">
+            <Checkbox
+              checked={callback.events.includes(event)}
+              onCheckedChange={(checked) => updateMutation.mutate({
+                events: checked ? [...callback.events, event] : callback.events.filter((e) => e !== event),
+              })}
+              disabled={updateMutation.isPending || (callback.events.length === 1 && callback.events.includes(event))}
+            />
+            {EVENT_LABELS[event]}
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          readOnly
+          type={showSecret ? "text" : "password"}
+          value={showSecret ? secret?.secret || "" : "••••••••••••"}
+          className="h-7 text-xs font-mono"
+          data-testid={`input-callback-secret-${callback.id}`}
+        />
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setShowSecret(!showSecret)}>
+          {showSecret ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+        </Button>
+        {showSecret && secret?.secret && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => {
+              navigator.clipboard.writeText(secret.secret);
+              toast({ title: "Callback secret copied" });
+            }}
+          >
+            <Copy className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => rotateMutation.mutate()}
+          disabled={rotateMutation.isPending}
+          data-testid={`button-rotate-callback-secret-${callback.id}`}
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Regenerate
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Callback</AlertDialogTitle>
+            <AlertDialogDescription>
+              {callback.url} will no longer be notified, and its queued and failed deliveries are discarded.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()} className="bg-destructive text-destructive-foreground">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/** The dead-letter queue: deliveries that ran out of attempts, to be sent again or discarded. */
+function FailedCallbackDeliveries({ bizId }: { bizId: string }) {
+  const { toast } = useToast();
+
+  const { data: deliveries = [] } = useQuery<CallbackDelivery[]>({
+    queryKey: ["/api/businesses", bizId, "callback-deliveries"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "callback-deliveries"] });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/businesses/${bizId}/callback-deliveries/${id}/retry`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Delivery queued again" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Could not retry delivery", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/businesses/${bizId}/callback-deliveries/${id}`),
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast({ title: "Could not discard delivery", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (deliveries.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5" data-testid="failed-callback-deliveries">
+      <p className="text-xs font-medium text-destructive">Failed deliveries ({deliveries.length})</p>
+      <div className="divide-y divide-border rounded-md border border-destructive/30">
+        {deliveries.map((delivery) => (
+          <div key={delivery.id} className="flex items-center gap-2 px-3 py-2" data-testid={`failed-delivery-${delivery.id}`}>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs">
+                <Badge variant="outline" className="text-[10px] mr-1.5">{EVENT_LABELS[delivery.event]}</Badge>
+                Ticket #{delivery.ticketId}
+                <span className="text-muted-foreground"> · {new Date(delivery.createdAt).toLocaleString()}</span>
+              </p>
+              <p className="text-[10px] text-muted-foreground truncate">
+                <span className="font-mono">{delivery.url}</span> · {delivery.attempts} attempts · {delivery.lastError}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              onClick={() => retryMutation.mutate(delivery.id)}
+              disabled={retryMutation.isPending}
+              data-testid={`button-retry-delivery-${delivery.id}`}
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Retry
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => discardMutation.mutate(delivery.id)}
+              disabled={discardMutation.isPending}
+              data-testid={`button-discard-delivery-${delivery.id}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAppState } from "@/lib/store";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Plus, RotateCcw, Trash2 } from "lucide-react";
+import type { Project, TaskWorkflow, WorkflowCategory } from "@shared/schema";
+
+const CATEGORY_LABELS: Record<WorkflowCategory, string> = {
+  todo: "To do",
+  in_progress: "In progress",
+  review: "In review",
+  done: "Done",
+};
+
+const ROLE_FIELDS = [
+  { key: "initialStatus", label: "New tasks start in" },
+  { key: "startStatus", label: "Start Work moves to" },
+  { key: "webhookStatus", label: "Commits and merged PRs move to" },
+] as const;
+
+interface WorkflowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+  canEdit: boolean;
+}
+
+/** Edits a project's statuses, the moves allowed between them, and which statuses the app moves tasks to on its own. */
+export function WorkflowDialog({ open, onOpenChange, project, canEdit }: WorkflowDialogProps) {
+  const { toast } = useToast();
+  const { selectedBusinessId } = useAppState();
+  const [draft, setDraft] = useState<TaskWorkflow>(project.workflow);
+
+  useEffect(() => {
+    if (open) setDraft(project.workflow);
+  }, [open, project.workflow]);
+
+  const mutation = useMutation({
+    mutationFn: async (workflow: TaskWorkflow | null) => {
+      const res = await apiRequest("PUT", `/api/businesses/${selectedBusinessId}/projects/${project.id}/workflow`, { workflow });
+      return res.json();
+    },
+    onSuccess: (_data, workflow) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "tasks"] });
+      toast({ title: workflow ? "Workflow saved" : "Workflow reset to default" });
+      onOpenChange(false);
+    },
+    onError: (err: Error) => {
+      let message = err.message.replace(/^\d+:\s*/, "");
+      try { message = JSON.parse(message).message || message; } catch {}
+      toast({ title: "Could not save workflow", description: message, variant: "destructive" });
+    },
+  });
+
+  const names = draft.statuses.map((s) => s.name);
+
+  // Renames carry over to every place that refers to the status by name
+  const renameStatus = (index: number, name: string) => {
+    const old = draft.statuses[index].name;
+    const rename = (value: string) => (value === old ? name : value);
+    const transitions: TaskWorkflow["transitions"] = {};
+    for (const [from, targets] of Object.entries(draft.transitions)) {
+      transitions[rename(from)] = targets.map(rename);
+    }
+    setDraft({
+      statuses: draft.statuses.map((s, i) => (i === index ? { ...s, name } : s)),
+      transitions,
+      initialStatus: rename(draft.initialStatus),
+      startStatus: rename(draft.startStatus),
+      webhookStatus: rename(draft.webhookStatus),
+    });
+  };
+
+  const removeStatus = (index: number) => {
+    const removed = draft.statuses[index].name;
+    const statuses = draft.statuses.filter((_, i) => i !== index);
+    const fallback = statuses[0]?.name || "";
+    const replace = (value: string) => (value === removed ? fallback : value);
+    const transitions: TaskWorkflow["transitions"] = {};
+    for (const [from, targets] of Object.entries(draft.transitions)) {
+      if (from !== removed) transitions[from] = targets.filter((t) => t !== removed);
+    }
+    setDraft({
+      statuses,
+      transitions,
+      initialStatus: replace(draft.initialStatus),
+      startStatus: replace(draft.startStatus),
+      webhookStatus: replace(draft.webhookStatus),
+    });
+  };
+
+  const addStatus = () => {
+    let name = "New Status";
+    for (let n = 2; names.includes(name); n++) name = `New Status ${n}`;
+    setDraft({ ...draft, statuses: [...draft.statuses, { name, category: "todo" }] });
+  };
+
+  // A status without a transitions entry may move anywhere; restricting it starts from every other status
+  const setRestricted = (from: string, restricted: boolean) => {
+    const transitions = { ...draft.transitions };
+    if (restricted) transitions[from] = names.filter((n) => n !== from);
+    else delete transitions[from];
+    setDraft({ ...draft, transitions });
+  };
+
+  const toggleTarget = (from: string, to: string, allowed: boolean) => {
+    const current = draft.transitions[from] || [];
+    const targets = allowed ? [...current, to] : current.filter((t) => t !== to);
+    setDraft({ ...draft, transitions: { ...draft.transitions, [from]: targets } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Task Workflow</DialogTitle>
+          <DialogDescription>
+            Statuses for tasks in {project.name}. The category decides how a status is counted and which actions it offers; the WIP limit flags a board column holding more tasks than that.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Statuses</label>
+            {draft.statuses.map((status, index) => (
+              <div key={index} className="flex items-center gap-2" data-testid={`workflow-status-${index}`}>
+                <Input
+                  value={status.name}
+                  onChange={(e) => renameStatus(index, e.target.value)}
+                  disabled={!canEdit}
+                  className="h-8 text-sm"
+                  data-testid={`input-workflow-status-${index}`}
+                />
+                <Select
+                  value={status.category}
+                  onValueChange={(val) => setDraft({
+                    ...draft,
+                    statuses: draft.statuses.map((s, i) => (i === index ? { ...s, category: val as WorkflowCategory } : s)),
+                  })}
+                  disabled={!canEdit}
+                >
+                  <SelectTrigger className="h-8 w-36 text-xs shrink-0" data-testid={`select-workflow-category-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CATEGORY_LABELS) as WorkflowCategory[]).map((category) => (
+                      <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="WIP limit"
+                  title="Board column limit (leave empty for none)"
+                  value={status.wipLimit ?? ""}
+                  onChange={(e) => {
+                    const limit = parseInt(e.target.value, 10);
+                    setDraft({
+                      ...draft,
+                      statuses: draft.statuses.map((s, i) => (i === index ? { ...s, wipLimit: limit > 0 ? limit : undefined } : s)),
+                    });
+                  }}
+                  disabled={!canEdit}
+                  className="h-8 w-24 text-xs shrink-0"
+                  data-testid={`input-workflow-wip-${index}`}
+                />
+                {canEdit && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => removeStatus(index)}
+                    disabled={draft.statuses.length <= 1}
+                    data-testid={`button-remove-workflow-status-${index}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={addStatus} data-testid="button-add-workflow-status">
+                <Plus className="w-3 h-3 mr-1" />
+                Add Status
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {ROLE_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <label className="text-xs text-muted-foreground block">{label}</label>
+                <Select
+                  value={draft[key]}
+                  onValueChange={(val) => setDraft({ ...draft, [key]: val })}
+                  disabled={!canEdit}
+                >
+                  <SelectTrigger className="h-8 text-xs" data-testid={`select-workflow-${key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {names.filter(Boolean).map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Allowed moves</label>
+            {names.map((from) => {
+              const targets = draft.transitions[from];
+              return (
+                <div key={from} className="rounded-md border border-border p-2.5 space-y-2" data-testid={`workflow-transitions-${from}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-medium">From {from || "(unnamed)"}</span>
+                    <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Checkbox
+                        checked={!targets}
+                        onCheckedChange={(checked) => setRestricted(from, !checked)}
+                        disabled={!canEdit}
+                      />
+                      Any status
+                    </label>
+                  </div>
+                  {targets && (
+                    <div className="flex items-center gap-3 flex-wrap">
+                      {names.filter((to) => to !== from).map((to) => (
+                        <label key={to} className="flex items-center gap-1.5 text-xs">
+                          <Checkbox
+                            checked={targets.includes(to)}
+                            onCheckedChange={(checked) => toggleTarget(from, to, !!checked)}
+                            disabled={!canEdit}
+                          />
+                          {to}
+                        </label>
+                      ))}
+                      {targets.length === 0 && (
+                        <span className="text-[10px] text-muted-foreground">Tasks cannot leave this status.</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {canEdit ? (
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => mutation.mutate(null)}
+                disabled={mutation.isPending || !project.hasCustomWorkflow}
+                data-testid="button-reset-workflow"
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                Reset to Default
+              </Button>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                <Button onClick={() => mutation.mutate(draft)} disabled={mutation.isPending} data-testid="button-save-workflow">
+                  {mutation.isPending && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                  Save Workflow
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Only business owners can change the workflow.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { Login, UserSafe } from "@shared/schema";
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<UserSafe | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    staleTime: Infinity,
+  });
+
+  const onAuthenticated = (data: UserSafe) => {
+    queryClient.clear();
+    queryClient.setQueryData(AUTH_QUERY_KEY, data);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (data: Login) => {
+      const res = await apiRequest("POST", "/api/auth/login", data);
+      return res.json() as Promise<UserSafe>;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: Login) => {
+      const res = await apiRequest("POST", "/api/auth/register", data);
+      return res.json() as Promise<UserSafe>;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Zap, Loader2 } from "lucide-react";
+import { loginSchema, type Login } from "@shared/schema";
+
+export default function AuthPage() {
+  const { loginMutation, registerMutation } = useAuth();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"login" | "register">("login");
+
+  const { data: registration } = useQuery<{ open: boolean }>({
+    queryKey: ["/api/auth/registration"],
+  });
+  const registrationOpen = !!registration?.open;
+
+  const form = useForm<Login>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (data: Login) => {
+    mutation.mutate(data, {
+      onError: (err: Error) => {
+        toast({ title: mode === "login" ? "Sign in failed" : "Sign up failed", description: err.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen w-full p-4 bg-background">
+      <Card className="w-full max-w-sm p-6">
+        <div className="flex items-center gap-2 mb-1">
+          <Zap className="w-5 h-5 text-primary" />
+          <h1 className="text-lg font-semibold">AI Dev Hub</h1>
+        </div>
+        <p className="text-sm text-muted-foreground mb-6">
+          {mode === "login" ? "Sign in to continue." : "Create an account to get started."}
+        </p>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="username" {...field} data-testid="input-auth-username" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete={mode === "login" ? "current-password" : "new-password"}
+                      {...field}
+                      data-testid="input-auth-password"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid="button-auth-submit">
+              {mutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {mode === "login" ? "Sign In" : "Create Account"}
+            </Button>
+          </form>
+        </Form>
+        {registrationOpen && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full mt-2"
+            onClick={() => setMode(mode === "login" ? "register" : "login")}
+            data-testid="button-auth-toggle-mode"
+          >
+            {mode === "login" ? "No account yet? Create one" : "Already have an account? Sign in"}
+          </Button>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -3,8 +3,8 @@ import { useAppState } from "@/lib/store";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { History, ArrowRight } from "lucide-react";
-import type { ChangelogEntry } from "@shared/schema";
+import { History, ArrowRight, User, Webhook, Bot, BrainCircuit, Plus, type LucideIcon } from "lucide-react";
+import type { ChangelogActor, ChangelogEntry } from "@shared/schema";
 
 const statusColors: Record<string, string> = {
   Open: "bg-blue-500/15 text-blue-400 border-blue-500/20",
@@ -13,6 +13,13 @@ const statusColors: Record<string, string> = {
   Done: "bg-green-500/15 text-green-400 border-green-500/20",
 };
 
+const actorDisplay: Record<ChangelogActor, { label: string; icon: LucideIcon }> = {
+  user: { label: "User", icon: User },
+  webhook: { label: "Webhook", icon: Webhook },
+  agent: { label: "Agent", icon: Bot },
+  manager: { label: "Manager", icon: BrainCircuit },
+};
+
 export default function ChangelogView() {
   const { selectedBusinessId } = useAppState();
 
@@ -66,39 +73,56 @@ export default function ChangelogView() {
                 {changelog
                   .slice()
                   .reverse()
-                  .map((entry) => (
-                    <div
-                      key={entry.id}
-                      className="flex gap-3 relative"
-                      data-testid={`changelog-entry-${entry.id}`}
-                    >
-                      <div className="w-9 h-9 rounded-full bg-muted flex items-center justify-center shrink-0 z-10">
-                        <History className="w-4 h-4 text-muted-foreground" />
-                      </div>
-                      <div className="flex-1 pt-1 min-w-0">
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <span className="font-mono text-xs text-muted-foreground">
-                            {entry.taskId}
-                          </span>
-                          <span className="text-sm font-medium truncate">
-                            {entry.taskTitle}
-                          </span>
+                  .map((entry) => {
+                    const actor = entry.actor ? actorDisplay[entry.actor] : null;
+                    const ActorIcon = actor?.icon || History;
+                    return (
+                      <div
+                        key={entry.id}
+                        className="flex gap-3 relative"
+                        data-testid={`changelog-entry-${entry.id}`}
+                      >
+                        <div className="w-9 h-9 rounded-full bg-muted flex items-center justify-center shrink-0 z-10" title={actor?.label}>
+                          <ActorIcon className="w-4 h-4 text-muted-foreground" />
                         </div>
-                        <div className="flex items-center gap-1.5 mt-1 flex-wrap">
-                          <span className={`inline-flex items-center text-[10px] px-1.5 py-0.5 rounded-md border ${statusColors[entry.fromStatus] || ""}`}>
-                            {entry.fromStatus}
-                          </span>
-                          <ArrowRight className="w-3 h-3 text-muted-foreground" />
-                          <span className={`inline-flex items-center text-[10px] px-1.5 py-0.5 rounded-md border ${statusColors[entry.toStatus] || ""}`}>
-                            {entry.toStatus}
-                          </span>
-                          <span className="text-[10px] text-muted-foreground ml-1">
-                            {new Date(entry.timestamp).toLocaleString()}
-                          </span>
+                        <div className="flex-1 pt-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="font-mono text-xs text-muted-foreground">
+                              {entry.taskId}
+                            </span>
+                            <span className="text-sm font-medium truncate">
+                              {entry.taskTitle}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-1.5 mt-1 flex-wrap">
+                            {entry.fromStatus ? (
+                              <span className={`inline-flex items-center text-[10px] px-1.5 py-0.5 rounded-md border ${statusColors[entry.fromStatus] || ""}`}>
+                                {entry.fromStatus}
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center gap-0.5 text-[10px] text-muted-foreground">
+                                <Plus className="w-3 h-3" />
+                                Created
+                              </span>
+                            )}
+                            <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                            <span className={`inline-flex items-center text-[10px] px-1.5 py-0.5 rounded-md border ${statusColors[entry.toStatus] || ""}`}>
+                              {entry.toStatus}
+                            </span>
+                            {actor && (
+                              <Badge variant="outline" className="text-[10px] ml-1" data-testid={`changelog-actor-${entry.id}`}>
+                                {actor.label}
+                                {entry.actorName && <span className="text-muted-foreground font-normal ml-1">· {entry.actorName}</span>}
+                              </Badge>
+                            )}
+                            <span className="text-[10px] text-muted-foreground ml-1">
+                              {new Date(entry.timestamp).toLocaleString()}
+                            </span>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
               </div>
             </div>
           )}
@@ -46,6 +46,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { GitHubFile, Task, Project, RepositorySafe } from "@shared/schema";
+import { statusCategory } from "@shared/taskWorkflow";
 import { queryClient, apiRequest, safeJsonParse } from "@/lib/queryClient";
 import ReactMarkdown from "react-markdown";
 
@@ -186,12 +187,12 @@ export default function FilesView() {
     retry: 1,
   });
 
-  const { data: allTasks = [] } = useQuery<{ project: { id: string; name: string }; tasks: Task[] }[]>({
+  const { data: allTasks = [] } = useQuery<{ project: Project; tasks: Task[] }[]>({
     queryKey: ["/api/businesses", bizId, "tasks"],
     enabled: !!bizId,
   });
 
-  const openTasks = allTasks.flatMap((g) => g.tasks).filter((t) => t.status !== "Done");
+  const openTasks = allTasks.flatMap((g) => g.tasks.filter((t) => statusCategory(g.project.workflow, t.status) !== "done"));
 
   const { data: projects = [] } = useQuery<Project[]>({
     queryKey: ["/api/businesses", bizId, "projects"],
@@ -244,7 +245,6 @@ export default function FilesView() {
       const res = await apiRequest("POST", `/api/businesses/${bizId}/projects/${params.projectId}/tasks`, {
         title: params.task.title,
         type: params.task.type,
-        status: "Open",
         priority: params.task.priority,
         description: params.task.description,
         reasoning: params.task.reasoning,
@@ -661,16 +661,18 @@ export default function FilesView() {
                                     for (const g of allTasks) {
                                       const task = g.tasks.find((t) => t.id === reviewSourceTaskId);
                                       if (task) {
-                                        if (task.status === "Quality Review") {
-                                          toast({ title: "Task is already in Quality Review" });
+                                        // Same target as a commit mentioning the task would pick
+                                        const reviewStatus = g.project.workflow.webhookStatus;
+                                        if (task.status === reviewStatus) {
+                                          toast({ title: `Task is already in ${reviewStatus}` });
                                           return;
                                         }
                                         await apiRequest("PUT", `/api/businesses/${bizId}/projects/${g.project.id}/tasks/${task.id}`, {
-                                          status: "Quality Review",
+                                          status: reviewStatus,
                                         });
                                         queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "tasks"] });
                                         queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "changelog"] });
-                                        toast({ title: `${task.id} moved to Quality Review` });
+                                        toast({ title: `${task.id} moved to ${reviewStatus}` });
                                         found = true;
                                         break;
                                       }
@@ -685,7 +687,7 @@ export default function FilesView() {
                                 data-testid="button-mark-quality-review"
                               >
                                 <CheckCircle2 className="w-3 h-3 mr-1.5" />
-                                Mark as Quality Review
+                                Move to Review
                               </Button>
                             )}
                             <Button
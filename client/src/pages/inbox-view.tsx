@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { TicketAttachments } from "@/components/ticket-attachments";
 import {
   Select,
   SelectContent,
@@ -49,7 +50,7 @@ import {
   XCircle,
   GitMerge,
 } from "lucide-react";
-import type { InboxItem, Project, Task } from "@shared/schema";
+import type { Attachment, InboxItem, Project, Task } from "@shared/schema";
 
 const typeConfig: Record<string, { icon: typeof Bug; color: string }> = {
   Bug: { icon: Bug, color: "text-red-400" },
@@ -158,38 +159,39 @@ interface CoolDispatchParsed {
   duplicateReasoning: string;
   suggestedProject: string;
   assignedAgent: string;
+  lane: string;
   ticketId: number | null;
+  attachments: Attachment[];
 }
 
 function parseCoolDispatchItem(item: InboxItem): CoolDispatchParsed {
+  // The triage note is also appended to the description so it travels with the task
   const sep = "\n\n---\nTriage:";
   const sepIdx = item.description?.indexOf(sep) ?? -1;
   const actualDescription = sepIdx >= 0
     ? (item.description ?? "").slice(0, sepIdx).trim()
     : (item.description ?? "");
-  const triageNote = sepIdx >= 0
-    ? (item.description ?? "").slice(sepIdx + sep.length).trim()
-    : "";
-
-  let notes: any = {};
-  try { notes = JSON.parse(item.notes || "{}"); } catch {}
+  const triage = item.triage;
 
   return {
     actualDescription,
-    triageNote,
-    pageUrl: notes.pageUrl || "",
-    triageConfidence: notes.triageConfidence ?? null,
-    hasDuplicate: notes.duplicateCheck?.hasDuplicate ?? false,
-    duplicateReasoning: notes.duplicateCheck?.reasoning || "",
-    suggestedProject: notes.suggestedProject || "",
-    assignedAgent: notes.assignedAgent || "",
-    ticketId: notes.ticketId ?? null,
+    triageNote: triage?.notes || "",
+    pageUrl: triage?.pageUrl || "",
+    triageConfidence: triage?.confidence ?? null,
+    hasDuplicate: triage?.duplicateCheck.hasDuplicate ?? false,
+    duplicateReasoning: triage?.duplicateCheck.reasoning || "",
+    suggestedProject: triage?.suggestedProjectId || "",
+    assignedAgent: triage?.assignedAgent || "",
+    lane: triage?.lane || "",
+    ticketId: item.ticketId,
+    attachments: triage?.attachments || [],
   };
 }
 
 interface ApproveOverrides {
   projectId: string;
   agentOverride: string;
+  typeOverride: string;
   priorityOverride: string;
   titleOverride: string;
   descriptionOverride: string;
@@ -216,13 +218,13 @@ function CoolDispatchPendingCard({
   const [title, setTitle] = useState(item.title);
   const [editingDesc, setEditingDesc] = useState(false);
   const [description, setDescription] = useState(parsed.actualDescription);
-  const [lane, setLane] = useState(item.type || "Bug");
+  const [type, setType] = useState(item.type || "Bug");
   const [priority, setPriority] = useState(item.priority || "Medium");
   const [agent, setAgent] = useState(parsed.assignedAgent || "");
   const [projectId, setProjectId] = useState(parsed.suggestedProject || "");
 
   const handleApprove = () => {
-    onApprove({ projectId, agentOverride: agent, priorityOverride: priority, titleOverride: title, descriptionOverride: description });
+    onApprove({ projectId, agentOverride: agent, typeOverride: type, priorityOverride: priority, titleOverride: title, descriptionOverride: description });
   };
 
   return (
@@ -240,6 +242,11 @@ function CoolDispatchPendingCard({
             <Badge variant="outline" className="text-[10px] border-amber-500/40 text-amber-400/80">
               cool_dispatch
             </Badge>
+            {parsed.lane && (
+              <Badge variant="outline" className="text-[10px] font-mono" data-testid={`badge-lane-${item.id}`}>
+                {parsed.lane}
+              </Badge>
+            )}
           </div>
           <span className="text-[10px] text-muted-foreground shrink-0">
             {new Date(item.dateReceived).toLocaleDateString()}
@@ -291,6 +298,8 @@ function CoolDispatchPendingCard({
           {parsed.pageUrl && (
             <p className="text-[11px] text-muted-foreground font-mono">Page: {parsed.pageUrl}</p>
           )}
+
+          <TicketAttachments attachments={parsed.attachments} label="Screenshots & files" />
         </div>
 
         {/* TRIAGE PROPOSAL: editable dropdowns */}
@@ -298,16 +307,16 @@ function CoolDispatchPendingCard({
           <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground mb-2">Triage proposal</p>
           <div className="grid grid-cols-2 gap-2">
             <div>
-              <label className="text-[10px] text-muted-foreground block mb-1">Lane</label>
-              <Select value={lane} onValueChange={setLane}>
-                <SelectTrigger className="h-7 text-xs" data-testid={`select-lane-${item.id}`}>
+              <label className="text-[10px] text-muted-foreground block mb-1">Type</label>
+              <Select value={type} onValueChange={(v) => setType(v as InboxItem["type"])}>
+                <SelectTrigger className="h-7 text-xs" data-testid={`select-type-${item.id}`}>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="Bug">Bug</SelectItem>
+                  <SelectItem value="Feature">Feature</SelectItem>
+                  <SelectItem value="Idea">Idea</SelectItem>
                   <SelectItem value="Improvement">Improvement</SelectItem>
-                  <SelectItem value="Alert">Alert</SelectItem>
-                  <SelectItem value="Knowledge">Knowledge</SelectItem>
                 </SelectContent>
               </Select>
             </div>
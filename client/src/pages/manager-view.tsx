@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -55,10 +56,13 @@ import {
   Wrench,
   ExternalLink,
   Play,
+  History,
 } from "lucide-react";
 import { DiffView } from "@/components/diff-view";
+import { PullRequestStatus } from "@/components/pr-status";
 import { AgentRunFeed } from "@/components/agent-run-feed";
-import type { ManagerMessage, ManagerAction, ManagerAlert, ChangelogEntry, CodeFix, CodeFixFile } from "@shared/schema";
+import type { ManagerMessage, ManagerAction, ManagerAlert, ChangelogEntry, CodeFix, CodeFixFile, AgentBudget, Project } from "@shared/schema";
+import { statusCategory } from "@shared/taskWorkflow";
 
 interface ManagerData {
   messages: ManagerMessage[];
@@ -469,6 +473,11 @@ function CodeFixCard({ codeFix, businessId }: { codeFix: CodeFix; businessId: st
           <Badge variant="secondary" className="text-[9px]">{codeFix.files.length} file{codeFix.files.length !== 1 ? "s" : ""}</Badge>
           <Badge variant="secondary" className="text-[9px] capitalize">{codeFix.status.replace("_", " ")}</Badge>
         </div>
+        {codeFix.prState && (
+          <div className="mb-2">
+            <PullRequestStatus codeFix={codeFix} />
+          </div>
+        )}
 
         <div className="text-xs text-muted-foreground mb-2">{codeFix.description}</div>
         <div className="text-[10px] font-mono text-muted-foreground/70 mb-3">
@@ -545,6 +554,9 @@ function CodeFixCard({ codeFix, businessId }: { codeFix: CodeFix; businessId: st
   );
 }
 
+// Remembers the business's in-flight agent run so a reload can reattach to it
+const ACTIVE_AGENT_RUN_KEY = "ai-dev-hub-agent-run:";
+
 export default function ManagerView() {
   const { selectedBusinessId } = useAppState();
   const { toast } = useToast();
@@ -557,8 +569,11 @@ export default function ManagerView() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [projectFocusId, setProjectFocusId] = useState<string | null>(null);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
-  const [agentRun, setAgentRun] = useState<{ taskId: string; projectId: string; instructions?: string; deployMode?: string } | null>(null);
+  const [agentRun, setAgentRun] = useState<{ runId?: string; taskId?: string; projectId?: string; instructions?: string; deployMode?: string; reviewBeforeDeploy?: boolean; budget?: AgentBudget } | null>(null);
+  const [replayRunId, setReplayRunId] = useState<string | null>(null);
   const [deployMode, setDeployMode] = useState<"push" | "pr">("push");
+  const [reviewBeforeDeploy, setReviewBeforeDeploy] = useState(true);
+  const [maxCostUsd, setMaxCostUsd] = useState("");
 
   const { data, isLoading } = useQuery<ManagerData>({
     queryKey: ["/api/businesses", selectedBusinessId, "manager"],
@@ -566,6 +581,11 @@ export default function ManagerView() {
     refetchInterval: 30000,
   });
 
+  const { data: focusedProject } = useQuery<Project>({
+    queryKey: ["/api/businesses", selectedBusinessId, "projects", projectFocusId],
+    enabled: !!selectedBusinessId && !!projectFocusId,
+  });
+
   const { data: focusedProjectTasks } = useQuery<any[]>({
     queryKey: ["/api/businesses", selectedBusinessId, "projects", projectFocusId, "tasks"],
     enabled: !!selectedBusinessId && !!projectFocusId,
@@ -577,6 +597,12 @@ export default function ManagerView() {
     setRepoScanData(null);
   }, [selectedBusinessId]);
 
+  useEffect(() => {
+    const activeRunId = selectedBusinessId ? localStorage.getItem(ACTIVE_AGENT_RUN_KEY + selectedBusinessId) : null;
+    setAgentRun(activeRunId ? { runId: activeRunId } : null);
+    setReplayRunId(null);
+  }, [selectedBusinessId]);
+
   const chatMutation = useMutation({
     mutationFn: async (payload: { message?: string; mode: string; scanRepos?: boolean; fetchFiles?: string[]; attachments?: { name: string; content: string; type: string }[]; projectFocusId?: string | null }) => {
       const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/manager/chat`, payload);
@@ -1064,6 +1090,24 @@ export default function ManagerView() {
                     </div>
                   </div>
 
+                  {msg.sender === "manager" && msg.agentRunId && (
+                    <div className="mt-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 text-[11px] gap-1 text-emerald-500"
+                        onClick={() => setReplayRunId(replayRunId === msg.agentRunId ? null : msg.agentRunId!)}
+                        data-testid={`button-replay-run-${msg.id}`}
+                      >
+                        <History className="w-3 h-3" />
+                        {replayRunId === msg.agentRunId ? "Hide agent run" : "Replay agent run"}
+                      </Button>
+                      {replayRunId === msg.agentRunId && (
+                        <AgentRunFeed businessId={selectedBusinessId} runId={msg.agentRunId} />
+                      )}
+                    </div>
+                  )}
+
                   {msg.sender === "manager" && (msg as any).codeFix && (
                     <CodeFixCard
                       codeFix={(msg as any).codeFix}
@@ -1106,11 +1150,16 @@ export default function ManagerView() {
               <div className="w-full">
                 <AgentRunFeed
                   businessId={selectedBusinessId}
+                  runId={agentRun.runId}
                   taskId={agentRun.taskId}
                   projectId={agentRun.projectId}
                   instructions={agentRun.instructions}
                   deployMode={agentRun.deployMode}
+                  reviewBeforeDeploy={agentRun.reviewBeforeDeploy}
+                  budget={agentRun.budget}
+                  onStarted={(runId) => localStorage.setItem(ACTIVE_AGENT_RUN_KEY + selectedBusinessId, runId)}
                   onComplete={() => {
+                    localStorage.removeItem(ACTIVE_AGENT_RUN_KEY + selectedBusinessId);
                     queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "manager"] });
                     setAgentRun(null);
                   }}
@@ -1147,7 +1196,7 @@ export default function ManagerView() {
                     <SelectContent>
                       <SelectItem value="none">Select a task...</SelectItem>
                       {focusedProjectTasks
-                        .filter((t: any) => t.status !== "Done")
+                        .filter((t: any) => !focusedProject || statusCategory(focusedProject.workflow, t.status) !== "done")
                         .map((t: any) => (
                           <SelectItem key={t.id} value={t.id}>
                             [{t.id}] {t.title}
@@ -1164,6 +1213,25 @@ export default function ManagerView() {
                       <SelectItem value="pr">Create PR</SelectItem>
                     </SelectContent>
                   </Select>
+                  <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground shrink-0 cursor-pointer">
+                    <Checkbox
+                      checked={reviewBeforeDeploy}
+                      onCheckedChange={(v) => setReviewBeforeDeploy(v === true)}
+                      data-testid="checkbox-review-before-deploy"
+                    />
+                    Review first
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={maxCostUsd}
+                    onChange={(e) => setMaxCostUsd(e.target.value)}
+                    placeholder="Max $"
+                    title="Cost limit for this run (can only tighten the business budget)"
+                    className="h-7 text-xs w-[72px] border-emerald-500/20 shrink-0"
+                    data-testid="input-agent-run-max-cost"
+                  />
                   <Button
                     size="sm"
                     disabled={!selectedTaskId || !!agentRun}
@@ -1174,6 +1242,8 @@ export default function ManagerView() {
                         projectId: projectFocusId,
                         instructions: input.trim() || undefined,
                         deployMode,
+                        reviewBeforeDeploy,
+                        budget: Number(maxCostUsd) > 0 ? { maxCostUsd: Number(maxCostUsd) } : undefined,
                       });
                       setInput("");
                     }}
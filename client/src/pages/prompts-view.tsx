@@ -8,6 +8,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Copy, Terminal, ArrowUp, ArrowRight, ArrowDown } from "lucide-react";
 import type { Task, Project } from "@shared/schema";
+import { statusCategory } from "@shared/taskWorkflow";
 
 const priorityOrder: Record<string, number> = { High: 0, Medium: 1, Low: 2 };
 const priorityIcons = { High: ArrowUp, Medium: ArrowRight, Low: ArrowDown };
@@ -29,7 +30,7 @@ export default function PromptsView() {
   const allOpenTasks = allData
     .flatMap((g) =>
       g.tasks
-        .filter((t) => t.status === "Open" && t.replitPrompt)
+        .filter((t) => statusCategory(g.project.workflow, t.status) === "todo" && t.replitPrompt)
         .map((t) => ({ ...t, _projectId: g.project.id, _projectName: g.project.name, _projectColor: g.project.color }))
     )
     .sort((a, b) => (priorityOrder[a.priority] ?? 2) - (priorityOrder[b.priority] ?? 2));
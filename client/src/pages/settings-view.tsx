@@ -54,8 +54,21 @@ import {
   Bot,
   Save,
   ExternalLink,
+  Route,
+  Users,
+  Gauge,
+  Webhook,
+  Copy,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  RotateCcw,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
-import type { Business, RepositorySafe, AgentSafe } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { TicketIntakeSettings } from "@/components/ticket-intake-settings";
+import type { Business, RepositorySafe, AgentSafe, AgentFeature, AgentAssignments, AgentBudget, AgentCommand, BusinessMember, BusinessRole, WebhookDelivery, WebhookDeliveryWithPayload } from "@shared/schema";
 
 const COLORS = [
   "#58a6ff", "#3fb950", "#d29922", "#f85149",
@@ -83,6 +96,88 @@ const repoFormSchema = z.object({
   repoUrl: z.string(),
   token: z.string(),
   type: z.string(),
+  agentBackend: z.enum(["github_api", "local_git"]),
+  cloneUrl: z.string(),
+  allowedCommands: z.string(),
+  requiredChecks: z.string(),
+});
+
+const commandLines = (text: string) => text.split("\n").map(l => l.trim()).filter(Boolean);
+
+/** Required checks are implicitly allowed, so they only need to be listed once. */
+function toAgentCommands(allowed: string, required: string): AgentCommand[] {
+  const requiredSet = new Set(commandLines(required));
+  const all = Array.from(new Set([...commandLines(allowed), ...Array.from(requiredSet)]));
+  return all.map(command => ({ command, requiredForDeploy: requiredSet.has(command) }));
+}
+
+const optionalLimit = z.string().refine((v) => v.trim() === "" || Number(v) > 0, "Must be a positive number");
+
+const budgetFormSchema = z.object({
+  maxInputTokens: optionalLimit,
+  maxOutputTokens: optionalLimit,
+  maxCostUsd: optionalLimit,
+  maxDurationMinutes: optionalLimit,
+  maxIterations: optionalLimit,
+});
+
+/** Blank fields mean no limit; the duration is edited in minutes but stored in seconds. */
+function toAgentBudget(data: z.infer<typeof budgetFormSchema>): AgentBudget {
+  const num = (v: string, scale = 1) => (v.trim() === "" ? undefined : Number(v) * scale);
+  const int = (v: string, scale = 1) => {
+    const n = num(v, scale);
+    return n === undefined ? undefined : Math.max(1, Math.round(n));
+  };
+  return {
+    maxInputTokens: int(data.maxInputTokens),
+    maxOutputTokens: int(data.maxOutputTokens),
+    maxCostUsd: num(data.maxCostUsd),
+    maxDurationSeconds: int(data.maxDurationMinutes, 60),
+    maxIterations: int(data.maxIterations),
+  };
+}
+
+function fromAgentBudget(budget: AgentBudget): z.infer<typeof budgetFormSchema> {
+  const str = (v?: number) => (v === undefined ? "" : String(v));
+  return {
+    maxInputTokens: str(budget.maxInputTokens),
+    maxOutputTokens: str(budget.maxOutputTokens),
+    maxCostUsd: str(budget.maxCostUsd),
+    maxDurationMinutes: str(budget.maxDurationSeconds === undefined ? undefined : budget.maxDurationSeconds / 60),
+    maxIterations: str(budget.maxIterations),
+  };
+}
+
+const BUDGET_FIELDS: { name: keyof z.infer<typeof budgetFormSchema>; label: string; placeholder: string }[] = [
+  { name: "maxInputTokens", label: "Max input tokens", placeholder: "e.g. 2000000" },
+  { name: "maxOutputTokens", label: "Max output tokens", placeholder: "e.g. 100000" },
+  { name: "maxCostUsd", label: "Max cost ($)", placeholder: "e.g. 5" },
+  { name: "maxDurationMinutes", label: "Max duration (minutes)", placeholder: "e.g. 30" },
+  { name: "maxIterations", label: "Max iterations", placeholder: "25" },
+];
+
+const AGENT_FEATURES: { value: AgentFeature; label: string; description: string }[] = [
+  { value: "review", label: "Code Review", description: "Reviews, task extraction, file detection, fix prompts" },
+  { value: "discuss", label: "Task Discussion", description: "Task chat and auto-analysis" },
+  { value: "code_fix", label: "Code Fixes", description: "Generated code fixes from tasks and the manager" },
+  { value: "manager", label: "Business Manager", description: "Manager chat" },
+  { value: "transcript", label: "Transcripts", description: "Inbox transcript processing" },
+  { value: "triage", label: "Ticket Triage", description: "Ticket classification, duplicates, project suggestion" },
+  { value: "agent_run", label: "Autonomous Agent", description: "Agent runs that edit the repository" },
+];
+
+const DEFAULT_ASSIGNMENT = "__default__";
+
+const ROLE_OPTIONS: { value: BusinessRole; label: string }[] = [
+  { value: "owner", label: "Owner" },
+  { value: "editor", label: "Editor" },
+  { value: "viewer", label: "Viewer" },
+];
+
+const memberFormSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  role: z.enum(["owner", "editor", "viewer"]),
+  password: z.string().refine((v) => v === "" || v.length >= 8, "Password must be at least 8 characters"),
 });
 
 const agentFormSchema = z.object({
@@ -91,6 +186,8 @@ const agentFormSchema = z.object({
   apiKey: z.string(),
   role: z.string(),
   isReviewAgent: z.boolean(),
+  model: z.string(),
+  baseUrl: z.string(),
 });
 
 export default function SettingsView() {
@@ -102,6 +199,9 @@ export default function SettingsView() {
   const [agentDialogOpen, setAgentDialogOpen] = useState(false);
   const [editingAgent, setEditingAgent] = useState<AgentSafe | null>(null);
   const [deleteAgentId, setDeleteAgentId] = useState<string | null>(null);
+  const [memberDialogOpen, setMemberDialogOpen] = useState(false);
+  const [removeMemberId, setRemoveMemberId] = useState<string | null>(null);
+  const { user } = useAuth();
   const [deleteBusinessConfirm, setDeleteBusinessConfirm] = useState(false);
 
   const bizId = selectedBusinessId;
@@ -121,6 +221,23 @@ export default function SettingsView() {
     enabled: !!bizId,
   });
 
+  const { data: assignments = {} } = useQuery<AgentAssignments>({
+    queryKey: ["/api/businesses", bizId, "agent-assignments"],
+    enabled: !!bizId,
+  });
+
+  const { data: agentBudget } = useQuery<AgentBudget>({
+    queryKey: ["/api/businesses", bizId, "agent-budget"],
+    enabled: !!bizId,
+  });
+
+  const { data: members = [] } = useQuery<BusinessMember[]>({
+    queryKey: ["/api/businesses", bizId, "members"],
+    enabled: !!bizId,
+  });
+
+  const isOwner = members.some((m) => m.userId === user?.id && m.role === "owner");
+
   const businessForm = useForm<z.infer<typeof businessFormSchema>>({
     resolver: zodResolver(businessFormSchema),
     defaultValues: {
@@ -135,6 +252,12 @@ export default function SettingsView() {
     } : undefined,
   });
 
+  const budgetForm = useForm<z.infer<typeof budgetFormSchema>>({
+    resolver: zodResolver(budgetFormSchema),
+    defaultValues: fromAgentBudget({}),
+    values: agentBudget ? fromAgentBudget(agentBudget) : undefined,
+  });
+
   const repoForm = useForm<z.infer<typeof repoFormSchema>>({
     resolver: zodResolver(repoFormSchema),
     defaultValues: {
@@ -143,6 +266,10 @@ export default function SettingsView() {
       repoUrl: "",
       token: "",
       type: "other",
+      agentBackend: "github_api",
+      cloneUrl: "",
+      allowedCommands: "",
+      requiredChecks: "",
     },
   });
 
@@ -154,6 +281,8 @@ export default function SettingsView() {
       apiKey: "",
       role: "",
       isReviewAgent: false,
+      model: "",
+      baseUrl: "",
     },
   });
 
@@ -188,7 +317,8 @@ export default function SettingsView() {
   });
 
   const saveRepoMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof repoFormSchema>) => {
+    mutationFn: async ({ allowedCommands, requiredChecks, ...rest }: z.infer<typeof repoFormSchema>) => {
+      const data = { ...rest, agentCommands: toAgentCommands(allowedCommands, requiredChecks) };
       if (editingRepo) {
         return apiRequest("PUT", `/api/businesses/${bizId}/repositories/${editingRepo.id}`, data);
       }
@@ -245,6 +375,7 @@ export default function SettingsView() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "agent-assignments"] });
       toast({ title: "Agent removed" });
       setDeleteAgentId(null);
     },
@@ -253,6 +384,90 @@ export default function SettingsView() {
     },
   });
 
+  const saveAssignmentsMutation = useMutation({
+    mutationFn: async (data: AgentAssignments) => {
+      return apiRequest("PUT", `/api/businesses/${bizId}/agent-assignments`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "agent-assignments"] });
+      toast({ title: "Agent routing updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const saveBudgetMutation = useMutation({
+    mutationFn: async (data: AgentBudget) => {
+      return apiRequest("PUT", `/api/businesses/${bizId}/agent-budget`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "agent-budget"] });
+      toast({ title: "Agent budget updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const handleAssignmentChange = (feature: AgentFeature, agentId: string) => {
+    const next: AgentAssignments = { ...assignments };
+    if (agentId === DEFAULT_ASSIGNMENT) delete next[feature];
+    else next[feature] = agentId;
+    saveAssignmentsMutation.mutate(next);
+  };
+
+  const memberForm = useForm<z.infer<typeof memberFormSchema>>({
+    resolver: zodResolver(memberFormSchema),
+    defaultValues: { username: "", role: "editor", password: "" },
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof memberFormSchema>) => {
+      return apiRequest("POST", `/api/businesses/${bizId}/members`, {
+        username: data.username,
+        role: data.role,
+        ...(data.password ? { password: data.password } : {}),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "members"] });
+      toast({ title: "Member added" });
+      setMemberDialogOpen(false);
+      memberForm.reset();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateMemberRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: BusinessRole }) => {
+      return apiRequest("PATCH", `/api/businesses/${bizId}/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "members"] });
+      toast({ title: "Role updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("DELETE", `/api/businesses/${bizId}/members/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "members"] });
+      toast({ title: "Member removed" });
+      setRemoveMemberId(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
   const handleOpenRepoDialog = (repo?: RepositorySafe) => {
     if (repo) {
       setEditingRepo(repo);
@@ -262,6 +477,10 @@ export default function SettingsView() {
         repoUrl: repo.repoUrl,
         token: "",
         type: repo.type || "other",
+        agentBackend: repo.agentBackend || "github_api",
+        cloneUrl: repo.cloneUrl || "",
+        allowedCommands: (repo.agentCommands || []).filter(c => !c.requiredForDeploy).map(c => c.command).join("\n"),
+        requiredChecks: (repo.agentCommands || []).filter(c => c.requiredForDeploy).map(c => c.command).join("\n"),
       });
     } else {
       setEditingRepo(null);
@@ -271,6 +490,10 @@ export default function SettingsView() {
         repoUrl: "",
         token: "",
         type: "other",
+        agentBackend: "github_api",
+        cloneUrl: "",
+        allowedCommands: "",
+        requiredChecks: "",
       });
     }
     setRepoDialogOpen(true);
@@ -285,6 +508,8 @@ export default function SettingsView() {
         apiKey: "",
         role: agent.role,
         isReviewAgent: agent.isReviewAgent,
+        model: agent.model || "",
+        baseUrl: agent.baseUrl || "",
       });
     } else {
       setEditingAgent(null);
@@ -294,6 +519,8 @@ export default function SettingsView() {
         apiKey: "",
         role: "",
         isReviewAgent: false,
+        model: "",
+        baseUrl: "",
       });
     }
     setAgentDialogOpen(true);
@@ -434,6 +661,16 @@ export default function SettingsView() {
                         {repo.type && repo.type !== "other" && (
                           <Badge variant="outline" className="text-[10px]">{repo.type}</Badge>
                         )}
+                        {(repo.tokenUnavailable || repo.webhookSecretUnavailable) && (
+                          <Badge
+                            variant="destructive"
+                            className="text-[10px]"
+                            title="Encrypted with a key missing from ENCRYPTION_KEYS. Re-enter it to use it again."
+                            data-testid={`badge-repo-secret-unavailable-${repo.id}`}
+                          >
+                            {repo.tokenUnavailable ? "Token unavailable" : "Webhook secret unavailable"}
+                          </Badge>
+                        )}
                       </div>
                       {repo.description && (
                         <p className="text-xs text-muted-foreground mt-1">{repo.description}</p>
@@ -449,6 +686,7 @@ export default function SettingsView() {
                           {repo.owner}/{repo.repo}
                         </a>
                       )}
+                      <RepoWebhookSettings bizId={bizId!} repo={repo} canManage={isOwner} />
                     </div>
                     <div className="flex items-center gap-1 shrink-0">
                       <Button
@@ -477,6 +715,10 @@ export default function SettingsView() {
 
         <Separator />
 
+        <WebhookDeliveryLog bizId={bizId!} canReprocess={isOwner} />
+
+        <Separator />
+
         <div>
           <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
             <div className="flex items-center gap-2">
@@ -506,9 +748,22 @@ export default function SettingsView() {
                         <Bot className="w-4 h-4 text-muted-foreground shrink-0" />
                         <span className="font-medium text-sm">{agent.name}</span>
                         <Badge variant="outline" className="text-[10px]">{agent.type}</Badge>
+                        {agent.model && (
+                          <Badge variant="outline" className="text-[10px] font-mono">{agent.model}</Badge>
+                        )}
                         {agent.isReviewAgent && (
                           <Badge variant="secondary" className="text-[10px]">Review Agent</Badge>
                         )}
+                        {agent.apiKeyUnavailable && (
+                          <Badge
+                            variant="destructive"
+                            className="text-[10px]"
+                            title="Encrypted with a key missing from ENCRYPTION_KEYS. Re-enter it to use it again."
+                            data-testid={`badge-agent-key-unavailable-${agent.id}`}
+                          >
+                            API key unavailable
+                          </Badge>
+                        )}
                       </div>
                       {agent.role && (
                         <p className="text-xs text-muted-foreground mt-1">{agent.role}</p>
@@ -538,8 +793,245 @@ export default function SettingsView() {
             </div>
           )}
         </div>
+
+        {agents.length > 0 && (
+          <>
+            <Separator />
+
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <Route className="w-5 h-5 text-muted-foreground" />
+                <h3 className="text-sm font-semibold">Agent Routing</h3>
+              </div>
+              <p className="text-xs text-muted-foreground mb-4">
+                Choose which agent handles each AI feature. Unassigned features use the review agent.
+              </p>
+              <Card className="divide-y">
+                {AGENT_FEATURES.map((feature) => (
+                  <div key={feature.value} className="flex items-center justify-between gap-3 p-3 flex-wrap" data-testid={`agent-routing-${feature.value}`}>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{feature.label}</p>
+                      <p className="text-xs text-muted-foreground">{feature.description}</p>
+                    </div>
+                    <Select
+                      value={assignments[feature.value] || DEFAULT_ASSIGNMENT}
+                      onValueChange={(value) => handleAssignmentChange(feature.value, value)}
+                      disabled={saveAssignmentsMutation.isPending}
+                    >
+                      <SelectTrigger className="w-48" data-testid={`select-agent-routing-${feature.value}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_ASSIGNMENT}>Default (review agent)</SelectItem>
+                        {agents.map((agent) => (
+                          <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </Card>
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Gauge className="w-5 h-5 text-muted-foreground" />
+            <h3 className="text-sm font-semibold">Agent Run Budget</h3>
+          </div>
+          <p className="text-xs text-muted-foreground mb-4">
+            Default limits for every agent run. A run stops with a summary when one is reached; leave a field blank for no limit. Individual runs can only lower these.
+          </p>
+          <Card className="p-4">
+            <Form {...budgetForm}>
+              <form onSubmit={budgetForm.handleSubmit((data) => saveBudgetMutation.mutate(toAgentBudget(data)))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  {BUDGET_FIELDS.map((budgetField) => (
+                    <FormField
+                      key={budgetField.name}
+                      control={budgetForm.control}
+                      name={budgetField.name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{budgetField.label}</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" placeholder={budgetField.placeholder} disabled={!isOwner} {...field} data-testid={`input-budget-${budgetField.name}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+                {isOwner && (
+                  <div className="flex justify-end">
+                    <Button type="submit" size="sm" disabled={saveBudgetMutation.isPending} data-testid="button-save-budget">
+                      <Save className="w-4 h-4 mr-1" />
+                      {saveBudgetMutation.isPending ? "Saving..." : "Save Budget"}
+                    </Button>
+                  </div>
+                )}
+              </form>
+            </Form>
+          </Card>
+        </div>
+
+        <Separator />
+
+        <TicketIntakeSettings bizId={bizId} isOwner={isOwner} />
+
+        <Separator />
+
+        <div>
+          <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
+            <div className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-muted-foreground" />
+              <h3 className="text-sm font-semibold">Members</h3>
+              <Badge variant="secondary" className="text-xs">{members.length}</Badge>
+            </div>
+            {isOwner && (
+              <Button size="sm" onClick={() => { memberForm.reset(); setMemberDialogOpen(true); }} data-testid="button-add-member">
+                <Plus className="w-3 h-3 mr-1" />
+                Add Member
+              </Button>
+            )}
+          </div>
+
+          <Card className="divide-y">
+            {members.map((member) => (
+              <div key={member.userId} className="flex items-center justify-between gap-3 p-3" data-testid={`member-row-${member.userId}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium truncate">{member.username}</span>
+                  {member.userId === user?.id && (
+                    <Badge variant="outline" className="text-[10px]">You</Badge>
+                  )}
+                </div>
+                {isOwner ? (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => updateMemberRoleMutation.mutate({ userId: member.userId, role: role as BusinessRole })}
+                      disabled={updateMemberRoleMutation.isPending}
+                    >
+                      <SelectTrigger className="w-28" data-testid={`select-member-role-${member.userId}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLE_OPTIONS.map((r) => (
+                          <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setRemoveMemberId(member.userId)}
+                      data-testid={`button-remove-member-${member.userId}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="secondary" className="text-[10px] capitalize">{member.role}</Badge>
+                )}
+              </div>
+            ))}
+          </Card>
+        </div>
       </div>
 
+      <Dialog open={memberDialogOpen} onOpenChange={setMemberDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Member</DialogTitle>
+            <DialogDescription>
+              Give an existing user access, or set a password to create their account.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...memberForm}>
+            <form onSubmit={memberForm.handleSubmit((data) => addMemberMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={memberForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input placeholder="jane" {...field} data-testid="input-member-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={memberForm.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-member-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ROLE_OPTIONS.map((r) => (
+                          <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={memberForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Initial Password (new users only)</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} data-testid="input-member-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setMemberDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={addMemberMutation.isPending} data-testid="button-save-member">
+                  {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!removeMemberId} onOpenChange={() => setRemoveMemberId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Member</AlertDialogTitle>
+            <AlertDialogDescription>
+              This user will lose access to the business.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removeMemberId && removeMemberMutation.mutate(removeMemberId)}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Dialog open={repoDialogOpen} onOpenChange={setRepoDialogOpen}>
         <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -624,6 +1116,71 @@ export default function SettingsView() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={repoForm.control}
+                name="agentBackend"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Agent Backend</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-repo-agent-backend">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="github_api">GitHub API</SelectItem>
+                        <SelectItem value="local_git">Local git working copy</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">How agent runs read, search and push. A working copy is cloned per run and searched with git grep.</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {repoForm.watch("agentBackend") === "local_git" && (
+                <FormField
+                  control={repoForm.control}
+                  name="cloneUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Clone URL (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Defaults to the GitHub URL; any git remote or bare repo path" {...field} data-testid="input-repo-clone-url" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={repoForm.control}
+                name="allowedCommands"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Agent Commands</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder={"npm run lint\nnpm run build"} className="resize-none font-mono text-xs" rows={2} {...field} data-testid="input-repo-agent-commands" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">One per line. The agent may run these in its checkout via run_command, in the command sandbox the server is configured with (AGENT_SANDBOX_IMAGE).</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={repoForm.control}
+                name="requiredChecks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Required Checks</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder={"npm test\nnpx tsc --noEmit"} className="resize-none font-mono text-xs" rows={2} {...field} data-testid="input-repo-required-checks" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">One per line. Must pass against the agent's latest changes before it can deploy.</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <div className="flex justify-end gap-2 pt-2">
                 <Button type="button" variant="outline" onClick={() => setRepoDialogOpen(false)}>Cancel</Button>
                 <Button type="submit" disabled={saveRepoMutation.isPending} data-testid="button-save-repo">
@@ -694,6 +1251,39 @@ export default function SettingsView() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={agentForm.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Model (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={agentForm.watch("type") === "Claude" ? "claude-sonnet-4-5-20250929" : "gpt-4o"}
+                        {...field}
+                        data-testid="input-agent-model"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {agentForm.watch("type") !== "Claude" && (
+                <FormField
+                  control={agentForm.control}
+                  name="baseUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>API Base URL (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://api.openai.com/v1" {...field} data-testid="input-agent-base-url" />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Any OpenAI-compatible chat completions endpoint.</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               <FormField
                 control={agentForm.control}
                 name="role"
@@ -800,3 +1390,269 @@ export default function SettingsView() {
     </ScrollArea>
   );
 }
+
+const WEBHOOK_EVENTS = ["pull_request", "pull_request_review", "check_run", "push"];
+
+function RepoWebhookSettings({ bizId, repo, canManage }: { bizId: string; repo: RepositorySafe; canManage: boolean }) {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState(false);
+  const [showSecret, setShowSecret] = useState(false);
+  const webhookUrl = `${window.location.origin}/api/webhooks/github`;
+  const delivery = repo.lastWebhookDelivery;
+
+  const { data: webhook } = useQuery<{ secret: string }>({
+    queryKey: ["/api/businesses", bizId, "repositories", repo.id, "webhook"],
+    enabled: expanded && canManage,
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/businesses/${bizId}/repositories/${repo.id}/webhook-secret`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "repositories"] });
+      setShowSecret(true);
+      toast({ title: "Webhook secret generated", description: "Paste the new secret into the webhook settings on GitHub." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const copy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: `${label} copied` });
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+        data-testid={`button-webhook-${repo.id}`}
+      >
+        <Webhook className="w-3 h-3" />
+        {delivery ? (
+          <span>
+            Last webhook: <span className={delivery.status === "error" ? "text-destructive" : delivery.status === "processed" ? "text-green-500" : ""}>{delivery.status}</span>
+            {" · "}{delivery.event} · {new Date(delivery.at).toLocaleString()}
+          </span>
+        ) : (
+          <span>{repo.hasWebhookSecret ? "Webhook: no deliveries yet" : "Webhook: no secret set"}</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2 rounded-md border border-border p-3" data-testid={`webhook-settings-${repo.id}`}>
+          {delivery && (
+            <p className="text-xs text-muted-foreground">
+              {delivery.message}
+              {delivery.deliveryId && <span className="font-mono"> ({delivery.deliveryId})</span>}
+            </p>
+          )}
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Payload URL</p>
+            <div className="flex items-center gap-1">
+              <Input readOnly value={webhookUrl} className="h-7 text-xs font-mono" />
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => copy(webhookUrl, "Webhook URL")}>
+                <Copy className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+          {canManage ? (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Secret</p>
+              <div className="flex items-center gap-1">
+                <Input
+                  readOnly
+                  type={showSecret ? "text" : "password"}
+                  value={webhook?.secret || ""}
+                  placeholder={repo.hasWebhookSecret ? "" : "Not set — uses GITHUB_WEBHOOK_SECRET"}
+                  className="h-7 text-xs font-mono"
+                  data-testid={`input-webhook-secret-${repo.id}`}
+                />
+                {webhook?.secret && (
+                  <>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setShowSecret(!showSecret)}>
+                      {showSecret ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => copy(webhook.secret, "Webhook secret")}>
+                      <Copy className="w-3.5 h-3.5" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  onClick={() => rotateSecretMutation.mutate()}
+                  disabled={rotateSecretMutation.isPending}
+                  data-testid={`button-rotate-webhook-secret-${repo.id}`}
+                >
+                  <RefreshCw className="w-3 h-3 mr-1" />
+                  {repo.hasWebhookSecret ? "Regenerate" : "Generate"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Only owners can view the webhook secret.</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            In the GitHub repository settings, add a webhook with content type <span className="font-mono">application/json</span> and
+            the events {WEBHOOK_EVENTS.map((e, i) => <span key={e}>{i > 0 && ", "}<span className="font-mono">{e}</span></span>)}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  processed: "bg-green-500/15 text-green-500 border-green-500/30",
+  ignored: "bg-muted text-muted-foreground",
+  pending: "bg-blue-500/15 text-blue-500 border-blue-500/30",
+  error: "bg-red-500/15 text-red-500 border-red-500/30",
+  rejected: "bg-orange-500/15 text-orange-500 border-orange-500/30",
+};
+
+function WebhookDeliveryLog({ bizId, canReprocess }: { bizId: string; canReprocess: boolean }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/businesses", bizId, "webhook-deliveries"],
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Webhook className="w-5 h-5 text-muted-foreground" />
+          <h3 className="text-sm font-semibold">Webhook Deliveries</h3>
+          <Badge variant="secondary" className="text-xs">{deliveries.length}</Badge>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "webhook-deliveries"] })}
+          data-testid="button-refresh-webhook-deliveries"
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? null : deliveries.length === 0 ? (
+        <Card className="p-6 text-center">
+          <Webhook className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+          <p className="text-sm text-muted-foreground">No webhook deliveries received yet.</p>
+          <p className="text-xs text-muted-foreground mt-1">Deliveries from GitHub for this business's repositories are kept for 30 days.</p>
+        </Card>
+      ) : (
+        <Card className="divide-y divide-border">
+          {deliveries.map((delivery) => (
+            <WebhookDeliveryRow
+              key={delivery.id}
+              bizId={bizId}
+              delivery={delivery}
+              expanded={expandedId === delivery.id}
+              onToggle={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+              canReprocess={canReprocess}
+            />
+          ))}
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function WebhookDeliveryRow({ bizId, delivery, expanded, onToggle, canReprocess }: {
+  bizId: string;
+  delivery: WebhookDelivery;
+  expanded: boolean;
+  onToggle: () => void;
+  canReprocess: boolean;
+}) {
+  const { toast } = useToast();
+
+  const { data: detail, isLoading: detailLoading } = useQuery<WebhookDeliveryWithPayload>({
+    queryKey: ["/api/businesses", bizId, "webhook-deliveries", delivery.id],
+    enabled: expanded,
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/businesses/${bizId}/webhook-deliveries/${delivery.id}/reprocess`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "webhook-deliveries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", bizId, "repositories"] });
+      toast({ title: `Delivery ${updated.status}`, description: updated.message });
+    },
+    onError: (err: Error) => {
+      let message = err.message.replace(/^\d+:\s*/, "");
+      try { message = JSON.parse(message).message || message; } catch {}
+      toast({ title: "Reprocess failed", description: message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-3" data-testid={`webhook-delivery-${delivery.id}`}>
+      <div className="flex items-start justify-between gap-3">
+        <button type="button" className="flex-1 min-w-0 text-left" onClick={onToggle}>
+          <div className="flex items-center gap-2 flex-wrap">
+            {expanded ? <ChevronDown className="w-3 h-3 text-muted-foreground" /> : <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+            <Badge className={`text-[10px] ${DELIVERY_STATUS_STYLES[delivery.status]}`}>{delivery.status}</Badge>
+            <span className="text-xs font-mono">{delivery.event}{delivery.action ? `.${delivery.action}` : ""}</span>
+            {delivery.repository && <span className="text-xs text-muted-foreground">{delivery.repository}</span>}
+            {delivery.taskIds.map(taskId => (
+              <Badge key={taskId} variant="outline" className="text-[10px] font-mono">{taskId}</Badge>
+            ))}
+            <span className="text-[10px] text-muted-foreground ml-auto">{new Date(delivery.receivedAt).toLocaleString()}</span>
+          </div>
+          {delivery.message && (
+            <p className={`text-xs mt-1 ml-5 ${delivery.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>{delivery.message}</p>
+          )}
+        </button>
+        {canReprocess && delivery.status !== "rejected" && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs shrink-0"
+            onClick={() => reprocessMutation.mutate()}
+            disabled={reprocessMutation.isPending || delivery.status === "pending"}
+            data-testid={`button-reprocess-delivery-${delivery.id}`}
+          >
+            <RotateCcw className={`w-3 h-3 mr-1 ${reprocessMutation.isPending ? "animate-spin" : ""}`} />
+            Reprocess
+          </Button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 ml-5 space-y-1 text-xs text-muted-foreground">
+          <p>
+            Delivery <span className="font-mono">{delivery.deliveryId || "—"}</span>
+            {" · "}{delivery.attempts} attempt{delivery.attempts !== 1 ? "s" : ""}
+            {delivery.processedAt && <> · processed {new Date(delivery.processedAt).toLocaleString()}</>}
+          </p>
+          {delivery.codeFixIds.length > 0 && (
+            <p>Code fixes: <span className="font-mono">{delivery.codeFixIds.join(", ")}</span></p>
+          )}
+          {delivery.error && <p className="text-destructive font-mono whitespace-pre-wrap">{delivery.error}</p>}
+          {detailLoading ? (
+            <p>Loading payload…</p>
+          ) : detail?.payload !== undefined ? (
+            <pre className="max-h-64 overflow-auto rounded-md border border-border p-2 text-[10px] font-mono whitespace-pre-wrap break-all">
+              {JSON.stringify(detail.payload, null, 2)}
+            </pre>
+          ) : (
+            <p>No payload stored{delivery.status === "rejected" ? " (signature was not verified)" : ""}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { useState, useMemo } from "react";
+import { Fragment, useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAppState } from "@/lib/store";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -11,6 +12,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { TaskDialog } from "@/components/task-dialog";
 import { TaskDetailPanel } from "@/components/task-detail-panel";
 import { BulkImportDialog } from "@/components/bulk-import-dialog";
+import { WorkflowDialog } from "@/components/workflow-dialog";
+import { AUTH_QUERY_KEY, useAuth } from "@/hooks/use-auth";
 import {
   Dialog,
   DialogContent,
@@ -49,8 +52,12 @@ import {
   Link,
   X,
   CheckSquare2,
+  Workflow,
+  Kanban,
+  LayoutList,
 } from "lucide-react";
-import type { Task, Project, RepositorySafe } from "@shared/schema";
+import type { Task, Project, RepositorySafe, BusinessMember, TaskViewPreference, TaskWorkflow, UserSafe, WorkflowCategory } from "@shared/schema";
+import { allowedTransitions, countByCategory, statusCategory } from "@shared/taskWorkflow";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -86,13 +93,19 @@ const priorityColors: Record<string, string> = {
   Low: "text-muted-foreground",
 };
 
-const statusColors: Record<string, string> = {
-  Open: "bg-blue-500/15 text-blue-400 border-blue-500/20",
-  "In Progress": "bg-yellow-500/15 text-yellow-400 border-yellow-500/20",
-  "Quality Review": "bg-purple-500/15 text-purple-400 border-purple-500/20",
-  Done: "bg-green-500/15 text-green-400 border-green-500/20",
+const categoryColors: Record<WorkflowCategory, string> = {
+  todo: "bg-blue-500/15 text-blue-400 border-blue-500/20",
+  in_progress: "bg-yellow-500/15 text-yellow-400 border-yellow-500/20",
+  review: "bg-purple-500/15 text-purple-400 border-purple-500/20",
+  done: "bg-green-500/15 text-green-400 border-green-500/20",
 };
 
+/** Statuses are colored by category, so custom statuses fit in; ones missing from the workflow stay neutral. */
+function statusColor(workflow: TaskWorkflow | undefined, status: string): string {
+  const category = workflow && statusCategory(workflow, status);
+  return category ? categoryColors[category] : "bg-muted text-muted-foreground border-border";
+}
+
 function ProgressBar({ done, total }: { done: number; total: number }) {
   const pct = total === 0 ? 0 : Math.round((done / total) * 100);
   return (
@@ -124,10 +137,7 @@ interface ProjectGroupData {
 
 function ProjectCard({ project, tasks, onClick }: { project: Project; tasks: Task[]; onClick: () => void }) {
   const total = tasks.length;
-  const done = tasks.filter((t) => t.status === "Done").length;
-  const open = tasks.filter((t) => t.status === "Open").length;
-  const inProgress = tasks.filter((t) => t.status === "In Progress").length;
-  const qualityReview = tasks.filter((t) => t.status === "Quality Review").length;
+  const { todo: open, in_progress: inProgress, review: qualityReview, done } = countByCategory(project.workflow, tasks);
 
   return (
     <Card
@@ -180,10 +190,11 @@ function AllTasksView() {
   });
 
   const totalTasks = allData.reduce((sum, g) => sum + g.tasks.length, 0);
-  const totalOpen = allData.reduce((sum, g) => sum + g.tasks.filter((t) => t.status === "Open").length, 0);
-  const totalInProgress = allData.reduce((sum, g) => sum + g.tasks.filter((t) => t.status === "In Progress").length, 0);
-  const totalQR = allData.reduce((sum, g) => sum + g.tasks.filter((t) => t.status === "Quality Review").length, 0);
-  const totalDone = allData.reduce((sum, g) => sum + g.tasks.filter((t) => t.status === "Done").length, 0);
+  const groupCounts = allData.map((g) => countByCategory(g.project.workflow, g.tasks));
+  const totalOpen = groupCounts.reduce((sum, c) => sum + c.todo, 0);
+  const totalInProgress = groupCounts.reduce((sum, c) => sum + c.in_progress, 0);
+  const totalQR = groupCounts.reduce((sum, c) => sum + c.review, 0);
+  const totalDone = groupCounts.reduce((sum, c) => sum + c.done, 0);
 
   const handleProjectClick = (projectId: string) => {
     setSelectedProjectId(projectId);
@@ -242,6 +253,180 @@ function AllTasksView() {
   );
 }
 
+interface BoardLane {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+function boardLanes(tasks: Task[], swimlanes: TaskViewPreference["swimlanes"], repositories: RepositorySafe[]): BoardLane[] {
+  if (swimlanes === "priority") {
+    return (["High", "Medium", "Low"] as const).map((priority) => ({
+      key: priority,
+      label: `${priority} priority`,
+      tasks: tasks.filter((t) => t.priority === priority),
+    }));
+  }
+  if (swimlanes === "repository") {
+    const repoIds = Array.from(new Set(tasks.map((t) => t.repositoryId || "")));
+    return repoIds
+      .map((id) => ({
+        key: id || "none",
+        label: id ? repositories.find((r) => r.id === id)?.name || id : "No repository",
+        tasks: tasks.filter((t) => (t.repositoryId || "") === id),
+      }))
+      .sort((a, b) => (a.key === "none" ? 1 : b.key === "none" ? -1 : a.label.localeCompare(b.label)));
+  }
+  return [{ key: "all", label: "", tasks }];
+}
+
+/**
+ * One column per workflow status. Dropping a card moves the task through the regular task update,
+ * so the workflow's allowed moves apply and the change lands in the changelog; columns a card may
+ * not move to do not accept it. Swimlanes only group the cards, so dropping into another lane
+ * changes the status but not the priority or repository.
+ */
+function TaskBoard({
+  workflow,
+  tasks,
+  repositories,
+  swimlanes,
+  selectedTaskId,
+  onSelectTask,
+  onMoveTask,
+}: {
+  workflow: TaskWorkflow;
+  tasks: Task[];
+  repositories: RepositorySafe[];
+  swimlanes: TaskViewPreference["swimlanes"];
+  selectedTaskId: string | null;
+  onSelectTask: (taskId: string) => void;
+  onMoveTask: (task: Task, status: string) => void;
+}) {
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Tasks in a status the workflow no longer has get a column of their own so they stay reachable
+  const columns = useMemo(() => {
+    const names = workflow.statuses.map((s) => s.name);
+    const extra = Array.from(new Set(tasks.map((t) => t.status).filter((s) => !names.includes(s))));
+    return [...workflow.statuses, ...extra.map((name) => ({ name, category: undefined, wipLimit: undefined }))];
+  }, [workflow, tasks]);
+
+  const lanes = boardLanes(tasks, swimlanes, repositories);
+  const targets = draggedTask ? allowedTransitions(workflow, draggedTask.status) : [];
+
+  const handleDrop = (status: string) => {
+    const task = draggedTask;
+    setDraggedTask(null);
+    setDropTarget(null);
+    if (task && targets.includes(status)) onMoveTask(task, status);
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-4" data-testid="task-board">
+      <div
+        className="grid gap-3 min-w-max"
+        style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(240px, 1fr))` }}
+      >
+        {columns.map((column) => {
+          const count = tasks.filter((t) => t.status === column.name).length;
+          const overLimit = !!column.wipLimit && count > column.wipLimit;
+          return (
+            <div
+              key={column.name}
+              className={`flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md border text-xs font-medium sticky top-0 z-10 ${
+                overLimit ? "border-red-500/40 bg-red-500/10 text-red-400" : "border-border bg-background"
+              }`}
+              data-testid={`board-column-header-${column.name.toLowerCase().replace(/\s/g, "-")}`}
+            >
+              <span className={`inline-flex items-center px-1.5 py-0.5 rounded-md border ${statusColor(workflow, column.name)}`}>
+                {column.name}
+              </span>
+              <span
+                className={overLimit ? "" : "text-muted-foreground"}
+                title={column.wipLimit ? `WIP limit: ${column.wipLimit}` : undefined}
+              >
+                {column.wipLimit ? `${count}/${column.wipLimit}` : count}
+              </span>
+            </div>
+          );
+        })}
+
+        {lanes.map((lane) => (
+          <Fragment key={lane.key}>
+            {swimlanes !== "none" && (
+              <div className="col-span-full flex items-center gap-2 pt-2 text-xs font-medium text-muted-foreground" data-testid={`board-lane-${lane.key}`}>
+                {lane.label}
+                <span className="opacity-60">{lane.tasks.length}</span>
+              </div>
+            )}
+            {columns.map((column) => {
+              const cellKey = `${lane.key}:${column.name}`;
+              const canDrop = targets.includes(column.name);
+              return (
+                <div
+                  key={cellKey}
+                  className={`min-h-[80px] rounded-md p-1.5 space-y-1.5 transition-colors ${
+                    dropTarget === cellKey ? "bg-primary/10 ring-1 ring-primary" : canDrop ? "bg-muted/60" : "bg-muted/30"
+                  } ${draggedTask && !canDrop && draggedTask.status !== column.name ? "opacity-50" : ""}`}
+                  onDragOver={(e) => {
+                    if (!canDrop) return;
+                    e.preventDefault();
+                    if (dropTarget !== cellKey) setDropTarget(cellKey);
+                  }}
+                  onDragLeave={() => setDropTarget((current) => (current === cellKey ? null : current))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(column.name);
+                  }}
+                  data-testid={`board-cell-${lane.key}-${column.name.toLowerCase().replace(/\s/g, "-")}`}
+                >
+                  {lane.tasks.filter((t) => t.status === column.name).map((task) => {
+                    const TypeIcon = typeIcons[task.type];
+                    const PriorityIcon = priorityIcons[task.priority];
+                    return (
+                      <Card
+                        key={task.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", task.id);
+                          setDraggedTask(task);
+                        }}
+                        onDragEnd={() => {
+                          setDraggedTask(null);
+                          setDropTarget(null);
+                        }}
+                        onClick={() => onSelectTask(task.id)}
+                        className={`p-2 cursor-grab active:cursor-grabbing hover-elevate ${selectedTaskId === task.id ? "ring-1 ring-primary" : ""}`}
+                        data-testid={`board-card-${task.id}`}
+                      >
+                        <div className="flex items-center gap-1.5">
+                          <TypeIcon className={`w-3.5 h-3.5 shrink-0 ${typeColors[task.type]}`} />
+                          <span className="font-mono text-[10px] text-muted-foreground">{task.id}</span>
+                          {task.dependencies && task.dependencies.length > 0 && (
+                            <span className="inline-flex items-center gap-0.5 text-[10px] text-muted-foreground">
+                              <Link className="w-3 h-3" />
+                              {task.dependencies.length}
+                            </span>
+                          )}
+                          <PriorityIcon className={`w-3.5 h-3.5 ml-auto shrink-0 ${priorityColors[task.priority]}`} />
+                        </div>
+                        <p className="text-xs font-medium mt-1 line-clamp-2">{task.title}</p>
+                      </Card>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ProjectTasksView() {
   const { selectedBusinessId, selectedProjectId, selectedTaskId, setSelectedTaskId } = useAppState();
   const { toast } = useToast();
@@ -251,12 +436,16 @@ function ProjectTasksView() {
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
   const [moveTaskId, setMoveTaskId] = useState<string | null>(null);
   const [moveTargetProjectId, setMoveTargetProjectId] = useState<string>("");
+  const [moveTargetStatus, setMoveTargetStatus] = useState<string>("");
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [bulkRepoDialogOpen, setBulkRepoDialogOpen] = useState(false);
   const [bulkRepoId, setBulkRepoId] = useState<string>("");
   const [bulkOnlyUnlinked, setBulkOnlyUnlinked] = useState(true);
   const [selectedForLink, setSelectedForLink] = useState<Set<string>>(new Set());
   const [linkMode, setLinkMode] = useState(false);
+  const [workflowDialogOpen, setWorkflowDialogOpen] = useState(false);
+  const { user } = useAuth();
+  const taskView: TaskViewPreference = user?.preferences?.taskView || { mode: "list", swimlanes: "none" };
 
   const { data: project } = useQuery<Project>({
     queryKey: ["/api/businesses", selectedBusinessId, "projects", selectedProjectId],
@@ -273,6 +462,13 @@ function ProjectTasksView() {
     enabled: !!selectedBusinessId,
   });
 
+  const { data: members = [] } = useQuery<BusinessMember[]>({
+    queryKey: ["/api/businesses", selectedBusinessId, "members"],
+    enabled: !!selectedBusinessId,
+  });
+
+  const isOwner = members.some((m) => m.userId === user?.id && m.role === "owner");
+
   const { data: allProjects = [] } = useQuery<{ project: Project; tasks: Task[] }[]>({
     queryKey: ["/api/businesses", selectedBusinessId, "tasks"],
     enabled: !!selectedBusinessId,
@@ -283,6 +479,11 @@ function ProjectTasksView() {
     [allProjects, selectedProjectId]
   );
 
+  // A task whose status the target workflow lacks needs one picked there before it can move
+  const moveTask = tasks.find((t) => t.id === moveTaskId);
+  const moveTargetProject = otherProjects.find((p) => p.id === moveTargetProjectId);
+  const moveNeedsStatus = !!moveTask && !!moveTargetProject && !moveTargetProject.workflow.statuses.some((s) => s.name === moveTask.status);
+
   const unlinkedCount = useMemo(() => tasks.filter((t) => !t.repositoryId).length, [tasks]);
 
   const suggestedRepo = useMemo(() => {
@@ -369,9 +570,10 @@ function ProjectTasksView() {
   });
 
   const moveMutation = useMutation({
-    mutationFn: async ({ taskId, targetProjectId }: { taskId: string; targetProjectId: string }) => {
+    mutationFn: async ({ taskId, targetProjectId, status }: { taskId: string; targetProjectId: string; status?: string }) => {
       const res = await apiRequest("POST", `/api/businesses/${selectedBusinessId}/projects/${selectedProjectId}/tasks/${taskId}/move`, {
         targetProjectId,
+        ...(status ? { status } : {}),
       });
       return res.json();
     },
@@ -381,6 +583,7 @@ function ProjectTasksView() {
       toast({ title: `Task moved to ${data.toProject}` });
       setMoveTaskId(null);
       setMoveTargetProjectId("");
+      setMoveTargetStatus("");
       if (selectedTaskId === moveTaskId) setSelectedTaskId(null);
     },
     onError: (err: Error) => {
@@ -388,18 +591,73 @@ function ProjectTasksView() {
     },
   });
 
+  // Applied to the cached user right away so the view switches without waiting for the save
+  const taskViewMutation = useMutation({
+    mutationFn: async (next: TaskViewPreference) => {
+      queryClient.setQueryData<UserSafe | null>(AUTH_QUERY_KEY, (current) =>
+        current ? { ...current, preferences: { ...current.preferences, taskView: next } } : current);
+      const res = await apiRequest("PUT", "/api/auth/preferences", { taskView: next });
+      return res.json();
+    },
+    onSuccess: (updated: UserSafe) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, updated);
+    },
+    onError: () => {
+      toast({ title: "Could not save your view preference", variant: "destructive" });
+    },
+  });
+
+  const statusMoveMutation = useMutation({
+    mutationFn: async ({ task, status, force }: { task: Task; status: string; force?: boolean }) => {
+      const res = await apiRequest("PUT", `/api/businesses/${selectedBusinessId}/projects/${selectedProjectId}/tasks/${task.id}`, { status, ...(force ? { force: true } : {}) });
+      return res.json();
+    },
+    onSuccess: (_data, { task, status, force }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "projects", selectedProjectId, "tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "changelog"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses", selectedBusinessId, "tasks"] });
+      const limit = workflow?.statuses.find((s) => s.name === status)?.wipLimit;
+      const inColumn = tasks.filter((t) => t.status === status && t.id !== task.id).length + 1;
+      const warnings = [
+        force ? "Started while blocked by unfinished tasks." : "",
+        limit && inColumn > limit ? `${status} is over its WIP limit (${inColumn}/${limit}).` : "",
+      ].filter(Boolean);
+      toast({ title: `${task.id} moved to ${status}`, ...(warnings.length > 0 ? { description: warnings.join(" ") } : {}) });
+    },
+    onError: (err: Error, { task, status }) => {
+      let message = err.message.replace(/^\d+:\s*/, "");
+      try { message = JSON.parse(message).message || message; } catch {}
+      if (err.message.startsWith("409:")) {
+        toast({
+          title: `${task.id} is blocked`,
+          description: message,
+          action: (
+            <ToastAction
+              altText="Move anyway"
+              onClick={() => statusMoveMutation.mutate({ task, status, force: true })}
+              data-testid="button-move-blocked-anyway"
+            >
+              Move anyway
+            </ToastAction>
+          ),
+        });
+        return;
+      }
+      toast({ title: "Could not move task", description: message, variant: "destructive" });
+    },
+  });
+
   const filteredTasks = statusFilter
     ? tasks.filter((t) => t.status === statusFilter)
     : tasks;
 
   const selectedTask = tasks.find((t) => t.id === selectedTaskId);
-  const statuses = ["Open", "In Progress", "Quality Review", "Done"];
+  const workflow = project?.workflow;
+  const statuses = workflow ? workflow.statuses.map((s) => s.name) : [];
 
   const total = tasks.length;
-  const done = tasks.filter((t) => t.status === "Done").length;
-  const open = tasks.filter((t) => t.status === "Open").length;
-  const inProgress = tasks.filter((t) => t.status === "In Progress").length;
-  const qualityReview = tasks.filter((t) => t.status === "Quality Review").length;
+  const counts = workflow ? countByCategory(workflow, tasks) : { todo: 0, in_progress: 0, review: 0, done: 0 };
+  const { todo: open, in_progress: inProgress, review: qualityReview, done } = counts;
 
   if (!selectedProjectId) {
     return <AllTasksView />;
@@ -425,13 +683,39 @@ function ProjectTasksView() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <div className="flex items-center rounded-md border border-border p-0.5">
+                <Button
+                  size="sm"
+                  variant={taskView.mode === "list" ? "secondary" : "ghost"}
+                  className="h-7 px-2"
+                  onClick={() => taskViewMutation.mutate({ ...taskView, mode: "list" })}
+                  data-testid="button-view-list"
+                >
+                  <LayoutList className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={taskView.mode === "board" ? "secondary" : "ghost"}
+                  className="h-7 px-2"
+                  onClick={() => { taskViewMutation.mutate({ ...taskView, mode: "board" }); setLinkMode(false); }}
+                  data-testid="button-view-board"
+                >
+                  <Kanban className="w-4 h-4" />
+                </Button>
+              </div>
+              {project && (
+                <Button variant="outline" onClick={() => setWorkflowDialogOpen(true)} data-testid="button-edit-workflow">
+                  <Workflow className="w-4 h-4 mr-1" />
+                  Workflow
+                </Button>
+              )}
               {repositories.length > 0 && (
                 <Button variant="outline" onClick={() => setBulkRepoDialogOpen(true)} data-testid="button-bulk-link-repo">
                   <Link2 className="w-4 h-4 mr-1" />
                   Link Repository
                 </Button>
               )}
-              {tasks.length >= 2 && (
+              {tasks.length >= 2 && taskView.mode === "list" && (
                 <Button
                   variant={linkMode ? "secondary" : "outline"}
                   onClick={() => { setLinkMode(!linkMode); setSelectedForLink(new Set()); }}
@@ -488,157 +772,196 @@ function ProjectTasksView() {
           )}
         </div>
 
-        <div className="flex items-center gap-1.5 px-4 py-2 border-b border-border overflow-x-auto">
-          <Button
-            variant={statusFilter === null ? "default" : "ghost"}
-            size="sm"
-            onClick={() => setStatusFilter(null)}
-            data-testid="filter-all"
-          >
-            All
-          </Button>
-          {statuses.map((s) => (
+        {taskView.mode === "board" && workflow ? (
+          <>
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-border">
+              <span className="text-xs text-muted-foreground">Swimlanes</span>
+              <Select
+                value={taskView.swimlanes}
+                onValueChange={(val) => taskViewMutation.mutate({ ...taskView, swimlanes: val as TaskViewPreference["swimlanes"] })}
+              >
+                <SelectTrigger className="h-7 w-36 text-xs" data-testid="select-board-swimlanes">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="priority">Priority</SelectItem>
+                  <SelectItem value="repository">Repository</SelectItem>
+                </SelectContent>
+              </Select>
+              {statusMoveMutation.isPending && <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+            </div>
+            {isLoading ? (
+              <div className="flex-1 p-4">
+                <Skeleton className="h-64 w-full rounded-md" />
+              </div>
+            ) : (
+              <TaskBoard
+                workflow={workflow}
+                tasks={tasks}
+                repositories={repositories}
+                swimlanes={taskView.swimlanes}
+                selectedTaskId={selectedTaskId}
+                onSelectTask={setSelectedTaskId}
+                onMoveTask={(task, status) => statusMoveMutation.mutate({ task, status })}
+              />
+            )}
+          </>
+        ) : (
+          <>
+          <div className="flex items-center gap-1.5 px-4 py-2 border-b border-border overflow-x-auto">
             <Button
-              key={s}
-              variant={statusFilter === s ? "default" : "ghost"}
+              variant={statusFilter === null ? "default" : "ghost"}
               size="sm"
-              onClick={() => setStatusFilter(s)}
-              data-testid={`filter-${s.toLowerCase().replace(/\s/g, "-")}`}
+              onClick={() => setStatusFilter(null)}
+              data-testid="filter-all"
             >
-              {s}
-              <span className="ml-1 text-xs opacity-60">
-                {tasks.filter((t) => t.status === s).length}
-              </span>
+              All
             </Button>
-          ))}
-        </div>
-
-        {linkMode && (
-          <div className="flex items-center gap-2 px-4 py-2 bg-primary/5 border-b border-primary/20">
-            <Checkbox
-              checked={selectedForLink.size === filteredTasks.length && filteredTasks.length > 0}
-              onCheckedChange={() => selectAllFilteredTasks(filteredTasks)}
-            />
-            <span className="text-xs text-muted-foreground flex-1">
-              {selectedForLink.size === 0
-                ? "Select tasks to link together"
-                : `${selectedForLink.size} task${selectedForLink.size !== 1 ? "s" : ""} selected`}
-            </span>
-            {selectedForLink.size >= 2 && (
+            {statuses.map((s) => (
               <Button
+                key={s}
+                variant={statusFilter === s ? "default" : "ghost"}
                 size="sm"
-                onClick={() => bulkLinkMutation.mutate(Array.from(selectedForLink))}
-                disabled={bulkLinkMutation.isPending}
+                onClick={() => setStatusFilter(s)}
+                data-testid={`filter-${s.toLowerCase().replace(/\s/g, "-")}`}
               >
-                {bulkLinkMutation.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Link className="w-3 h-3 mr-1" />}
-                Link {selectedForLink.size} Tasks
+                {s}
+                <span className="ml-1 text-xs opacity-60">
+                  {tasks.filter((t) => t.status === s).length}
+                </span>
               </Button>
-            )}
-            <Button size="sm" variant="ghost" onClick={() => { setLinkMode(false); setSelectedForLink(new Set()); }}>
-              <X className="w-3 h-3" />
-            </Button>
+            ))}
           </div>
-        )}
 
-        <div className="flex-1 overflow-y-auto p-4 space-y-2">
-          {isLoading ? (
-            Array.from({ length: 5 }).map((_, i) => (
-              <Skeleton key={i} className="h-16 w-full rounded-md" />
-            ))
-          ) : filteredTasks.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground text-sm">
-              {statusFilter ? `No ${statusFilter} tasks` : "No tasks yet. Create one to get started."}
-            </div>
-          ) : (
-            filteredTasks.map((task) => {
-              const TypeIcon = typeIcons[task.type];
-              const PriorityIcon = priorityIcons[task.priority];
-              return (
-                <Card
-                  key={task.id}
-                  className={`p-3 cursor-pointer transition-colors hover-elevate ${
-                    selectedTaskId === task.id ? "ring-1 ring-primary" : ""
-                  } ${linkMode && selectedForLink.has(task.id) ? "ring-1 ring-primary bg-primary/5" : ""}`}
-                  onClick={() => linkMode ? toggleTaskSelection(task.id) : setSelectedTaskId(task.id)}
-                  data-testid={`task-card-${task.id}`}
+          {linkMode && (
+            <div className="flex items-center gap-2 px-4 py-2 bg-primary/5 border-b border-primary/20">
+              <Checkbox
+                checked={selectedForLink.size === filteredTasks.length && filteredTasks.length > 0}
+                onCheckedChange={() => selectAllFilteredTasks(filteredTasks)}
+              />
+              <span className="text-xs text-muted-foreground flex-1">
+                {selectedForLink.size === 0
+                  ? "Select tasks to link together"
+                  : `${selectedForLink.size} task${selectedForLink.size !== 1 ? "s" : ""} selected`}
+              </span>
+              {selectedForLink.size >= 2 && (
+                <Button
+                  size="sm"
+                  onClick={() => bulkLinkMutation.mutate(Array.from(selectedForLink))}
+                  disabled={bulkLinkMutation.isPending}
                 >
-                  <div className="flex items-start gap-3">
-                    {linkMode && (
-                      <Checkbox
-                        checked={selectedForLink.has(task.id)}
-                        onCheckedChange={() => toggleTaskSelection(task.id)}
-                        onClick={(e) => e.stopPropagation()}
-                        className="mt-0.5 shrink-0"
-                      />
-                    )}
-                    <TypeIcon className={`w-4 h-4 mt-0.5 shrink-0 ${typeColors[task.type]}`} />
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <span className="font-mono text-xs text-muted-foreground" data-testid={`text-task-id-${task.id}`}>
-                          {task.id}
-                        </span>
-                        <span className={`inline-flex items-center text-xs px-1.5 py-0.5 rounded-md border ${statusColors[task.status]}`}>
-                          {task.status}
-                        </span>
-                        {task.dependencies && task.dependencies.length > 0 && (
-                          <span className="inline-flex items-center gap-0.5 text-[10px] text-muted-foreground">
-                            <Link className="w-3 h-3" />
-                            {task.dependencies.length}
+                  {bulkLinkMutation.isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Link className="w-3 h-3 mr-1" />}
+                  Link {selectedForLink.size} Tasks
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" onClick={() => { setLinkMode(false); setSelectedForLink(new Set()); }}>
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full rounded-md" />
+              ))
+            ) : filteredTasks.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground text-sm">
+                {statusFilter ? `No ${statusFilter} tasks` : "No tasks yet. Create one to get started."}
+              </div>
+            ) : (
+              filteredTasks.map((task) => {
+                const TypeIcon = typeIcons[task.type];
+                const PriorityIcon = priorityIcons[task.priority];
+                return (
+                  <Card
+                    key={task.id}
+                    className={`p-3 cursor-pointer transition-colors hover-elevate ${
+                      selectedTaskId === task.id ? "ring-1 ring-primary" : ""
+                    } ${linkMode && selectedForLink.has(task.id) ? "ring-1 ring-primary bg-primary/5" : ""}`}
+                    onClick={() => linkMode ? toggleTaskSelection(task.id) : setSelectedTaskId(task.id)}
+                    data-testid={`task-card-${task.id}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      {linkMode && (
+                        <Checkbox
+                          checked={selectedForLink.has(task.id)}
+                          onCheckedChange={() => toggleTaskSelection(task.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="mt-0.5 shrink-0"
+                        />
+                      )}
+                      <TypeIcon className={`w-4 h-4 mt-0.5 shrink-0 ${typeColors[task.type]}`} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono text-xs text-muted-foreground" data-testid={`text-task-id-${task.id}`}>
+                            {task.id}
+                          </span>
+                          <span className={`inline-flex items-center text-xs px-1.5 py-0.5 rounded-md border ${statusColor(workflow, task.status)}`}>
+                            {task.status}
                           </span>
-                        )}
+                          {task.dependencies && task.dependencies.length > 0 && (
+                            <span className="inline-flex items-center gap-0.5 text-[10px] text-muted-foreground">
+                              <Link className="w-3 h-3" />
+                              {task.dependencies.length}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm font-medium mt-0.5 truncate" data-testid={`text-task-title-${task.id}`}>
+                          {task.title}
+                        </p>
                       </div>
-                      <p className="text-sm font-medium mt-0.5 truncate" data-testid={`text-task-title-${task.id}`}>
-                        {task.title}
-                      </p>
-                    </div>
-                    <div className="flex items-center gap-2 shrink-0">
-                      <PriorityIcon
-                        className={`w-4 h-4 ${priorityColors[task.priority]}`}
-                      />
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={(e) => e.stopPropagation()}
-                            data-testid={`button-task-menu-${task.id}`}
-                          >
-                            <MoreVertical className="w-3.5 h-3.5" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          {otherProjects.length > 0 && (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <PriorityIcon
+                          className={`w-4 h-4 ${priorityColors[task.priority]}`}
+                        />
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={(e) => e.stopPropagation()}
+                              data-testid={`button-task-menu-${task.id}`}
+                            >
+                              <MoreVertical className="w-3.5 h-3.5" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {otherProjects.length > 0 && (
+                              <DropdownMenuItem
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setMoveTaskId(task.id);
+                                }}
+                                data-testid={`button-move-task-${task.id}`}
+                              >
+                                <FolderOutput className="w-4 h-4 mr-2" />
+                                Move to Project
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
+                              className="text-destructive focus:text-destructive"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                setMoveTaskId(task.id);
+                                setDeleteTaskId(task.id);
                               }}
-                              data-testid={`button-move-task-${task.id}`}
+                              data-testid={`button-delete-task-${task.id}`}
                             >
-                              <FolderOutput className="w-4 h-4 mr-2" />
-                              Move to Project
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
                             </DropdownMenuItem>
-                          )}
-                          <DropdownMenuItem
-                            className="text-destructive focus:text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setDeleteTaskId(task.id);
-                            }}
-                            data-testid={`button-delete-task-${task.id}`}
-                          >
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
                     </div>
-                  </div>
-                </Card>
-              );
-            })
-          )}
-        </div>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+          </>
+        )}
       </div>
 
       {selectedTask && (
@@ -667,6 +990,15 @@ function ProjectTasksView() {
         projectId={selectedProjectId}
       />
 
+      {project && (
+        <WorkflowDialog
+          open={workflowDialogOpen}
+          onOpenChange={setWorkflowDialogOpen}
+          project={project}
+          canEdit={isOwner}
+        />
+      )}
+
       <AlertDialog open={!!deleteTaskId} onOpenChange={() => setDeleteTaskId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -687,7 +1019,7 @@ function ProjectTasksView() {
         </AlertDialogContent>
       </AlertDialog>
 
-      <Dialog open={!!moveTaskId} onOpenChange={(val) => { if (!val) { setMoveTaskId(null); setMoveTargetProjectId(""); } }}>
+      <Dialog open={!!moveTaskId} onOpenChange={(val) => { if (!val) { setMoveTaskId(null); setMoveTargetProjectId(""); setMoveTargetStatus(""); } }}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle>Move Task to Another Project</DialogTitle>
@@ -698,7 +1030,7 @@ function ProjectTasksView() {
           <div className="space-y-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Target Project</label>
-              <Select value={moveTargetProjectId || "__none__"} onValueChange={(val) => setMoveTargetProjectId(val === "__none__" ? "" : val)}>
+              <Select value={moveTargetProjectId || "__none__"} onValueChange={(val) => { setMoveTargetProjectId(val === "__none__" ? "" : val); setMoveTargetStatus(""); }}>
                 <SelectTrigger data-testid="select-move-target-project">
                   <SelectValue placeholder="Select a project" />
                 </SelectTrigger>
@@ -715,13 +1047,36 @@ function ProjectTasksView() {
                 </SelectContent>
               </Select>
             </div>
+            {moveTargetProject && moveNeedsStatus && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Status in {moveTargetProject.name}</label>
+                <p className="text-xs text-muted-foreground">
+                  {moveTargetProject.name} has no "{moveTask?.status}" status. Choose where the task lands.
+                </p>
+                <Select value={moveTargetStatus || "__none__"} onValueChange={(val) => setMoveTargetStatus(val === "__none__" ? "" : val)}>
+                  <SelectTrigger data-testid="select-move-target-status">
+                    <SelectValue placeholder="Select a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">Select a status</SelectItem>
+                    {moveTargetProject.workflow.statuses.map((s) => (
+                      <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="flex justify-end gap-2">
-              <Button variant="outline" onClick={() => { setMoveTaskId(null); setMoveTargetProjectId(""); }} data-testid="button-cancel-move">
+              <Button variant="outline" onClick={() => { setMoveTaskId(null); setMoveTargetProjectId(""); setMoveTargetStatus(""); }} data-testid="button-cancel-move">
                 Cancel
               </Button>
               <Button
-                onClick={() => moveTaskId && moveTargetProjectId && moveMutation.mutate({ taskId: moveTaskId, targetProjectId: moveTargetProjectId })}
-                disabled={!moveTargetProjectId || moveMutation.isPending}
+                onClick={() => moveTaskId && moveTargetProjectId && moveMutation.mutate({
+                  taskId: moveTaskId,
+                  targetProjectId: moveTargetProjectId,
+                  ...(moveNeedsStatus ? { status: moveTargetStatus } : {}),
+                })}
+                disabled={!moveTargetProjectId || (moveNeedsStatus && !moveTargetStatus) || moveMutation.isPending}
                 data-testid="button-confirm-move"
               >
                 {moveMutation.isPending ? (
@@ -1,14 +1,13 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { estimateCostUsd, type LLMProvider, type LLMMessage, type LLMResponse, type LLMContentBlock } from "./llm";
+import type { AgentApprovalDecision, AgentBudget, AgentCommand, AgentRunUsage, AgentStagedFile } from "@shared/schema";
+import { normalizeCommand, sandboxConfigured, type CommandResult } from "./sandboxedCommand";
+import { applySearchReplace, applyUnifiedDiff, PatchConflictError } from "./filePatch";
 import {
   type RepoContext,
   type FileWrite,
   type AgentStep,
   toolDefinitions,
-  executeReadFile,
-  executeListDirectory,
-  executeSearchCode,
-  executeCreatePR,
-  executeCommitAndPush,
+  runCommandTool,
 } from "./agentTools";
 
 const MAX_ITERATIONS = 25;
@@ -16,12 +15,46 @@ const MAX_ITERATIONS = 25;
 export type DeployMode = "pr" | "push";
 
 export interface AgentRunOptions {
-  apiKey: string;
+  provider: LLMProvider;
   repo: RepoContext;
   systemPrompt: string;
   userMessage: string;
   deployMode: DeployMode;
   onStep: (step: AgentStep) => void;
+  /** When set, deploys pause until the user approves, edits or rejects the staged files. */
+  requestApproval?: (files: AgentStagedFile[]) => Promise<AgentApprovalDecision>;
+  /** Commands the agent may run via run_command; required ones must pass before any deploy. */
+  commands?: AgentCommand[];
+  /** Token, cost, time and iteration limits; the run stops with a summary when one is reached. */
+  budget?: AgentBudget;
+}
+
+/** Outcome of the pre-deploy gate: a failing required check, or the user's review decision. */
+type DeployGate = AgentApprovalDecision | { action: "blocked"; message: string };
+
+function formatCommandResult(result: CommandResult): string {
+  const status = result.timedOut ? "timed out" : `exited with code ${result.exitCode}`;
+  return `$ ${result.command}\n${status} after ${(result.durationMs / 1000).toFixed(1)}s\n\n${result.output || "(no output)"}`;
+}
+
+function describeBudgetLimit(budget: AgentBudget, usage: AgentRunUsage): string | null {
+  if (budget.maxInputTokens && usage.inputTokens >= budget.maxInputTokens) {
+    return `input token budget (${usage.inputTokens.toLocaleString()} of ${budget.maxInputTokens.toLocaleString()})`;
+  }
+  if (budget.maxOutputTokens && usage.outputTokens >= budget.maxOutputTokens) {
+    return `output token budget (${usage.outputTokens.toLocaleString()} of ${budget.maxOutputTokens.toLocaleString()})`;
+  }
+  if (budget.maxCostUsd && usage.costUsd >= budget.maxCostUsd) {
+    return `cost budget ($${usage.costUsd.toFixed(2)} of $${budget.maxCostUsd.toFixed(2)})`;
+  }
+  if (budget.maxDurationSeconds && usage.durationMs >= budget.maxDurationSeconds * 1000) {
+    return `time budget (${Math.round(usage.durationMs / 1000)}s of ${budget.maxDurationSeconds}s)`;
+  }
+  return null;
+}
+
+function feedbackPrompt(message: string, deployTool: string): string {
+  return `The user reviewed the staged files and asked for changes before deploying:\n\n${message}\n\nUpdate the files with apply_edit or write_file, then call ${deployTool} again.`;
 }
 
 export async function runAgentLoop(options: AgentRunOptions): Promise<{
@@ -29,13 +62,37 @@ export async function runAgentLoop(options: AgentRunOptions): Promise<{
   prUrl?: string;
   prNumber?: number;
   pushSha?: string;
+  /** Why staged writes must not be deployed (a required check is failing), if so. */
+  deployBlocked?: string;
+  usage: AgentRunUsage;
+  /** The limit that stopped the run early, if one did. */
+  budgetExceeded?: string;
+  /** Why the run stopped before the model finished (e.g. a failed model request), if it did. */
+  aborted?: string;
 }> {
-  const { apiKey, repo, systemPrompt, userMessage, deployMode, onStep } = options;
-  const anthropic = new Anthropic({ apiKey });
+  const { provider, repo, systemPrompt, userMessage, deployMode, onStep, requestApproval, commands = [], budget = {} } = options;
   const pendingWrites: FileWrite[] = [];
+  const originals = new Map<string, string>();
+  const allowedCommands = new Map(commands.map(c => [normalizeCommand(c.command), c]));
+  // Each write bumps the version; a check result only counts for the version it ran against
+  let writeVersion = 0;
+  const checkResults = new Map<string, { passed: boolean; version: number; summary: string }>();
+  const deployTool = deployMode === "push" ? "commit_and_push" : "create_pull_request";
   let prUrl: string | undefined;
   let prNumber: number | undefined;
   let pushSha: string | undefined;
+  let budgetExceeded: string | undefined;
+  let aborted: string | undefined;
+  // The write version the user last approved; later writes need another review
+  let approvedVersion: number | null = null;
+  let askedToDeploy = false;
+
+  const usage: AgentRunUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0, iterations: 0, durationMs: 0 };
+  const maxIterations = budget.maxIterations ?? MAX_ITERATIONS;
+  const startedAt = Date.now();
+  // Time spent waiting on the user's review does not count against the time budget
+  let pausedMs = 0;
+  let warnedUnpriced = false;
 
   // Filter tools based on deploy mode
   const tools = toolDefinitions.filter(t => {
@@ -43,47 +100,172 @@ export async function runAgentLoop(options: AgentRunOptions): Promise<{
     if (deployMode === "pr") return t.name !== "commit_and_push";
     return true;
   });
+  // Without a sandbox the tool is not offered; required checks then fail and keep deploys blocked
+  if (allowedCommands.size > 0 && sandboxConfigured()) tools.push(runCommandTool(Array.from(allowedCommands.keys())));
 
-  const messages: Anthropic.MessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: "user", content: userMessage },
   ];
 
-  for (let i = 0; i < MAX_ITERATIONS; i++) {
-    let response: Anthropic.Message;
+  // Review gate: approved files (possibly edited) replace the staged set; a rejection clears it
+  const reviewStagedWrites = async (): Promise<AgentApprovalDecision> => {
+    if (!requestApproval || approvedVersion === writeVersion) return { action: "approve", files: pendingWrites };
+    const latest = new Map<string, FileWrite>();
+    for (const w of pendingWrites) latest.set(w.path, w);
+    const staged = Array.from(latest.values()).map(w => ({ ...w, originalContent: originals.get(w.path) || "" }));
+    const pauseStarted = Date.now();
+    const decision = await requestApproval(staged);
+    pausedMs += Date.now() - pauseStarted;
+    if (decision.action === "approve") {
+      pendingWrites.splice(0, pendingWrites.length, ...decision.files);
+      if (pendingWrites.length === 0) return { action: "reject", reason: "No files were approved" };
+      approvedVersion = writeVersion;
+    } else if (decision.action === "reject") {
+      pendingWrites.length = 0;
+    }
+    return decision;
+  };
+
+  // Stages a whole-file write (both write_file and apply_edit end here) and emits it with its original for diffing
+  const stageFile = async (path: string, content: string, description: string) => {
+    pendingWrites.push({ path, content, description });
+    writeVersion++;
+
+    let originalContent = originals.get(path) ?? "";
+    if (!originals.has(path)) {
+      try {
+        const orig = await repo.readFile(path);
+        if (!orig.startsWith("Error:")) originalContent = orig;
+      } catch {}
+      originals.set(path, originalContent);
+    }
+
+    onStep({
+      type: "file_write",
+      path,
+      fileContent: content,
+      description,
+      content: originalContent,
+    });
+  };
+
+  // What an edit applies to: the latest staged write of the path, else the repository's copy
+  const currentContent = async (path: string): Promise<string> => {
+    for (let i = pendingWrites.length - 1; i >= 0; i--) {
+      if (pendingWrites[i].path === path) return pendingWrites[i].content;
+    }
+    if (originals.has(path)) return originals.get(path)!;
+    const content = await repo.readFile(path);
+    return content.startsWith("Error:") ? "" : content;
+  };
+
+  const runCheck = async (command: string): Promise<CommandResult> => {
+    const result = await repo.runCommand(command, pendingWrites);
+    const passed = result.exitCode === 0;
+    checkResults.set(command, {
+      passed,
+      version: writeVersion,
+      summary: result.timedOut ? "timed out" : result.exitCode === null ? "could not run" : `exit code ${result.exitCode}`,
+    });
+    onStep({
+      type: "command_result",
+      command,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      content: result.output,
+    });
+    return result;
+  };
+
+  // Runs required checks that have not passed against the current writes; returns why deploy is blocked
+  const verifyRequiredChecks = async (): Promise<string | null> => {
+    const failures: string[] = [];
+    for (const [command, cfg] of Array.from(allowedCommands.entries())) {
+      if (!cfg.requiredForDeploy) continue;
+      let record = checkResults.get(command);
+      if (!record || record.version !== writeVersion) {
+        onStep({ type: "tool_call", tool: "run_command", input: { command } });
+        await runCheck(command);
+        record = checkResults.get(command)!;
+      }
+      if (!record.passed) failures.push(`${command} (${record.summary})`);
+    }
+    return failures.length > 0 ? `Deploy blocked: required checks are failing: ${failures.join(", ")}` : null;
+  };
+
+  const gateDeploy = async (): Promise<DeployGate> => {
+    const blocked = await verifyRequiredChecks();
+    if (blocked) return { action: "blocked", message: blocked };
+    return reviewStagedWrites();
+  };
+
+  for (let i = 0; ; i++) {
+    usage.durationMs = Date.now() - startedAt - pausedMs;
+    const limit = i >= maxIterations ? `iteration limit (${maxIterations})` : describeBudgetLimit(budget, usage);
+    if (limit) {
+      budgetExceeded = limit;
+      break;
+    }
+
+    let response: LLMResponse;
     try {
-      response = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 8192,
+      response = await provider.complete({
+        maxTokens: 8192,
         system: systemPrompt,
         tools,
         messages,
       });
     } catch (err: any) {
       onStep({ type: "error", content: `API error: ${err.message}` });
+      aborted = `the model request failed (${err.message})`;
       break;
     }
 
+    const cost = estimateCostUsd(response.model, response.usage);
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+    usage.costUsd += cost ?? 0;
+    usage.iterations++;
+    usage.durationMs = Date.now() - startedAt - pausedMs;
+    const unpricedNote = cost === null && budget.maxCostUsd && !warnedUnpriced
+      ? `No price is known for ${response.model}, so the cost budget cannot be enforced for this run.`
+      : undefined;
+    if (unpricedNote) warnedUnpriced = true;
+    onStep({ type: "usage", usage: { ...usage }, content: unpricedNote });
+
     // Extract text blocks and emit thinking
-    const textBlocks = response.content
-      .filter((b): b is Anthropic.TextBlock => b.type === "text")
-      .map(b => b.text)
-      .join("");
+    const textBlocks = response.text;
     if (textBlocks) {
       onStep({ type: "thinking", content: textBlocks });
     }
 
-    // If the model stopped without tool use, we're done
-    if (response.stop_reason === "end_turn" || response.stop_reason === "max_tokens") {
-      onStep({ type: "done", content: textBlocks || "Agent finished." });
-      break;
-    }
-
-    // Process tool calls
     const toolUseBlocks = response.content.filter(
-      (b): b is Anthropic.ToolUseBlock => b.type === "tool_use"
+      (b): b is Extract<LLMContentBlock, { type: "tool_use" }> => b.type === "tool_use"
     );
 
-    if (toolUseBlocks.length === 0) {
+    // If the model stopped without tool use, we're done
+    if (response.stopReason === "end_turn" || response.stopReason === "max_tokens" || toolUseBlocks.length === 0) {
+      // Undeployed writes still pass the gate; failing checks or review feedback send the model back to work
+      if (pendingWrites.length > 0 && !prUrl && !pushSha && (requestApproval || allowedCommands.size > 0)) {
+        const gate = await gateDeploy();
+        if (gate.action === "blocked" || gate.action === "feedback") {
+          messages.push({ role: "assistant", content: response.content });
+          messages.push({
+            role: "user",
+            content: gate.action === "blocked"
+              ? `${gate.message}\n\nFix the failures with apply_edit or write_file, then call ${deployTool}.`
+              : feedbackPrompt(gate.message, deployTool),
+          });
+          continue;
+        }
+        // Approved writes only deploy through the tool, so the model gets one more turn to call it
+        if (gate.action === "approve" && requestApproval && !askedToDeploy) {
+          askedToDeploy = true;
+          messages.push({ role: "assistant", content: response.content });
+          messages.push({ role: "user", content: `The user approved the staged changes. Call ${deployTool} now to deploy them.` });
+          continue;
+        }
+      }
       onStep({ type: "done", content: textBlocks || "Agent finished." });
       break;
     }
@@ -91,67 +273,84 @@ export async function runAgentLoop(options: AgentRunOptions): Promise<{
     // Add assistant response to conversation
     messages.push({ role: "assistant", content: response.content });
 
-    const toolResults: Anthropic.ToolResultBlockParam[] = [];
+    const toolResults: LLMContentBlock[] = [];
+    let rejected = false;
 
     for (const toolCall of toolUseBlocks) {
       const input = toolCall.input as any;
       onStep({ type: "tool_call", tool: toolCall.name, input });
 
       let resultText: string;
+      let isError = false;
 
       try {
         switch (toolCall.name) {
           case "read_file": {
-            resultText = await executeReadFile(repo, input.path);
+            resultText = await repo.readFile(input.path);
             onStep({ type: "tool_result", tool: "read_file", result: `Read ${input.path} (${resultText.length} chars)` });
             break;
           }
 
           case "list_directory": {
-            resultText = await executeListDirectory(repo, input.path || "");
+            resultText = await repo.listDirectory(input.path || "");
             onStep({ type: "tool_result", tool: "list_directory", result: `Listed ${input.path || "root"}` });
             break;
           }
 
           case "search_code": {
-            resultText = await executeSearchCode(repo, input.query, input.file_extension);
+            resultText = await repo.searchCode(input.query, input.file_extension);
             onStep({ type: "tool_result", tool: "search_code", result: resultText.slice(0, 200) });
             break;
           }
 
           case "write_file": {
-            pendingWrites.push({
-              path: input.path,
-              content: input.content,
-              description: input.description,
-            });
+            await stageFile(input.path, input.content, input.description);
             resultText = `File "${input.path}" staged for commit. (${pendingWrites.length} file(s) staged total)`;
+            break;
+          }
 
-            // Read original content for diff display
-            let originalContent = "";
+          case "apply_edit": {
+            const hasEdits = Array.isArray(input.edits) && input.edits.length > 0;
+            if (hasEdits === (typeof input.patch === "string" && input.patch.trim() !== "")) {
+              resultText = "Error: provide exactly one of `edits` or `patch`.";
+              isError = true;
+              break;
+            }
             try {
-              const orig = await executeReadFile(repo, input.path);
-              if (!orig.startsWith("Error:")) originalContent = orig;
-            } catch {}
-
-            onStep({
-              type: "file_write",
-              path: input.path,
-              fileContent: input.content,
-              description: input.description,
-              content: originalContent,
-            });
+              const before = await currentContent(input.path);
+              const after = hasEdits ? applySearchReplace(before, input.edits) : applyUnifiedDiff(before, input.patch);
+              if (after === before) {
+                resultText = `Error: the edit leaves ${input.path} unchanged.`;
+                isError = true;
+                break;
+              }
+              await stageFile(input.path, after, input.description);
+              resultText = `Edit applied; "${input.path}" staged for commit (${after.split("\n").length} lines). (${pendingWrites.length} file(s) staged total)`;
+            } catch (err) {
+              if (!(err instanceof PatchConflictError)) throw err;
+              resultText = `Error: ${err.message}. Nothing was staged for ${input.path}.`;
+              isError = true;
+              onStep({ type: "tool_result", tool: "apply_edit", result: err.message });
+            }
             break;
           }
 
           case "create_pull_request": {
-            if (pendingWrites.length === 0) {
+            const review = pendingWrites.length > 0 ? await gateDeploy() : undefined;
+            if (!review) {
               resultText = "Error: No files have been written yet. Use write_file first.";
               onStep({ type: "error", content: resultText });
+            } else if (review.action === "blocked") {
+              resultText = `${review.message}. Fix the failures with write_file before deploying.`;
+              onStep({ type: "error", content: review.message });
+            } else if (review?.action === "feedback") {
+              resultText = feedbackPrompt(review.message, toolCall.name);
+            } else if (review?.action === "reject") {
+              resultText = "The user rejected the staged changes. Do not deploy them.";
+              rejected = true;
             } else {
               try {
-                const pr = await executeCreatePR(
-                  repo,
+                const pr = await repo.createPullRequest(
                   pendingWrites,
                   input.title,
                   input.body,
@@ -176,13 +375,21 @@ export async function runAgentLoop(options: AgentRunOptions): Promise<{
           }
 
           case "commit_and_push": {
-            if (pendingWrites.length === 0) {
+            const review = pendingWrites.length > 0 ? await gateDeploy() : undefined;
+            if (!review) {
               resultText = "Error: No files have been written yet. Use write_file first.";
               onStep({ type: "error", content: resultText });
+            } else if (review.action === "blocked") {
+              resultText = `${review.message}. Fix the failures with write_file before deploying.`;
+              onStep({ type: "error", content: review.message });
+            } else if (review?.action === "feedback") {
+              resultText = feedbackPrompt(review.message, toolCall.name);
+            } else if (review?.action === "reject") {
+              resultText = "The user rejected the staged changes. Do not deploy them.";
+              rejected = true;
             } else {
               try {
-                const result = await executeCommitAndPush(
-                  repo,
+                const result = await repo.commitAndPush(
                   pendingWrites,
                   input.commit_message,
                 );
@@ -201,6 +408,17 @@ export async function runAgentLoop(options: AgentRunOptions): Promise<{
             break;
           }
 
+          case "run_command": {
+            const command = normalizeCommand(String(input.command || ""));
+            if (!allowedCommands.has(command)) {
+              resultText = `Error: "${input.command}" is not an allowed command. Allowed: ${Array.from(allowedCommands.keys()).join(", ")}`;
+              onStep({ type: "error", content: resultText });
+            } else {
+              resultText = formatCommandResult(await runCheck(command));
+            }
+            break;
+          }
+
           default:
             resultText = `Unknown tool: ${toolCall.name}`;
         }
@@ -211,13 +429,40 @@ export async function runAgentLoop(options: AgentRunOptions): Promise<{
 
       toolResults.push({
         type: "tool_result",
-        tool_use_id: toolCall.id,
+        toolUseId: toolCall.id,
         content: resultText,
+        ...(isError ? { isError } : {}),
       });
     }
 
     messages.push({ role: "user", content: toolResults });
+
+    if (rejected) {
+      onStep({ type: "done", content: "Changes rejected — nothing was deployed." });
+      break;
+    }
   }
 
-  return { pendingWrites, prUrl, prNumber, pushSha };
+  usage.durationMs = Date.now() - startedAt - pausedMs;
+  if (budgetExceeded) {
+    const undeployed = pendingWrites.length > 0 && !prUrl && !pushSha;
+    const staged = Array.from(new Set(pendingWrites.map(w => w.path)));
+    onStep({ type: "budget_exceeded", content: `Stopped: reached the ${budgetExceeded}.`, usage: { ...usage } });
+    onStep({
+      type: "done",
+      content: [
+        `Stopped after ${usage.iterations} iteration(s) on reaching the ${budgetExceeded}.`,
+        `Used ${usage.inputTokens.toLocaleString()} input and ${usage.outputTokens.toLocaleString()} output tokens (~$${usage.costUsd.toFixed(2)}).`,
+        prUrl ? `Pull request: ${prUrl}` : pushSha ? `Pushed commit ${pushSha.slice(0, 7)}.` : null,
+        undeployed ? `Staged but not deployed: ${staged.join(", ")}` : null,
+      ].filter(Boolean).join("\n"),
+    });
+  }
+
+  // Whatever ended the loop, staged writes only leave through the route's fallback if checks pass
+  const deployBlocked = pendingWrites.length > 0 && !prUrl && !pushSha && !budgetExceeded && !aborted
+    ? (await verifyRequiredChecks()) ?? undefined
+    : undefined;
+
+  return { pendingWrites, prUrl, prNumber, pushSha, deployBlocked, usage, budgetExceeded, aborted };
 }
@@ -0,0 +1,181 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import { agentBudgetSchema, type AgentRun, type AgentStep, type AgentStagedFile, type AgentApprovalDecision, type AgentBudget } from "@shared/schema";
+
+/**
+ * Agent runs execute detached from the HTTP request that started them. Every step is
+ * persisted to agent_run_steps and fanned out to whichever SSE clients are attached, so a
+ * closed tab neither stops the run nor loses its feed — the client can reattach while it
+ * is live or replay it from the database once it has finished.
+ */
+
+export interface AgentRunOutcome {
+  prUrl?: string;
+  prNumber?: number;
+  pushSha?: string;
+  error?: string;
+  budgetExceeded?: string;
+}
+
+type StepEmitter = (step: AgentStep) => void;
+
+/** Pauses the run until the user decides on the staged files (review-before-deploy mode). */
+export type ApprovalRequester = (files: AgentStagedFile[]) => Promise<AgentApprovalDecision>;
+
+interface LiveRun {
+  steps: AgentStep[];
+  listeners: Set<(step: AgentStep) => void>;
+  // Step inserts are chained so they land in emit order
+  persisted: Promise<void>;
+  // Set while the run is paused for review
+  resolveApproval?: (decision: AgentApprovalDecision) => void;
+}
+
+const liveRuns = new Map<string, LiveRun>();
+
+function emit(runId: string, live: LiveRun, step: AgentStep) {
+  const seq = live.steps.length;
+  live.steps.push(step);
+  live.persisted = live.persisted
+    .then(() => storage.addAgentRunStep(runId, seq, step))
+    // Usage totals are kept current on the run row so reports stay right even if the run dies
+    .then(() => step.type === "usage" && step.usage
+      ? storage.updateAgentRun(runId, {
+          inputTokens: step.usage.inputTokens,
+          outputTokens: step.usage.outputTokens,
+          costUsd: step.usage.costUsd,
+          iterations: step.usage.iterations,
+        })
+      : undefined)
+    .catch(err => console.error(`[agent-run] Failed to persist step ${seq} of ${runId}:`, err));
+  live.listeners.forEach(listener => listener(step));
+}
+
+/**
+ * Combines the business's default budget with one requested for a single run. A run may only
+ * tighten the business limits, so each field takes the lower of the two values that are set.
+ */
+export function effectiveAgentBudget(defaults: AgentBudget, requested: AgentBudget = {}): AgentBudget {
+  const budget: AgentBudget = {};
+  for (const key of Object.keys(agentBudgetSchema.shape) as (keyof AgentBudget)[]) {
+    const values = [defaults[key], requested[key]].filter((v): v is number => typeof v === "number");
+    if (values.length > 0) budget[key] = Math.min(...values);
+  }
+  return budget;
+}
+
+function describeDecision(decision: AgentApprovalDecision, staged: number): string {
+  switch (decision.action) {
+    case "approve":
+      return `Approved ${decision.files.length} of ${staged} file(s) for deploy`;
+    case "feedback":
+      return `Sent back with feedback: ${decision.message}`;
+    case "reject":
+      return decision.reason ? `Rejected: ${decision.reason}` : "Rejected the staged changes";
+  }
+}
+
+/** Starts `execute` in the background and returns immediately; the run row must already exist. */
+export function launchAgentRun(
+  run: AgentRun,
+  execute: (emit: StepEmitter, requestApproval: ApprovalRequester) => Promise<AgentRunOutcome>,
+): void {
+  const live: LiveRun = { steps: [], listeners: new Set(), persisted: Promise.resolve() };
+  liveRuns.set(run.id, live);
+  emit(run.id, live, { type: "run_started", runId: run.id });
+
+  const requestApproval: ApprovalRequester = async (files) => {
+    const decision = new Promise<AgentApprovalDecision>(resolve => { live.resolveApproval = resolve; });
+    emit(run.id, live, { type: "awaiting_approval", files });
+    await storage.updateAgentRun(run.id, { status: "awaiting_approval" });
+    const result = await decision;
+    emit(run.id, live, {
+      type: "approval_decision",
+      content: describeDecision(result, files.length),
+      ...(result.action === "approve" ? { files: result.files } : {}),
+    });
+    await storage.updateAgentRun(run.id, { status: "running" });
+    return result;
+  };
+
+  (async () => {
+    let outcome: AgentRunOutcome;
+    try {
+      outcome = await execute(step => emit(run.id, live, step), requestApproval);
+    } catch (err: any) {
+      console.error("[agent-run] Error:", err);
+      outcome = { error: err.message || "Agent loop failed" };
+      emit(run.id, live, { type: "error", content: outcome.error });
+    }
+
+    emit(run.id, live, { type: "complete", prUrl: outcome.prUrl, prNumber: outcome.prNumber, pushSha: outcome.pushSha });
+    await live.persisted;
+    try {
+      await storage.updateAgentRun(run.id, {
+        status: outcome.error ? "failed" : "completed",
+        prUrl: outcome.prUrl,
+        prNumber: outcome.prNumber,
+        pushSha: outcome.pushSha,
+        error: outcome.error,
+        budgetExceeded: outcome.budgetExceeded,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      console.error(`[agent-run] Failed to finalize ${run.id}:`, err);
+    }
+    liveRuns.delete(run.id);
+  })();
+}
+
+/** Resumes a run paused for review; returns false when the run is not waiting on a decision. */
+export function submitAgentRunApproval(runId: string, decision: AgentApprovalDecision): boolean {
+  const live = liveRuns.get(runId);
+  if (!live?.resolveApproval) return false;
+  const resolve = live.resolveApproval;
+  live.resolveApproval = undefined;
+  resolve(decision);
+  return true;
+}
+
+/** Steps of a run, served from memory while it is live since the database may lag behind. */
+export async function loadAgentRunSteps(runId: string): Promise<AgentStep[]> {
+  const live = liveRuns.get(runId);
+  return live ? [...live.steps] : storage.getAgentRunSteps(runId);
+}
+
+/**
+ * Streams a run to an SSE response: everything emitted so far, then live steps until the
+ * run completes. Finished runs are replayed from storage and the stream closes at once.
+ */
+export async function streamAgentRun(runId: string, res: Response): Promise<void> {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const write = (step: AgentStep) => res.write(`data: ${JSON.stringify(step)}\n\n`);
+
+  const live = liveRuns.get(runId);
+  if (!live) {
+    for (const step of await storage.getAgentRunSteps(runId)) write(step);
+    res.end();
+    return;
+  }
+
+  // Replay and subscribe synchronously so no step slips in between
+  for (const step of live.steps) write(step);
+  if (live.steps[live.steps.length - 1]?.type === "complete") {
+    res.end();
+    return;
+  }
+  const listener = (step: AgentStep) => {
+    write(step);
+    if (step.type === "complete") {
+      live.listeners.delete(listener);
+      res.end();
+    }
+  };
+  live.listeners.add(listener);
+  res.on("close", () => live.listeners.delete(listener));
+}
@@ -1,41 +1,39 @@
-import type Anthropic from "@anthropic-ai/sdk";
+import type { LLMTool } from "./llm";
+import type { CommandResult } from "./sandboxedCommand";
+import { commitToBranch, createPullRequestWithChanges, getDefaultBranch, githubHeaders } from "./githubGit";
 
-export interface RepoContext {
+/** Coordinates and credentials of a GitHub repository. */
+export interface GitHubRepoRef {
   owner: string;
   repo: string;
   token: string;
 }
 
+/**
+ * What the agent tools run against. The GitHub implementation calls the REST API per tool
+ * call; LocalGitWorkspace (server/localGitWorkspace.ts) works on a cloned copy.
+ */
+export interface RepoContext {
+  readFile(path: string): Promise<string>;
+  listDirectory(path: string): Promise<string>;
+  searchCode(query: string, fileExtension?: string): Promise<string>;
+  createPullRequest(pendingWrites: FileWrite[], title: string, body: string, branchName: string): Promise<{ url: string; number: number }>;
+  commitAndPush(pendingWrites: FileWrite[], commitMessage: string): Promise<{ sha: string; filesCommitted: number }>;
+  /** Runs an already allow-listed command in a checkout with the staged writes applied. */
+  runCommand(command: string, pendingWrites: FileWrite[]): Promise<CommandResult>;
+  /** Releases anything held for the run (e.g. the working copy on disk). */
+  dispose(): Promise<void>;
+}
+
 export interface FileWrite {
   path: string;
   content: string;
   description: string;
 }
 
-export interface AgentStep {
-  type: "thinking" | "tool_call" | "tool_result" | "file_write" | "pr_created" | "error" | "done";
-  content?: string;
-  tool?: string;
-  input?: any;
-  result?: string;
-  path?: string;
-  fileContent?: string;
-  description?: string;
-  prUrl?: string;
-  prNumber?: number;
-  branchName?: string;
-}
-
-function headers(token: string) {
-  return {
-    Authorization: `token ${token}`,
-    Accept: "application/vnd.github.v3+json",
-    "User-Agent": "AI-Dev-Hub",
-    "Content-Type": "application/json",
-  };
-}
+export type { AgentStep } from "@shared/schema";
 
-export const toolDefinitions: Anthropic.Tool[] = [
+export const toolDefinitions: LLMTool[] = [
   {
     name: "read_file",
     description: "Read the contents of a file from the repository. Returns the full file content as text.",
@@ -72,7 +70,7 @@ export const toolDefinitions: Anthropic.Tool[] = [
   },
   {
     name: "write_file",
-    description: "Create or modify a file. Provide the COMPLETE new file content. The file will be staged for the PR.",
+    description: "Create a file or replace one entirely. Provide the COMPLETE new file content. The file will be staged for the PR. For targeted changes to an existing file, use apply_edit instead.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -83,6 +81,31 @@ export const toolDefinitions: Anthropic.Tool[] = [
       required: ["path", "content", "description"],
     },
   },
+  {
+    name: "apply_edit",
+    description: "Change part of a file without rewriting it. Give either `edits` (search/replace blocks; each search must match the file exactly once, whitespace included) or `patch` (a unified diff for this one file). Edits apply to the latest staged version of the file, or the repository version if it has not been written yet. If they do not apply cleanly nothing is staged and the error says why — re-read the file and retry.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        path: { type: "string", description: "File path relative to repo root" },
+        edits: {
+          type: "array",
+          description: "Search/replace blocks, applied in order",
+          items: {
+            type: "object",
+            properties: {
+              search: { type: "string", description: "Exact text to find, with enough surrounding lines to be unique" },
+              replace: { type: "string", description: "Text to put in its place" },
+            },
+            required: ["search", "replace"],
+          },
+        },
+        patch: { type: "string", description: "Unified diff with @@ hunk headers, as an alternative to edits" },
+        description: { type: "string", description: "Brief description of what changed" },
+      },
+      required: ["path", "description"],
+    },
+  },
   {
     name: "create_pull_request",
     description: "Create a GitHub Pull Request with all file changes made so far via write_file. Call this when you are finished making all changes.",
@@ -109,11 +132,11 @@ export const toolDefinitions: Anthropic.Tool[] = [
   },
 ];
 
-export async function executeReadFile(ctx: RepoContext, path: string): Promise<string> {
+export async function executeReadFile(ctx: GitHubRepoRef, path: string): Promise<string> {
   const encodedPath = path.split("/").map(encodeURIComponent).join("/");
   const res = await fetch(
     `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}`,
-    { headers: headers(ctx.token) }
+    { headers: githubHeaders(ctx.token) }
   );
   if (!res.ok) {
     const err = await res.json().catch(() => ({}));
@@ -126,13 +149,13 @@ export async function executeReadFile(ctx: RepoContext, path: string): Promise<s
   return `Error: File ${path} has unsupported encoding or is empty.`;
 }
 
-export async function executeListDirectory(ctx: RepoContext, path: string): Promise<string> {
+export async function executeListDirectory(ctx: GitHubRepoRef, path: string): Promise<string> {
   const cleanPath = path === "." || path === "" ? "" : path;
   const encodedPath = cleanPath ? cleanPath.split("/").map(encodeURIComponent).join("/") : "";
   const url = encodedPath
     ? `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}`
     : `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents`;
-  const res = await fetch(url, { headers: headers(ctx.token) });
+  const res = await fetch(url, { headers: githubHeaders(ctx.token) });
   if (!res.ok) {
     return `Error: Could not list directory ${path || "root"}`;
   }
@@ -141,12 +164,12 @@ export async function executeListDirectory(ctx: RepoContext, path: string): Prom
   return data.map((item: any) => `${item.name}${item.type === "dir" ? "/" : ""}`).join("\n");
 }
 
-export async function executeSearchCode(ctx: RepoContext, query: string, fileExtension?: string): Promise<string> {
+export async function executeSearchCode(ctx: GitHubRepoRef, query: string, fileExtension?: string): Promise<string> {
   let searchQuery = `${query} repo:${ctx.owner}/${ctx.repo}`;
   if (fileExtension) searchQuery += ` extension:${fileExtension}`;
   const res = await fetch(
     `https://api.github.com/search/code?q=${encodeURIComponent(searchQuery)}&per_page=15`,
-    { headers: headers(ctx.token) }
+    { headers: githubHeaders(ctx.token) }
   );
   if (!res.ok) {
     return `Search failed: ${res.statusText}. Try read_file with a specific path instead.`;
@@ -159,128 +182,85 @@ export async function executeSearchCode(ctx: RepoContext, query: string, fileExt
 }
 
 export async function executeCreatePR(
-  ctx: RepoContext,
+  ctx: GitHubRepoRef,
   pendingWrites: FileWrite[],
   title: string,
   body: string,
   branchName: string,
 ): Promise<{ url: string; number: number }> {
-  const h = headers(ctx.token);
+  const { url, number } = await createPullRequestWithChanges(ctx, {
+    branch: branchName,
+    message: title,
+    changes: pendingWrites.map(w => ({ path: w.path, content: w.content })),
+    title,
+    body,
+  });
+  return { url, number };
+}
 
-  // Get default branch SHA
-  const repoRes = await fetch(`https://api.github.com/repos/${ctx.owner}/${ctx.repo}`, { headers: h });
-  if (!repoRes.ok) throw new Error("Failed to fetch repo info");
-  const repoInfo = await repoRes.json();
-  const defaultBranch = repoInfo.default_branch || "main";
+export async function executeCommitAndPush(
+  ctx: GitHubRepoRef,
+  pendingWrites: FileWrite[],
+  commitMessage: string,
+): Promise<{ sha: string; filesCommitted: number }> {
+  const changes = pendingWrites.map(w => ({ path: w.path, content: w.content }));
+  const sha = await commitToBranch(ctx, await getDefaultBranch(ctx), commitMessage, changes);
+  return { sha, filesCommitted: new Set(changes.map(c => c.path)).size };
+}
 
-  const refRes = await fetch(
-    `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/git/refs/heads/${defaultBranch}`,
-    { headers: h }
-  );
-  if (!refRes.ok) throw new Error("Failed to get branch ref");
-  const refData = await refRes.json();
-  const baseSha = refData.object.sha;
+/** Builds a tool definition for run_command limited to the repository's allow-listed commands. */
+export function runCommandTool(commands: string[]): LLMTool {
+  return {
+    name: "run_command",
+    description: `Run a check in a checkout of the repository with all files staged so far applied, e.g. tests or the type-checker. Only these commands are allowed: ${commands.join(", ")}. Returns the exit code and output.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        command: { type: "string", enum: commands, description: "One of the allowed commands, exactly as listed" },
+      },
+      required: ["command"],
+    },
+  };
+}
 
-  // Create branch
-  const branchRes = await fetch(
-    `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/git/refs`,
-    { method: "POST", headers: h, body: JSON.stringify({ ref: `refs/heads/${branchName}`, sha: baseSha }) }
-  );
-  if (!branchRes.ok) {
-    const err = await branchRes.json().catch(() => ({}));
-    throw new Error(`Failed to create branch: ${(err as any).message || "unknown"}`);
-  }
+/**
+ * GitHub REST access for reads and deploys. run_command still needs files on disk, so the
+ * first command lazily creates a working copy through `createCheckout`.
+ */
+export class GitHubApiContext implements RepoContext {
+  private checkout: RepoContext | null = null;
 
-  // Commit each file
-  for (const file of pendingWrites) {
-    const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
-    // Check if file exists to get its SHA
-    const existsRes = await fetch(
-      `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}?ref=${branchName}`,
-      { headers: h }
-    );
-    let fileSha: string | undefined;
-    if (existsRes.ok) fileSha = (await existsRes.json()).sha;
+  constructor(
+    private readonly ref: GitHubRepoRef,
+    private readonly createCheckout: () => RepoContext,
+  ) {}
 
-    const putRes = await fetch(
-      `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}`,
-      {
-        method: "PUT",
-        headers: h,
-        body: JSON.stringify({
-          message: `${file.description} — ${file.path}`,
-          content: Buffer.from(file.content).toString("base64"),
-          branch: branchName,
-          ...(fileSha ? { sha: fileSha } : {}),
-        }),
-      }
-    );
-    if (!putRes.ok) {
-      const err = await putRes.json().catch(() => ({}));
-      throw new Error(`Failed to write ${file.path}: ${(err as any).message || "unknown"}`);
-    }
+  readFile(path: string) {
+    return executeReadFile(this.ref, path);
   }
 
-  // Create PR
-  const prRes = await fetch(
-    `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/pulls`,
-    {
-      method: "POST",
-      headers: h,
-      body: JSON.stringify({ title, body, head: branchName, base: defaultBranch }),
-    }
-  );
-  if (!prRes.ok) {
-    const err = await prRes.json().catch(() => ({}));
-    throw new Error(`Failed to create PR: ${(err as any).message || "unknown"}`);
+  listDirectory(path: string) {
+    return executeListDirectory(this.ref, path);
   }
-  const prData = await prRes.json();
-  return { url: prData.html_url, number: prData.number };
-}
 
-export async function executeCommitAndPush(
-  ctx: RepoContext,
-  pendingWrites: FileWrite[],
-  commitMessage: string,
-): Promise<{ sha: string; filesCommitted: number }> {
-  const h = headers(ctx.token);
+  searchCode(query: string, fileExtension?: string) {
+    return executeSearchCode(this.ref, query, fileExtension);
+  }
 
-  // Get default branch
-  const repoRes = await fetch(`https://api.github.com/repos/${ctx.owner}/${ctx.repo}`, { headers: h });
-  if (!repoRes.ok) throw new Error("Failed to fetch repo info");
-  const repoInfo = await repoRes.json();
-  const defaultBranch = repoInfo.default_branch || "main";
+  createPullRequest(pendingWrites: FileWrite[], title: string, body: string, branchName: string) {
+    return executeCreatePR(this.ref, pendingWrites, title, body, branchName);
+  }
 
-  let lastSha = "";
-  for (const file of pendingWrites) {
-    const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
-    const existsRes = await fetch(
-      `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}?ref=${defaultBranch}`,
-      { headers: h }
-    );
-    let fileSha: string | undefined;
-    if (existsRes.ok) fileSha = (await existsRes.json()).sha;
+  commitAndPush(pendingWrites: FileWrite[], commitMessage: string) {
+    return executeCommitAndPush(this.ref, pendingWrites, commitMessage);
+  }
 
-    const putRes = await fetch(
-      `https://api.github.com/repos/${ctx.owner}/${ctx.repo}/contents/${encodedPath}`,
-      {
-        method: "PUT",
-        headers: h,
-        body: JSON.stringify({
-          message: `${commitMessage} — ${file.path}`,
-          content: Buffer.from(file.content).toString("base64"),
-          branch: defaultBranch,
-          ...(fileSha ? { sha: fileSha } : {}),
-        }),
-      }
-    );
-    if (!putRes.ok) {
-      const err = await putRes.json().catch(() => ({}));
-      throw new Error(`Failed to push ${file.path}: ${(err as any).message || "unknown"}`);
-    }
-    const putData = await putRes.json();
-    lastSha = putData.commit?.sha || "";
+  runCommand(command: string, pendingWrites: FileWrite[]) {
+    if (!this.checkout) this.checkout = this.createCheckout();
+    return this.checkout.runCommand(command, pendingWrites);
   }
 
-  return { sha: lastSha, filesCommitted: pendingWrites.length };
+  async dispose() {
+    await this.checkout?.dispose();
+  }
 }
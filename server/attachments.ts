@@ -0,0 +1,227 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Attachment } from "@shared/schema";
+import type { LLMContentBlock, LLMImageMediaType } from "./llm/types";
+import { storage } from "./storage";
+
+/**
+ * Ticket screenshots and files. Uploads arrive base64-encoded with the ticket; screenshot URLs are
+ * fetched only from hosts listed in TICKET_ATTACHMENT_FETCH_HOSTS (comma-separated, subdomains
+ * included), optionally with TICKET_ATTACHMENT_FETCH_AUTH as the Authorization header. Either way
+ * the bytes end up in TICKET_ATTACHMENT_DIR/<business id>/<attachment id>, so triage, the approval
+ * card and later task prompts never depend on the reporting app still serving them.
+ */
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_TICKET = 10;
+/** Room for every attachment at full size once base64-encoded, plus 1 MB for the rest of the ticket. */
+export const MAX_TICKET_BODY_BYTES = MAX_ATTACHMENTS_PER_TICKET * Math.ceil(MAX_ATTACHMENT_BYTES / 3) * 4 + 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15_000;
+// Providers cap images at 5 MB once base64-encoded; a few are enough to show the problem
+const MAX_LLM_IMAGES = 4;
+const MAX_LLM_IMAGE_BYTES = 3_750_000;
+
+const LLM_IMAGE_TYPES: LLMImageMediaType[] = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** A file sent in the ticket body, shaped like manager chat attachments. */
+export interface AttachmentUpload {
+  name?: string;
+  type?: string;
+  /** Base64-encoded file contents. */
+  content?: string;
+}
+
+export function attachmentRoot(): string {
+  return process.env.TICKET_ATTACHMENT_DIR || path.join(process.cwd(), "data", "attachments");
+}
+
+function attachmentPath(bizId: string, attachmentId: string): string {
+  return path.join(attachmentRoot(), bizId, attachmentId);
+}
+
+function fetchAllowed(hostname: string): boolean {
+  const hosts = (process.env.TICKET_ATTACHMENT_FETCH_HOSTS || "")
+    .split(",")
+    .map(h => h.trim().toLowerCase())
+    .filter(Boolean);
+  const host = hostname.toLowerCase();
+  return hosts.some(h => host === h || host.endsWith(`.${h}`));
+}
+
+function sniffImageType(data: Buffer): LLMImageMediaType | null {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return "image/png";
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.length >= 6 && data.toString("latin1", 0, 4) === "GIF8") return "image/gif";
+  if (data.length >= 12 && data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+// The bytes decide whether a file is an image we show and send to the model, not the declared type
+function storedMediaType(data: Buffer, declared: string | null): string {
+  const sniffed = sniffImageType(data);
+  if (sniffed) return sniffed;
+  const type = declared?.split(";")[0].trim().toLowerCase();
+  if (!type || (LLM_IMAGE_TYPES as string[]).includes(type)) return "application/octet-stream";
+  return type;
+}
+
+function cleanName(name: string | undefined, fallback: string): string {
+  const base = (name || "").split(/[\\/]/).pop()!.replace(/[\x00-\x1f"]/g, "").trim();
+  return (base || fallback).slice(0, 200);
+}
+
+export function isLLMImage(attachment: Pick<Attachment, "mediaType">): boolean {
+  return (LLM_IMAGE_TYPES as string[]).includes(attachment.mediaType);
+}
+
+async function saveAttachment(
+  bizId: string,
+  ticketId: number,
+  file: { name: string; declaredType: string | null; data: Buffer; sourceUrl: string | null },
+): Promise<Attachment> {
+  const attachment: Attachment = {
+    id: randomUUID(),
+    name: file.name,
+    mediaType: storedMediaType(file.data, file.declaredType),
+    size: file.data.length,
+    sourceUrl: file.sourceUrl,
+  };
+  await fs.mkdir(path.dirname(attachmentPath(bizId, attachment.id)), { recursive: true });
+  await fs.writeFile(attachmentPath(bizId, attachment.id), file.data);
+  await storage.addAttachment(bizId, ticketId, attachment);
+  return attachment;
+}
+
+async function fetchAttachment(url: string): Promise<{ name: string; declaredType: string | null; data: Buffer }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("not a valid URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") throw new Error("only http(s) URLs can be fetched");
+  if (!fetchAllowed(parsed.hostname)) throw new Error(`${parsed.hostname} is not in TICKET_ATTACHMENT_FETCH_HOSTS`);
+
+  const auth = process.env.TICKET_ATTACHMENT_FETCH_AUTH;
+  let res: Response;
+  try {
+    // Redirects could lead off the allowed hosts, so they are not followed
+    res = await fetch(parsed, {
+      headers: { "User-Agent": "AI-Dev-Hub-Attachments", ...(auth ? { Authorization: auth } : {}) },
+      redirect: "error",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (err: any) {
+    throw new Error(err.name === "TimeoutError" ? `no response within ${FETCH_TIMEOUT_MS / 1000}s` : err.message || String(err));
+  }
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  if (Number(res.headers.get("content-length")) > MAX_ATTACHMENT_BYTES) throw new Error("larger than 5 MB");
+  return { name: parsed.pathname, declaredType: res.headers.get("content-type"), data: await readLimited(res) };
+}
+
+// Content-Length can be missing or wrong, so the size is enforced while reading
+async function readLimited(res: Response): Promise<Buffer> {
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_ATTACHMENT_BYTES) {
+      await reader.cancel();
+      throw new Error("larger than 5 MB");
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Stores a ticket's uploads and fetches its screenshot URLs. Files that cannot be stored are
+ * reported in `errors` instead of failing the ticket; URLs stay on the ticket either way.
+ */
+export async function storeTicketAttachments(
+  bizId: string,
+  ticketId: number,
+  uploads: AttachmentUpload[],
+  urls: string[],
+): Promise<{ attachments: Attachment[]; errors: string[] }> {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  const total = uploads.length + urls.length;
+  if (total > MAX_ATTACHMENTS_PER_TICKET) {
+    errors.push(`Only the first ${MAX_ATTACHMENTS_PER_TICKET} of ${total} attachments were considered`);
+  }
+  const acceptedUploads = uploads.slice(0, MAX_ATTACHMENTS_PER_TICKET);
+  const acceptedUrls = urls.slice(0, MAX_ATTACHMENTS_PER_TICKET - acceptedUploads.length);
+
+  for (let i = 0; i < acceptedUploads.length; i++) {
+    const upload = acceptedUploads[i];
+    const label = upload?.name || `attachment ${i + 1}`;
+    if (typeof upload?.content !== "string" || upload.content.length === 0) {
+      errors.push(`${label}: content must be base64-encoded file contents`);
+      continue;
+    }
+    const data = Buffer.from(upload.content, "base64");
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      errors.push(`${label}: larger than 5 MB`);
+      continue;
+    }
+    attachments.push(await saveAttachment(bizId, ticketId, {
+      name: cleanName(upload.name, `attachment-${i + 1}`), declaredType: upload.type || null, data, sourceUrl: null,
+    }));
+  }
+
+  for (let i = 0; i < acceptedUrls.length; i++) {
+    const url = acceptedUrls[i];
+    try {
+      const file = await fetchAttachment(url);
+      attachments.push(await saveAttachment(bizId, ticketId, {
+        ...file, name: cleanName(file.name, `screenshot-${i + 1}`), sourceUrl: url,
+      }));
+    } catch (err: any) {
+      errors.push(`${url}: ${err.message}`);
+    }
+  }
+  return { attachments, errors };
+}
+
+/** Undefined when the file is gone, e.g. the attachment directory was not kept across a redeploy. */
+export async function readAttachmentFile(bizId: string, attachmentId: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(attachmentPath(bizId, attachmentId));
+  } catch (err: any) {
+    if (err.code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+export async function removeBusinessAttachments(bizId: string): Promise<void> {
+  await fs.rm(path.join(attachmentRoot(), bizId), { recursive: true, force: true });
+}
+
+/** The attachments a model can look at, as image content blocks; missing files are skipped. */
+export async function attachmentImageBlocks(bizId: string, attachments: Attachment[]): Promise<LLMContentBlock[]> {
+  const images = attachments.filter(a => isLLMImage(a) && a.size <= MAX_LLM_IMAGE_BYTES).slice(0, MAX_LLM_IMAGES);
+  const blocks: LLMContentBlock[] = [];
+  for (const image of images) {
+    const data = await readAttachmentFile(bizId, image.id);
+    if (data) blocks.push({ type: "image", mediaType: image.mediaType as LLMImageMediaType, data: data.toString("base64") });
+  }
+  return blocks;
+}
+
+/** A user message's content with the task's screenshots after the text; plain text when there are none. */
+export async function withAttachmentImages(
+  text: string,
+  bizId: string,
+  attachments: Attachment[],
+): Promise<string | LLMContentBlock[]> {
+  if (attachments.length === 0) return text;
+  const images = await attachmentImageBlocks(bizId, attachments);
+  if (images.length === 0) return text;
+  return [{ type: "text", text: `${text}\n\n(${images.length} screenshot(s) from the reporter's ticket are attached below.)` }, ...images];
+}
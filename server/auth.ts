@@ -0,0 +1,244 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { loginSchema, userPreferencesSchema, type BusinessRole, type UserSafe } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends UserSafe {}
+    interface Request {
+      businessRole?: BusinessRole;
+      /** Set on ticket intake routes when the request carries a valid intake API key. */
+      intakeBusinessId?: string;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const ROLE_RANK: Record<BusinessRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// Reachable without a session: health probes, the auth endpoints themselves and
+// GitHub webhooks (which carry their own signature).
+const PUBLIC_API_PREFIXES = ["/api/health", "/api/auth/", "/api/webhooks/"];
+
+// Reachable with the pipeline API key instead of a session.
+const PIPELINE_API_PREFIXES = ["/api/tickets", "/api/inbox/pending"];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(":");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** The business whose intake API key the request presents as a bearer token, if any. */
+export async function intakeBusinessFor(req: Request): Promise<string | undefined> {
+  const header = req.headers.authorization;
+  if (!header) return undefined;
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+  if (!token) return undefined;
+  return (await storage.useIntakeApiKey(token))?.businessId;
+}
+
+export function hasBusinessRole(role: BusinessRole | undefined, minRole: BusinessRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+/** Checks the signed-in user's membership for routes that receive the business ID in the body. */
+export async function checkBusinessAccess(req: Request, bizId: string, minRole: BusinessRole): Promise<boolean> {
+  if (!req.user || !bizId) return false;
+  const role = await storage.getBusinessRole(bizId, req.user.id);
+  return hasBusinessRole(role, minRole);
+}
+
+/** Per-route guard for actions beyond the method-based default (e.g. owner-only settings). */
+export function requireBusinessRole(minRole: BusinessRole): RequestHandler<any> {
+  return (req, res, next) => {
+    if (!hasBusinessRole(req.businessRole, minRole)) {
+      return res.status(403).json({ message: `This action requires the ${minRole} role` });
+    }
+    next();
+  };
+}
+
+async function isRegistrationOpen(): Promise<boolean> {
+  if (process.env.ALLOW_REGISTRATION === "true") return true;
+  return (await storage.countUsers()) === 0;
+}
+
+function resolveSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("[auth] SESSION_SECRET is not set — using a random secret; sessions will not survive restarts");
+  return randomBytes(32).toString("hex");
+}
+
+export function setupAuth(app: Express) {
+  const PgStore = connectPgSimple(session);
+
+  app.use(
+    session({
+      store: new PgStore({ pool, tableName: "session" }),
+      secret: resolveSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 30 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        const { passwordHash, ...safe } = user;
+        return done(null, safe);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      done(null, (await storage.getUser(id)) || false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) return res.status(401).json({ message: "Not authenticated" });
+    res.json(req.user);
+  });
+
+  // Merges the given preference groups into the signed-in user's preferences
+  app.put("/api/auth/preferences", async (req, res) => {
+    if (!req.user) return res.status(401).json({ message: "Not authenticated" });
+    const parsed = userPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid preferences" });
+    const user = await storage.updateUserPreferences(req.user.id, { ...req.user.preferences, ...parsed.data });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    res.json(user);
+  });
+
+  app.get("/api/auth/registration", async (_req, res) => {
+    res.json({ open: await isRegistrationOpen() });
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const { username, password } = loginSchema.parse(req.body);
+      if (!(await isRegistrationOpen())) {
+        return res.status(403).json({ message: "Registration is closed. Ask a business owner to add you." });
+      }
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      const isFirstUser = (await storage.countUsers()) === 0;
+      const user = await storage.createUser(username, await hashPassword(password));
+      // The first account takes ownership of every business created before auth existed
+      if (isFirstUser) {
+        const claimed = await storage.claimUnownedBusinesses(user.id);
+        if (claimed > 0) console.log(`[auth] ${username} claimed ${claimed} existing business(es)`);
+      }
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(user);
+      });
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ message: "Invalid username or password" });
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  // Every other API route needs a signed-in user
+  app.use("/api", async (req, res, next) => {
+    try {
+      const path = req.originalUrl.split("?")[0];
+      if (PUBLIC_API_PREFIXES.some(p => path.startsWith(p))) return next();
+      if (PIPELINE_API_PREFIXES.some(p => path.startsWith(p))) {
+        req.intakeBusinessId = await intakeBusinessFor(req);
+        if (req.intakeBusinessId) return next();
+      }
+      if (!req.user) return res.status(401).json({ message: "Not authenticated" });
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Business-scoped routes: members may read, editors and owners may write
+  app.use("/api/businesses/:bizId", async (req, res, next) => {
+    try {
+      const role = await storage.getBusinessRole(req.params.bizId, req.user!.id);
+      if (!role) return res.status(403).json({ message: "You do not have access to this business" });
+      const minRole: BusinessRole = req.method === "GET" || req.method === "HEAD" ? "viewer" : "editor";
+      if (!hasBusinessRole(role, minRole)) {
+        return res.status(403).json({ message: `This action requires the ${minRole} role` });
+      }
+      req.businessRole = role;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Project-scoped routes: storage looks tasks up by project ID alone, so the project must belong to the business
+  app.use("/api/businesses/:bizId/projects/:projectId", async (req, res, next) => {
+    try {
+      const project = await storage.getProject(req.params.bizId, req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,128 @@
+import type { CodeFix, CodeFixCheck, CodeFixConflict, CodeFixFile, CodeFixReview } from "@shared/schema";
+import type { GitHubRepoRef } from "./agentTools";
+import { getBranchSha, getDefaultBranch, readFileAt, type GitFileChange } from "./githubGit";
+import { mergeThreeWay } from "./threeWayMerge";
+
+export interface RebasedCodeFix {
+  /** The default-branch commit the files were compared against; the PR branch is cut from it. */
+  base: { branch: string; sha: string };
+  changes: GitFileChange[];
+  /** Files that changed upstream since the fix was generated but merged cleanly. */
+  mergedPaths: string[];
+  conflicts: CodeFixConflict[];
+}
+
+/**
+ * Re-applies a generated fix to the current default branch. Each file's `originalContent` is
+ * the snapshot the fix was generated from; when the file has moved on since, the fix is
+ * three-way merged into it instead of overwriting the newer content.
+ */
+export async function rebaseCodeFix(ref: GitHubRepoRef, files: CodeFixFile[]): Promise<RebasedCodeFix> {
+  const branch = await getDefaultBranch(ref);
+  const sha = await getBranchSha(ref, branch);
+  const changes: GitFileChange[] = [];
+  const mergedPaths: string[] = [];
+  const conflicts: CodeFixConflict[] = [];
+
+  for (const file of files) {
+    const current = await readFileAt(ref, file.path, sha);
+    if (current === null) {
+      // Missing on both sides means the fix creates the file; missing only now means it was deleted
+      if (file.originalContent === "") changes.push({ path: file.path, content: file.newContent });
+      else conflicts.push({ path: file.path, reason: "deleted", hunks: 1 });
+      continue;
+    }
+    if (current === file.originalContent || current === file.newContent) {
+      changes.push({ path: file.path, content: file.newContent });
+      continue;
+    }
+    const merge = mergeThreeWay(file.originalContent, file.newContent, current, "generated fix", branch);
+    if (merge.conflicts > 0) {
+      conflicts.push({ path: file.path, reason: "conflict", hunks: merge.conflicts, mergedContent: merge.content });
+    } else {
+      changes.push({ path: file.path, content: merge.content });
+      mergedPaths.push(file.path);
+    }
+  }
+
+  return { base: { branch, sha }, changes, mergedPaths, conflicts };
+}
+
+export function describeConflicts(conflicts: CodeFixConflict[], baseBranch: string): string {
+  return conflicts.map(c => c.reason === "deleted"
+    ? `\`${c.path}\` was deleted on ${baseBranch}`
+    : `\`${c.path}\` (${c.hunks} conflicting region${c.hunks !== 1 ? "s" : ""})`).join(", ");
+}
+
+// ── Pull request lifecycle (GitHub webhook events) ──
+
+/** The html_url GitHub gives a PR, which is what `CodeFix.prUrl` stores. */
+export function pullRequestUrl(owner: string, repo: string, number: number): string {
+  return `https://github.com/${owner}/${repo}/pull/${number}`;
+}
+
+/** `pull_request` events: opened, reopened, synchronize, closed (merged or not). */
+export function applyPullRequestEvent(fix: CodeFix, action: string, pr: any): CodeFix {
+  const now = new Date().toISOString();
+  const headSha: string | undefined = pr?.head?.sha;
+  const next: CodeFix = { ...fix, prUpdatedAt: now, ...(headSha ? { prHeadSha: headSha } : {}) };
+
+  // Checks belong to a commit, so new commits on the branch start them over
+  if (headSha && headSha !== fix.prHeadSha) next.checks = [];
+
+  if (action === "closed") {
+    if (pr?.merged) {
+      return { ...next, prState: "merged", status: "merged", mergedAt: pr.merged_at || now };
+    }
+    return { ...next, prState: "closed", status: "discarded" };
+  }
+  if (action === "opened" || action === "reopened" || action === "synchronize") {
+    return { ...next, prState: "open", status: "pr_created" };
+  }
+  return next;
+}
+
+/**
+ * `pull_request_review` events. Each reviewer keeps their latest verdict; a plain comment
+ * does not replace an earlier approval or change request, matching how GitHub counts reviews.
+ */
+export function applyReviewEvent(fix: CodeFix, action: string, review: any): CodeFix {
+  const reviewer: string | undefined = review?.user?.login;
+  const state = String(review?.state || "").toLowerCase();
+  if (!reviewer || !["approved", "changes_requested", "commented", "dismissed"].includes(state)) return fix;
+
+  const entry: CodeFixReview = {
+    reviewer,
+    state: (action === "dismissed" ? "dismissed" : state) as CodeFixReview["state"],
+    submittedAt: review.submitted_at || new Date().toISOString(),
+  };
+  const reviews = fix.reviews || [];
+  const previous = reviews.find(r => r.reviewer === reviewer);
+  if (entry.state === "commented" && previous && previous.state !== "commented") return fix;
+
+  return {
+    ...fix,
+    reviews: [...reviews.filter(r => r.reviewer !== reviewer), entry],
+    prUpdatedAt: new Date().toISOString(),
+  };
+}
+
+/** `check_run` events; runs for an older head commit are ignored. */
+export function applyCheckRunEvent(fix: CodeFix, checkRun: any): CodeFix {
+  if (!checkRun?.name) return fix;
+  if (fix.prHeadSha && checkRun.head_sha && checkRun.head_sha !== fix.prHeadSha) return fix;
+
+  const status = ["queued", "in_progress", "completed"].includes(checkRun.status) ? checkRun.status : "queued";
+  const entry: CodeFixCheck = {
+    name: checkRun.name,
+    status,
+    conclusion: checkRun.conclusion ?? null,
+    ...(checkRun.html_url ? { url: checkRun.html_url } : {}),
+    updatedAt: checkRun.completed_at || checkRun.started_at || new Date().toISOString(),
+  };
+  return {
+    ...fix,
+    checks: [...(fix.checks || []).filter(c => c.name !== entry.name), entry],
+    prUpdatedAt: new Date().toISOString(),
+  };
+}
@@ -1,6 +1,8 @@
 import pg from "pg";
 import { drizzle } from "drizzle-orm/node-postgres";
 import * as schema from "@shared/schema";
+import { randomUUID } from "crypto";
+import { hashApiKey, reencryptSecret } from "./secrets";
 
 const connectionString = process.env.NEON_DATABASE_URL || process.env.DATABASE_URL;
 
@@ -33,6 +35,8 @@ export async function ensureSchemaUpToDate() {
       ["auto_analysis_result",  `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS auto_analysis_result varchar(20)`],
       ["auto_analysis_timestamp",`ALTER TABLE tasks ADD COLUMN IF NOT EXISTS auto_analysis_timestamp text`],
       ["generated_prompts",     `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS generated_prompts jsonb NOT NULL DEFAULT '[]'::jsonb`],
+      ["blocked_by",            `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS blocked_by jsonb NOT NULL DEFAULT '[]'::jsonb`],
+      ["attachments",           `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb`],
     ];
 
     for (const [col, sql] of taskMigrations) {
@@ -60,7 +64,9 @@ export async function ensureSchemaUpToDate() {
           date_received     text NOT NULL,
           linked_project_id varchar,
           linked_task_id    varchar,
-          notes             text NOT NULL DEFAULT ''
+          notes             text NOT NULL DEFAULT '',
+          ticket_id         integer,
+          triage            jsonb
         )
       `);
       console.log("[db] Created table: inbox_items");
@@ -78,6 +84,8 @@ export async function ensureSchemaUpToDate() {
         ["linked_project_id", `ALTER TABLE inbox_items ADD COLUMN IF NOT EXISTS linked_project_id varchar`],
         ["linked_task_id",    `ALTER TABLE inbox_items ADD COLUMN IF NOT EXISTS linked_task_id varchar`],
         ["notes",             `ALTER TABLE inbox_items ADD COLUMN IF NOT EXISTS notes text NOT NULL DEFAULT ''`],
+        ["ticket_id",         `ALTER TABLE inbox_items ADD COLUMN IF NOT EXISTS ticket_id integer`],
+        ["triage",            `ALTER TABLE inbox_items ADD COLUMN IF NOT EXISTS triage jsonb`],
       ];
 
       for (const [col, sql] of inboxMigrations) {
@@ -87,6 +95,42 @@ export async function ensureSchemaUpToDate() {
         }
       }
     }
+    await client.query(`CREATE INDEX IF NOT EXISTS inbox_items_ticket_id_idx ON inbox_items (ticket_id)`);
+
+    // Ticket items used to keep their ticket and triage results as JSON in notes
+    const notesTriage = await client.query<{ id: string; description: string; notes: string }>(
+      `SELECT id, description, notes FROM inbox_items WHERE source = 'cool_dispatch' AND ticket_id IS NULL AND notes LIKE '{%'`
+    );
+    for (const row of notesTriage.rows) {
+      let notes: any;
+      try { notes = JSON.parse(row.notes); } catch { continue; }
+      if (typeof notes.ticketId !== "number") continue;
+      const sep = row.description.indexOf("\n\n---\nTriage:");
+      // Only items from before configurable lanes lack the lane; their ticket still has it
+      const lane = notes.lane
+        || (await client.query<{ lane: string | null }>(`SELECT lane FROM tickets WHERE id = $1`, [notes.ticketId])).rows[0]?.lane
+        || "";
+      const triage = {
+        lane,
+        notes: sep >= 0 ? row.description.slice(sep + "\n\n---\nTriage:".length).trim() : "",
+        confidence: typeof notes.triageConfidence === "number" ? notes.triageConfidence : 0,
+        assignedAgent: notes.assignedAgent || null,
+        suggestedProjectId: notes.suggestedProject || null,
+        pageUrl: notes.pageUrl || null,
+        routeId: typeof notes.routeId === "number" ? notes.routeId : null,
+        duplicateCheck: notes.duplicateCheck || {
+          hasDuplicate: false, duplicateTaskId: null, similarity: 0, recommendation: "new_task", reasoning: "Detection skipped",
+        },
+        attachments: [],
+      };
+      await client.query(
+        `UPDATE inbox_items SET ticket_id = $1, triage = $2, notes = '' WHERE id = $3`,
+        [notes.ticketId, JSON.stringify(triage), row.id]
+      );
+    }
+    if (notesTriage.rows.length > 0) {
+      console.log(`[db] Moved ticket triage out of notes for ${notesTriage.rows.length} inbox item(s)`);
+    }
 
     // ── manager_messages ───────────────────────────────────────────────────
     const mgrCols = await client.query(
@@ -101,6 +145,273 @@ export async function ensureSchemaUpToDate() {
       console.log("[db] Added missing column: manager_messages.code_fix");
     }
 
+    if (!mgrExisting.has("agent_run_id")) {
+      await client.query(
+        `ALTER TABLE manager_messages ADD COLUMN IF NOT EXISTS agent_run_id varchar`
+      );
+      console.log("[db] Added missing column: manager_messages.agent_run_id");
+    }
+
+    // ── businesses ─────────────────────────────────────────────────────────
+    const bizCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'businesses'`
+    );
+    const bizExisting = new Set(bizCols.rows.map((r: any) => r.column_name));
+    if (!bizExisting.has("agent_budget")) {
+      await client.query(
+        `ALTER TABLE businesses ADD COLUMN IF NOT EXISTS agent_budget jsonb NOT NULL DEFAULT '{}'::jsonb`
+      );
+      console.log("[db] Added missing column: businesses.agent_budget");
+    }
+    if (!bizExisting.has("triage_config")) {
+      await client.query(
+        `ALTER TABLE businesses ADD COLUMN IF NOT EXISTS triage_config jsonb`
+      );
+      console.log("[db] Added missing column: businesses.triage_config");
+    }
+
+    // ── projects ───────────────────────────────────────────────────────────
+    const projectCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'projects'`
+    );
+    const projectExisting = new Set(projectCols.rows.map((r: any) => r.column_name));
+    if (!projectExisting.has("workflow")) {
+      await client.query(
+        `ALTER TABLE projects ADD COLUMN IF NOT EXISTS workflow jsonb`
+      );
+      console.log("[db] Added missing column: projects.workflow");
+    }
+
+    // ── changelog_entries ──────────────────────────────────────────────────
+    const changelogCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'changelog_entries'`
+    );
+    const changelogExisting = new Set(changelogCols.rows.map((r: any) => r.column_name));
+
+    const changelogMigrations: [string, string][] = [
+      ["actor",      `ALTER TABLE changelog_entries ADD COLUMN IF NOT EXISTS actor varchar(20)`],
+      ["actor_name", `ALTER TABLE changelog_entries ADD COLUMN IF NOT EXISTS actor_name text NOT NULL DEFAULT ''`],
+    ];
+
+    for (const [col, sql] of changelogMigrations) {
+      if (!changelogExisting.has(col)) {
+        await client.query(sql);
+        console.log(`[db] Added missing column: changelog_entries.${col}`);
+      }
+    }
+
+    // ── agents ─────────────────────────────────────────────────────────────
+    const agentCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'agents'`
+    );
+    const agentExisting = new Set(agentCols.rows.map((r: any) => r.column_name));
+
+    const agentMigrations: [string, string][] = [
+      ["model",    `ALTER TABLE agents ADD COLUMN IF NOT EXISTS model text NOT NULL DEFAULT ''`],
+      ["base_url", `ALTER TABLE agents ADD COLUMN IF NOT EXISTS base_url text NOT NULL DEFAULT ''`],
+    ];
+
+    for (const [col, sql] of agentMigrations) {
+      if (!agentExisting.has(col)) {
+        await client.query(sql);
+        console.log(`[db] Added missing column: agents.${col}`);
+      }
+    }
+
+    // ── repositories ───────────────────────────────────────────────────────
+    const repoCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'repositories'`
+    );
+    const repoExisting = new Set(repoCols.rows.map((r: any) => r.column_name));
+
+    const repoMigrations: [string, string][] = [
+      ["agent_backend", `ALTER TABLE repositories ADD COLUMN IF NOT EXISTS agent_backend varchar(20) NOT NULL DEFAULT 'github_api'`],
+      ["clone_url",     `ALTER TABLE repositories ADD COLUMN IF NOT EXISTS clone_url text NOT NULL DEFAULT ''`],
+      ["agent_commands", `ALTER TABLE repositories ADD COLUMN IF NOT EXISTS agent_commands jsonb NOT NULL DEFAULT '[]'::jsonb`],
+      ["webhook_secret", `ALTER TABLE repositories ADD COLUMN IF NOT EXISTS webhook_secret text NOT NULL DEFAULT ''`],
+      ["last_webhook_delivery", `ALTER TABLE repositories ADD COLUMN IF NOT EXISTS last_webhook_delivery jsonb`],
+    ];
+
+    for (const [col, sql] of repoMigrations) {
+      if (!repoExisting.has(col)) {
+        await client.query(sql);
+        console.log(`[db] Added missing column: repositories.${col}`);
+      }
+    }
+
+    // ── agent_assignments ──────────────────────────────────────────────────
+    const assignmentsExists = await client.query(
+      `SELECT to_regclass('public.agent_assignments') AS cls`
+    );
+    if (!assignmentsExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE agent_assignments (
+          id          varchar PRIMARY KEY,
+          business_id varchar NOT NULL,
+          feature     varchar(30) NOT NULL,
+          agent_id    varchar NOT NULL,
+          CONSTRAINT agent_assignments_business_feature_unique UNIQUE (business_id, feature)
+        )
+      `);
+      console.log("[db] Created table: agent_assignments");
+    }
+
+    // ── agent_runs / agent_run_steps ───────────────────────────────────────
+    const runsExists = await client.query(
+      `SELECT to_regclass('public.agent_runs') AS cls`
+    );
+    if (!runsExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE agent_runs (
+          id           varchar PRIMARY KEY,
+          business_id  varchar NOT NULL,
+          task_id      varchar NOT NULL,
+          project_id   varchar NOT NULL,
+          deploy_mode  varchar(10) NOT NULL DEFAULT 'push',
+          review_before_deploy boolean NOT NULL DEFAULT false,
+          instructions text NOT NULL DEFAULT '',
+          status       varchar(20) NOT NULL DEFAULT 'running',
+          pr_url       text,
+          pr_number    integer,
+          push_sha     text,
+          error        text,
+          started_at   text NOT NULL,
+          finished_at  text
+        )
+      `);
+      console.log("[db] Created table: agent_runs");
+    }
+
+    const runCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'agent_runs'`
+    );
+    const runExisting = new Set(runCols.rows.map((r: any) => r.column_name));
+
+    const runMigrations: [string, string][] = [
+      ["review_before_deploy", `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS review_before_deploy boolean NOT NULL DEFAULT false`],
+      ["budget",               `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS budget jsonb NOT NULL DEFAULT '{}'::jsonb`],
+      ["input_tokens",         `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS input_tokens integer NOT NULL DEFAULT 0`],
+      ["output_tokens",        `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS output_tokens integer NOT NULL DEFAULT 0`],
+      ["cost_usd",             `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS cost_usd double precision NOT NULL DEFAULT 0`],
+      ["iterations",           `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS iterations integer NOT NULL DEFAULT 0`],
+      ["budget_exceeded",      `ALTER TABLE agent_runs ADD COLUMN IF NOT EXISTS budget_exceeded text`],
+    ];
+
+    for (const [col, sql] of runMigrations) {
+      if (!runExisting.has(col)) {
+        await client.query(sql);
+        console.log(`[db] Added missing column: agent_runs.${col}`);
+      }
+    }
+
+    const runStepsExists = await client.query(
+      `SELECT to_regclass('public.agent_run_steps') AS cls`
+    );
+    if (!runStepsExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE agent_run_steps (
+          id         serial PRIMARY KEY,
+          run_id     varchar NOT NULL,
+          seq        integer NOT NULL,
+          step       jsonb NOT NULL,
+          created_at text NOT NULL,
+          CONSTRAINT agent_run_steps_run_seq_unique UNIQUE (run_id, seq)
+        )
+      `);
+      console.log("[db] Created table: agent_run_steps");
+    }
+
+    // ── webhook_deliveries ─────────────────────────────────────────────────
+    const deliveriesExists = await client.query(
+      `SELECT to_regclass('public.webhook_deliveries') AS cls`
+    );
+    if (!deliveriesExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE webhook_deliveries (
+          id             varchar PRIMARY KEY,
+          delivery_id    varchar,
+          event          varchar(50) NOT NULL,
+          action         varchar(50),
+          repository     text NOT NULL DEFAULT '',
+          repository_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+          business_ids   jsonb NOT NULL DEFAULT '[]'::jsonb,
+          status         varchar(20) NOT NULL DEFAULT 'pending',
+          message        text NOT NULL DEFAULT '',
+          task_ids       jsonb NOT NULL DEFAULT '[]'::jsonb,
+          code_fix_ids   jsonb NOT NULL DEFAULT '[]'::jsonb,
+          error          text,
+          payload        jsonb,
+          attempts       integer NOT NULL DEFAULT 1,
+          received_at    text NOT NULL,
+          processed_at   text,
+          business_outcomes jsonb NOT NULL DEFAULT '{}'::jsonb,
+          CONSTRAINT webhook_deliveries_delivery_id_unique UNIQUE (delivery_id)
+        )
+      `);
+      await client.query(`CREATE INDEX webhook_deliveries_received_at_idx ON webhook_deliveries (received_at)`);
+      console.log("[db] Created table: webhook_deliveries");
+    } else {
+      await client.query(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS business_outcomes jsonb NOT NULL DEFAULT '{}'::jsonb`);
+    }
+
+    // ── users / business_members ───────────────────────────────────────────
+    const usersExists = await client.query(
+      `SELECT to_regclass('public.users') AS cls`
+    );
+    if (!usersExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE users (
+          id            varchar PRIMARY KEY,
+          username      text NOT NULL UNIQUE,
+          password_hash text NOT NULL,
+          created_at    text NOT NULL
+        )
+      `);
+      console.log("[db] Created table: users");
+    }
+
+    const userCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'users'`
+    );
+    if (!userCols.rows.some((r: any) => r.column_name === "preferences")) {
+      await client.query(
+        `ALTER TABLE users ADD COLUMN IF NOT EXISTS preferences jsonb NOT NULL DEFAULT '{}'::jsonb`
+      );
+      console.log("[db] Added missing column: users.preferences");
+    }
+
+    const membersExists = await client.query(
+      `SELECT to_regclass('public.business_members') AS cls`
+    );
+    if (!membersExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE business_members (
+          id          varchar PRIMARY KEY,
+          business_id varchar NOT NULL,
+          user_id     varchar NOT NULL,
+          role        varchar(20) NOT NULL DEFAULT 'editor',
+          CONSTRAINT business_members_business_user_unique UNIQUE (business_id, user_id)
+        )
+      `);
+      console.log("[db] Created table: business_members");
+    }
+
+    // ── session (connect-pg-simple store) ──────────────────────────────────
+    const sessionExists = await client.query(
+      `SELECT to_regclass('public.session') AS cls`
+    );
+    if (!sessionExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE session (
+          sid    varchar NOT NULL COLLATE "default" PRIMARY KEY,
+          sess   json NOT NULL,
+          expire timestamp(6) NOT NULL
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON session (expire)`);
+      console.log("[db] Created table: session");
+    }
+
     // ── tasks: unique constraint on id ────────────────────────────────────
     // 1. Resolve any existing duplicates before adding the constraint
     const constraintCheck = await client.query(
@@ -144,6 +455,37 @@ export async function ensureSchemaUpToDate() {
       console.log("[db] Added unique constraint: tasks.id");
     }
 
+    // ── tasks: dependencies as (projectId, taskId) references ──────────────
+    // Links used to be bare IDs of the same project; IDs are unique, so each one resolves to the project holding it now
+    const depsConverted = await client.query(`
+      UPDATE tasks SET dependencies = (
+        SELECT COALESCE(jsonb_agg(
+          CASE WHEN jsonb_typeof(dep) = 'string' THEN jsonb_build_object(
+            'projectId', COALESCE((SELECT other.project_id FROM tasks other WHERE other.id = dep #>> '{}'), tasks.project_id),
+            'taskId', dep #>> '{}'
+          ) ELSE dep END
+        ), '[]'::jsonb)
+        FROM jsonb_array_elements(tasks.dependencies) AS dep
+      )
+      WHERE EXISTS (SELECT 1 FROM jsonb_array_elements(tasks.dependencies) AS dep WHERE jsonb_typeof(dep) = 'string')
+    `);
+    if (depsConverted.rowCount) console.log(`[db] Converted dependencies to task references on ${depsConverted.rowCount} task(s)`);
+
+    // Blockers were bare IDs of the same project as well
+    const blockersConverted = await client.query(`
+      UPDATE tasks SET blocked_by = (
+        SELECT COALESCE(jsonb_agg(
+          CASE WHEN jsonb_typeof(blocker) = 'string' THEN jsonb_build_object(
+            'projectId', COALESCE((SELECT other.project_id FROM tasks other WHERE other.id = blocker #>> '{}'), tasks.project_id),
+            'taskId', blocker #>> '{}'
+          ) ELSE blocker END
+        ), '[]'::jsonb)
+        FROM jsonb_array_elements(tasks.blocked_by) AS blocker
+      )
+      WHERE EXISTS (SELECT 1 FROM jsonb_array_elements(tasks.blocked_by) AS blocker WHERE jsonb_typeof(blocker) = 'string')
+    `);
+    if (blockersConverted.rowCount) console.log(`[db] Converted blockers to task references on ${blockersConverted.rowCount} task(s)`);
+
     // ── tickets ────────────────────────────────────────────────────────────
     const ticketsExists = await client.query(
       `SELECT to_regclass('public.tickets') AS cls`
@@ -174,6 +516,184 @@ export async function ensureSchemaUpToDate() {
       `);
       console.log("[db] Created table: tickets");
     }
+
+    const ticketCols = await client.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'tickets'`
+    );
+    if (!ticketCols.rows.some((r: any) => r.column_name === "business_id")) {
+      await client.query(`ALTER TABLE tickets ADD COLUMN IF NOT EXISTS business_id varchar`);
+      await client.query(`CREATE INDEX IF NOT EXISTS tickets_business_id_idx ON tickets (business_id)`);
+      console.log("[db] Added missing column: tickets.business_id");
+
+      // Tickets used to land in the first business; their inbox items say which one that was
+      await client.query(
+        `UPDATE tickets t SET business_id = i.business_id FROM inbox_items i WHERE i.ticket_id = t.id AND t.business_id IS NULL`
+      );
+      const onlyBusiness = await client.query<{ id: string }>(`SELECT id FROM businesses`);
+      if (onlyBusiness.rows.length === 1) {
+        await client.query(`UPDATE tickets SET business_id = $1 WHERE business_id IS NULL`, [onlyBusiness.rows[0].id]);
+      }
+    }
+
+    // ── triage lanes ───────────────────────────────────────────────────────
+    // Lanes used to map to "Alert" and "Docs", which are not inbox types
+    const legacyInboxTypes = await client.query(
+      `UPDATE inbox_items SET type = CASE type WHEN 'Alert' THEN 'Bug' ELSE 'Idea' END WHERE type IN ('Alert', 'Docs')`
+    );
+    if (legacyInboxTypes.rowCount) {
+      console.log(`[db] Converted ${legacyInboxTypes.rowCount} Alert/Docs inbox item(s) to Bug/Idea`);
+    }
+
+    // Saved triage configurations predate lane routing and pre-rules
+    const legacyTriageConfigs = await client.query<{ id: string; triage_config: any }>(
+      `SELECT id, triage_config FROM businesses WHERE triage_config IS NOT NULL AND NOT (triage_config ? 'preRules')`
+    );
+    const legacyLaneTypes: Record<string, string> = { ops_alert: "Bug", software_bug: "Bug", improvement: "Feature", knowledge_update: "Idea" };
+    for (const row of legacyTriageConfigs.rows) {
+      const config = {
+        ...row.triage_config,
+        lanes: (row.triage_config.lanes || []).map((lane: { id: string; description: string }) => ({
+          ...lane,
+          inboxType: legacyLaneTypes[lane.id] || "Bug",
+          defaultProjectId: null,
+          defaultPriority: null,
+          assignedAgent: lane.id === "software_bug" ? "auto" : "manual",
+        })),
+        preRules: [],
+      };
+      await client.query(`UPDATE businesses SET triage_config = $1 WHERE id = $2`, [JSON.stringify(config), row.id]);
+      console.log(`[db] Added lane routing to the triage configuration of business ${row.id}`);
+    }
+
+    // ── intake_api_keys ────────────────────────────────────────────────────
+    const intakeKeysExists = await client.query(
+      `SELECT to_regclass('public.intake_api_keys') AS cls`
+    );
+    if (!intakeKeysExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE intake_api_keys (
+          id           varchar PRIMARY KEY,
+          business_id  varchar NOT NULL,
+          name         text NOT NULL,
+          key_hash     varchar(64) NOT NULL UNIQUE,
+          key_prefix   varchar(12) NOT NULL,
+          created_at   text NOT NULL,
+          last_used_at text
+        )
+      `);
+      console.log("[db] Created table: intake_api_keys");
+
+      // The old shared AI_DEV_HUB_API_KEY can only be attributed when there is a single business
+      const legacyKey = process.env.AI_DEV_HUB_API_KEY;
+      if (legacyKey) {
+        const businesses = await client.query<{ id: string }>(`SELECT id FROM businesses`);
+        if (businesses.rows.length === 1) {
+          await client.query(
+            `INSERT INTO intake_api_keys (id, business_id, name, key_hash, key_prefix, created_at) VALUES ($1, $2, $3, $4, $5, $6)`,
+            [randomUUID(), businesses.rows[0].id, "AI_DEV_HUB_API_KEY", hashApiKey(legacyKey), legacyKey.slice(0, 8), new Date().toISOString()]
+          );
+          console.log("[db] Imported AI_DEV_HUB_API_KEY as an intake key; it can be removed from the environment");
+        } else {
+          console.warn("[db] AI_DEV_HUB_API_KEY is no longer used: create an intake key per business in Settings");
+        }
+      }
+    }
+
+    // ── ticket_callbacks / callback_deliveries ─────────────────────────────
+    const callbacksExists = await client.query(
+      `SELECT to_regclass('public.ticket_callbacks') AS cls`
+    );
+    if (!callbacksExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE ticket_callbacks (
+          id          varchar PRIMARY KEY,
+          business_id varchar NOT NULL,
+          url         text NOT NULL,
+          secret      text NOT NULL,
+          events      jsonb NOT NULL DEFAULT '[]',
+          active      boolean NOT NULL DEFAULT true,
+          created_at  text NOT NULL
+        )
+      `);
+      console.log("[db] Created table: ticket_callbacks");
+    }
+
+    const callbackDeliveriesExists = await client.query(
+      `SELECT to_regclass('public.callback_deliveries') AS cls`
+    );
+    if (!callbackDeliveriesExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE callback_deliveries (
+          id              varchar PRIMARY KEY,
+          business_id     varchar NOT NULL,
+          callback_id     varchar NOT NULL,
+          url             text NOT NULL,
+          event           varchar(30) NOT NULL,
+          ticket_id       integer NOT NULL,
+          payload         jsonb NOT NULL,
+          status          varchar(20) NOT NULL DEFAULT 'pending',
+          attempts        integer NOT NULL DEFAULT 0,
+          next_attempt_at text,
+          last_error      text,
+          created_at      text NOT NULL,
+          delivered_at    text
+        )
+      `);
+      await client.query(`CREATE INDEX callback_deliveries_due_idx ON callback_deliveries (status, next_attempt_at)`);
+      await client.query(`CREATE INDEX callback_deliveries_business_idx ON callback_deliveries (business_id, status)`);
+      console.log("[db] Created table: callback_deliveries");
+    }
+
+    // ── attachments ────────────────────────────────────────────────────────
+    const attachmentsExists = await client.query(
+      `SELECT to_regclass('public.attachments') AS cls`
+    );
+    if (!attachmentsExists.rows[0]?.cls) {
+      await client.query(`
+        CREATE TABLE attachments (
+          id          varchar PRIMARY KEY,
+          business_id varchar NOT NULL,
+          ticket_id   integer NOT NULL,
+          name        text NOT NULL,
+          media_type  varchar(100) NOT NULL,
+          size        integer NOT NULL,
+          source_url  text,
+          created_at  text NOT NULL
+        )
+      `);
+      await client.query(`CREATE INDEX attachments_ticket_idx ON attachments (business_id, ticket_id)`);
+      console.log("[db] Created table: attachments");
+    }
+
+    // Triage results saved before attachments were stored have none
+    await client.query(
+      `UPDATE inbox_items SET triage = triage || '{"attachments": []}'::jsonb WHERE triage IS NOT NULL AND NOT (triage ? 'attachments')`
+    );
+
+    // ── secrets: encrypt plaintext / re-wrap under the active master key ───
+    const secretColumns: [string, string][] = [
+      ["repositories", "token"],
+      ["repositories", "webhook_secret"],
+      ["agents", "api_key"],
+      ["ticket_callbacks", "secret"],
+    ];
+    for (const [table, column] of secretColumns) {
+      const exists = await client.query(`SELECT to_regclass('public.${table}') AS cls`);
+      if (!exists.rows[0]?.cls) continue;
+      const rows = await client.query(`SELECT id, ${column} AS value FROM ${table} WHERE ${column} <> ''`);
+      let updated = 0;
+      for (const row of rows.rows) {
+        try {
+          const next = reencryptSecret(row.value);
+          if (next === null) continue;
+          await client.query(`UPDATE ${table} SET ${column} = $1 WHERE id = $2`, [next, row.id]);
+          updated++;
+        } catch (err: any) {
+          console.error(`[db] Could not re-encrypt ${table}.${column} for ${row.id}: ${err.message}`);
+        }
+      }
+      if (updated > 0) console.log(`[db] Encrypted ${updated} secret(s): ${table}.${column}`);
+    }
   } catch (err) {
     console.error("[db] Schema migration error:", err);
   } finally {
@@ -1,37 +1,76 @@
 import { randomUUID } from "crypto";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, inArray, isNotNull, count, asc, desc, lt, lte, sql, getTableColumns } from "drizzle-orm";
 import { db } from "./db";
+import { encryptSecret, decryptSecret, generateSharedSecret, hashApiKey, secretKeyId } from "./secrets";
 import {
   businessesTable,
   repositoriesTable,
   projectsTable,
   tasksTable,
   agentsTable,
+  agentAssignmentsTable,
+  usersTable,
+  businessMembersTable,
   inboxItemsTable,
   changelogEntriesTable,
   codeReviewsTable,
   managerMessagesTable,
+  agentRunsTable,
+  agentRunStepsTable,
+  webhookDeliveriesTable,
+  intakeApiKeysTable,
+  ticketsTable,
+  ticketCallbacksTable,
+  callbackDeliveriesTable,
+  attachmentsTable,
 } from "@shared/schema";
 import type {
   Business,
   InsertBusiness,
+  BusinessRole,
+  BusinessMember,
+  User,
+  UserSafe,
+  UserPreferences,
   Repository,
   InsertRepository,
   RepositorySafe,
   Agent,
   AgentSafe,
+  AgentFeature,
+  AgentAssignments,
   Project,
   InsertProject,
   Task,
   InsertTask,
+  TriageConfig,
+  IntakeApiKey,
+  TaskReference,
   ChangelogEntry,
+  ChangelogActor,
+  TaskStatus,
+  TaskWorkflow,
   InboxItem,
   InsertInboxItem,
   DiscussionMessage,
   CodeReview,
   ManagerMessage,
+  AgentRun,
+  AgentBudget,
+  AgentStep,
+  CodeFix,
+  WebhookDeliverySummary,
+  WebhookDelivery,
+  WebhookDeliveryWithPayload,
+  WebhookDeliveryOutcome,
+  TicketCallback,
+  InsertTicketCallback,
+  TicketEvent,
+  CallbackDelivery,
+  Attachment,
 } from "@shared/schema";
 import type { IStorage } from "./storage";
+import { DEFAULT_TASK_WORKFLOW } from "@shared/taskWorkflow";
 
 function stripAgentKeys(agent: Agent): AgentSafe {
   const { apiKey, ...safe } = agent;
@@ -39,8 +78,8 @@ function stripAgentKeys(agent: Agent): AgentSafe {
 }
 
 function stripRepoSensitive(repo: Repository): RepositorySafe {
-  const { token, ...rest } = repo;
-  return rest;
+  const { token, webhookSecret, ...rest } = repo;
+  return { ...rest, hasWebhookSecret: !!webhookSecret };
 }
 
 function generateTaskId(type: string, existingTasks: Task[]): string {
@@ -55,11 +94,31 @@ function generateTaskId(type: string, existingTasks: Task[]): string {
   return `${prefix}-${String(next).padStart(3, "0")}`;
 }
 
+/**
+ * Null when a stored secret cannot be decrypted (e.g. its master key was dropped from ENCRYPTION_KEYS),
+ * so one bad row is reported as unavailable instead of failing every list that contains it.
+ */
+function decryptOrNull(stored: string, what: string): string | null {
+  try {
+    return decryptSecret(stored);
+  } catch (err: any) {
+    console.error(`[secrets] Could not decrypt ${what} (key "${secretKeyId(stored)}"): ${err.message}`);
+    return null;
+  }
+}
+
 function rowToRepo(row: any): Repository {
+  const token = decryptOrNull(row.token, `the token of repository ${row.id}`);
+  const webhookSecret = decryptOrNull(row.webhookSecret || "", `the webhook secret of repository ${row.id}`);
   return {
     id: row.id, businessId: row.businessId, name: row.name,
     description: row.description, repoUrl: row.repoUrl, owner: row.owner,
-    repo: row.repo, token: row.token, type: row.type || "other",
+    repo: row.repo, token: token ?? "", type: row.type || "other",
+    agentBackend: row.agentBackend === "local_git" ? "local_git" : "github_api", cloneUrl: row.cloneUrl || "",
+    agentCommands: row.agentCommands || [],
+    webhookSecret: webhookSecret ?? "", lastWebhookDelivery: row.lastWebhookDelivery || null,
+    ...(token === null ? { tokenUnavailable: true } : {}),
+    ...(webhookSecret === null ? { webhookSecretUnavailable: true } : {}),
   };
 }
 
@@ -69,6 +128,8 @@ function rowToProject(row: any): Project {
     description: row.description, color: row.color,
     relatedRepositories: row.relatedRepositories || [],
     defaultRepositoryId: row.defaultRepositoryId || "",
+    workflow: row.workflow || DEFAULT_TASK_WORKFLOW,
+    hasCustomWorkflow: !!row.workflow,
   };
 }
 
@@ -85,22 +146,59 @@ function rowToTask(row: any): Task {
     autoAnalysisTimestamp: row.autoAnalysisTimestamp || undefined,
     generatedPrompts: row.generatedPrompts || [],
     dependencies: row.dependencies || [],
+    blockedBy: row.blockedBy || [],
+    attachments: row.attachments || [],
   };
 }
 
 function rowToAgent(row: any): Agent {
+  const apiKey = decryptOrNull(row.apiKey, `the API key of agent ${row.id}`);
   return {
     id: row.id, name: row.name, type: row.type,
-    apiKey: row.apiKey, role: row.role, isReviewAgent: row.isReviewAgent,
+    apiKey: apiKey ?? "", role: row.role, isReviewAgent: row.isReviewAgent,
+    model: row.model || "", baseUrl: row.baseUrl || "",
+    ...(apiKey === null ? { apiKeyUnavailable: true } : {}),
   };
 }
 
+function rowToUser(row: any): User {
+  return { id: row.id, username: row.username, passwordHash: row.passwordHash, createdAt: row.createdAt, preferences: row.preferences || {} };
+}
+
+function stripUserSensitive(user: User): UserSafe {
+  const { passwordHash, ...safe } = user;
+  return safe;
+}
+
 function rowToInboxItem(row: any): InboxItem {
   return {
     id: row.id, title: row.title, type: row.type, source: row.source,
     description: row.description, priority: row.priority, status: row.status,
     dateReceived: row.dateReceived, linkedProjectId: row.linkedProjectId || null,
     linkedTaskId: row.linkedTaskId || null, notes: row.notes,
+    ticketId: row.ticketId ?? null, triage: row.triage || null,
+  };
+}
+
+function rowToTicketCallback(row: any): TicketCallback {
+  return {
+    id: row.id, businessId: row.businessId, url: row.url,
+    events: row.events || [], active: row.active, createdAt: row.createdAt,
+  };
+}
+
+function rowToCallbackDelivery(row: any): CallbackDelivery {
+  return {
+    id: row.id, businessId: row.businessId, callbackId: row.callbackId, url: row.url,
+    event: row.event, ticketId: row.ticketId, payload: row.payload || {}, status: row.status,
+    attempts: row.attempts, nextAttemptAt: row.nextAttemptAt || null, lastError: row.lastError || null,
+    createdAt: row.createdAt, deliveredAt: row.deliveredAt || null,
+  };
+}
+
+function rowToAttachment(row: any): Attachment {
+  return {
+    id: row.id, name: row.name, mediaType: row.mediaType, size: row.size, sourceUrl: row.sourceUrl || null,
   };
 }
 
@@ -111,6 +209,49 @@ function rowToManagerMessage(row: any): ManagerMessage {
     actions: row.actions || [], filesLoaded: row.filesLoaded || [],
     attachments: row.attachments || [],
     ...(row.codeFix ? { codeFix: row.codeFix } : {}),
+    ...(row.agentRunId ? { agentRunId: row.agentRunId } : {}),
+  };
+}
+
+/** Read as `bizId` sees it: a business that reprocessed the delivery gets its own result. */
+function rowToWebhookDelivery(row: any, bizId?: string): WebhookDelivery {
+  const own: Partial<WebhookDeliveryOutcome> | undefined = bizId ? row.businessOutcomes?.[bizId] : undefined;
+  if (own) row = { ...row, ...own };
+  return {
+    id: row.id, event: row.event, repository: row.repository || "",
+    repositoryIds: row.repositoryIds || [], businessIds: row.businessIds || [],
+    status: row.status, message: row.message || "",
+    taskIds: row.taskIds || [], codeFixIds: row.codeFixIds || [],
+    attempts: row.attempts ?? 1, receivedAt: row.receivedAt,
+    ...(row.deliveryId ? { deliveryId: row.deliveryId } : {}),
+    ...(row.action ? { action: row.action } : {}),
+    ...(row.error ? { error: row.error } : {}),
+    ...(row.processedAt ? { processedAt: row.processedAt } : {}),
+  };
+}
+
+function rowToIntakeApiKey(row: any): IntakeApiKey {
+  return {
+    id: row.id, businessId: row.businessId, name: row.name, keyPrefix: row.keyPrefix,
+    createdAt: row.createdAt, lastUsedAt: row.lastUsedAt || null,
+  };
+}
+
+function rowToAgentRun(row: any): AgentRun {
+  return {
+    id: row.id, businessId: row.businessId, taskId: row.taskId, projectId: row.projectId,
+    deployMode: row.deployMode === "pr" ? "pr" : "push", reviewBeforeDeploy: !!row.reviewBeforeDeploy,
+    instructions: row.instructions || "",
+    status: row.status, startedAt: row.startedAt,
+    ...(row.prUrl ? { prUrl: row.prUrl } : {}),
+    ...(row.prNumber != null ? { prNumber: row.prNumber } : {}),
+    ...(row.pushSha ? { pushSha: row.pushSha } : {}),
+    ...(row.error ? { error: row.error } : {}),
+    budget: row.budget || {},
+    inputTokens: row.inputTokens || 0, outputTokens: row.outputTokens || 0,
+    costUsd: row.costUsd || 0, iterations: row.iterations || 0,
+    ...(row.budgetExceeded ? { budgetExceeded: row.budgetExceeded } : {}),
+    ...(row.finishedAt ? { finishedAt: row.finishedAt } : {}),
   };
 }
 
@@ -157,13 +298,103 @@ export class DatabaseStorage implements IStorage {
     await db.delete(projectsTable).where(eq(projectsTable.businessId, id));
     await db.delete(repositoriesTable).where(eq(repositoriesTable.businessId, id));
     await db.delete(agentsTable).where(eq(agentsTable.businessId, id));
+    await db.delete(agentAssignmentsTable).where(eq(agentAssignmentsTable.businessId, id));
+    await db.delete(businessMembersTable).where(eq(businessMembersTable.businessId, id));
     await db.delete(inboxItemsTable).where(eq(inboxItemsTable.businessId, id));
     await db.delete(changelogEntriesTable).where(eq(changelogEntriesTable.businessId, id));
     await db.delete(managerMessagesTable).where(eq(managerMessagesTable.businessId, id));
+    await db.delete(intakeApiKeysTable).where(eq(intakeApiKeysTable.businessId, id));
+    await db.delete(ticketsTable).where(eq(ticketsTable.businessId, id));
+    await db.delete(ticketCallbacksTable).where(eq(ticketCallbacksTable.businessId, id));
+    await db.delete(callbackDeliveriesTable).where(eq(callbackDeliveriesTable.businessId, id));
+    await db.delete(attachmentsTable).where(eq(attachmentsTable.businessId, id));
+    const runs = await db.select({ id: agentRunsTable.id }).from(agentRunsTable).where(eq(agentRunsTable.businessId, id));
+    if (runs.length > 0) {
+      await db.delete(agentRunStepsTable).where(inArray(agentRunStepsTable.runId, runs.map(r => r.id)));
+    }
+    await db.delete(agentRunsTable).where(eq(agentRunsTable.businessId, id));
     await db.delete(businessesTable).where(eq(businessesTable.id, id));
     return true;
   }
 
+  async getUser(id: string): Promise<UserSafe | undefined> {
+    const rows = await db.select().from(usersTable).where(eq(usersTable.id, id));
+    return rows[0] ? stripUserSensitive(rowToUser(rows[0])) : undefined;
+  }
+
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<UserSafe | undefined> {
+    const rows = await db.update(usersTable).set({ preferences }).where(eq(usersTable.id, id)).returning();
+    return rows[0] ? stripUserSensitive(rowToUser(rows[0])) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const rows = await db.select().from(usersTable).where(eq(usersTable.username, username));
+    return rows[0] ? rowToUser(rows[0]) : undefined;
+  }
+
+  async createUser(username: string, passwordHash: string): Promise<UserSafe> {
+    const user: User = { id: randomUUID(), username, passwordHash, createdAt: new Date().toISOString(), preferences: {} };
+    await db.insert(usersTable).values(user);
+    return stripUserSensitive(user);
+  }
+
+  async countUsers(): Promise<number> {
+    const [row] = await db.select({ value: count() }).from(usersTable);
+    return Number(row?.value || 0);
+  }
+
+  async getBusinessesForUser(userId: string): Promise<Business[]> {
+    const memberships = await db.select().from(businessMembersTable).where(eq(businessMembersTable.userId, userId));
+    if (memberships.length === 0) return [];
+    const rows = await db.select().from(businessesTable).where(inArray(businessesTable.id, memberships.map(m => m.businessId)));
+    return rows as Business[];
+  }
+
+  async getBusinessRole(bizId: string, userId: string): Promise<BusinessRole | undefined> {
+    const rows = await db.select().from(businessMembersTable).where(and(eq(businessMembersTable.businessId, bizId), eq(businessMembersTable.userId, userId)));
+    return rows[0]?.role as BusinessRole | undefined;
+  }
+
+  async getBusinessMembers(bizId: string): Promise<BusinessMember[]> {
+    const rows = await db
+      .select({ userId: businessMembersTable.userId, username: usersTable.username, role: businessMembersTable.role })
+      .from(businessMembersTable)
+      .innerJoin(usersTable, eq(usersTable.id, businessMembersTable.userId))
+      .where(eq(businessMembersTable.businessId, bizId));
+    return rows.map(r => ({ userId: r.userId, username: r.username, role: r.role as BusinessRole }));
+  }
+
+  async setBusinessMember(bizId: string, userId: string, role: BusinessRole): Promise<BusinessMember | undefined> {
+    const user = await this.getUser(userId);
+    const biz = await this.getBusiness(bizId);
+    if (!user || !biz) return undefined;
+    const existing = await db.select().from(businessMembersTable).where(and(eq(businessMembersTable.businessId, bizId), eq(businessMembersTable.userId, userId)));
+    if (existing.length > 0) {
+      await db.update(businessMembersTable).set({ role }).where(eq(businessMembersTable.id, existing[0].id));
+    } else {
+      await db.insert(businessMembersTable).values({ id: randomUUID(), businessId: bizId, userId, role });
+    }
+    return { userId, username: user.username, role };
+  }
+
+  async removeBusinessMember(bizId: string, userId: string): Promise<boolean> {
+    const rows = await db.select().from(businessMembersTable).where(and(eq(businessMembersTable.businessId, bizId), eq(businessMembersTable.userId, userId)));
+    if (rows.length === 0) return false;
+    await db.delete(businessMembersTable).where(eq(businessMembersTable.id, rows[0].id));
+    return true;
+  }
+
+  async claimUnownedBusinesses(userId: string): Promise<number> {
+    const businesses = await db.select().from(businessesTable);
+    const members = await db.select().from(businessMembersTable);
+    const owned = new Set(members.map(m => m.businessId));
+    const unowned = businesses.filter(b => !owned.has(b.id));
+    for (const b of unowned) {
+      await db.insert(businessMembersTable).values({ id: randomUUID(), businessId: b.id, userId, role: "owner" });
+    }
+    return unowned.length;
+  }
+
   async getRepositories(bizId: string): Promise<RepositorySafe[]> {
     const rows = await db.select().from(repositoriesTable).where(eq(repositoriesTable.businessId, bizId));
     return rows.map(r => stripRepoSensitive(rowToRepo(r)));
@@ -186,6 +417,24 @@ export class DatabaseStorage implements IStorage {
     return rows.map(rowToRepo);
   }
 
+  async getRepositoriesByGitHub(owner: string, repo: string): Promise<Repository[]> {
+    const rows = await db.select().from(repositoriesTable).where(
+      and(sql`lower(${repositoriesTable.owner}) = ${owner.toLowerCase()}`, sql`lower(${repositoriesTable.repo}) = ${repo.toLowerCase()}`)
+    );
+    return rows.map(rowToRepo);
+  }
+
+  async setRepositoryWebhookSecret(bizId: string, repoId: string, secret: string): Promise<boolean> {
+    const rows = await db.select().from(repositoriesTable).where(and(eq(repositoriesTable.id, repoId), eq(repositoriesTable.businessId, bizId)));
+    if (rows.length === 0) return false;
+    await db.update(repositoriesTable).set({ webhookSecret: encryptSecret(secret) }).where(eq(repositoriesTable.id, repoId));
+    return true;
+  }
+
+  async recordRepositoryWebhookDelivery(repoId: string, delivery: WebhookDeliverySummary): Promise<void> {
+    await db.update(repositoriesTable).set({ lastWebhookDelivery: delivery }).where(eq(repositoriesTable.id, repoId));
+  }
+
   async createRepository(bizId: string, data: InsertRepository): Promise<RepositorySafe> {
     let owner = "", repo = "";
     if (data.repoUrl) {
@@ -194,7 +443,7 @@ export class DatabaseStorage implements IStorage {
     }
     const existing = await db.select().from(repositoriesTable);
     const id = `R${existing.length + 1}-${Date.now().toString(36)}`;
-    const repository = { id, businessId: bizId, name: data.name, description: data.description || "", repoUrl: data.repoUrl || "", owner, repo, token: data.token || "", type: (data.type as any) || "other" };
+    const repository = { id, businessId: bizId, name: data.name, description: data.description || "", repoUrl: data.repoUrl || "", owner, repo, token: encryptSecret(data.token || ""), type: (data.type as any) || "other", agentBackend: data.agentBackend || "github_api", cloneUrl: data.cloneUrl || "", agentCommands: data.agentCommands || [], webhookSecret: encryptSecret(generateSharedSecret()) };
     await db.insert(repositoriesTable).values(repository);
     return stripRepoSensitive(rowToRepo(repository));
   }
@@ -212,8 +461,11 @@ export class DatabaseStorage implements IStorage {
     }
     if (data.owner !== undefined && data.owner !== "") updates.owner = data.owner;
     if (data.repo !== undefined && data.repo !== "") updates.repo = data.repo;
-    if (data.token !== undefined && data.token !== "") updates.token = data.token;
+    if (data.token !== undefined && data.token !== "") updates.token = encryptSecret(data.token);
     if (data.type !== undefined) updates.type = data.type;
+    if (data.agentBackend === "github_api" || data.agentBackend === "local_git") updates.agentBackend = data.agentBackend;
+    if (data.cloneUrl !== undefined) updates.cloneUrl = data.cloneUrl;
+    if (data.agentCommands !== undefined) updates.agentCommands = data.agentCommands;
     if (Object.keys(updates).length > 0) {
       await db.update(repositoriesTable).set(updates).where(eq(repositoriesTable.id, repoId));
     }
@@ -244,7 +496,7 @@ export class DatabaseStorage implements IStorage {
     const biz = await this.getBusiness(bizId);
     if (!biz) return undefined;
     const full: Agent = { id: randomUUID(), ...agent };
-    await db.insert(agentsTable).values({ id: full.id, businessId: bizId, name: full.name, type: full.type, apiKey: full.apiKey, role: full.role, isReviewAgent: full.isReviewAgent });
+    await db.insert(agentsTable).values({ id: full.id, businessId: bizId, name: full.name, type: full.type, apiKey: encryptSecret(full.apiKey), role: full.role, isReviewAgent: full.isReviewAgent, model: full.model || "", baseUrl: full.baseUrl || "" });
     return stripAgentKeys(full);
   }
 
@@ -254,8 +506,10 @@ export class DatabaseStorage implements IStorage {
     const updates: any = {};
     if (data.name !== undefined) updates.name = data.name;
     if (data.type !== undefined) updates.type = data.type;
-    if (data.apiKey !== undefined && data.apiKey !== "") updates.apiKey = data.apiKey;
+    if (data.apiKey !== undefined && data.apiKey !== "") updates.apiKey = encryptSecret(data.apiKey);
     if (data.role !== undefined) updates.role = data.role;
+    if (data.model !== undefined) updates.model = data.model;
+    if (data.baseUrl !== undefined) updates.baseUrl = data.baseUrl;
     if (data.isReviewAgent !== undefined) {
       if (data.isReviewAgent) { await db.update(agentsTable).set({ isReviewAgent: false }).where(eq(agentsTable.businessId, bizId)); }
       updates.isReviewAgent = data.isReviewAgent;
@@ -271,6 +525,7 @@ export class DatabaseStorage implements IStorage {
     const rows = await db.select().from(agentsTable).where(and(eq(agentsTable.id, agentId), eq(agentsTable.businessId, bizId)));
     if (rows.length === 0) return false;
     await db.delete(agentsTable).where(eq(agentsTable.id, agentId));
+    await db.delete(agentAssignmentsTable).where(eq(agentAssignmentsTable.agentId, agentId));
     return true;
   }
 
@@ -279,6 +534,203 @@ export class DatabaseStorage implements IStorage {
     return rows[0] ? rowToAgent(rows[0]) : undefined;
   }
 
+  async getAgentAssignments(bizId: string): Promise<AgentAssignments> {
+    const rows = await db.select().from(agentAssignmentsTable).where(eq(agentAssignmentsTable.businessId, bizId));
+    const assignments: AgentAssignments = {};
+    for (const r of rows) assignments[r.feature as AgentFeature] = r.agentId;
+    return assignments;
+  }
+
+  async setAgentAssignments(bizId: string, assignments: AgentAssignments): Promise<AgentAssignments> {
+    const agentRows = await db.select({ id: agentsTable.id }).from(agentsTable).where(eq(agentsTable.businessId, bizId));
+    const validIds = new Set(agentRows.map(r => r.id));
+    await db.delete(agentAssignmentsTable).where(eq(agentAssignmentsTable.businessId, bizId));
+    const values = Object.entries(assignments)
+      .filter(([, agentId]) => agentId && validIds.has(agentId))
+      .map(([feature, agentId]) => ({ id: randomUUID(), businessId: bizId, feature, agentId: agentId! }));
+    if (values.length > 0) {
+      await db.insert(agentAssignmentsTable).values(values);
+    }
+    return this.getAgentAssignments(bizId);
+  }
+
+  async getAgentBudget(bizId: string): Promise<AgentBudget> {
+    const rows = await db.select({ agentBudget: businessesTable.agentBudget }).from(businessesTable).where(eq(businessesTable.id, bizId));
+    return rows[0]?.agentBudget || {};
+  }
+
+  async setAgentBudget(bizId: string, budget: AgentBudget): Promise<AgentBudget> {
+    await db.update(businessesTable).set({ agentBudget: budget }).where(eq(businessesTable.id, bizId));
+    return this.getAgentBudget(bizId);
+  }
+
+  async getTriageConfig(bizId: string): Promise<TriageConfig | null> {
+    const rows = await db.select({ triageConfig: businessesTable.triageConfig }).from(businessesTable).where(eq(businessesTable.id, bizId));
+    return rows[0]?.triageConfig || null;
+  }
+
+  async setTriageConfig(bizId: string, config: TriageConfig | null): Promise<void> {
+    await db.update(businessesTable).set({ triageConfig: config }).where(eq(businessesTable.id, bizId));
+  }
+
+  async getIntakeApiKeys(bizId: string): Promise<IntakeApiKey[]> {
+    const rows = await db.select().from(intakeApiKeysTable).where(eq(intakeApiKeysTable.businessId, bizId)).orderBy(asc(intakeApiKeysTable.createdAt));
+    return rows.map(rowToIntakeApiKey);
+  }
+
+  async createIntakeApiKey(bizId: string, name: string, key: string): Promise<IntakeApiKey> {
+    const rows = await db.insert(intakeApiKeysTable).values({
+      id: randomUUID(), businessId: bizId, name, keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, 8), createdAt: new Date().toISOString(),
+    }).returning();
+    return rowToIntakeApiKey(rows[0]);
+  }
+
+  async deleteIntakeApiKey(bizId: string, keyId: string): Promise<boolean> {
+    const rows = await db.delete(intakeApiKeysTable)
+      .where(and(eq(intakeApiKeysTable.id, keyId), eq(intakeApiKeysTable.businessId, bizId)))
+      .returning({ id: intakeApiKeysTable.id });
+    return rows.length > 0;
+  }
+
+  async useIntakeApiKey(key: string): Promise<IntakeApiKey | undefined> {
+    const rows = await db.update(intakeApiKeysTable).set({ lastUsedAt: new Date().toISOString() })
+      .where(eq(intakeApiKeysTable.keyHash, hashApiKey(key)))
+      .returning();
+    return rows[0] ? rowToIntakeApiKey(rows[0]) : undefined;
+  }
+
+  async getTicketCallbacks(bizId: string): Promise<TicketCallback[]> {
+    const rows = await db.select().from(ticketCallbacksTable).where(eq(ticketCallbacksTable.businessId, bizId)).orderBy(asc(ticketCallbacksTable.createdAt));
+    return rows.map(rowToTicketCallback);
+  }
+
+  async createTicketCallback(bizId: string, data: InsertTicketCallback): Promise<TicketCallback> {
+    const rows = await db.insert(ticketCallbacksTable).values({
+      id: randomUUID(), businessId: bizId, url: data.url, secret: encryptSecret(generateSharedSecret()),
+      events: data.events, active: data.active, createdAt: new Date().toISOString(),
+    }).returning();
+    return rowToTicketCallback(rows[0]);
+  }
+
+  async updateTicketCallback(bizId: string, callbackId: string, data: Partial<InsertTicketCallback>): Promise<TicketCallback | undefined> {
+    const updates: any = {};
+    if (data.url !== undefined) updates.url = data.url;
+    if (data.events !== undefined) updates.events = data.events;
+    if (data.active !== undefined) updates.active = data.active;
+    if (Object.keys(updates).length === 0) {
+      const rows = await db.select().from(ticketCallbacksTable).where(and(eq(ticketCallbacksTable.id, callbackId), eq(ticketCallbacksTable.businessId, bizId)));
+      return rows[0] ? rowToTicketCallback(rows[0]) : undefined;
+    }
+    const rows = await db.update(ticketCallbacksTable).set(updates)
+      .where(and(eq(ticketCallbacksTable.id, callbackId), eq(ticketCallbacksTable.businessId, bizId)))
+      .returning();
+    return rows[0] ? rowToTicketCallback(rows[0]) : undefined;
+  }
+
+  async deleteTicketCallback(bizId: string, callbackId: string): Promise<boolean> {
+    const rows = await db.delete(ticketCallbacksTable)
+      .where(and(eq(ticketCallbacksTable.id, callbackId), eq(ticketCallbacksTable.businessId, bizId)))
+      .returning({ id: ticketCallbacksTable.id });
+    if (rows.length === 0) return false;
+    await db.delete(callbackDeliveriesTable).where(eq(callbackDeliveriesTable.callbackId, callbackId));
+    return true;
+  }
+
+  async getTicketCallbackSecret(bizId: string, callbackId: string): Promise<string | undefined> {
+    const rows = await db.select({ secret: ticketCallbacksTable.secret }).from(ticketCallbacksTable)
+      .where(and(eq(ticketCallbacksTable.id, callbackId), eq(ticketCallbacksTable.businessId, bizId)));
+    return rows[0] ? decryptSecret(rows[0].secret) : undefined;
+  }
+
+  async rotateTicketCallbackSecret(bizId: string, callbackId: string): Promise<string | undefined> {
+    const secret = generateSharedSecret();
+    const rows = await db.update(ticketCallbacksTable).set({ secret: encryptSecret(secret) })
+      .where(and(eq(ticketCallbacksTable.id, callbackId), eq(ticketCallbacksTable.businessId, bizId)))
+      .returning({ id: ticketCallbacksTable.id });
+    return rows.length > 0 ? secret : undefined;
+  }
+
+  async enqueueCallbackDeliveries(bizId: string, event: TicketEvent, ticketId: number, payload: Record<string, unknown>): Promise<number> {
+    const callbacks = (await this.getTicketCallbacks(bizId)).filter(c => c.active && c.events.includes(event));
+    if (callbacks.length === 0) return 0;
+    const now = new Date().toISOString();
+    await db.insert(callbackDeliveriesTable).values(callbacks.map(c => ({
+      id: randomUUID(), businessId: bizId, callbackId: c.id, url: c.url, event, ticketId, payload,
+      status: "pending", attempts: 0, nextAttemptAt: now, createdAt: now,
+    })));
+    return callbacks.length;
+  }
+
+  async getDueCallbackDeliveries(now: string, limit: number): Promise<CallbackDelivery[]> {
+    const rows = await db.select().from(callbackDeliveriesTable)
+      .where(and(eq(callbackDeliveriesTable.status, "pending"), lte(callbackDeliveriesTable.nextAttemptAt, now)))
+      .orderBy(asc(callbackDeliveriesTable.nextAttemptAt))
+      .limit(limit);
+    return rows.map(rowToCallbackDelivery);
+  }
+
+  async getCallbackDeliveries(bizId: string, status: CallbackDelivery["status"], limit: number): Promise<CallbackDelivery[]> {
+    const rows = await db.select().from(callbackDeliveriesTable)
+      .where(and(eq(callbackDeliveriesTable.businessId, bizId), eq(callbackDeliveriesTable.status, status)))
+      .orderBy(desc(callbackDeliveriesTable.createdAt))
+      .limit(limit);
+    return rows.map(rowToCallbackDelivery);
+  }
+
+  async updateCallbackDelivery(id: string, updates: Partial<Pick<CallbackDelivery, "status" | "attempts" | "nextAttemptAt" | "lastError" | "deliveredAt">>): Promise<void> {
+    await db.update(callbackDeliveriesTable).set(updates).where(eq(callbackDeliveriesTable.id, id));
+  }
+
+  async retryCallbackDelivery(bizId: string, deliveryId: string): Promise<CallbackDelivery | undefined> {
+    const rows = await db.update(callbackDeliveriesTable)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date().toISOString() })
+      .where(and(eq(callbackDeliveriesTable.id, deliveryId), eq(callbackDeliveriesTable.businessId, bizId), eq(callbackDeliveriesTable.status, "dead")))
+      .returning();
+    return rows[0] ? rowToCallbackDelivery(rows[0]) : undefined;
+  }
+
+  async deleteCallbackDelivery(bizId: string, deliveryId: string): Promise<boolean> {
+    const rows = await db.delete(callbackDeliveriesTable)
+      .where(and(eq(callbackDeliveriesTable.id, deliveryId), eq(callbackDeliveriesTable.businessId, bizId)))
+      .returning({ id: callbackDeliveriesTable.id });
+    return rows.length > 0;
+  }
+
+  async pruneCallbackDeliveries(deliveredBefore: string): Promise<number> {
+    const rows = await db.delete(callbackDeliveriesTable)
+      .where(and(eq(callbackDeliveriesTable.status, "delivered"), lt(callbackDeliveriesTable.deliveredAt, deliveredBefore)))
+      .returning({ id: callbackDeliveriesTable.id });
+    return rows.length;
+  }
+
+  async getTicketIdsForTask(bizId: string, taskId: string): Promise<number[]> {
+    const rows = await db.select({ ticketId: inboxItemsTable.ticketId }).from(inboxItemsTable)
+      .where(and(eq(inboxItemsTable.businessId, bizId), eq(inboxItemsTable.linkedTaskId, taskId), isNotNull(inboxItemsTable.ticketId)));
+    return rows.map(r => r.ticketId!);
+  }
+
+  async addAttachment(bizId: string, ticketId: number, attachment: Attachment): Promise<void> {
+    await db.insert(attachmentsTable).values({
+      ...attachment, businessId: bizId, ticketId, createdAt: new Date().toISOString(),
+    });
+  }
+
+  async getAttachment(bizId: string, attachmentId: string): Promise<Attachment | undefined> {
+    const rows = await db.select().from(attachmentsTable)
+      .where(and(eq(attachmentsTable.id, attachmentId), eq(attachmentsTable.businessId, bizId)));
+    return rows[0] ? rowToAttachment(rows[0]) : undefined;
+  }
+
+  async getAgentForFeature(bizId: string, feature: AgentFeature): Promise<Agent | undefined> {
+    const rows = await db.select().from(agentAssignmentsTable).where(and(eq(agentAssignmentsTable.businessId, bizId), eq(agentAssignmentsTable.feature, feature)));
+    if (rows[0]) {
+      const agentRows = await db.select().from(agentsTable).where(and(eq(agentsTable.id, rows[0].agentId), eq(agentsTable.businessId, bizId)));
+      if (agentRows[0]) return rowToAgent(agentRows[0]);
+    }
+    return this.getReviewAgent(bizId);
+  }
+
   async getProjects(bizId: string): Promise<Project[]> {
     const rows = await db.select().from(projectsTable).where(eq(projectsTable.businessId, bizId));
     return rows.map(rowToProject);
@@ -296,6 +748,7 @@ export class DatabaseStorage implements IStorage {
       businessId: bizId, name: data.name, description: data.description || "",
       color: data.color || "#58a6ff", relatedRepositories: data.relatedRepositories || [],
       defaultRepositoryId: data.defaultRepositoryId || "",
+      workflow: DEFAULT_TASK_WORKFLOW, hasCustomWorkflow: false,
     };
     await db.insert(projectsTable).values({ id: project.id, businessId: project.businessId, name: project.name, description: project.description, color: project.color, relatedRepositories: project.relatedRepositories, defaultRepositoryId: project.defaultRepositoryId });
     return project;
@@ -317,6 +770,13 @@ export class DatabaseStorage implements IStorage {
     return updated[0] ? rowToProject(updated[0]) : undefined;
   }
 
+  async setProjectWorkflow(bizId: string, projectId: string, workflow: TaskWorkflow | null): Promise<Project | undefined> {
+    const rows = await db.update(projectsTable).set({ workflow })
+      .where(and(eq(projectsTable.id, projectId), eq(projectsTable.businessId, bizId)))
+      .returning();
+    return rows[0] ? rowToProject(rows[0]) : undefined;
+  }
+
   async deleteProject(bizId: string, projectId: string): Promise<boolean> {
     const rows = await db.select().from(projectsTable).where(and(eq(projectsTable.id, projectId), eq(projectsTable.businessId, bizId)));
     if (rows.length === 0) return false;
@@ -345,20 +805,43 @@ export class DatabaseStorage implements IStorage {
     return rows[0] ? rowToTask(rows[0]) : undefined;
   }
 
+  async findTaskInBusinesses(taskId: string, bizIds: string[]): Promise<{ task: Task; project: Project } | undefined> {
+    if (bizIds.length === 0) return undefined;
+    const rows = await db.select({ task: tasksTable, project: projectsTable }).from(tasksTable)
+      .innerJoin(projectsTable, eq(projectsTable.id, tasksTable.projectId))
+      .where(and(eq(tasksTable.id, taskId), inArray(projectsTable.businessId, bizIds)));
+    return rows[0] ? { task: rowToTask(rows[0].task), project: rowToProject(rows[0].project) } : undefined;
+  }
+
+  async getTasksByReference(bizId: string, refs: TaskReference[]): Promise<{ task: Task; project: Project }[]> {
+    if (refs.length === 0) return [];
+    const rows = await db.select({ task: tasksTable, project: projectsTable }).from(tasksTable)
+      .innerJoin(projectsTable, eq(projectsTable.id, tasksTable.projectId))
+      .where(and(inArray(tasksTable.id, refs.map(r => r.taskId)), eq(projectsTable.businessId, bizId)));
+    const found: { task: Task; project: Project }[] = [];
+    for (const ref of refs) {
+      const row = rows.find(r => r.task.id === ref.taskId && r.task.projectId === ref.projectId);
+      if (row) found.push({ task: rowToTask(row.task), project: rowToProject(row.project) });
+    }
+    return found;
+  }
+
   async createTask(projectId: string, data: InsertTask, customId?: string): Promise<Task> {
     // Use all tasks globally for ID generation to prevent cross-project duplicates
     const allTasks = await db.select({ id: tasksTable.id }).from(tasksTable);
     const allTaskObjects = allTasks.map(t => ({ id: t.id } as Task));
     const existingIds = new Set(allTasks.map(t => t.id));
     const id = customId && !existingIds.has(customId) ? customId : generateTaskId(data.type, allTaskObjects);
+    const project = await db.select().from(projectsTable).where(eq(projectsTable.id, projectId));
+    const workflow = project[0]?.workflow || DEFAULT_TASK_WORKFLOW;
     const task: Task = {
       id, projectId, repositoryId: data.repositoryId || "", type: data.type,
-      status: data.status || "Open", priority: data.priority || "Medium",
+      status: data.status || workflow.initialStatus, priority: data.priority || "Medium",
       title: data.title, description: data.description || "",
       reasoning: data.reasoning || "", fixSteps: data.fixSteps || "",
       replitPrompt: data.replitPrompt || "", filePath: data.filePath || "",
       discussion: [], autoAnalysisComplete: false, generatedPrompts: [],
-      dependencies: data.dependencies || [],
+      dependencies: data.dependencies || [], blockedBy: [], attachments: [],
     };
     await db.insert(tasksTable).values({
       id: task.id, projectId: task.projectId, repositoryId: task.repositoryId,
@@ -366,19 +849,16 @@ export class DatabaseStorage implements IStorage {
       title: task.title, description: task.description, reasoning: task.reasoning,
       fixSteps: task.fixSteps, replitPrompt: task.replitPrompt, filePath: task.filePath,
       discussion: task.discussion, autoAnalysisComplete: task.autoAnalysisComplete,
-      generatedPrompts: task.generatedPrompts, dependencies: task.dependencies,
+      generatedPrompts: task.generatedPrompts, dependencies: task.dependencies, blockedBy: task.blockedBy,
     });
     return task;
   }
 
-  async updateTask(projectId: string, taskId: string, data: Partial<InsertTask>, bizId?: string): Promise<Task | undefined> {
+  async updateTask(projectId: string, taskId: string, data: Partial<Omit<InsertTask, "status">>): Promise<Task | undefined> {
     const rows = await db.select().from(tasksTable).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
     if (rows.length === 0) return undefined;
-    const oldTask = rowToTask(rows[0]);
-    const oldStatus = oldTask.status;
     const updates: any = {};
     if (data.type !== undefined) updates.type = data.type;
-    if (data.status !== undefined) updates.status = data.status;
     if (data.priority !== undefined) updates.priority = data.priority;
     if (data.title !== undefined) updates.title = data.title;
     if (data.description !== undefined) updates.description = data.description;
@@ -391,38 +871,76 @@ export class DatabaseStorage implements IStorage {
     if ((data as any).autoAnalysisComplete !== undefined) updates.autoAnalysisComplete = (data as any).autoAnalysisComplete;
     if ((data as any).autoAnalysisResult !== undefined) updates.autoAnalysisResult = (data as any).autoAnalysisResult;
     if ((data as any).autoAnalysisTimestamp !== undefined) updates.autoAnalysisTimestamp = (data as any).autoAnalysisTimestamp;
+    if ((data as any).attachments !== undefined) updates.attachments = (data as any).attachments;
     if (Object.keys(updates).length > 0) {
       await db.update(tasksTable).set(updates).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
     }
-    if (data.status !== undefined && data.status !== oldStatus) {
-      let resolvedBizId = bizId;
-      if (!resolvedBizId) {
-        const proj = await db.select().from(projectsTable).where(eq(projectsTable.id, projectId));
-        resolvedBizId = proj[0]?.businessId;
-      }
-      if (resolvedBizId) {
-        await db.insert(changelogEntriesTable).values({
-          id: randomUUID(), businessId: resolvedBizId, taskId: oldTask.id,
-          taskTitle: data.title || oldTask.title, fromStatus: oldStatus,
-          toStatus: data.status, timestamp: new Date().toISOString(),
-        });
-      }
-    }
     const updated = await db.select().from(tasksTable).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
     return updated[0] ? rowToTask(updated[0]) : undefined;
   }
 
+  async setTaskStatus(
+    projectId: string,
+    taskId: string,
+    fromStatus: TaskStatus,
+    toStatus: TaskStatus,
+    by: Pick<ChangelogEntry, "actor" | "actorName">,
+  ): Promise<Task | undefined> {
+    // Only applies while the task is still in `fromStatus`, so each change is logged exactly once
+    const changed = await db.update(tasksTable).set({ status: toStatus })
+      .where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId), eq(tasksTable.status, fromStatus)))
+      .returning();
+    if (changed.length === 0) return undefined;
+    const task = rowToTask(changed[0]);
+    const proj = await db.select().from(projectsTable).where(eq(projectsTable.id, projectId));
+    if (proj[0]) {
+      await db.insert(changelogEntriesTable).values({
+        id: randomUUID(), businessId: proj[0].businessId, taskId: task.id, taskTitle: task.title,
+        fromStatus, toStatus, timestamp: new Date().toISOString(),
+        actor: by.actor || null, actorName: by.actorName || "",
+      });
+    }
+    return task;
+  }
+
+  async setTaskBlockers(projectId: string, taskId: string, blockedBy: TaskReference[]): Promise<Task | undefined> {
+    const rows = await db.update(tasksTable).set({ blockedBy })
+      .where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)))
+      .returning();
+    return rows[0] ? rowToTask(rows[0]) : undefined;
+  }
+
+  /** Points every link and blocker edge to `from` at `to`, or drops them when the task is gone. */
+  private async retargetTaskLinks(from: TaskReference, to: TaskReference | null): Promise<void> {
+    const match = JSON.stringify([from]);
+    const rows = await db.select().from(tasksTable)
+      .where(or(
+        sql`${tasksTable.dependencies} @> ${match}::jsonb`,
+        sql`${tasksTable.blockedBy} @> ${match}::jsonb`,
+      ));
+    const retarget = (refs: TaskReference[]) => refs.flatMap(ref =>
+      ref.projectId === from.projectId && ref.taskId === from.taskId ? (to ? [to] : []) : [ref]);
+    for (const row of rows) {
+      await db.update(tasksTable)
+        .set({ dependencies: retarget(row.dependencies || []), blockedBy: retarget(row.blockedBy || []) })
+        .where(and(eq(tasksTable.projectId, row.projectId), eq(tasksTable.id, row.id)));
+    }
+  }
+
   async deleteTask(projectId: string, taskId: string): Promise<boolean> {
     const rows = await db.select().from(tasksTable).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
     if (rows.length === 0) return false;
     await db.delete(tasksTable).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
+    await this.retargetTaskLinks({ projectId, taskId }, null);
     return true;
   }
 
   async moveTask(fromProjectId: string, toProjectId: string, taskId: string): Promise<Task | undefined> {
     const rows = await db.select().from(tasksTable).where(and(eq(tasksTable.projectId, fromProjectId), eq(tasksTable.id, taskId)));
     if (rows.length === 0) return undefined;
+    // The task keeps its own blockers; links and edges pointing at it follow it to the new project
     await db.update(tasksTable).set({ projectId: toProjectId }).where(and(eq(tasksTable.projectId, fromProjectId), eq(tasksTable.id, taskId)));
+    await this.retargetTaskLinks({ projectId: fromProjectId, taskId }, { projectId: toProjectId, taskId });
     const updated = await db.select().from(tasksTable).where(and(eq(tasksTable.projectId, toProjectId), eq(tasksTable.id, taskId)));
     return updated[0] ? rowToTask(updated[0]) : undefined;
   }
@@ -443,25 +961,72 @@ export class DatabaseStorage implements IStorage {
     return task?.discussion || [];
   }
 
+  // The discussion is one JSON column; the row lock keeps concurrent writers (a streaming reply,
+  // a code fix update, a webhook) from overwriting each other's messages with a stale copy
   async addDiscussionMessage(projectId: string, taskId: string, message: Omit<DiscussionMessage, "id">): Promise<DiscussionMessage | undefined> {
-    const task = await this.getTask(projectId, taskId);
-    if (!task) return undefined;
-    const full: DiscussionMessage = { id: randomUUID(), ...message };
-    const discussion = [...(task.discussion || []), full];
-    await db.update(tasksTable).set({ discussion }).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
-    return full;
+    return db.transaction(async (tx) => {
+      const where = and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId));
+      const [row] = await tx.select({ discussion: tasksTable.discussion }).from(tasksTable).where(where).for("update");
+      if (!row) return undefined;
+      const full: DiscussionMessage = { id: randomUUID(), ...message };
+      await tx.update(tasksTable).set({ discussion: [...(row.discussion || []), full] }).where(where);
+      return full;
+    });
   }
 
   async updateDiscussionCodeFix(projectId: string, taskId: string, codeFixId: string, codeFix: any): Promise<void> {
-    const task = await this.getTask(projectId, taskId);
-    if (!task) return;
-    const discussion = (task.discussion || []).map(msg => {
-      if (msg.codeFix?.id === codeFixId) {
-        return { ...msg, codeFix };
+    await db.transaction(async (tx) => {
+      const where = and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId));
+      const [row] = await tx.select({ discussion: tasksTable.discussion }).from(tasksTable).where(where).for("update");
+      if (!row) return;
+      const discussion = (row.discussion || []).map(msg => {
+        if (msg.codeFix?.id === codeFixId) {
+          return { ...msg, codeFix };
+        }
+        return msg;
+      });
+      await tx.update(tasksTable).set({ discussion }).where(where);
+    });
+  }
+
+  async updateCodeFixesByPrUrl(prUrl: string, bizIds: string[], update: (codeFix: CodeFix) => CodeFix): Promise<CodeFix[]> {
+    const updated: CodeFix[] = [];
+    if (bizIds.length === 0) return updated;
+
+    // GitHub sends bursts of events for one PR; row locks (taken in a fixed order) keep concurrent
+    // deliveries from overwriting each other's checks and reviews with a stale copy of the JSON
+    await db.transaction(async (tx) => {
+      const taskRows = (await tx.select({ task: tasksTable }).from(tasksTable)
+        .innerJoin(projectsTable, eq(projectsTable.id, tasksTable.projectId))
+        .where(and(
+          inArray(projectsTable.businessId, bizIds),
+          sql`${tasksTable.discussion} @> ${JSON.stringify([{ codeFix: { prUrl } }])}::jsonb`,
+        ))
+        .orderBy(tasksTable.projectId, tasksTable.id)
+        .for("update", { of: tasksTable })).map(r => r.task);
+      for (const row of taskRows) {
+        const discussion = (row.discussion || []).map(msg => {
+          if (msg.codeFix?.prUrl !== prUrl) return msg;
+          const codeFix = update(msg.codeFix);
+          updated.push(codeFix);
+          return { ...msg, codeFix };
+        });
+        await tx.update(tasksTable).set({ discussion }).where(and(eq(tasksTable.projectId, row.projectId), eq(tasksTable.id, row.id)));
+      }
+
+      const messageRows = await tx.select().from(managerMessagesTable)
+        .where(and(inArray(managerMessagesTable.businessId, bizIds), sql`${managerMessagesTable.codeFix}->>'prUrl' = ${prUrl}`))
+        .orderBy(managerMessagesTable.id)
+        .for("update");
+      for (const row of messageRows) {
+        if (!row.codeFix) continue;
+        const codeFix = update(row.codeFix);
+        updated.push(codeFix);
+        await tx.update(managerMessagesTable).set({ codeFix }).where(eq(managerMessagesTable.id, row.id));
       }
-      return msg;
     });
-    await db.update(tasksTable).set({ discussion }).where(and(eq(tasksTable.projectId, projectId), eq(tasksTable.id, taskId)));
+
+    return updated;
   }
 
   async addGeneratedPrompt(projectId: string, taskId: string, prompt: { source: "code_review" | "discussion"; prompt: string; filePath?: string }): Promise<Task | undefined> {
@@ -473,8 +1038,8 @@ export class DatabaseStorage implements IStorage {
     return await this.getTask(projectId, taskId);
   }
 
-  async getCodeReviews(taskId: string): Promise<CodeReview[]> {
-    const rows = await db.select().from(codeReviewsTable).where(eq(codeReviewsTable.taskId, taskId));
+  async getCodeReviews(projectId: string, taskId: string): Promise<CodeReview[]> {
+    const rows = await db.select().from(codeReviewsTable).where(and(eq(codeReviewsTable.projectId, projectId), eq(codeReviewsTable.taskId, taskId)));
     return rows.map(r => ({ id: r.id, taskId: r.taskId, projectId: r.projectId, repositoryId: r.repositoryId, filePath: r.filePath, review: r.review, question: r.question, timestamp: r.timestamp }));
   }
 
@@ -486,12 +1051,15 @@ export class DatabaseStorage implements IStorage {
 
   async getChangelog(bizId: string): Promise<ChangelogEntry[]> {
     const rows = await db.select().from(changelogEntriesTable).where(eq(changelogEntriesTable.businessId, bizId));
-    return rows.map(r => ({ id: r.id, taskId: r.taskId, taskTitle: r.taskTitle, fromStatus: r.fromStatus, toStatus: r.toStatus, timestamp: r.timestamp }));
+    return rows.map(r => ({
+      id: r.id, taskId: r.taskId, taskTitle: r.taskTitle, fromStatus: r.fromStatus, toStatus: r.toStatus, timestamp: r.timestamp,
+      ...(r.actor ? { actor: r.actor as ChangelogActor, actorName: r.actorName } : {}),
+    }));
   }
 
   async addChangelogEntry(bizId: string, entry: Omit<ChangelogEntry, "id">): Promise<ChangelogEntry> {
     const full: ChangelogEntry = { id: randomUUID(), ...entry };
-    await db.insert(changelogEntriesTable).values({ ...full, businessId: bizId });
+    await db.insert(changelogEntriesTable).values({ ...full, actor: full.actor || null, actorName: full.actorName || "", businessId: bizId });
     return full;
   }
 
@@ -512,6 +1080,7 @@ export class DatabaseStorage implements IStorage {
       priority: data.priority as any, status: "New",
       dateReceived: new Date().toISOString(),
       linkedProjectId: null, linkedTaskId: null, notes: data.notes,
+      ticketId: null, triage: null,
     };
     await db.insert(inboxItemsTable).values({ ...item, businessId: bizId });
     return item;
@@ -552,7 +1121,7 @@ export class DatabaseStorage implements IStorage {
     const taskTypeMap: Record<string, string> = { Bug: "Bug", Feature: "Feature", Idea: "Feature", Improvement: "Task" };
     const taskType = taskTypeMap[item.type] || "Task";
     const task = await this.createTask(projectId, {
-      type: taskType as any, status: "Open", priority: item.priority as any,
+      type: taskType as any, priority: item.priority as any,
       title: item.title, description: item.description, reasoning: "",
       fixSteps: "", replitPrompt: "", filePath: "", repositoryId: "",
       autoAnalysisComplete: false, generatedPrompts: [], dependencies: [],
@@ -573,6 +1142,7 @@ export class DatabaseStorage implements IStorage {
       timestamp: full.timestamp, mode: full.mode || "chat", actions: full.actions || [],
       filesLoaded: full.filesLoaded || [], attachments: full.attachments || [],
       ...(full.codeFix ? { codeFix: full.codeFix } : {}),
+      ...(full.agentRunId ? { agentRunId: full.agentRunId } : {}),
     });
     return full;
   }
@@ -594,4 +1164,153 @@ export class DatabaseStorage implements IStorage {
   async clearManagerDiscussion(bizId: string): Promise<void> {
     await db.delete(managerMessagesTable).where(eq(managerMessagesTable.businessId, bizId));
   }
+
+  async createAgentRun(bizId: string, data: Pick<AgentRun, "taskId" | "projectId" | "deployMode" | "reviewBeforeDeploy" | "instructions" | "budget">): Promise<AgentRun> {
+    const run: AgentRun = {
+      id: randomUUID(), businessId: bizId, taskId: data.taskId, projectId: data.projectId,
+      deployMode: data.deployMode, reviewBeforeDeploy: !!data.reviewBeforeDeploy, instructions: data.instructions || "",
+      status: "running", budget: data.budget || {},
+      inputTokens: 0, outputTokens: 0, costUsd: 0, iterations: 0,
+      startedAt: new Date().toISOString(),
+    };
+    await db.insert(agentRunsTable).values(run);
+    return run;
+  }
+
+  async getAgentRun(bizId: string, runId: string): Promise<AgentRun | undefined> {
+    const rows = await db.select().from(agentRunsTable).where(and(eq(agentRunsTable.id, runId), eq(agentRunsTable.businessId, bizId)));
+    return rows[0] ? rowToAgentRun(rows[0]) : undefined;
+  }
+
+  async getAgentRuns(bizId: string, taskId?: string): Promise<AgentRun[]> {
+    const rows = await db.select().from(agentRunsTable)
+      .where(taskId
+        ? and(eq(agentRunsTable.businessId, bizId), eq(agentRunsTable.taskId, taskId))
+        : eq(agentRunsTable.businessId, bizId))
+      .orderBy(desc(agentRunsTable.startedAt));
+    return rows.map(rowToAgentRun);
+  }
+
+  async updateAgentRun(runId: string, updates: Partial<Omit<AgentRun, "id" | "businessId">>): Promise<void> {
+    const updateData: any = {};
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.prUrl !== undefined) updateData.prUrl = updates.prUrl;
+    if (updates.prNumber !== undefined) updateData.prNumber = updates.prNumber;
+    if (updates.pushSha !== undefined) updateData.pushSha = updates.pushSha;
+    if (updates.error !== undefined) updateData.error = updates.error;
+    if (updates.inputTokens !== undefined) updateData.inputTokens = updates.inputTokens;
+    if (updates.outputTokens !== undefined) updateData.outputTokens = updates.outputTokens;
+    if (updates.costUsd !== undefined) updateData.costUsd = updates.costUsd;
+    if (updates.iterations !== undefined) updateData.iterations = updates.iterations;
+    if (updates.budgetExceeded !== undefined) updateData.budgetExceeded = updates.budgetExceeded;
+    if (updates.finishedAt !== undefined) updateData.finishedAt = updates.finishedAt;
+    if (Object.keys(updateData).length > 0) {
+      await db.update(agentRunsTable).set(updateData).where(eq(agentRunsTable.id, runId));
+    }
+  }
+
+  async addAgentRunStep(runId: string, seq: number, step: AgentStep): Promise<void> {
+    await db.insert(agentRunStepsTable).values({ runId, seq, step, createdAt: new Date().toISOString() });
+  }
+
+  async getAgentRunSteps(runId: string): Promise<AgentStep[]> {
+    const rows = await db.select().from(agentRunStepsTable)
+      .where(eq(agentRunStepsTable.runId, runId))
+      .orderBy(asc(agentRunStepsTable.seq));
+    return rows.map(r => r.step);
+  }
+
+  async failInterruptedAgentRuns(): Promise<number> {
+    const rows = await db.update(agentRunsTable)
+      .set({ status: "failed", error: "Interrupted by a server restart", finishedAt: new Date().toISOString() })
+      .where(inArray(agentRunsTable.status, ["running", "awaiting_approval"]))
+      .returning({ id: agentRunsTable.id });
+    return rows.length;
+  }
+
+  async createWebhookDelivery(data: Omit<WebhookDeliveryWithPayload, "id">): Promise<WebhookDelivery | undefined> {
+    const id = randomUUID();
+    const rows = await db.insert(webhookDeliveriesTable).values({
+      id, deliveryId: data.deliveryId || null, event: data.event, action: data.action || null,
+      repository: data.repository, repositoryIds: data.repositoryIds, businessIds: data.businessIds,
+      status: data.status, message: data.message, taskIds: data.taskIds, codeFixIds: data.codeFixIds,
+      error: data.error || null, payload: data.payload ?? null, attempts: data.attempts,
+      receivedAt: data.receivedAt, processedAt: data.processedAt || null,
+    }).onConflictDoNothing().returning();
+    return rows[0] ? rowToWebhookDelivery(rows[0]) : undefined;
+  }
+
+  async getWebhookDeliveryByDeliveryId(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const rows = await db.select().from(webhookDeliveriesTable).where(eq(webhookDeliveriesTable.deliveryId, deliveryId));
+    return rows[0] ? rowToWebhookDelivery(rows[0]) : undefined;
+  }
+
+  async getWebhookDeliveries(bizId: string, limit: number): Promise<WebhookDelivery[]> {
+    const { payload, ...columns } = getTableColumns(webhookDeliveriesTable);
+    const rows = await db.select(columns).from(webhookDeliveriesTable)
+      .where(sql`${webhookDeliveriesTable.businessIds} @> ${JSON.stringify([bizId])}::jsonb`)
+      .orderBy(desc(webhookDeliveriesTable.receivedAt))
+      .limit(limit);
+    return rows.map(row => rowToWebhookDelivery(row, bizId));
+  }
+
+  async getWebhookDelivery(bizId: string, id: string): Promise<WebhookDeliveryWithPayload | undefined> {
+    const rows = await db.select().from(webhookDeliveriesTable).where(and(
+      eq(webhookDeliveriesTable.id, id),
+      sql`${webhookDeliveriesTable.businessIds} @> ${JSON.stringify([bizId])}::jsonb`,
+    ));
+    if (!rows[0]) return undefined;
+    return { ...rowToWebhookDelivery(rows[0], bizId), ...(rows[0].payload != null ? { payload: rows[0].payload } : {}) };
+  }
+
+  async failInterruptedWebhookDeliveries(): Promise<number> {
+    const message = "Interrupted by a server restart";
+    const processedAt = new Date().toISOString();
+    const rows = await db.update(webhookDeliveriesTable)
+      .set({ status: "error", message, error: message, processedAt })
+      .where(eq(webhookDeliveriesTable.status, "pending"))
+      .returning({ id: webhookDeliveriesTable.id });
+
+    const replays = await db.select({ id: webhookDeliveriesTable.id, businessOutcomes: webhookDeliveriesTable.businessOutcomes })
+      .from(webhookDeliveriesTable)
+      .where(sql`jsonb_path_exists(${webhookDeliveriesTable.businessOutcomes}, '$.* ? (@.status == "pending")')`);
+    for (const row of replays) {
+      const businessOutcomes = Object.fromEntries(Object.entries(row.businessOutcomes).map(([bizId, outcome]) =>
+        [bizId, outcome.status === "pending" ? { ...outcome, status: "error" as const, message, error: message, processedAt } : outcome]));
+      await db.update(webhookDeliveriesTable).set({ businessOutcomes }).where(eq(webhookDeliveriesTable.id, row.id));
+    }
+    return rows.length + replays.length;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<Omit<WebhookDeliveryWithPayload, "id">>): Promise<void> {
+    const updateData: any = {};
+    if (updates.payload !== undefined) updateData.payload = updates.payload;
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.message !== undefined) updateData.message = updates.message;
+    if (updates.taskIds !== undefined) updateData.taskIds = updates.taskIds;
+    if (updates.codeFixIds !== undefined) updateData.codeFixIds = updates.codeFixIds;
+    if (updates.error !== undefined) updateData.error = updates.error || null;
+    if (updates.attempts !== undefined) updateData.attempts = updates.attempts;
+    if (updates.processedAt !== undefined) updateData.processedAt = updates.processedAt;
+    if (updates.repositoryIds !== undefined) updateData.repositoryIds = updates.repositoryIds;
+    if (updates.businessIds !== undefined) updateData.businessIds = updates.businessIds;
+    // A new run for every business supersedes what single businesses got from reprocessing
+    if (updates.status !== undefined) updateData.businessOutcomes = {};
+    if (Object.keys(updateData).length > 0) {
+      await db.update(webhookDeliveriesTable).set(updateData).where(eq(webhookDeliveriesTable.id, id));
+    }
+  }
+
+  async setWebhookDeliveryOutcome(id: string, bizId: string, outcome: WebhookDeliveryOutcome): Promise<void> {
+    await db.update(webhookDeliveriesTable)
+      .set({ businessOutcomes: sql`${webhookDeliveriesTable.businessOutcomes} || jsonb_build_object(${bizId}::text, ${JSON.stringify(outcome)}::jsonb)` })
+      .where(eq(webhookDeliveriesTable.id, id));
+  }
+
+  async pruneWebhookDeliveries(receivedBefore: string): Promise<number> {
+    const rows = await db.delete(webhookDeliveriesTable)
+      .where(lt(webhookDeliveriesTable.receivedAt, receivedBefore))
+      .returning({ id: webhookDeliveriesTable.id });
+    return rows.length;
+  }
 }
@@ -0,0 +1,145 @@
+/**
+ * Partial file edits for the agent's apply_edit tool. Both formats are applied strictly: an
+ * edit that does not match the current content exactly throws a PatchConflictError whose
+ * message is written for the model, so it can re-read the file and try again.
+ */
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export class PatchConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatchConflictError";
+  }
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + 1)) count++;
+  return count;
+}
+
+/** Line number where `search` would match if indentation and trailing whitespace were ignored. */
+function looseMatchLine(content: string, search: string): number | null {
+  const wanted = search.split("\n").map(l => l.trim());
+  const lines = content.split("\n").map(l => l.trim());
+  for (let i = 0; i + wanted.length <= lines.length; i++) {
+    if (wanted.every((w, j) => lines[i + j] === w)) return i + 1;
+  }
+  return null;
+}
+
+/**
+ * Applies search/replace blocks in order; each search must occur exactly once in the content
+ * as left by the previous blocks. An empty search creates the file, so only works on empty content.
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[]): string {
+  if (edits.length === 0) throw new PatchConflictError("No edits given");
+  let result = content;
+  edits.forEach((edit, i) => {
+    const label = edits.length > 1 ? `Edit ${i + 1}` : "Edit";
+    if (edit.search === "") {
+      if (result !== "") throw new PatchConflictError(`${label}: an empty search block can only create a new file, but this file has content`);
+      result = edit.replace;
+      return;
+    }
+    const count = countOccurrences(result, edit.search);
+    if (count === 0) {
+      const near = looseMatchLine(result, edit.search);
+      throw new PatchConflictError(near
+        ? `${label}: search block not found exactly — it matches line ${near} only if whitespace is ignored. Copy the text exactly as read_file shows it`
+        : `${label}: search block not found in the current file content`);
+    }
+    if (count > 1) {
+      throw new PatchConflictError(`${label}: search block matches ${count} places — include more surrounding lines so it is unique`);
+    }
+    const at = result.indexOf(edit.search);
+    result = result.slice(0, at) + edit.replace + result.slice(at + edit.search.length);
+  });
+  return result;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  lines: string[];
+}
+
+function parseHunks(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  // Lines the current hunk's header still promises; an omitted count means one line
+  let oldLeft = 0;
+  let newLeft = 0;
+  for (const raw of patch.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n")) {
+    const header = raw.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (header) {
+      current = { header: header[0], oldStart: Number(header[1]), lines: [] };
+      oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+      newLeft = header[3] === undefined ? 1 : Number(header[3]);
+      hunks.push(current);
+      continue;
+    }
+    // A hunk ends once it has all its lines, so "--- " file headers, a "-- " mail signature or a
+    // trailing blank line after it are not read as hunk lines; only a new @@ header starts another
+    if (current && oldLeft <= 0 && newLeft <= 0) current = null;
+    if (current && (raw.startsWith(" ") || raw.startsWith("-") || raw.startsWith("+") || raw === "")) {
+      // Editors often strip the leading space from blank context lines
+      const line = raw === "" ? " " : raw;
+      current.lines.push(line);
+      if (!line.startsWith("+")) oldLeft--;
+      if (!line.startsWith("-")) newLeft--;
+    } else if (current && !raw.startsWith("\\")) {
+      // Prose inside a hunk ends it early
+      current = null;
+    }
+  }
+  return hunks;
+}
+
+function blockMatchesAt(lines: string[], block: string[], at: number): boolean {
+  return at >= 0 && at + block.length <= lines.length && block.every((l, j) => lines[at + j] === l);
+}
+
+/**
+ * Applies a unified diff for a single file. Each hunk's context and removed lines must match
+ * exactly; a hunk that moved is found by scanning for the nearest match to its stated line.
+ */
+export function applyUnifiedDiff(content: string, patch: string): string {
+  const hunks = parseHunks(patch);
+  if (hunks.length === 0) throw new PatchConflictError("Patch contains no @@ hunks");
+
+  const lines = content === "" ? [] : content.split("\n");
+  let offset = 0;
+  let minIndex = 0;
+  hunks.forEach((hunk, i) => {
+    const oldBlock = hunk.lines.filter(l => !l.startsWith("+")).map(l => l.slice(1));
+    const newBlock = hunk.lines.filter(l => !l.startsWith("-")).map(l => l.slice(1));
+    // A hunk with no old lines inserts after its stated line rather than at it
+    const expected = Math.max(minIndex, hunk.oldStart - (oldBlock.length === 0 ? 0 : 1) + offset);
+
+    let at = -1;
+    if (oldBlock.length === 0) {
+      at = Math.min(expected, lines.length);
+    } else if (blockMatchesAt(lines, oldBlock, expected)) {
+      at = expected;
+    } else {
+      for (let j = minIndex; j + oldBlock.length <= lines.length; j++) {
+        if (blockMatchesAt(lines, oldBlock, j) && (at === -1 || Math.abs(j - expected) < Math.abs(at - expected))) at = j;
+      }
+    }
+    if (at === -1) {
+      throw new PatchConflictError(`Hunk ${i + 1} (${hunk.header}) does not apply: its context and removed lines do not match the current file`);
+    }
+
+    lines.splice(at, oldBlock.length, ...newBlock);
+    offset += newBlock.length - oldBlock.length;
+    minIndex = at + newBlock.length;
+  });
+  // A diff that creates a file ends it with a newline unless it says otherwise
+  if (content === "" && lines.length > 0 && !patch.includes("\\ No newline at end of file")) lines.push("");
+  return lines.join("\n");
+}
@@ -0,0 +1,253 @@
+import type { GitHubRepoRef } from "./agentTools";
+
+/**
+ * Multi-file commits through the GitHub Git Data API (blobs → tree → commit → ref). Every
+ * write path lands all of its files in one commit; a new branch is only created once that
+ * commit exists, so a failure part-way leaves nothing behind on GitHub except unreferenced
+ * blobs, and a PR that cannot be opened has its branch deleted again.
+ */
+
+/** A file to write with its full new content. */
+export interface GitFileChange {
+  path: string;
+  content: string;
+}
+
+/** GitHub API failure; `status` mirrors the HTTP status, except 409 for a branch that already exists. */
+export class GitHubApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GitHubApiError";
+    this.status = status;
+  }
+}
+
+const MAX_PUSH_ATTEMPTS = 3;
+
+export function githubHeaders(token: string) {
+  return {
+    Authorization: `token ${token}`,
+    Accept: "application/vnd.github.v3+json",
+    "User-Agent": "AI-Dev-Hub",
+    "Content-Type": "application/json",
+  };
+}
+
+async function github(ref: GitHubRepoRef, method: string, path: string, what: string, body?: unknown): Promise<any> {
+  const res = await fetch(`https://api.github.com/repos/${ref.owner}/${ref.repo}${path}`, {
+    method,
+    headers: githubHeaders(ref.token),
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new GitHubApiError(`Failed to ${what}: ${(err as any).message || res.statusText}`, res.status);
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+/** Encodes each segment of a branch name or file path for use in an API URL. */
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+export async function getDefaultBranch(ref: GitHubRepoRef): Promise<string> {
+  const info = await github(ref, "GET", "", "fetch repository info");
+  return info.default_branch || "main";
+}
+
+export async function getBranchSha(ref: GitHubRepoRef, branch: string): Promise<string> {
+  const data = await github(ref, "GET", `/git/ref/heads/${encodePath(branch)}`, `get branch ${branch}`);
+  return data.object.sha;
+}
+
+/** Text content of `path` at a commit, branch or tag, or null if the file does not exist there. */
+export async function readFileAt(ref: GitHubRepoRef, path: string, at: string): Promise<string | null> {
+  let data: any;
+  try {
+    data = await github(ref, "GET", `/contents/${encodePath(path)}?ref=${encodeURIComponent(at)}`, `read ${path}`);
+  } catch (err) {
+    if (err instanceof GitHubApiError && err.status === 404) return null;
+    throw err;
+  }
+  if (Array.isArray(data) || data.type !== "file") return null;
+  // The contents API leaves files over 1 MB empty; the blob endpoint serves them
+  if (data.encoding !== "base64" || !data.content) {
+    data = await github(ref, "GET", `/git/blobs/${data.sha}`, `read ${path}`);
+  }
+  return Buffer.from(data.content || "", "base64").toString("utf-8");
+}
+
+/** File modes (e.g. 100755 for executables) of the `paths` that exist as files in `treeSha`. */
+async function fileModes(ref: GitHubRepoRef, treeSha: string, paths: string[]): Promise<Map<string, string>> {
+  const root = await github(ref, "GET", `/git/trees/${treeSha}?recursive=1`, "read the parent tree");
+  const modes = new Map<string, string>();
+  for (const entry of root.tree as any[]) {
+    if (entry.type === "blob") modes.set(entry.path, entry.mode);
+  }
+  if (!root.truncated) return modes;
+
+  // Large repositories get a truncated listing, so walk down to the remaining paths one directory at a time
+  const listings = new Map<string, any[]>();
+  const list = async (dir: string, sha: string): Promise<any[]> => {
+    if (!listings.has(dir)) listings.set(dir, (await github(ref, "GET", `/git/trees/${sha}`, `read ${dir || "the root"}`)).tree);
+    return listings.get(dir)!;
+  };
+  for (const path of paths) {
+    if (modes.has(path)) continue;
+    const segments = path.split("/");
+    let sha: string | null = treeSha;
+    let dir = "";
+    for (let i = 0; i < segments.length - 1 && sha; i++) {
+      const entry: any = (await list(dir, sha)).find(e => e.path === segments[i] && e.type === "tree");
+      sha = entry ? entry.sha : null;
+      dir = dir ? `${dir}/${segments[i]}` : segments[i];
+    }
+    if (!sha) continue;
+    const file = (await list(dir, sha)).find(e => e.path === segments[segments.length - 1] && e.type === "blob");
+    if (file) modes.set(path, file.mode);
+  }
+  return modes;
+}
+
+/**
+ * Creates the tree and commit for `changes` on top of `parentSha`; returns the new commit's SHA.
+ * Existing files keep their mode, so executables and symlinks stay what they were.
+ */
+async function buildCommit(ref: GitHubRepoRef, parentSha: string, message: string, changes: GitFileChange[]): Promise<string> {
+  const parent = await github(ref, "GET", `/git/commits/${parentSha}`, "read the parent commit");
+  const modes = await fileModes(ref, parent.tree.sha, changes.map(c => c.path));
+  const entries = [];
+  for (const change of changes) {
+    const mode = modes.get(change.path) || "100644";
+    const blob = await github(ref, "POST", "/git/blobs", `upload ${change.path}`, {
+      content: Buffer.from(change.content, "utf-8").toString("base64"),
+      encoding: "base64",
+    });
+    entries.push({ path: change.path, mode, type: "blob", sha: blob.sha });
+  }
+  const tree = await github(ref, "POST", "/git/trees", "create the tree", { base_tree: parent.tree.sha, tree: entries });
+  const commit = await github(ref, "POST", "/git/commits", "create the commit", { message, tree: tree.sha, parents: [parentSha] });
+  return commit.sha;
+}
+
+/** Later changes to the same path win, so the commit matches what was staged last. */
+function latestChanges(changes: GitFileChange[]): GitFileChange[] {
+  const byPath = new Map<string, GitFileChange>();
+  for (const change of changes) byPath.set(change.path, change);
+  return Array.from(byPath.values());
+}
+
+/**
+ * Creates `branch` from the head of `baseBranch` (or from `baseSha` when the caller has pinned
+ * the commit its changes were prepared against) with all changes in a single commit.
+ * Fails with a 409 GitHubApiError if the branch already exists.
+ */
+export async function commitToNewBranch(
+  ref: GitHubRepoRef,
+  branch: string,
+  baseBranch: string,
+  message: string,
+  changes: GitFileChange[],
+  baseSha?: string,
+): Promise<string> {
+  const parentSha = baseSha ?? await getBranchSha(ref, baseBranch);
+  const sha = await buildCommit(ref, parentSha, message, latestChanges(changes));
+  try {
+    await github(ref, "POST", "/git/refs", `create branch ${branch}`, { ref: `refs/heads/${branch}`, sha });
+  } catch (err) {
+    if (err instanceof GitHubApiError && err.status === 422) throw new GitHubApiError(`Branch ${branch} already exists`, 409);
+    throw err;
+  }
+  return sha;
+}
+
+/** GitHub lists at most this many files when comparing two commits. */
+const COMPARE_FILE_LIMIT = 300;
+
+/** Paths changed between two commits, or null when GitHub's listing was cut off. */
+async function changedPaths(ref: GitHubRepoRef, fromSha: string, toSha: string): Promise<Set<string> | null> {
+  const data = await github(ref, "GET", `/compare/${fromSha}...${toSha}`, "compare the branch heads");
+  const files: any[] = data.files || [];
+  if (files.length >= COMPARE_FILE_LIMIT) return null;
+  return new Set(files.flatMap(f => (f.previous_filename ? [f.filename, f.previous_filename] : [f.filename])));
+}
+
+/**
+ * Adds one commit with all changes to an existing branch. The ref only moves forward; if
+ * someone pushed in between, the commit is rebuilt on the new head as long as that push did
+ * not touch any of our files. Otherwise it fails with a 409 GitHubApiError instead of
+ * overwriting their changes.
+ */
+export async function commitToBranch(
+  ref: GitHubRepoRef,
+  branch: string,
+  message: string,
+  changes: GitFileChange[],
+): Promise<string> {
+  const unique = latestChanges(changes);
+  let headSha = await getBranchSha(ref, branch);
+  for (let attempt = 1; ; attempt++) {
+    const sha = await buildCommit(ref, headSha, message, unique);
+    try {
+      await github(ref, "PATCH", `/git/refs/heads/${encodePath(branch)}`, `update branch ${branch}`, { sha, force: false });
+      return sha;
+    } catch (err) {
+      if (!(err instanceof GitHubApiError) || err.status !== 422 || attempt >= MAX_PUSH_ATTEMPTS) throw err;
+    }
+
+    const newHeadSha = await getBranchSha(ref, branch);
+    const changed = await changedPaths(ref, headSha, newHeadSha);
+    const overlapping = changed ? unique.map(c => c.path).filter(path => changed.has(path)) : null;
+    if (!overlapping || overlapping.length > 0) {
+      const files = overlapping ? overlapping.join(", ") : "too many files to check";
+      throw new GitHubApiError(`${branch} was updated while committing and the new commits change the same files (${files}); nothing was pushed`, 409);
+    }
+    headSha = newHeadSha;
+  }
+}
+
+export async function deleteBranch(ref: GitHubRepoRef, branch: string): Promise<void> {
+  await github(ref, "DELETE", `/git/refs/heads/${encodePath(branch)}`, `delete branch ${branch}`);
+}
+
+/** Opens a PR for a branch that already exists on GitHub. */
+export async function openPullRequest(
+  ref: GitHubRepoRef,
+  title: string,
+  body: string,
+  head: string,
+  base: string,
+): Promise<{ url: string; number: number }> {
+  const pr = await github(ref, "POST", "/pulls", "create PR", { title, body, head, base });
+  return { url: pr.html_url, number: pr.number };
+}
+
+/**
+ * The whole PR flow: one commit on a new branch off the default branch (or the pinned `base`),
+ * then the PR. If the PR cannot be opened the branch is deleted so a retry starts clean.
+ */
+export async function createPullRequestWithChanges(
+  ref: GitHubRepoRef,
+  options: {
+    branch: string;
+    message: string;
+    changes: GitFileChange[];
+    title: string;
+    body: string;
+    base?: { branch: string; sha: string };
+  },
+): Promise<{ url: string; number: number; baseBranch: string; headSha: string }> {
+  const baseBranch = options.base?.branch ?? await getDefaultBranch(ref);
+  const headSha = await commitToNewBranch(ref, options.branch, baseBranch, options.message, options.changes, options.base?.sha);
+  try {
+    const pr = await openPullRequest(ref, options.title, options.body, options.branch, baseBranch);
+    return { ...pr, baseBranch, headSha };
+  } catch (err) {
+    await deleteBranch(ref, options.branch).catch(cleanupErr =>
+      console.error(`[github] Could not roll back branch ${options.branch}:`, cleanupErr));
+    throw err;
+  }
+}
@@ -0,0 +1,329 @@
+import crypto from "crypto";
+import type { Repository, WebhookDelivery } from "@shared/schema";
+import { storage } from "./storage";
+import { applyCheckRunEvent, applyPullRequestEvent, applyReviewEvent, pullRequestUrl } from "./codeFixes";
+import { InvalidTransitionError, transitionTask } from "./taskTransitions";
+import { statusCategory } from "@shared/taskWorkflow";
+
+/**
+ * GitHub webhook processing. A delivery is authenticated against the secret of the repository
+ * it names (falling back to GITHUB_WEBHOOK_SECRET for repositories without one), and every task
+ * it touches is looked up only within the businesses owning the repositories that verified it.
+ * Every delivery is logged in webhook_deliveries, keyed by GitHub's delivery ID so a redelivery
+ * of something already handled is not applied twice.
+ */
+
+export interface WebhookResult {
+  status: "processed" | "ignored";
+  /** One-line outcome for the delivery log and the repository's status in Settings. */
+  message: string;
+  /** JSON response returned to GitHub. */
+  body: Record<string, unknown>;
+  taskIds: string[];
+  codeFixIds: string[];
+}
+
+export type WebhookAuthResult =
+  | { ok: true; repositories: Repository[] }
+  | { ok: false; status: number; error: string; candidates: Repository[] };
+
+const DELIVERY_RETENTION_DAYS = 30;
+// Deliveries GitHub may redeliver under the same ID and that should then be processed again
+const RETRYABLE_STATUSES: WebhookDelivery["status"][] = ["error", "rejected"];
+
+function signatureMatches(secret: string, rawBody: Buffer, signature: string): boolean {
+  const expected = "sha256=" + crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  const sigBuf = Buffer.from(signature);
+  const expBuf = Buffer.from(expected);
+  return sigBuf.length === expBuf.length && crypto.timingSafeEqual(sigBuf, expBuf);
+}
+
+/** The owner/name a payload refers to; push payloads carry `owner.name` instead of `owner.login`. */
+export function payloadRepository(payload: any): { owner: string; repo: string } | null {
+  const owner: string = payload?.repository?.owner?.login || payload?.repository?.owner?.name || "";
+  const repo: string = payload?.repository?.name || "";
+  return owner && repo ? { owner, repo } : null;
+}
+
+/**
+ * Checks the signature against each connected repository's secret and returns the repositories
+ * it verifies for. A repository with its own secret only accepts that secret.
+ */
+export async function authenticateWebhook(payload: any, rawBody: Buffer, signature: string | undefined): Promise<WebhookAuthResult> {
+  const target = payloadRepository(payload);
+  const candidates = target ? await storage.getRepositoriesByGitHub(target.owner, target.repo) : [];
+  if (!signature) return { ok: false, status: 401, error: "Missing x-hub-signature-256 header", candidates };
+
+  const globalSecret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!globalSecret && !candidates.some(r => r.webhookSecret)) {
+    console.error(`[Webhook] No webhook secret configured for ${target ? `${target.owner}/${target.repo}` : "this delivery"}`);
+    return { ok: false, status: 500, error: "Webhook secret not configured", candidates };
+  }
+
+  const verified = candidates.filter(r => r.webhookSecret && signatureMatches(r.webhookSecret, rawBody, signature));
+  if (verified.length > 0) return { ok: true, repositories: verified };
+  if (globalSecret && signatureMatches(globalSecret, rawBody, signature)) {
+    // A secret that cannot be decrypted is still set; the global secret does not stand in for it
+    return { ok: true, repositories: candidates.filter(r => !r.webhookSecret && !r.webhookSecretUnavailable) };
+  }
+  return { ok: false, status: 401, error: "Invalid signature", candidates };
+}
+
+type TaskAdvance =
+  | { outcome: "updated"; status: string }
+  | { outcome: "done" | "not_allowed"; status: string; reason: string }
+  | { outcome: "not_found" };
+
+/**
+ * Moves a task to its project's webhook status ("Quality Review" by default) unless it is
+ * already finished. `cause` names the event in the changelog, e.g. "PR #12 merged".
+ */
+async function advanceTask(taskId: string, bizIds: string[], cause: string): Promise<TaskAdvance> {
+  const found = await storage.findTaskInBusinesses(taskId, bizIds);
+  if (!found) return { outcome: "not_found" };
+  const { task, project } = found;
+  const target = project.workflow.webhookStatus;
+  if (statusCategory(project.workflow, task.status) === "done") {
+    return { outcome: "done", status: target, reason: `${taskId} is already ${task.status}` };
+  }
+  try {
+    // The commit or PR already happened, so blockers do not hold the task back
+    await transitionTask(project.businessId, project.id, task.id, target, { actor: "webhook", name: cause }, { force: true });
+  } catch (err) {
+    if (err instanceof InvalidTransitionError) return { outcome: "not_allowed", status: target, reason: `${taskId}: ${err.message}` };
+    throw err;
+  }
+  return { outcome: "updated", status: target };
+}
+
+function ignored(reason: string, extra: Record<string, unknown> = {}, codeFixIds: string[] = []): WebhookResult {
+  return { status: "ignored", message: reason, body: { ignored: true, reason, ...extra }, taskIds: [], codeFixIds };
+}
+
+/** Applies one authenticated delivery. `repositories` are the connected repositories it verified for. */
+export async function processGitHubEvent(event: string, payload: any, repositories: Repository[]): Promise<WebhookResult> {
+  if (!["pull_request", "pull_request_review", "check_run", "push"].includes(event)) {
+    return ignored(`Event "${event}" is not handled`, { event });
+  }
+
+  const target = payloadRepository(payload);
+  if (!target || repositories.length === 0) {
+    console.log(`[Webhook] No matching repository for ${target ? `${target.owner}/${target.repo}` : "payload"}`);
+    return ignored(target ? `No repository matched ${target.owner}/${target.repo}` : "Could not parse repository info from payload");
+  }
+  const bizIds = Array.from(new Set(repositories.map(r => r.businessId)));
+
+  // ── Review and CI events on code-fix PRs ──────────────────────────────
+  if (event === "pull_request_review" || event === "check_run") {
+    const prs: Array<{ number: number }> = event === "check_run"
+      ? payload?.check_run?.pull_requests || []
+      : payload?.pull_request ? [payload.pull_request] : [];
+    const codeFixIds: string[] = [];
+    for (const pr of prs) {
+      const fixes = await storage.updateCodeFixesByPrUrl(pullRequestUrl(target.owner, target.repo, pr.number), bizIds, fix =>
+        event === "check_run"
+          ? applyCheckRunEvent(fix, payload.check_run)
+          : applyReviewEvent(fix, payload?.action, payload.review));
+      codeFixIds.push(...fixes.map(f => f.id));
+    }
+    if (codeFixIds.length === 0) return ignored("No code fix tracks this pull request");
+    console.log(`[Webhook] ${event} recorded on code fix(es) ${codeFixIds.join(", ")}`);
+    return { status: "processed", message: `Updated code fix ${codeFixIds.join(", ")}`, body: { codeFixes: codeFixIds }, taskIds: [], codeFixIds };
+  }
+
+  // ── PR lifecycle + merge handler (primary flow) ───────────────────────
+  if (event === "pull_request") {
+    console.log(`[Webhook] PR ${payload?.action} event`);
+
+    const pullRequest = payload?.pull_request;
+    const trackedFixes = pullRequest?.number
+      ? await storage.updateCodeFixesByPrUrl(pullRequestUrl(target.owner, target.repo, pullRequest.number), bizIds, fix =>
+          applyPullRequestEvent(fix, payload.action, pullRequest))
+      : [];
+    const codeFixes = trackedFixes.map(f => f.id);
+
+    if (payload?.action !== "closed" || pullRequest?.merged !== true) {
+      if (codeFixes.length > 0) {
+        return { status: "processed", message: `PR ${payload?.action}: updated code fix ${codeFixes.join(", ")}`, body: { codeFixes }, taskIds: [], codeFixIds: codeFixes };
+      }
+      return ignored("PR not merged", { codeFixes });
+    }
+
+    // Branches are named after their task ("TASK-1/..."); code-fix branches ("ai-fix/task-1") are found via the fix
+    const branchRef: string = pullRequest?.head?.ref || "";
+    let rawId = branchRef.split("/")[0].toUpperCase();
+    if (!/^[A-Z]+-\d+$/.test(rawId) && trackedFixes.length > 0) rawId = trackedFixes[0].taskId;
+
+    if (!rawId || !/^[A-Z]+-\d+$/.test(rawId)) {
+      return ignored(`Branch name "${branchRef}" does not contain a recognisable task ID`, { codeFixes }, codeFixes);
+    }
+
+    const advance = await advanceTask(rawId, bizIds, `PR #${pullRequest.number} merged`);
+    if (advance.outcome === "not_found") {
+      console.log(`[Webhook] PR merge: task ${rawId} not found`);
+      return ignored(`Task ${rawId} not found`, { codeFixes }, codeFixes);
+    }
+    if (advance.outcome !== "updated") {
+      console.log(`[Webhook] PR merge: ${advance.reason}, skipping`);
+      return { ...ignored(advance.reason, { codeFixes }, codeFixes), taskIds: [rawId] };
+    }
+    console.log(`[Webhook] PR merged: Task ${rawId} moved to ${advance.status}`);
+    return { status: "processed", message: `PR merged: ${rawId} moved to ${advance.status}`, body: { updated: [rawId], codeFixes }, taskIds: [rawId], codeFixIds: codeFixes };
+  }
+
+  // ── Push handler (fallback for direct commits with [TASK-ID]) ─────────
+  console.log("[Webhook] Push event");
+
+  // Parse task IDs from commit messages
+  const commits: Array<{ id?: string; message?: string }> = payload?.commits || [];
+  const taskIdPattern = /\[([A-Z]+-\d+)\]/g;
+  const taskIds = new Set<string>();
+
+  for (const commit of commits) {
+    const message = commit.message || "";
+    let match: RegExpExecArray | null;
+    taskIdPattern.lastIndex = 0;
+    while ((match = taskIdPattern.exec(message)) !== null) {
+      taskIds.add(match[1]);
+    }
+  }
+
+  // Update matching tasks
+  const updated: string[] = [];
+  const skipped: string[] = [];
+  const notFound: string[] = [];
+  const notes: string[] = [];
+  const firstCommitSha = commits[0]?.id?.slice(0, 7) || "unknown";
+
+  for (const taskId of Array.from(taskIds)) {
+    try {
+      const advance = await advanceTask(taskId, bizIds, `Push ${firstCommitSha}`);
+      if (advance.outcome === "not_found") {
+        notFound.push(taskId);
+      } else if (advance.outcome !== "updated") {
+        skipped.push(taskId);
+        notes.push(advance.reason);
+      } else {
+        console.log(`[Webhook] Task ${taskId} moved to ${advance.status} (commit ${firstCommitSha})`);
+        updated.push(taskId);
+        notes.push(`${taskId} → ${advance.status}`);
+      }
+    } catch (taskErr) {
+      console.error(`[Webhook] Error updating task ${taskId}:`, taskErr);
+      skipped.push(taskId);
+    }
+  }
+
+  const message = updated.length > 0
+    ? `Push: ${notes.join("; ")}`
+    : taskIds.size > 0 ? `Push: no task updated (${[...notes, ...notFound.map(id => `${id} not found`)].join("; ")})` : "Push: no [TASK-ID] in commit messages";
+  return {
+    status: updated.length > 0 ? "processed" : "ignored",
+    message,
+    body: { updated, skipped, notFound },
+    taskIds: [...updated, ...skipped],
+    codeFixIds: [],
+  };
+}
+
+// ── Delivery log ──────────────────────────────────────────────────────────
+
+/**
+ * Runs a logged delivery through processGitHubEvent and records the outcome on the log entry
+ * and on each repository's last-delivery status. Used both for live deliveries and replays;
+ * a replay by one business (`bizId`) records the outcome for that business only.
+ */
+export async function processWebhookDelivery(
+  delivery: WebhookDelivery,
+  payload: any,
+  repositories: Repository[],
+  bizId?: string,
+): Promise<WebhookResult | { status: "error"; message: string }> {
+  let outcome: WebhookResult | { status: "error"; message: string };
+  try {
+    outcome = await processGitHubEvent(delivery.event, payload, repositories);
+  } catch (err: any) {
+    console.error(`[Webhook] Error processing delivery ${delivery.deliveryId || delivery.id}:`, err);
+    outcome = { status: "error", message: err.message || "Internal server error" };
+  }
+
+  const processedAt = new Date().toISOString();
+  const result = {
+    status: outcome.status,
+    message: outcome.message,
+    taskIds: "taskIds" in outcome ? outcome.taskIds : [],
+    codeFixIds: "codeFixIds" in outcome ? outcome.codeFixIds : [],
+    error: outcome.status === "error" ? outcome.message : "",
+    processedAt,
+  };
+  if (bizId) {
+    await storage.setWebhookDeliveryOutcome(delivery.id, bizId, { ...result, attempts: delivery.attempts });
+  } else {
+    await storage.updateWebhookDelivery(delivery.id, result);
+  }
+  for (const repo of repositories) {
+    await storage.recordRepositoryWebhookDelivery(repo.id, {
+      at: processedAt, event: delivery.event, deliveryId: delivery.deliveryId, status: outcome.status, message: outcome.message,
+    });
+  }
+  return outcome;
+}
+
+/** Handles a POST from GitHub end to end; returns the HTTP status and body to answer with. */
+export async function receiveWebhook(
+  headers: { event: string; deliveryId?: string; signature?: string },
+  payload: any,
+  rawBody: Buffer,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const { event, deliveryId } = headers;
+  const receivedAt = new Date().toISOString();
+  const target = payloadRepository(payload);
+  const repository = target ? `${target.owner}/${target.repo}` : "";
+
+  const auth = await authenticateWebhook(payload, rawBody, headers.signature);
+  if (!auth.ok) {
+    // Only logged for connected repositories, and without the unverified payload
+    if (auth.candidates.length > 0) {
+      const logged = await storage.createWebhookDelivery({
+        deliveryId, event, action: payload?.action, repository, status: "rejected", message: auth.error,
+        repositoryIds: auth.candidates.map(r => r.id), businessIds: Array.from(new Set(auth.candidates.map(r => r.businessId))),
+        taskIds: [], codeFixIds: [], attempts: 1, receivedAt, processedAt: receivedAt,
+      });
+      const existing = !logged && deliveryId ? await storage.getWebhookDeliveryByDeliveryId(deliveryId) : undefined;
+      if (existing && RETRYABLE_STATUSES.includes(existing.status)) {
+        await storage.updateWebhookDelivery(existing.id, { status: "rejected", message: auth.error, attempts: existing.attempts + 1, processedAt: receivedAt });
+      }
+      for (const repo of auth.candidates) {
+        await storage.recordRepositoryWebhookDelivery(repo.id, { at: receivedAt, event, deliveryId, status: "rejected", message: auth.error });
+      }
+    }
+    return { status: auth.status, body: { error: auth.error } };
+  }
+
+  const fields = {
+    repositoryIds: auth.repositories.map(r => r.id),
+    businessIds: Array.from(new Set(auth.repositories.map(r => r.businessId))),
+  };
+  let delivery = await storage.createWebhookDelivery({
+    deliveryId, event, action: payload?.action, repository, ...fields, payload,
+    status: "pending", message: "", taskIds: [], codeFixIds: [], attempts: 1, receivedAt,
+  });
+  if (!delivery) {
+    // Already logged under this delivery ID: only a failed or rejected attempt is run again
+    const existing = deliveryId ? await storage.getWebhookDeliveryByDeliveryId(deliveryId) : undefined;
+    if (!existing || !RETRYABLE_STATUSES.includes(existing.status)) {
+      console.log(`[Webhook] Delivery ${deliveryId} already handled (${existing?.status || "unknown"}), skipping`);
+      return { status: 200, body: { duplicate: true, deliveryId, status: existing?.status } };
+    }
+    delivery = { ...existing, ...fields, status: "pending", attempts: existing.attempts + 1 };
+    await storage.updateWebhookDelivery(existing.id, { ...fields, payload, status: "pending", attempts: delivery.attempts });
+  }
+
+  const outcome = await processWebhookDelivery(delivery, payload, auth.repositories);
+
+  const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  await storage.pruneWebhookDeliveries(cutoff).catch(err => console.error("[Webhook] Could not prune delivery log:", err));
+
+  if (outcome.status === "error") return { status: 500, body: { error: "Internal server error" } };
+  return { status: 200, body: outcome.body };
+}
@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import rateLimit from "express-rate-limit";
+import { assertEncryptionConfigured } from "./secrets";
 
 const app = express();
 app.set("trust proxy", 1);
@@ -23,14 +24,18 @@ declare module "http" {
   }
 }
 
-app.use(
-  express.json({
-    limit: "5mb", // Reduced from 20mb to prevent DoS attacks
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
-);
+const jsonBody = express.json({
+  limit: "5mb", // Reduced from 20mb to prevent DoS attacks
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+});
+
+app.use((req, res, next) => {
+  // Ticket intake carries base64 attachments and parses its own, larger body once the intake key is checked
+  if (req.method === "POST" && req.path === "/api/tickets") return next();
+  jsonBody(req, res, next);
+});
 
 app.use(express.urlencoded({ extended: false }));
 
@@ -82,6 +87,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  assertEncryptionConfigured();
+
   // Auto-migrate database schema for new columns
   const { ensureSchemaUpToDate } = await import("./db");
   await ensureSchemaUpToDate();
@@ -0,0 +1,85 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMContentBlock,
+  type LLMMessage,
+  type LLMStopReason,
+  textOf,
+} from "./types";
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5-20250929";
+
+function toAnthropicContent(content: LLMMessage["content"]): Anthropic.MessageParam["content"] {
+  if (typeof content === "string") return content;
+  return content.map((block): Anthropic.ContentBlockParam => {
+    switch (block.type) {
+      case "text":
+        return { type: "text", text: block.text };
+      case "image":
+        return { type: "image", source: { type: "base64", media_type: block.mediaType, data: block.data } };
+      case "tool_use":
+        return { type: "tool_use", id: block.id, name: block.name, input: block.input };
+      case "tool_result":
+        return { type: "tool_result", tool_use_id: block.toolUseId, content: block.content, ...(block.isError ? { is_error: true } : {}) };
+    }
+  });
+}
+
+function fromAnthropicMessage(message: Anthropic.Message): LLMResponse {
+  const content: LLMContentBlock[] = [];
+  for (const block of message.content) {
+    if (block.type === "text") content.push({ type: "text", text: block.text });
+    else if (block.type === "tool_use") content.push({ type: "tool_use", id: block.id, name: block.name, input: block.input });
+  }
+  const stopReason: LLMStopReason =
+    message.stop_reason === "tool_use" ? "tool_use" : message.stop_reason === "max_tokens" ? "max_tokens" : "end_turn";
+  return {
+    model: message.model,
+    text: textOf(content),
+    content,
+    stopReason,
+    usage: { inputTokens: message.usage?.input_tokens || 0, outputTokens: message.usage?.output_tokens || 0 },
+  };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel: string;
+  private client: Anthropic;
+  private modelConfigured: boolean;
+
+  constructor(apiKey: string, defaultModel?: string) {
+    this.client = new Anthropic({ apiKey });
+    this.defaultModel = defaultModel || DEFAULT_ANTHROPIC_MODEL;
+    this.modelConfigured = !!defaultModel;
+  }
+
+  resolveModel(hint?: string): string {
+    // An agent's configured model wins; a hint only picks the model for agents without one
+    if (this.modelConfigured) return this.defaultModel;
+    return hint && hint.startsWith("claude-") ? hint : this.defaultModel;
+  }
+
+  private params(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: this.resolveModel(request.model),
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.tools && request.tools.length > 0 ? { tools: request.tools as Anthropic.Tool[] } : {}),
+      messages: request.messages.map(m => ({ role: m.role, content: toAnthropicContent(m.content) })),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.client.messages.create(this.params(request));
+    return fromAnthropicMessage(message);
+  }
+
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const stream = this.client.messages.stream(this.params(request));
+    stream.on("text", onText);
+    return fromAnthropicMessage(await stream.finalMessage());
+  }
+}
@@ -0,0 +1,49 @@
+import type { Agent, AgentFeature } from "@shared/schema";
+import { storage } from "../storage";
+import { AnthropicProvider } from "./anthropicProvider";
+import { OpenAIProvider } from "./openaiProvider";
+import type { LLMProvider } from "./types";
+
+export * from "./types";
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from "./anthropicProvider";
+export { OpenAIProvider, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_BASE_URL } from "./openaiProvider";
+export { estimateCostUsd } from "./pricing";
+
+/**
+ * Builds the provider an agent is configured for. Claude agents talk to Anthropic;
+ * every other agent type speaks the OpenAI-compatible chat/tool-calling protocol,
+ * optionally against a custom base URL. Returns null when no API key is available.
+ */
+export function createProvider(agent: Pick<Agent, "type" | "apiKey"> & Partial<Pick<Agent, "model" | "baseUrl">>): LLMProvider | null {
+  if (agent.type === "Claude") {
+    const apiKey = agent.apiKey || process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) return null;
+    return new AnthropicProvider(apiKey, agent.model || undefined);
+  }
+
+  const apiKey = agent.apiKey || process.env.OPENAI_API_KEY;
+  if (!apiKey) return null;
+  return new OpenAIProvider(apiKey, {
+    baseUrl: agent.baseUrl || process.env.OPENAI_BASE_URL,
+    defaultModel: agent.model || process.env.OPENAI_MODEL,
+  });
+}
+
+/** Fallback provider backed by the server's ANTHROPIC_API_KEY. */
+export function getEnvProvider(): LLMProvider | null {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  return apiKey ? new AnthropicProvider(apiKey) : null;
+}
+
+/**
+ * Resolves the provider for one AI feature of a business: the agent assigned to that
+ * feature, else the review agent, else the environment key.
+ */
+export async function resolveProvider(bizId: string, feature: AgentFeature): Promise<LLMProvider | null> {
+  const agent = await storage.getAgentForFeature(bizId, feature);
+  if (agent) {
+    const provider = createProvider(agent);
+    if (provider) return provider;
+  }
+  return getEnvProvider();
+}
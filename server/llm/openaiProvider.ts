@@ -0,0 +1,212 @@
+import {
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMContentBlock,
+  type LLMStopReason,
+  LLMRequestError,
+  textOf,
+} from "./types";
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Speaks the OpenAI Chat Completions protocol over fetch so any compatible
+ * endpoint (OpenAI, Azure-style proxies, local gateways) can back an agent.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  readonly defaultModel: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private modelConfigured: boolean;
+
+  constructor(apiKey: string, options: { baseUrl?: string | null; defaultModel?: string | null } = {}) {
+    this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+    this.defaultModel = options.defaultModel || DEFAULT_OPENAI_MODEL;
+    this.modelConfigured = !!options.defaultModel;
+  }
+
+  resolveModel(hint?: string): string {
+    if (this.modelConfigured) return this.defaultModel;
+    // Clients may pass Claude model IDs as hints; those are meaningless here.
+    return hint && !hint.startsWith("claude-") ? hint : this.defaultModel;
+  }
+
+  private toMessages(request: LLMRequest): any[] {
+    const messages: any[] = [];
+    if (request.system) messages.push({ role: "system", content: request.system });
+
+    for (const msg of request.messages) {
+      if (typeof msg.content === "string") {
+        messages.push({ role: msg.role, content: msg.content });
+        continue;
+      }
+
+      if (msg.role === "assistant") {
+        const text = textOf(msg.content);
+        const toolCalls = msg.content
+          .filter((b): b is Extract<LLMContentBlock, { type: "tool_use" }> => b.type === "tool_use")
+          .map(b => ({ id: b.id, type: "function", function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }));
+        messages.push({
+          role: "assistant",
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+        continue;
+      }
+
+      // Tool results must be standalone "tool" messages that precede any further user content.
+      const parts: any[] = [];
+      for (const block of msg.content) {
+        if (block.type === "tool_result") {
+          messages.push({ role: "tool", tool_call_id: block.toolUseId, content: block.content });
+        } else if (block.type === "text") {
+          parts.push({ type: "text", text: block.text });
+        } else if (block.type === "image") {
+          parts.push({ type: "image_url", image_url: { url: `data:${block.mediaType};base64,${block.data}` } });
+        }
+      }
+      if (parts.length > 0) messages.push({ role: "user", content: parts });
+    }
+
+    return messages;
+  }
+
+  private body(request: LLMRequest, stream: boolean): Record<string, any> {
+    return {
+      model: this.resolveModel(request.model),
+      max_tokens: request.maxTokens,
+      messages: this.toMessages(request),
+      ...(request.tools && request.tools.length > 0
+        ? {
+            tools: request.tools.map(t => ({
+              type: "function",
+              function: { name: t.name, description: t.description, parameters: t.input_schema },
+            })),
+          }
+        : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(this.body(request, stream)),
+    });
+    if (!res.ok) {
+      const errText = await res.text().catch(() => "");
+      throw new LLMRequestError(`OpenAI-compatible API error (${res.status}): ${errText.slice(0, 500)}`, res.status);
+    }
+    return res;
+  }
+
+  private mapStopReason(finishReason: string | null | undefined): LLMStopReason {
+    if (finishReason === "tool_calls" || finishReason === "function_call") return "tool_use";
+    if (finishReason === "length") return "max_tokens";
+    return "end_turn";
+  }
+
+  private toolUse(call: { id?: string; function?: { name?: string; arguments?: string } }): LLMContentBlock {
+    let input: any = {};
+    try {
+      input = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      input = {};
+    }
+    return { type: "tool_use", id: call.id || "", name: call.function?.name || "", input };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const res = await this.post(request, false);
+    const data = await res.json();
+    const choice = data.choices?.[0];
+    const message = choice?.message || {};
+
+    const content: LLMContentBlock[] = [];
+    if (message.content) content.push({ type: "text", text: message.content });
+    for (const call of message.tool_calls || []) content.push(this.toolUse(call));
+
+    return {
+      model: data.model || this.resolveModel(request.model),
+      text: textOf(content),
+      content,
+      stopReason: this.mapStopReason(choice?.finish_reason),
+      usage: { inputTokens: data.usage?.prompt_tokens || 0, outputTokens: data.usage?.completion_tokens || 0 },
+    };
+  }
+
+  async stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse> {
+    const res = await this.post(request, true);
+    if (!res.body) throw new LLMRequestError("OpenAI-compatible API returned no stream body", 502);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let model = this.resolveModel(request.model);
+    let finishReason: string | null = null;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    // Tool calls arrive in pieces keyed by `index`: the id and name first, then the arguments JSON in fragments
+    const toolCalls: { id: string; function: { name: string; arguments: string } }[] = [];
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === "[DONE]") continue;
+        try {
+          const chunk = JSON.parse(payload);
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) {
+            usage = { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 };
+          }
+          const choice = chunk.choices?.[0];
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            onText(delta);
+          }
+          for (const part of choice?.delta?.tool_calls || []) {
+            const index = typeof part.index === "number" ? part.index : toolCalls.length;
+            if (!toolCalls[index]) toolCalls[index] = { id: "", function: { name: "", arguments: "" } };
+            const call = toolCalls[index];
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.function.name += part.function.name;
+            if (part.function?.arguments) call.function.arguments += part.function.arguments;
+          }
+        } catch {
+          // Ignore keep-alives and partial frames
+        }
+      }
+    }
+
+    const content: LLMContentBlock[] = text ? [{ type: "text", text }] : [];
+    for (const call of toolCalls) {
+      if (call) content.push(this.toolUse(call));
+    }
+
+    return {
+      model,
+      text,
+      content,
+      stopReason: this.mapStopReason(finishReason),
+      usage,
+    };
+  }
+}
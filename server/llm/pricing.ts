@@ -0,0 +1,30 @@
+import type { LLMUsage } from "./types";
+
+/** USD per million tokens. Matched by model-ID prefix, so dated snapshots share their family's price. */
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: "claude-opus-4-5", input: 5, output: 25 },
+  { prefix: "claude-opus-4", input: 15, output: 75 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+  { prefix: "claude-3-5-sonnet", input: 3, output: 15 },
+  { prefix: "claude-haiku-4-5", input: 1, output: 5 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+  { prefix: "gpt-4.1-nano", input: 0.1, output: 0.4 },
+  { prefix: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+  { prefix: "gpt-4.1", input: 2, output: 8 },
+  { prefix: "o4-mini", input: 1.1, output: 4.4 },
+  { prefix: "o3-mini", input: 1.1, output: 4.4 },
+  { prefix: "o3", input: 2, output: 8 },
+];
+
+/**
+ * Estimated cost of one completion, or null for models without a known price (custom
+ * OpenAI-compatible endpoints, self-hosted models) — dollar budgets cannot be enforced for those.
+ */
+export function estimateCostUsd(model: string, usage: LLMUsage): number | null {
+  const price = MODEL_PRICES.find(p => model.startsWith(p.prefix));
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
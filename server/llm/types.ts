@@ -0,0 +1,74 @@
+export type LLMProviderName = "anthropic" | "openai";
+
+export type LLMImageMediaType = "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+
+export type LLMContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; mediaType: LLMImageMediaType; data: string }
+  | { type: "tool_use"; id: string; name: string; input: any }
+  | { type: "tool_result"; toolUseId: string; content: string; isError?: boolean };
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface LLMRequest {
+  /** Model hint from the caller, used only when the agent has no model configured; providers map it to one they can serve. */
+  model?: string;
+  maxTokens: number;
+  system?: string;
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+}
+
+export type LLMStopReason = "end_turn" | "max_tokens" | "tool_use";
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  model: string;
+  text: string;
+  content: LLMContentBlock[];
+  stopReason: LLMStopReason;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  resolveModel(hint?: string): string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest, onText: (text: string) => void): Promise<LLMResponse>;
+}
+
+/** Provider-agnostic request error; `status` mirrors the upstream HTTP status so callers can detect 429s. */
+export class LLMRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LLMRequestError";
+    this.status = status;
+  }
+}
+
+export function textOf(content: LLMContentBlock[]): string {
+  return content
+    .filter((b): b is Extract<LLMContentBlock, { type: "text" }> => b.type === "text")
+    .map(b => b.text)
+    .join("");
+}
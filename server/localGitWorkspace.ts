@@ -0,0 +1,236 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { FileWrite, GitHubRepoRef, RepoContext } from "./agentTools";
+import { openPullRequest } from "./githubGit";
+import { runSandboxedCommand, type CommandResult } from "./sandboxedCommand";
+
+const execFileAsync = promisify(execFile);
+
+const MAX_SEARCH_RESULTS = 50;
+const GIT_TIMEOUT_MS = 30_000;
+const GIT_NETWORK_TIMEOUT_MS = 120_000;
+// Sandboxed commands can write the work tree, so host git never runs hooks or an fsmonitor from it
+const HOST_GIT_CONFIG = ["-c", "core.hooksPath=/dev/null", "-c", "core.fsmonitor=false"];
+
+const WORKSPACE_PREFIX = "workspace-";
+const WORKSPACE_NAME = /^workspace-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** The app's own directory inside AGENT_WORKSPACE_DIR (default: the temp directory), which may be shared. */
+export function agentWorkspaceRoot(): string {
+  return path.join(process.env.AGENT_WORKSPACE_DIR || os.tmpdir(), "ai-dev-hub-workspaces");
+}
+
+/**
+ * Removes working copies left behind by runs that did not get to clean up (e.g. a crash). Only
+ * entries named like the working copies this module creates are touched.
+ */
+export async function pruneAgentWorkspaces(): Promise<void> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(agentWorkspaceRoot());
+  } catch (err: any) {
+    if (err.code === "ENOENT") return;
+    throw err;
+  }
+  for (const name of entries) {
+    if (WORKSPACE_NAME.test(name)) {
+      await fs.rm(path.join(agentWorkspaceRoot(), name), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Agent tools served from a shallow clone: reads, listings and `git grep` searches hit the
+ * disk (so any branch is searchable), and deploys are ordinary git commits pushed to the
+ * remote. The clone is made lazily on first use and deleted by dispose().
+ *
+ * `cloneUrl` overrides the GitHub remote — any URL or path git understands, including a
+ * local bare repository, which keeps the backend usable without network access.
+ */
+export class LocalGitWorkspace implements RepoContext {
+  private readonly dir = path.join(agentWorkspaceRoot(), `${WORKSPACE_PREFIX}${randomUUID()}`);
+  private ready: Promise<string> | null = null;
+
+  constructor(
+    private readonly ref: GitHubRepoRef,
+    private readonly cloneUrl?: string,
+  ) {}
+
+  private remoteUrl(): string {
+    if (this.cloneUrl) return this.cloneUrl;
+    const auth = this.ref.token ? `x-access-token:${encodeURIComponent(this.ref.token)}@` : "";
+    return `https://${auth}github.com/${this.ref.owner}/${this.ref.repo}.git`;
+  }
+
+  private async git(args: string[], timeout = GIT_TIMEOUT_MS): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", [...HOST_GIT_CONFIG, ...args], {
+        cwd: this.dir,
+        timeout,
+        maxBuffer: 20 * 1024 * 1024,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      });
+      return stdout;
+    } catch (err: any) {
+      // Never echo the token embedded in the remote URL
+      const detail = String(err.stderr || err.message || "git failed").trim();
+      const safe = this.ref.token ? detail.split(encodeURIComponent(this.ref.token)).join("***") : detail;
+      const wrapped: any = new Error(`git ${args[0]} failed: ${safe}`);
+      wrapped.code = err.code;
+      throw wrapped;
+    }
+  }
+
+  /** Clones on first call and resolves to the default branch name. */
+  private ensureCloned(): Promise<string> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        // Private to the server's user: checkouts are opened up for the command sandbox
+        await fs.mkdir(agentWorkspaceRoot(), { recursive: true, mode: 0o700 });
+        await fs.mkdir(this.dir);
+        await this.git(["clone", "--depth", "1", "--no-tags", this.remoteUrl(), "."], GIT_NETWORK_TIMEOUT_MS);
+        return (await this.git(["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+      })();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Resolves a repo-relative path, refusing anything that escapes the working copy or touches
+   * .git — also through symlinks committed to the repository, which are resolved on disk. Writes
+   * never go through a symlink, not even one pointing inside the checkout.
+   */
+  private async resolve(relPath: string, forWrite = false): Promise<string> {
+    const clean = relPath === "." ? "" : relPath.replace(/^\/+/, "");
+    const full = path.resolve(this.dir, clean);
+    const outside = (root: string, target: string) => {
+      const rel = path.relative(root, target);
+      return rel.startsWith("..") || path.isAbsolute(rel) || rel.split(path.sep)[0] === ".git";
+    };
+    if (outside(this.dir, full)) {
+      throw new Error(`Path ${relPath} is outside the repository`);
+    }
+
+    // A new file is checked through its nearest existing ancestor; a dangling link is refused
+    let existing = full;
+    let real: string;
+    for (;;) {
+      try {
+        real = await fs.realpath(existing);
+        break;
+      } catch (err: any) {
+        if (err.code !== "ENOENT") throw err;
+        const dangling = await fs.lstat(existing).then(() => true, () => false);
+        if (dangling) throw new Error(`Path ${relPath} goes through a broken symlink`);
+        existing = path.dirname(existing);
+      }
+    }
+    if (outside(await fs.realpath(this.dir), real)) {
+      throw new Error(`Path ${relPath} is outside the repository`);
+    }
+    if (forWrite && existing === full && (await fs.lstat(full)).isSymbolicLink()) {
+      throw new Error(`Path ${relPath} is a symlink; refusing to write through it`);
+    }
+    return full;
+  }
+
+  async readFile(relPath: string): Promise<string> {
+    await this.ensureCloned();
+    try {
+      return await fs.readFile(await this.resolve(relPath), "utf-8");
+    } catch (err: any) {
+      const reason = err.code === "ENOENT" ? "Not Found" : err.code === "EISDIR" ? "is a directory" : err.message;
+      return `Error: Could not read ${relPath} — ${reason}`;
+    }
+  }
+
+  async listDirectory(relPath: string): Promise<string> {
+    await this.ensureCloned();
+    try {
+      const entries = await fs.readdir(await this.resolve(relPath), { withFileTypes: true });
+      return entries
+        .filter(e => e.name !== ".git")
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(e => `${e.name}${e.isDirectory() ? "/" : ""}`)
+        .join("\n");
+    } catch (err: any) {
+      if (err.code === "ENOTDIR") return `${relPath} is a file, not a directory.`;
+      return `Error: Could not list directory ${relPath || "root"}`;
+    }
+  }
+
+  async searchCode(query: string, fileExtension?: string): Promise<string> {
+    await this.ensureCloned();
+    // git grep reads a symlink as the link itself, so it never searches outside the checkout
+    const args = ["grep", "-n", "-I", "-F", "-e", query];
+    if (fileExtension) args.push("--", `*.${fileExtension.replace(/^\./, "")}`);
+    let output: string;
+    try {
+      output = await this.git(args);
+    } catch (err: any) {
+      // git grep exits with 1 when nothing matches
+      if (err.code === 1) return `No results found for "${query}"`;
+      return `Search failed: ${err.message}. Try read_file with a specific path instead.`;
+    }
+    const lines = output.split("\n").filter(Boolean);
+    const shown = lines.slice(0, MAX_SEARCH_RESULTS).map(l => (l.length > 240 ? `${l.slice(0, 240)}…` : l));
+    if (lines.length > MAX_SEARCH_RESULTS) shown.push(`… ${lines.length - MAX_SEARCH_RESULTS} more match(es)`);
+    return shown.join("\n");
+  }
+
+  /** Writes staged files into the working tree (later writes to a path win); returns the paths touched. */
+  private async applyWrites(pendingWrites: FileWrite[]): Promise<Set<string>> {
+    const paths = new Set<string>();
+    for (const file of pendingWrites) {
+      const full = await this.resolve(file.path, true);
+      await fs.mkdir(path.dirname(full), { recursive: true });
+      await fs.writeFile(full, file.content, "utf-8");
+      paths.add(file.path);
+    }
+    return paths;
+  }
+
+  private async commitWrites(pendingWrites: FileWrite[], message: string): Promise<number> {
+    const paths = await this.applyWrites(pendingWrites);
+    await this.git(["add", "--", ...Array.from(paths)]);
+    await this.git([
+      "-c", `user.name=${process.env.AGENT_GIT_AUTHOR_NAME || "AI Dev Hub"}`,
+      "-c", `user.email=${process.env.AGENT_GIT_AUTHOR_EMAIL || "ai-dev-hub@users.noreply.github.com"}`,
+      "commit", "-m", message,
+    ]);
+    return paths.size;
+  }
+
+  async commitAndPush(pendingWrites: FileWrite[], commitMessage: string): Promise<{ sha: string; filesCommitted: number }> {
+    const defaultBranch = await this.ensureCloned();
+    const filesCommitted = await this.commitWrites(pendingWrites, commitMessage);
+    await this.git(["push", "origin", `HEAD:refs/heads/${defaultBranch}`], GIT_NETWORK_TIMEOUT_MS);
+    const sha = (await this.git(["rev-parse", "HEAD"])).trim();
+    return { sha, filesCommitted };
+  }
+
+  async createPullRequest(pendingWrites: FileWrite[], title: string, body: string, branchName: string): Promise<{ url: string; number: number }> {
+    const defaultBranch = await this.ensureCloned();
+    await this.git(["checkout", "-b", branchName]);
+    await this.commitWrites(pendingWrites, title);
+    await this.git(["push", "origin", `HEAD:refs/heads/${branchName}`], GIT_NETWORK_TIMEOUT_MS);
+    if (this.cloneUrl) {
+      throw new Error(`Pushed branch ${branchName}, but pull requests can only be opened for GitHub remotes`);
+    }
+    return openPullRequest(this.ref, title, body, branchName, defaultBranch);
+  }
+
+  async runCommand(command: string, pendingWrites: FileWrite[]): Promise<CommandResult> {
+    await this.ensureCloned();
+    await this.applyWrites(pendingWrites);
+    return runSandboxedCommand(this.dir, command);
+  }
+
+  async dispose(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,20 @@
+import type { Repository } from "@shared/schema";
+import { GitHubApiContext, type RepoContext } from "./agentTools";
+import { LocalGitWorkspace } from "./localGitWorkspace";
+
+type AgentRepo = Pick<Repository, "owner" | "repo" | "token" | "agentBackend" | "cloneUrl">;
+
+/** Whether agent runs can reach the repository with its configured backend. */
+export function canRunAgentOn(repo: AgentRepo | null | undefined): repo is AgentRepo {
+  if (!repo) return false;
+  if (repo.agentBackend === "local_git" && repo.cloneUrl) return true;
+  return !!(repo.token && repo.owner && repo.repo);
+}
+
+/** Builds the tool backend selected for the repository; callers must dispose() it when the run ends. */
+export function createRepoContext(repo: AgentRepo): RepoContext {
+  const ref = { owner: repo.owner, repo: repo.repo, token: repo.token };
+  return repo.agentBackend === "local_git"
+    ? new LocalGitWorkspace(ref, repo.cloneUrl || undefined)
+    : new GitHubApiContext(ref, () => new LocalGitWorkspace(ref));
+}
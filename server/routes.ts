@@ -1,15 +1,29 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { seedData } from "./seed";
-import { insertProjectSchema, insertTaskSchema, insertBusinessSchema, insertRepositorySchema, type InsertTask, type ManagerAction, type CodeFix, type CodeFixFile } from "@shared/schema";
-import Anthropic from "@anthropic-ai/sdk";
+import { insertProjectSchema, insertTaskSchema, insertBusinessSchema, insertRepositorySchema, agentAssignmentsSchema, insertBusinessMemberSchema, businessRoleEnum, agentApprovalDecisionSchema, agentBudgetSchema, taskWorkflowSchema, taskReferenceSchema, triageConfigSchema, insertTicketCallbackSchema, callbackDeliveryStatusEnum, type AgentApprovalDecision, type AgentBudget, type AgentCommand, type InsertTask, type ManagerAction, type Project, type Task, type CodeFix, type CodeFixFile, type DuplicateCheck, type InboxTriage, type TaskReference, type TaskType, type TaskWorkflow, type TriageConfig, type WorkflowCategory } from "@shared/schema";
 import type { Repository } from "@shared/schema";
-import { ticketsTable, inboxItemsTable, tasksTable, projectsTable, businessesTable, repositoriesTable } from "@shared/schema";
+import { ticketsTable, inboxItemsTable, tasksTable } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ne } from "drizzle-orm";
+import { eq, desc, and } from "drizzle-orm";
 import crypto from "crypto";
-import { triageTicket } from "./services/triageAgent";
+import { defaultTriageConfig, triageRouting, triageTicket, type TriageResult } from "./services/triageAgent";
+import { setupAuth, hashPassword, checkBusinessAccess, requireBusinessRole } from "./auth";
+import { resolveProvider, type LLMProvider, type LLMContentBlock, type LLMImageMediaType } from "./llm";
+import { launchAgentRun, streamAgentRun, loadAgentRunSteps, submitAgentRunApproval, effectiveAgentBudget } from "./agentRuns";
+import { canRunAgentOn, createRepoContext } from "./repoContext";
+import { pruneAgentWorkspaces } from "./localGitWorkspace";
+import { sandboxConfigured } from "./sandboxedCommand";
+import { notifyTicketEvent, processDueCallbacks, startCallbackWorker } from "./ticketCallbacks";
+import { MAX_TICKET_BODY_BYTES, attachmentImageBlocks, isLLMImage, readAttachmentFile, removeBusinessAttachments, storeTicketAttachments, withAttachmentImages } from "./attachments";
+import { commitToNewBranch, createPullRequestWithChanges, getDefaultBranch, GitHubApiError } from "./githubGit";
+import { describeConflicts, rebaseCodeFix } from "./codeFixes";
+import { processWebhookDelivery, receiveWebhook } from "./githubWebhook";
+import { generateSharedSecret } from "./secrets";
+import { BlockedTransitionError, InvalidTransitionError, findOpenBlockers, recordTaskCreated, transitionTask, type TransitionActor } from "./taskTransitions";
+import { DEFAULT_TASK_WORKFLOW, allowedTransitions, countByCategory, describeWorkflow, findWorkflowStatus, statusCategory } from "@shared/taskWorkflow";
+import { blockersOf, findBlockingCycle, isBlockedBy, openBlockers, sameTaskReference, taskReference } from "@shared/taskDependencies";
 
 interface GitHubTreeItem {
   path: string;
@@ -25,6 +39,11 @@ interface GitHubCommit {
   };
 }
 
+/** "[ID] Title" of a linked task, naming its project when that is not the project being worked on. */
+function linkedTaskHeading(task: Task, project: Project, currentProjectId: string): string {
+  return `[${task.id}] ${task.title}${project.id !== currentProjectId ? ` (in project ${project.name})` : ""}`;
+}
+
 async function fetchGitHubHeaders(token: string) {
   return {
     Authorization: `token ${token}`,
@@ -139,6 +158,55 @@ function detectFilePathsInText(text: string): string[] {
   return Array.from(found);
 }
 
+/**
+ * Moves a task to another project. The task must land in a status the target workflow has:
+ * `status` picks one, and is required when the task's current status is missing there.
+ * The status change goes through `transitionTask` in the target project; when it is refused
+ * (InvalidTransitionError / BlockedTransitionError) the task goes back and the error is rethrown.
+ */
+async function moveTaskToProject(
+  bizId: string,
+  fromProjectId: string,
+  toProject: Project,
+  taskId: string,
+  status: string | undefined,
+  by: TransitionActor,
+  options: { force?: boolean } = {},
+): Promise<{ task: Task } | { code: 400 | 404 | 409; message: string; statuses?: string[] }> {
+  const existing = await storage.getTask(fromProjectId, taskId);
+  if (!existing) return { code: 404, message: `Task ${taskId} not found in project ${fromProjectId}` };
+  const statuses = toProject.workflow.statuses.map(s => s.name);
+  if (status !== undefined && !findWorkflowStatus(toProject.workflow, status)) {
+    return { code: 400, message: `"${status}" is not a status in ${toProject.name}`, statuses };
+  }
+  if (status === undefined && !findWorkflowStatus(toProject.workflow, existing.status)) {
+    return { code: 409, message: `${toProject.name} has no "${existing.status}" status; choose one of its statuses`, statuses };
+  }
+
+  const moved = await storage.moveTask(fromProjectId, toProject.id, taskId);
+  if (!moved) return { code: 404, message: `Task ${taskId} not found in project ${fromProjectId}` };
+  if (status === undefined || status === moved.status) return { task: moved };
+  try {
+    const transition = await transitionTask(bizId, toProject.id, moved.id, status, by, options);
+    return { task: transition?.task ?? moved };
+  } catch (err) {
+    await storage.moveTask(toProject.id, fromProjectId, taskId);
+    throw err;
+  }
+}
+
+/** Whether `repoId` is empty or names one of the business's repositories; checked before a caller-supplied ID is stored. */
+async function isBusinessRepository(bizId: string, repoId: unknown): Promise<boolean> {
+  if (!repoId) return true;
+  return typeof repoId === "string" && !!(await storage.getRepository(bizId, repoId));
+}
+
+/** The repository with its token, but only when it belongs to the business. */
+async function businessRepositoryWithToken(bizId: string, repoId: string): Promise<Repository | undefined> {
+  const repo = await storage.getRepositoryWithToken(repoId);
+  return repo?.businessId === bizId ? repo : undefined;
+}
+
 function matchFileToRepo(filePath: string, repos: Repository[], conversationContext: string): Repository | null {
   const configured = repos.filter(r => r.owner && r.repo && r.token);
   if (configured.length === 0) return null;
@@ -177,6 +245,13 @@ export async function registerRoutes(
   app: Express
 ): Promise<Server> {
   await seedData();
+  const interruptedRuns = await storage.failInterruptedAgentRuns();
+  if (interruptedRuns > 0) console.log(`[agent-run] Marked ${interruptedRuns} interrupted run(s) as failed`);
+  const interruptedDeliveries = await storage.failInterruptedWebhookDeliveries();
+  if (interruptedDeliveries > 0) console.log(`[Webhook] Marked ${interruptedDeliveries} interrupted delivery(ies) as errors`);
+  await pruneAgentWorkspaces().catch(err => console.error("[agent-run] Could not prune workspaces:", err));
+  startCallbackWorker();
+  setupAuth(app);
 
   // Health check endpoint
   app.get("/api/health", async (_req, res) => {
@@ -187,14 +262,15 @@ export async function registerRoutes(
     });
   });
 
-  app.get("/api/businesses", async (_req, res) => {
-    res.json(await storage.getBusinesses());
+  app.get("/api/businesses", async (req, res) => {
+    res.json(await storage.getBusinessesForUser(req.user!.id));
   });
 
   app.post("/api/businesses", async (req, res) => {
     try {
       const data = insertBusinessSchema.parse(req.body);
       const biz = await storage.createBusiness(data);
+      await storage.setBusinessMember(biz.id, req.user!.id, "owner");
       res.status(201).json(biz);
     } catch (err: any) {
       res.status(400).json({ message: err.message });
@@ -207,15 +283,16 @@ export async function registerRoutes(
     res.json(biz);
   });
 
-  app.put("/api/businesses/:bizId", async (req, res) => {
+  app.put("/api/businesses/:bizId", requireBusinessRole("owner"), async (req, res) => {
     const updated = await storage.updateBusiness(req.params.bizId, req.body);
     if (!updated) return res.status(404).json({ message: "Business not found" });
     res.json(updated);
   });
 
-  app.delete("/api/businesses/:bizId", async (req, res) => {
+  app.delete("/api/businesses/:bizId", requireBusinessRole("owner"), async (req, res) => {
     const deleted = await storage.deleteBusiness(req.params.bizId);
     if (!deleted) return res.status(404).json({ message: "Business not found" });
+    await removeBusinessAttachments(req.params.bizId);
     res.json({ success: true });
   });
 
@@ -223,7 +300,7 @@ export async function registerRoutes(
     res.json(await storage.getRepositories(req.params.bizId));
   });
 
-  app.post("/api/businesses/:bizId/repositories", async (req, res) => {
+  app.post("/api/businesses/:bizId/repositories", requireBusinessRole("owner"), async (req, res) => {
     try {
       const data = insertRepositorySchema.parse(req.body);
       const repo = await storage.createRepository(req.params.bizId, data);
@@ -239,24 +316,83 @@ export async function registerRoutes(
     res.json(repo);
   });
 
-  app.put("/api/businesses/:bizId/repositories/:repoId", async (req, res) => {
-    const updated = await storage.updateRepository(req.params.bizId, req.params.repoId, req.body);
+  app.put("/api/businesses/:bizId/repositories/:repoId", requireBusinessRole("owner"), async (req, res) => {
+    const data = { ...req.body };
+    if (data.agentCommands !== undefined) {
+      try {
+        data.agentCommands = insertRepositorySchema.shape.agentCommands.parse(data.agentCommands);
+      } catch (err: any) {
+        return res.status(400).json({ message: err.message });
+      }
+    }
+    const updated = await storage.updateRepository(req.params.bizId, req.params.repoId, data);
     if (!updated) return res.status(404).json({ message: "Repository not found" });
     res.json(updated);
   });
 
-  app.delete("/api/businesses/:bizId/repositories/:repoId", async (req, res) => {
+  app.delete("/api/businesses/:bizId/repositories/:repoId", requireBusinessRole("owner"), async (req, res) => {
     const deleted = await storage.deleteRepository(req.params.bizId, req.params.repoId);
     if (!deleted) return res.status(404).json({ message: "Repository not found" });
     res.json({ success: true });
   });
 
+  // Webhook secret for a repository; only owners may read or rotate it
+  app.get("/api/businesses/:bizId/repositories/:repoId/webhook", requireBusinessRole("owner"), async (req, res) => {
+    const repo = await storage.getRepositoryWithToken(req.params.repoId);
+    if (!repo || repo.businessId !== req.params.bizId) return res.status(404).json({ message: "Repository not found" });
+    res.json({ secret: repo.webhookSecret, lastDelivery: repo.lastWebhookDelivery || null });
+  });
+
+  app.post("/api/businesses/:bizId/repositories/:repoId/webhook-secret", requireBusinessRole("owner"), async (req, res) => {
+    const secret = generateSharedSecret();
+    const updated = await storage.setRepositoryWebhookSecret(req.params.bizId, req.params.repoId, secret);
+    if (!updated) return res.status(404).json({ message: "Repository not found" });
+    res.json({ secret });
+  });
+
+  app.get("/api/businesses/:bizId/webhook-deliveries", async (req, res) => {
+    res.json(await storage.getWebhookDeliveries(req.params.bizId, 100));
+  });
+
+  app.get("/api/businesses/:bizId/webhook-deliveries/:id", async (req, res) => {
+    const delivery = await storage.getWebhookDelivery(req.params.bizId, req.params.id);
+    if (!delivery) return res.status(404).json({ message: "Delivery not found" });
+    res.json(delivery);
+  });
+
+  // Replays a stored payload through the same handler, limited to this business's repositories;
+  // the result is kept for this business only, since other businesses may share the delivery
+  app.post("/api/businesses/:bizId/webhook-deliveries/:id/reprocess", requireBusinessRole("owner"), async (req, res) => {
+    try {
+      const { bizId, id } = req.params;
+      const delivery = await storage.getWebhookDelivery(bizId, id);
+      if (!delivery) return res.status(404).json({ message: "Delivery not found" });
+      if (delivery.payload === undefined) return res.status(400).json({ message: "This delivery has no stored payload to replay" });
+      if (delivery.status === "pending") return res.status(409).json({ message: "Delivery is still being processed" });
+
+      const repositories: Repository[] = [];
+      for (const repoId of delivery.repositoryIds) {
+        const repo = await storage.getRepositoryWithToken(repoId);
+        if (repo && repo.businessId === bizId) repositories.push(repo);
+      }
+      if (repositories.length === 0) return res.status(400).json({ message: "The repository this delivery came from is no longer connected" });
+
+      const attempts = delivery.attempts + 1;
+      await storage.setWebhookDeliveryOutcome(id, bizId, { status: "pending", message: "", taskIds: [], codeFixIds: [], attempts });
+      await processWebhookDelivery({ ...delivery, attempts }, delivery.payload, repositories, bizId);
+      res.json(await storage.getWebhookDelivery(bizId, id));
+    } catch (err: any) {
+      console.error("[Webhook] Error reprocessing delivery:", err);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
   app.get("/api/businesses/:bizId/agents", async (req, res) => {
     res.json(await storage.getBusinessAgents(req.params.bizId));
   });
 
-  app.post("/api/businesses/:bizId/agents", async (req, res) => {
-    const { name, type, apiKey, role, isReviewAgent } = req.body;
+  app.post("/api/businesses/:bizId/agents", requireBusinessRole("owner"), async (req, res) => {
+    const { name, type, apiKey, role, isReviewAgent, model, baseUrl } = req.body;
     if (!name || !type) return res.status(400).json({ message: "name and type are required" });
     const agent = await storage.addAgent(req.params.bizId, {
       name,
@@ -264,23 +400,237 @@ export async function registerRoutes(
       apiKey: apiKey || "",
       role: role || "",
       isReviewAgent: isReviewAgent || false,
+      model: model || "",
+      baseUrl: baseUrl || "",
     });
     if (!agent) return res.status(404).json({ message: "Business not found" });
     res.status(201).json(agent);
   });
 
-  app.put("/api/businesses/:bizId/agents/:agentId", async (req, res) => {
+  app.put("/api/businesses/:bizId/agents/:agentId", requireBusinessRole("owner"), async (req, res) => {
     const updated = await storage.updateAgent(req.params.bizId, req.params.agentId, req.body);
     if (!updated) return res.status(404).json({ message: "Agent not found" });
     res.json(updated);
   });
 
-  app.delete("/api/businesses/:bizId/agents/:agentId", async (req, res) => {
+  app.delete("/api/businesses/:bizId/agents/:agentId", requireBusinessRole("owner"), async (req, res) => {
     const deleted = await storage.deleteAgent(req.params.bizId, req.params.agentId);
     if (!deleted) return res.status(404).json({ message: "Agent not found" });
     res.json({ success: true });
   });
 
+  app.get("/api/businesses/:bizId/agent-assignments", async (req, res) => {
+    res.json(await storage.getAgentAssignments(req.params.bizId));
+  });
+
+  app.put("/api/businesses/:bizId/agent-assignments", requireBusinessRole("owner"), async (req, res) => {
+    const biz = await storage.getBusiness(req.params.bizId);
+    if (!biz) return res.status(404).json({ message: "Business not found" });
+    try {
+      const data = agentAssignmentsSchema.parse(req.body);
+      res.json(await storage.setAgentAssignments(req.params.bizId, data));
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+    }
+  });
+
+  app.get("/api/businesses/:bizId/agent-budget", async (req, res) => {
+    res.json(await storage.getAgentBudget(req.params.bizId));
+  });
+
+  app.put("/api/businesses/:bizId/agent-budget", requireBusinessRole("owner"), async (req, res) => {
+    const biz = await storage.getBusiness(req.params.bizId);
+    if (!biz) return res.status(404).json({ message: "Business not found" });
+    try {
+      const data = agentBudgetSchema.parse(req.body);
+      res.json(await storage.setAgentBudget(req.params.bizId, data));
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+    }
+  });
+
+  app.get("/api/businesses/:bizId/triage-config", async (req, res) => {
+    const biz = await storage.getBusiness(req.params.bizId);
+    if (!biz) return res.status(404).json({ message: "Business not found" });
+    const config = await storage.getTriageConfig(biz.id);
+    res.json({ config: config || defaultTriageConfig(biz), isCustom: !!config });
+  });
+
+  // `{ config: null }` goes back to the default
+  app.put("/api/businesses/:bizId/triage-config", requireBusinessRole("owner"), async (req, res) => {
+    const biz = await storage.getBusiness(req.params.bizId);
+    if (!biz) return res.status(404).json({ message: "Business not found" });
+    let config: TriageConfig | null = null;
+    if (req.body?.config !== null) {
+      const parsed = triageConfigSchema.safeParse(req.body?.config);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors.map(e => `${e.path.join(".") || "config"}: ${e.message}`).join("; ") });
+      }
+      config = parsed.data;
+      const projectIds = (await storage.getProjects(biz.id)).map(p => p.id);
+      const unknown = config.lanes.find(l => l.defaultProjectId && !projectIds.includes(l.defaultProjectId));
+      if (unknown) {
+        return res.status(400).json({ message: `Lane "${unknown.id}" routes to a project that is not in this business` });
+      }
+    }
+    await storage.setTriageConfig(biz.id, config);
+    res.json({ config: config || defaultTriageConfig(biz), isCustom: !!config });
+  });
+
+  // Dry run of triage with the saved configuration, or with `config` when trying out unsaved changes
+  app.post("/api/businesses/:bizId/triage-config/test", async (req, res) => {
+    const biz = await storage.getBusiness(req.params.bizId);
+    if (!biz) return res.status(404).json({ message: "Business not found" });
+    const { description, reporter_type, page_url } = req.body || {};
+    if (!description) return res.status(400).json({ message: "description is required" });
+
+    let config = (await storage.getTriageConfig(biz.id)) || defaultTriageConfig(biz);
+    if (req.body.config) {
+      const parsed = triageConfigSchema.safeParse(req.body.config);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors.map(e => `${e.path.join(".") || "config"}: ${e.message}`).join("; ") });
+      }
+      config = parsed.data;
+    }
+
+    try {
+      const provider = await resolveProvider(biz.id, "triage");
+      const triage = await triageTicket({ reporter_type: reporter_type || "admin", description, page_url }, config, provider);
+      res.json({ ...triage, routing: triageRouting(config, triage) });
+    } catch (err: any) {
+      console.error("[triage-test] Error:", err);
+      res.status(500).json({ message: err.message || "Triage failed" });
+    }
+  });
+
+  // Keys the business's reporting app uses for the ticket intake API; the key itself is only shown once
+  app.get("/api/businesses/:bizId/intake-keys", requireBusinessRole("owner"), async (req, res) => {
+    res.json(await storage.getIntakeApiKeys(req.params.bizId));
+  });
+
+  app.post("/api/businesses/:bizId/intake-keys", requireBusinessRole("owner"), async (req, res) => {
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+    if (!name) return res.status(400).json({ message: "name is required" });
+    const secret = `adh_${generateSharedSecret()}`;
+    const key = await storage.createIntakeApiKey(req.params.bizId, name, secret);
+    res.status(201).json({ key, secret });
+  });
+
+  app.delete("/api/businesses/:bizId/intake-keys/:keyId", requireBusinessRole("owner"), async (req, res) => {
+    const deleted = await storage.deleteIntakeApiKey(req.params.bizId, req.params.keyId);
+    if (!deleted) return res.status(404).json({ message: "Intake key not found" });
+    res.json({ success: true });
+  });
+
+  // Endpoints of the reporting app told about ticket events (see server/ticketCallbacks.ts)
+  app.get("/api/businesses/:bizId/ticket-callbacks", requireBusinessRole("owner"), async (req, res) => {
+    res.json(await storage.getTicketCallbacks(req.params.bizId));
+  });
+
+  app.post("/api/businesses/:bizId/ticket-callbacks", requireBusinessRole("owner"), async (req, res) => {
+    const parsed = insertTicketCallbackSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors.map(e => `${e.path.join(".") || "callback"}: ${e.message}`).join("; ") });
+    }
+    const callback = await storage.createTicketCallback(req.params.bizId, parsed.data);
+    const secret = await storage.getTicketCallbackSecret(req.params.bizId, callback.id);
+    res.status(201).json({ callback, secret });
+  });
+
+  app.patch("/api/businesses/:bizId/ticket-callbacks/:callbackId", requireBusinessRole("owner"), async (req, res) => {
+    const parsed = insertTicketCallbackSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors.map(e => `${e.path.join(".") || "callback"}: ${e.message}`).join("; ") });
+    }
+    const callback = await storage.updateTicketCallback(req.params.bizId, req.params.callbackId, parsed.data);
+    if (!callback) return res.status(404).json({ message: "Callback not found" });
+    res.json(callback);
+  });
+
+  app.delete("/api/businesses/:bizId/ticket-callbacks/:callbackId", requireBusinessRole("owner"), async (req, res) => {
+    const deleted = await storage.deleteTicketCallback(req.params.bizId, req.params.callbackId);
+    if (!deleted) return res.status(404).json({ message: "Callback not found" });
+    res.json({ success: true });
+  });
+
+  app.get("/api/businesses/:bizId/ticket-callbacks/:callbackId/secret", requireBusinessRole("owner"), async (req, res) => {
+    const secret = await storage.getTicketCallbackSecret(req.params.bizId, req.params.callbackId);
+    if (secret === undefined) return res.status(404).json({ message: "Callback not found" });
+    res.json({ secret });
+  });
+
+  app.post("/api/businesses/:bizId/ticket-callbacks/:callbackId/secret", requireBusinessRole("owner"), async (req, res) => {
+    const secret = await storage.rotateTicketCallbackSecret(req.params.bizId, req.params.callbackId);
+    if (secret === undefined) return res.status(404).json({ message: "Callback not found" });
+    res.json({ secret });
+  });
+
+  // `?status=dead` (the default) is the dead-letter queue
+  app.get("/api/businesses/:bizId/callback-deliveries", requireBusinessRole("owner"), async (req, res) => {
+    const status = callbackDeliveryStatusEnum.safeParse(req.query.status ?? "dead");
+    if (!status.success) return res.status(400).json({ message: "status must be pending, delivered or dead" });
+    res.json(await storage.getCallbackDeliveries(req.params.bizId, status.data, 100));
+  });
+
+  app.post("/api/businesses/:bizId/callback-deliveries/:deliveryId/retry", requireBusinessRole("owner"), async (req, res) => {
+    const delivery = await storage.retryCallbackDelivery(req.params.bizId, req.params.deliveryId);
+    if (!delivery) return res.status(404).json({ message: "No dead delivery with that id" });
+    void processDueCallbacks();
+    res.json(delivery);
+  });
+
+  app.delete("/api/businesses/:bizId/callback-deliveries/:deliveryId", requireBusinessRole("owner"), async (req, res) => {
+    const deleted = await storage.deleteCallbackDelivery(req.params.bizId, req.params.deliveryId);
+    if (!deleted) return res.status(404).json({ message: "Delivery not found" });
+    res.json({ success: true });
+  });
+
+  app.get("/api/businesses/:bizId/members", async (req, res) => {
+    res.json(await storage.getBusinessMembers(req.params.bizId));
+  });
+
+  app.post("/api/businesses/:bizId/members", requireBusinessRole("owner"), async (req, res) => {
+    try {
+      const data = insertBusinessMemberSchema.parse(req.body);
+      let user = await storage.getUserByUsername(data.username);
+      if (!user) {
+        if (!data.password) {
+          return res.status(404).json({ message: "User not found. Provide a password to create the account." });
+        }
+        const created = await storage.createUser(data.username, await hashPassword(data.password));
+        user = { ...created, passwordHash: "" };
+      }
+      const member = await storage.setBusinessMember(req.params.bizId, user.id, data.role);
+      if (!member) return res.status(404).json({ message: "Business not found" });
+      res.status(201).json(member);
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+    }
+  });
+
+  app.patch("/api/businesses/:bizId/members/:userId", requireBusinessRole("owner"), async (req, res) => {
+    const parsed = businessRoleEnum.safeParse(req.body.role);
+    if (!parsed.success) return res.status(400).json({ message: "role must be owner, editor or viewer" });
+    const members = await storage.getBusinessMembers(req.params.bizId);
+    const target = members.find(m => m.userId === req.params.userId);
+    if (!target) return res.status(404).json({ message: "Member not found" });
+    if (target.role === "owner" && parsed.data !== "owner" && members.filter(m => m.role === "owner").length === 1) {
+      return res.status(400).json({ message: "A business must keep at least one owner" });
+    }
+    res.json(await storage.setBusinessMember(req.params.bizId, req.params.userId, parsed.data));
+  });
+
+  app.delete("/api/businesses/:bizId/members/:userId", requireBusinessRole("owner"), async (req, res) => {
+    const members = await storage.getBusinessMembers(req.params.bizId);
+    const target = members.find(m => m.userId === req.params.userId);
+    if (!target) return res.status(404).json({ message: "Member not found" });
+    if (target.role === "owner" && members.filter(m => m.role === "owner").length === 1) {
+      return res.status(400).json({ message: "A business must keep at least one owner" });
+    }
+    await storage.removeBusinessMember(req.params.bizId, req.params.userId);
+    res.json({ success: true });
+  });
+
   app.get("/api/businesses/:bizId/projects", async (req, res) => {
     res.json(await storage.getProjects(req.params.bizId));
   });
@@ -288,6 +638,9 @@ export async function registerRoutes(
   app.post("/api/businesses/:bizId/projects", async (req, res) => {
     try {
       const data = insertProjectSchema.parse(req.body);
+      if (!(await isBusinessRepository(req.params.bizId, data.defaultRepositoryId))) {
+        return res.status(400).json({ message: "Repository not found in this business" });
+      }
       const project = await storage.createProject(req.params.bizId, data);
       res.status(201).json(project);
     } catch (err: any) {
@@ -302,11 +655,44 @@ export async function registerRoutes(
   });
 
   app.put("/api/businesses/:bizId/projects/:projectId", async (req, res) => {
+    if (!(await isBusinessRepository(req.params.bizId, req.body.defaultRepositoryId))) {
+      return res.status(400).json({ message: "Repository not found in this business" });
+    }
     const updated = await storage.updateProject(req.params.bizId, req.params.projectId, req.body);
     if (!updated) return res.status(404).json({ message: "Project not found" });
     res.json(updated);
   });
 
+  // Replace the project's task workflow; `{ workflow: null }` goes back to the default one
+  app.put("/api/businesses/:bizId/projects/:projectId/workflow", requireBusinessRole("owner"), async (req, res) => {
+    const project = await storage.getProject(req.params.bizId, req.params.projectId);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+
+    let workflow: TaskWorkflow | null = null;
+    if (req.body?.workflow !== null) {
+      const parsed = taskWorkflowSchema.safeParse(req.body?.workflow);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors.map(e => `${e.path.join(".") || "workflow"}: ${e.message}`).join("; ") });
+      }
+      workflow = parsed.data;
+    }
+
+    // Tasks keep their status, so every status in use has to survive the change
+    const next = workflow || DEFAULT_TASK_WORKFLOW;
+    const tasks = await storage.getTasks(project.id);
+    const orphaned = Array.from(new Set(tasks.map(t => t.status).filter(status => !findWorkflowStatus(next, status))));
+    if (orphaned.length > 0) {
+      return res.status(400).json({
+        message: `Tasks in this project still use ${orphaned.map(s => `"${s}"`).join(", ")}. Move them to another status first.`,
+        orphanedStatuses: orphaned,
+      });
+    }
+
+    const updated = await storage.setProjectWorkflow(req.params.bizId, project.id, workflow);
+    if (!updated) return res.status(404).json({ message: "Project not found" });
+    res.json(updated);
+  });
+
   app.delete("/api/businesses/:bizId/projects/:projectId", async (req, res) => {
     const deleted = await storage.deleteProject(req.params.bizId, req.params.projectId);
     if (!deleted) return res.status(404).json({ message: "Project not found" });
@@ -356,9 +742,18 @@ export async function registerRoutes(
 
           const taskType = raw.type === "Improvement" ? "Feature" : raw.type;
 
+          if (!(await isBusinessRepository(req.params.bizId, raw.repositoryId))) {
+            errors.push(`Task ${i + 1} ("${raw.title}"): repository '${raw.repositoryId}' is not in this business`);
+            continue;
+          }
+          if (raw.status && !findWorkflowStatus(project.workflow, raw.status)) {
+            errors.push(`Task ${i + 1} ("${raw.title}"): unknown status '${raw.status}' (must be one of ${describeWorkflow(project.workflow)})`);
+            continue;
+          }
+
           const taskData: InsertTask = {
             type: taskType as "Bug" | "Feature" | "Task",
-            status: (raw.status as any) || "Open",
+            status: raw.status || undefined,
             priority: raw.priority as "High" | "Medium" | "Low",
             title: raw.title.trim(),
             description: raw.description || "",
@@ -390,7 +785,8 @@ export async function registerRoutes(
     }
   });
 
-  // Bulk-link tasks: link all provided task IDs to each other bidirectionally
+  // Bulk-link tasks: link all provided tasks to each other bidirectionally. Entries are task IDs in this
+  // project or { projectId, taskId } references to tasks anywhere in the business.
   app.post("/api/businesses/:bizId/projects/:projectId/link-tasks", async (req, res) => {
     try {
       const { taskIds } = req.body;
@@ -398,25 +794,31 @@ export async function registerRoutes(
         return res.status(400).json({ message: "At least 2 task IDs are required" });
       }
 
-      const tasks = await storage.getTasks(req.params.projectId);
-      const validIds = new Set(tasks.map(t => t.id));
-      const filtered = taskIds.filter((id: string) => validIds.has(id));
-      if (filtered.length < 2) return res.status(400).json({ message: "At least 2 valid task IDs required" });
+      const refs: TaskReference[] = [];
+      for (const entry of taskIds) {
+        const parsed = typeof entry === "string"
+          ? { success: true as const, data: { projectId: req.params.projectId, taskId: entry } }
+          : taskReferenceSchema.safeParse(entry);
+        if (parsed.success && !refs.some(r => sameTaskReference(r, parsed.data))) refs.push(parsed.data);
+      }
+      const found = await storage.getTasksByReference(req.params.bizId, refs);
+      if (found.length < 2) return res.status(400).json({ message: "At least 2 valid task IDs required" });
 
       let updated = 0;
-      for (const id of filtered) {
-        const task = tasks.find(t => t.id === id);
-        if (!task) continue;
+      for (const { task } of found) {
         const currentDeps = task.dependencies || [];
-        const newDeps = filtered.filter((d: string) => d !== id);
-        const merged = Array.from(new Set([...currentDeps, ...newDeps]));
+        const merged = [...currentDeps];
+        for (const { task: other } of found) {
+          const ref = taskReference(other);
+          if (other !== task && !merged.some(d => sameTaskReference(d, ref))) merged.push(ref);
+        }
         if (merged.length !== currentDeps.length) {
-          await storage.updateTask(req.params.projectId, id, { dependencies: merged });
+          await storage.updateTask(task.projectId, task.id, { dependencies: merged });
           updated++;
         }
       }
 
-      res.json({ linked: filtered.length, updated });
+      res.json({ linked: found.length, updated });
     } catch (err: any) {
       console.error("[bulk-link] Error:", err);
       res.status(500).json({ message: err.message || "Failed to link tasks" });
@@ -428,6 +830,12 @@ export async function registerRoutes(
       const project = await storage.getProject(req.params.bizId, req.params.projectId);
       if (!project) return res.status(404).json({ message: "Project not found" });
       const data = insertTaskSchema.parse(req.body);
+      if (!(await isBusinessRepository(req.params.bizId, data.repositoryId))) {
+        return res.status(400).json({ message: "Repository not found in this business" });
+      }
+      if (data.status && !findWorkflowStatus(project.workflow, data.status)) {
+        return res.status(400).json({ message: `Unknown status "${data.status}" (must be one of ${describeWorkflow(project.workflow)})` });
+      }
       const task = await storage.createTask(req.params.projectId, data);
       res.status(201).json(task);
     } catch (err: any) {
@@ -446,9 +854,26 @@ export async function registerRoutes(
   });
 
   app.put("/api/businesses/:bizId/projects/:projectId/tasks/:taskId", async (req, res) => {
-    const updated = await storage.updateTask(req.params.projectId, req.params.taskId, req.body, req.params.bizId);
-    if (!updated) return res.status(404).json({ message: "Task not found" });
-    res.json(updated);
+    try {
+      const { status, force, ...fields } = req.body;
+      if (!(await isBusinessRepository(req.params.bizId, fields.repositoryId))) {
+        return res.status(400).json({ message: "Repository not found in this business" });
+      }
+      if (status !== undefined) {
+        const transition = await transitionTask(req.params.bizId, req.params.projectId, req.params.taskId, status, { actor: "user", name: req.user?.username }, { force: force === true });
+        if (!transition) return res.status(404).json({ message: "Task not found" });
+      }
+      const updated = await storage.updateTask(req.params.projectId, req.params.taskId, fields);
+      if (!updated) return res.status(404).json({ message: "Task not found" });
+      res.json(updated);
+    } catch (err: any) {
+      if (err instanceof InvalidTransitionError) return res.status(400).json({ message: err.message });
+      if (err instanceof BlockedTransitionError) {
+        return res.status(409).json({ message: err.message, blockers: err.blockers.map(b => ({ id: b.id, title: b.title, status: b.status })) });
+      }
+      console.error("[task-update] Error:", err);
+      res.status(500).json({ message: err.message || "Failed to update task" });
+    }
   });
 
   app.delete("/api/businesses/:bizId/projects/:projectId/tasks/:taskId", async (req, res) => {
@@ -459,18 +884,32 @@ export async function registerRoutes(
 
   app.post("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/start-work", async (req, res) => {
     try {
+      const project = await storage.getProject(req.params.bizId, req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
       const task = await storage.getTask(req.params.projectId, req.params.taskId);
       if (!task) return res.status(404).json({ message: "Task not found" });
 
-      if (task.status !== "Open") {
-        return res.status(409).json({ message: `Task is already "${task.status}". Only Open tasks can be started.` });
+      const { workflow } = project;
+      if (statusCategory(workflow, task.status) !== "todo") {
+        return res.status(409).json({ message: `Task is already "${task.status}". Only tasks that have not been started can be started.` });
+      }
+      if (!allowedTransitions(workflow, task.status).includes(workflow.startStatus)) {
+        return res.status(409).json({ message: `This project's workflow does not allow moving from "${task.status}" to "${workflow.startStatus}".` });
+      }
+      // Unfinished blockers need an explicit `force` from the caller
+      const blockers = await findOpenBlockers(req.params.bizId, task);
+      if (blockers.length > 0 && req.body?.force !== true) {
+        return res.status(409).json({
+          message: `${task.id} is blocked by ${blockers.map(b => `${b.id} (${b.status})`).join(", ")}.`,
+          blockers: blockers.map(b => ({ id: b.id, title: b.title, status: b.status })),
+        });
       }
 
       if (!task.repositoryId) {
         return res.status(400).json({ message: "Task has no linked repository. Link a repository first." });
       }
 
-      const repo = await storage.getRepositoryWithToken(task.repositoryId);
+      const repo = await businessRepositoryWithToken(req.params.bizId, task.repositoryId);
       if (!repo) return res.status(400).json({ message: "Repository not found." });
       if (!repo.token) return res.status(400).json({ message: "No GitHub token configured for this repository." });
       if (!repo.owner || !repo.repo) return res.status(400).json({ message: "Repository owner/name not configured." });
@@ -487,48 +926,6 @@ export async function registerRoutes(
 
       const branchName = `${task.id.toLowerCase()}/${slugifyTitle(task.title) || "task"}`;
 
-      const headers = {
-        Authorization: `token ${repo.token}`,
-        Accept: "application/vnd.github.v3+json",
-        "User-Agent": "AI-Dev-Hub",
-        "Content-Type": "application/json",
-      };
-
-      const repoRes = await fetch(`https://api.github.com/repos/${repo.owner}/${repo.repo}`, { headers });
-      if (!repoRes.ok) {
-        const err = await repoRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to fetch repository info from GitHub." });
-      }
-      const repoInfo = await repoRes.json() as any;
-      const defaultBranch = repoInfo.default_branch || "main";
-
-      const refRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs/heads/${defaultBranch}`,
-        { headers }
-      );
-      if (!refRes.ok) {
-        const err = await refRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to get main branch reference." });
-      }
-      const refData = await refRes.json() as any;
-      const mainSha = refData.object.sha;
-
-      const createBranchRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs`,
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({ ref: `refs/heads/${branchName}`, sha: mainSha }),
-        }
-      );
-      if (!createBranchRes.ok) {
-        const err = await createBranchRes.json().catch(() => ({})) as any;
-        if (createBranchRes.status === 422) {
-          return res.status(409).json({ message: "Branch already exists. This task may already be in progress." });
-        }
-        return res.status(500).json({ message: err.message || "Failed to create branch." });
-      }
-
       const sections: string[] = [`# ${task.id}: ${task.title}`, ""];
       sections.push(`**Priority:** ${task.priority}  |  **Type:** ${task.type}`, "");
       if (task.description) { sections.push("## Description", task.description, ""); }
@@ -537,76 +934,30 @@ export async function registerRoutes(
       if (task.filePath) { sections.push("## Files", task.filePath, ""); }
       sections.push(
         "---",
-        `*Remember: include \`[${task.id}]\` in your commit message so this task is auto-advanced to Quality Review.*`
+        `*Remember: include \`[${task.id}]\` in your commit message so this task is auto-advanced to ${workflow.webhookStatus}.*`
       );
       const fileContent = sections.join("\n");
       const taskFilePath = `.tasks/${task.id}.md`;
 
-      const blobRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/blobs`,
-        { method: "POST", headers, body: JSON.stringify({ content: fileContent, encoding: "utf-8" }) }
-      );
-      if (!blobRes.ok) {
-        const err = await blobRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to create blob." });
-      }
-      const blobSha = ((await blobRes.json()) as any).sha;
-
-      const treeRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/trees/${mainSha}`,
-        { headers }
-      );
-      if (!treeRes.ok) {
-        const err = await treeRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to get tree." });
-      }
-      const treeSha = ((await treeRes.json()) as any).sha;
-
-      const newTreeRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/trees`,
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({
-            base_tree: treeSha,
-            tree: [{ path: taskFilePath, mode: "100644", type: "blob", sha: blobSha }],
-          }),
-        }
-      );
-      if (!newTreeRes.ok) {
-        const err = await newTreeRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to create new tree." });
-      }
-      const newTreeSha = ((await newTreeRes.json()) as any).sha;
-
-      const commitRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/commits`,
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({
-            message: `chore: add task context file for ${task.id}`,
-            tree: newTreeSha,
-            parents: [mainSha],
-          }),
+      // Branch and task file land in one step, so a failure never leaves an empty branch behind
+      const gitRef = { owner: repo.owner, repo: repo.repo, token: repo.token };
+      try {
+        await commitToNewBranch(
+          gitRef,
+          branchName,
+          await getDefaultBranch(gitRef),
+          `chore: add task context file for ${task.id}`,
+          [{ path: taskFilePath, content: fileContent }],
+        );
+      } catch (err) {
+        if (err instanceof GitHubApiError && err.status === 409) {
+          return res.status(409).json({ message: "Branch already exists. This task may already be in progress." });
         }
-      );
-      if (!commitRes.ok) {
-        const err = await commitRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to create commit." });
+        throw err;
       }
-      const commitSha = ((await commitRes.json()) as any).sha;
 
-      const updateRefRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs/heads/${branchName}`,
-        { method: "PATCH", headers, body: JSON.stringify({ sha: commitSha }) }
-      );
-      if (!updateRefRes.ok) {
-        const err = await updateRefRes.json().catch(() => ({})) as any;
-        return res.status(500).json({ message: err.message || "Failed to update branch ref." });
-      }
-
-      await storage.updateTask(req.params.projectId, task.id, { status: "In Progress" }, req.params.bizId);
+      // Blockers were checked (or forced past) above
+      await transitionTask(req.params.bizId, req.params.projectId, task.id, workflow.startStatus, { actor: "user", name: req.user?.username }, { force: true });
 
       return res.json({ success: true, branch: branchName, taskFile: taskFilePath });
     } catch (err: any) {
@@ -616,33 +967,45 @@ export async function registerRoutes(
   });
 
   app.post("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/move", async (req, res) => {
-    const { targetProjectId } = req.body;
+    const { targetProjectId, status } = req.body;
     if (!targetProjectId) return res.status(400).json({ message: "targetProjectId is required" });
     const fromProject = await storage.getProject(req.params.bizId, req.params.projectId);
     if (!fromProject) return res.status(404).json({ message: "Source project not found" });
     const toProject = await storage.getProject(req.params.bizId, targetProjectId);
     if (!toProject) return res.status(404).json({ message: "Target project not found" });
     if (req.params.projectId === targetProjectId) return res.status(400).json({ message: "Task is already in this project" });
-    const task = await storage.moveTask(req.params.projectId, targetProjectId, req.params.taskId);
-    if (!task) return res.status(404).json({ message: "Task not found" });
-    res.json({ task, fromProject: fromProject.name, toProject: toProject.name });
+    try {
+      const outcome = await moveTaskToProject(req.params.bizId, req.params.projectId, toProject, req.params.taskId, status, { actor: "user", name: req.user?.username }, { force: req.body.force === true });
+      if ("code" in outcome) return res.status(outcome.code).json({ message: outcome.message, statuses: outcome.statuses });
+      res.json({ task: outcome.task, fromProject: fromProject.name, toProject: toProject.name });
+    } catch (err: any) {
+      if (err instanceof InvalidTransitionError) return res.status(400).json({ message: err.message });
+      if (err instanceof BlockedTransitionError) {
+        return res.status(409).json({ message: err.message, blockers: err.blockers.map(b => ({ id: b.id, title: b.title, status: b.status })) });
+      }
+      console.error("[task-move] Error:", err);
+      res.status(500).json({ message: err.message || "Failed to move task" });
+    }
   });
 
   // Unlink a specific dependency from a task
   app.post("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/unlink", async (req, res) => {
     try {
-      const { dependencyId } = req.body;
+      const { dependencyId, dependencyProjectId } = req.body;
       if (!dependencyId) return res.status(400).json({ message: "dependencyId is required" });
+      const project = await storage.getProject(req.params.bizId, req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
       const task = await storage.getTask(req.params.projectId, req.params.taskId);
       if (!task) return res.status(404).json({ message: "Task not found" });
-      const deps = (task.dependencies || []).filter(d => d !== dependencyId);
+      const dependency: TaskReference = { projectId: dependencyProjectId || req.params.projectId, taskId: dependencyId };
+      const deps = (task.dependencies || []).filter(d => !sameTaskReference(d, dependency));
       const updated = await storage.updateTask(req.params.projectId, req.params.taskId, { dependencies: deps });
 
       // Also remove reverse link
-      const depTask = await storage.getTask(req.params.projectId, dependencyId);
-      if (depTask) {
-        const reverseDeps = (depTask.dependencies || []).filter(d => d !== req.params.taskId);
-        await storage.updateTask(req.params.projectId, dependencyId, { dependencies: reverseDeps });
+      const [linked] = await storage.getTasksByReference(req.params.bizId, [dependency]);
+      if (linked) {
+        const reverseDeps = (linked.task.dependencies || []).filter(d => !sameTaskReference(d, taskReference(task)));
+        await storage.updateTask(linked.task.projectId, linked.task.id, { dependencies: reverseDeps });
       }
 
       res.json(updated);
@@ -652,11 +1015,49 @@ export async function registerRoutes(
     }
   });
 
+  // Directed edges: the task waits for `blockerId` (in `blockerProjectId`, default this project) to be done
+  app.post("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/blockers", async (req, res) => {
+    try {
+      const { blockerId, blockerProjectId } = req.body;
+      if (!blockerId || typeof blockerId !== "string") return res.status(400).json({ message: "blockerId is required" });
+      const project = await storage.getProject(req.params.bizId, req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
+      const task = await storage.getTask(project.id, req.params.taskId);
+      if (!task) return res.status(404).json({ message: "Task not found" });
+      const blocker: TaskReference = { projectId: typeof blockerProjectId === "string" && blockerProjectId ? blockerProjectId : project.id, taskId: blockerId };
+      const [found] = await storage.getTasksByReference(req.params.bizId, [blocker]);
+      if (!found) return res.status(404).json({ message: `Task ${blockerId} not found in this business` });
+      if (isBlockedBy(task, blocker)) return res.json(task);
+
+      const businessTasks = (await storage.getAllTasksForBusiness(req.params.bizId)).flatMap(g => g.tasks);
+      const cycle = findBlockingCycle(businessTasks, taskReference(task), blocker);
+      if (cycle) {
+        return res.status(409).json({ message: `That would create a blocking cycle: ${cycle.join(" → ")}`, cycle });
+      }
+      res.json(await storage.setTaskBlockers(project.id, task.id, [...(task.blockedBy || []), blocker]));
+    } catch (err: any) {
+      console.error("[blockers] Error:", err);
+      res.status(500).json({ message: err.message || "Failed to add blocker" });
+    }
+  });
+
+  // Task IDs are unique across projects, so the blocker's ID alone identifies the edge
+  app.delete("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/blockers/:blockerId", async (req, res) => {
+    const project = await storage.getProject(req.params.bizId, req.params.projectId);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+    const task = await storage.getTask(project.id, req.params.taskId);
+    if (!task) return res.status(404).json({ message: "Task not found" });
+    res.json(await storage.setTaskBlockers(project.id, task.id, (task.blockedBy || []).filter(ref => ref.taskId !== req.params.blockerId)));
+  });
+
   app.patch("/api/businesses/:bizId/projects/:projectId/bulk-update-repository", async (req, res) => {
     const project = await storage.getProject(req.params.bizId, req.params.projectId);
     if (!project) return res.status(404).json({ message: "Project not found" });
     const { repositoryId, onlyUnlinked } = req.body;
     if (!repositoryId) return res.status(400).json({ message: "repositoryId is required" });
+    if (!(await isBusinessRepository(req.params.bizId, repositoryId))) {
+      return res.status(400).json({ message: "Repository not found in this business" });
+    }
     const count = await storage.bulkUpdateTasksRepository(req.params.projectId, repositoryId, !!onlyUnlinked);
     res.json({ updated: count });
   });
@@ -664,7 +1065,7 @@ export async function registerRoutes(
   app.get("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/reviews", async (req, res) => {
     const task = await storage.getTask(req.params.projectId, req.params.taskId);
     if (!task) return res.status(404).json({ message: "Task not found" });
-    res.json(await storage.getCodeReviews(req.params.taskId));
+    res.json(await storage.getCodeReviews(req.params.projectId, req.params.taskId));
   });
 
   app.post("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/reviews", async (req, res) => {
@@ -672,6 +1073,9 @@ export async function registerRoutes(
     if (!repositoryId || !filePath || !review) {
       return res.status(400).json({ message: "repositoryId, filePath, and review are required" });
     }
+    if (!(await isBusinessRepository(req.params.bizId, repositoryId))) {
+      return res.status(400).json({ message: "Repository not found in this business" });
+    }
     const task = await storage.getTask(req.params.projectId, req.params.taskId);
     if (!task) return res.status(404).json({ message: "Task not found" });
 
@@ -696,15 +1100,12 @@ export async function registerRoutes(
     if (!task) return res.status(404).json({ message: "Task not found" });
 
     const bizId = req.params.bizId;
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const provider = await resolveProvider(bizId, "review");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
     }
 
     try {
-      const anthropic = new Anthropic({ apiKey });
-
       const systemPrompt = `You are an expert at converting code review findings into concise, actionable prompts for AI coding agents (Replit, Cursor, Bolt.new, etc.).
 
 Rules for the generated prompt:
@@ -733,17 +1134,13 @@ Type: ${task.type} | Priority: ${task.priority}`;
 
       userPrompt += `\n\nCode review findings:\n${reviewResults}\n\nGenerate the fix prompt now:`;
 
-      const msg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 1024,
-        messages: [{ role: "user", content: userPrompt }],
+      const msg = await provider.complete({
+        maxTokens: 1024,
+        messages: [{ role: "user", content: await withAttachmentImages(userPrompt, bizId, task.attachments) }],
         system: systemPrompt,
       });
 
-      const prompt = msg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("\n\n")
+      const prompt = msg.text
         .trim();
 
       const updated = await storage.addGeneratedPrompt(req.params.projectId, req.params.taskId, {
@@ -770,17 +1167,16 @@ Type: ${task.type} | Priority: ${task.priority}`;
     if (!message || typeof message !== "string") {
       return res.status(400).json({ message: "message is required" });
     }
-    const selectedModel = model || "claude-sonnet-4-5-20250929";
 
     const task = await storage.getTask(req.params.projectId, req.params.taskId);
     if (!task) return res.status(404).json({ message: "Task not found" });
 
     const bizId = req.params.bizId;
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const provider = await resolveProvider(bizId, "discuss");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
     }
+    const selectedModel = provider.resolveModel(model);
 
     const filePathRegex = /(?:`([^`]+\.\w{1,5})`|(?:(?:check|look at|see|open|review|show|examine|inspect)\s+)([^\s,."']+\.\w{1,5})|(?:^|\s)((?:[\w@.-]+\/)+[\w.-]+\.\w{1,5}))/gi;
     const validExts = new Set(["ts", "tsx", "js", "jsx", "py", "go", "rs", "java", "php", "rb", "css", "scss", "html", "json", "yaml", "yml", "md", "sql", "sh", "vue", "svelte"]);
@@ -879,7 +1275,7 @@ Type: ${task.type} | Priority: ${task.priority}`;
     const repoId = task.repositoryId;
     let repo: any = null;
     if (repoId) {
-      repo = await storage.getRepositoryWithToken(repoId);
+      repo = await businessRepositoryWithToken(req.params.bizId, repoId);
       console.log(`[DISCUSS] Direct repo lookup for repoId=${repoId}: found=${!!repo}`);
     } else {
       console.log(`[DISCUSS] No task.repositoryId set`);
@@ -1003,19 +1399,16 @@ Type: ${task.type} | Priority: ${task.priority}`;
     }
 
     const taskContext = `\nTASK DETAILS:\nID: ${task.id}\nTitle: ${task.title}\nType: ${task.type}\nStatus: ${task.status}\nPriority: ${task.priority}\nDescription: ${task.description}\nReasoning: ${task.reasoning}\nFix Steps: ${task.fixSteps}\n${task.filePath ? `Related File: ${task.filePath}` : ""}`;
+    const statusChoices = describeWorkflow((await storage.getProject(bizId, req.params.projectId))?.workflow ?? DEFAULT_TASK_WORKFLOW);
 
     // Fetch linked dependency context
     let dependencyContext = "";
     if (task.dependencies && task.dependencies.length > 0) {
-      const depTasks = [];
-      for (const depId of task.dependencies) {
-        const depTask = await storage.getTask(req.params.projectId, depId);
-        if (depTask) depTasks.push(depTask);
-      }
+      const depTasks = await storage.getTasksByReference(bizId, task.dependencies);
       if (depTasks.length > 0) {
         dependencyContext = "\n\nLINKED TASKS (this task is connected to these — consider their context when responding):";
-        for (const dt of depTasks) {
-          dependencyContext += `\n- [${dt.id}] ${dt.title} (${dt.type} | ${dt.status} | ${dt.priority})`;
+        for (const { task: dt, project: dp } of depTasks) {
+          dependencyContext += `\n- ${linkedTaskHeading(dt, dp, task.projectId)} (${dt.type} | ${dt.status} | ${dt.priority})`;
           dependencyContext += `\n  Description: ${dt.description.slice(0, 300)}${dt.description.length > 300 ? "..." : ""}`;
           if (dt.fixSteps) dependencyContext += `\n  Fix Steps: ${dt.fixSteps.slice(0, 200)}${dt.fixSteps.length > 200 ? "..." : ""}`;
           if (dt.filePath) dependencyContext += `\n  File: ${dt.filePath}`;
@@ -1037,7 +1430,7 @@ Type: ${task.type} | Priority: ${task.priority}`;
     }
 
     let codeReviewContext = "";
-    const reviews = await storage.getCodeReviews(task.id);
+    const reviews = await storage.getCodeReviews(task.projectId, task.id);
     if (reviews.length > 0) {
       const latest = reviews[0];
       let reviewText = latest.review;
@@ -1092,7 +1485,7 @@ When responding in this task discussion:
 - If the user asks you to change the task status (e.g. "mark as done", "set to Done", "change to In Progress"), include this EXACT plain text (no markdown, no code blocks, no backticks) on its own line at the very END of your response:
 ACTION:UPDATE_STATUS
 {"newStatus":"Done"}
-Replace "Done" with the appropriate status: Done, In Progress, Quality Review, or Open. IMPORTANT: Do NOT wrap this in markdown code blocks or backticks - it must be plain text so the system can parse it. Only include this when the user explicitly requests a status change.
+Replace "Done" with the appropriate status, one of: ${statusChoices}. IMPORTANT: Do NOT wrap this in markdown code blocks or backticks - it must be plain text so the system can parse it. Only include this when the user explicitly requests a status change.
 
 Example of the tone to aim for:
 "Good news — the notifications screen is built and working! The only thing left is the tab navigation isn't wired up yet. Once you add the tab to _layout.tsx, users will be able to access it. Want me to generate the fix prompt for that?"`;
@@ -1100,21 +1493,17 @@ Example of the tone to aim for:
     }
 
     try {
-      const anthropic = new Anthropic({ apiKey });
-      const aiMsg = await anthropic.messages.create({
+      const aiMsg = await provider.complete({
         model: selectedModel,
-        max_tokens: 2048,
+        maxTokens: 2048,
         system: systemPrompt,
         messages: [
           ...(previousDiscussion ? [{ role: "user" as const, content: `PREVIOUS DISCUSSION:\n${previousDiscussion}` }, { role: "assistant" as const, content: "I have the context from our previous discussion. How can I help?" }] : []),
-          { role: "user", content: userPrompt },
+          { role: "user", content: await withAttachmentImages(userPrompt, bizId, task.attachments) },
         ],
       });
 
-      let responseText = aiMsg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      let responseText = aiMsg.text;
 
       // Parse and execute ACTION:UPDATE_STATUS if present
       // Strip markdown code fences and backticks before matching
@@ -1127,13 +1516,9 @@ Example of the tone to aim for:
         try {
           const parsed = JSON.parse(statusActionMatch[1]);
           const newStatus = parsed.newStatus;
-          if (["Open", "In Progress", "Quality Review", "Done"].includes(newStatus)) {
-            await storage.updateTask(
-              req.params.projectId,
-              req.params.taskId,
-              { status: newStatus } as any,
-              bizId
-            );
+          // An unknown status or a move the workflow forbids throws, leaving the action visible in the reply
+          if (typeof newStatus === "string") {
+            await transitionTask(bizId, req.params.projectId, req.params.taskId, newStatus, { actor: "agent", name: selectedModel });
             statusUpdated = true;
             // Remove the action from the displayed response (including any surrounding code fences)
             responseText = responseText
@@ -1169,7 +1554,7 @@ Example of the tone to aim for:
           autoAnalysisComplete: true,
           autoAnalysisResult: analysisResult,
           autoAnalysisTimestamp: new Date().toISOString(),
-        } as any, bizId);
+        } as any);
       }
 
       const allMessages = await storage.getDiscussion(req.params.projectId, req.params.taskId);
@@ -1203,7 +1588,6 @@ Example of the tone to aim for:
         res.end();
         return;
       }
-      const selectedModel = model || "claude-sonnet-4-5-20250929";
 
       sendSSE("stage", { stage: "reading_context", message: "Reading task context..." });
 
@@ -1215,13 +1599,13 @@ Example of the tone to aim for:
       }
 
       const bizId = req.params.bizId;
-      const reviewAgent = await storage.getReviewAgent(bizId);
-      const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) {
+      const provider = await resolveProvider(bizId, "discuss");
+      if (!provider) {
         sendSSE("error", { message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
         res.end();
         return;
       }
+      const selectedModel = provider.resolveModel(model);
 
       const filePathRegex = /(?:`([^`]+\.\w{1,5})`|(?:(?:check|look at|see|open|review|show|examine|inspect)\s+)([^\s,."']+\.\w{1,5})|(?:^|\s)((?:[\w@.-]+\/)+[\w.-]+\.\w{1,5}))/gi;
       const validExts = new Set(["ts", "tsx", "js", "jsx", "py", "go", "rs", "java", "php", "rb", "css", "scss", "html", "json", "yaml", "yml", "md", "sql", "sh", "vue", "svelte"]);
@@ -1296,7 +1680,7 @@ Example of the tone to aim for:
       const repoId = task.repositoryId;
       let repo: any = null;
       if (repoId) {
-        repo = await storage.getRepositoryWithToken(repoId);
+        repo = await businessRepositoryWithToken(req.params.bizId, repoId);
       }
 
       const loadedFiles: { path: string; content: string; source: string }[] = [];
@@ -1398,18 +1782,15 @@ Example of the tone to aim for:
       }
 
       const taskContext = `\nTASK DETAILS:\nID: ${task.id}\nTitle: ${task.title}\nType: ${task.type}\nStatus: ${task.status}\nPriority: ${task.priority}\nDescription: ${task.description}\nReasoning: ${task.reasoning}\nFix Steps: ${task.fixSteps}\n${task.filePath ? `Related File: ${task.filePath}` : ""}`;
+      const statusChoices = describeWorkflow((await storage.getProject(bizId, req.params.projectId))?.workflow ?? DEFAULT_TASK_WORKFLOW);
 
       let dependencyContext = "";
       if (task.dependencies && task.dependencies.length > 0) {
-        const depTasks = [];
-        for (const depId of task.dependencies) {
-          const depTask = await storage.getTask(req.params.projectId, depId);
-          if (depTask) depTasks.push(depTask);
-        }
+        const depTasks = await storage.getTasksByReference(bizId, task.dependencies);
         if (depTasks.length > 0) {
           dependencyContext = "\n\nLINKED TASKS (this task is connected to these — consider their context when responding):";
-          for (const dt of depTasks) {
-            dependencyContext += `\n- [${dt.id}] ${dt.title} (${dt.type} | ${dt.status} | ${dt.priority})`;
+          for (const { task: dt, project: dp } of depTasks) {
+            dependencyContext += `\n- ${linkedTaskHeading(dt, dp, task.projectId)} (${dt.type} | ${dt.status} | ${dt.priority})`;
             dependencyContext += `\n  Description: ${dt.description.slice(0, 300)}${dt.description.length > 300 ? "..." : ""}`;
             if (dt.fixSteps) dependencyContext += `\n  Fix Steps: ${dt.fixSteps.slice(0, 200)}${dt.fixSteps.length > 200 ? "..." : ""}`;
             if (dt.filePath) dependencyContext += `\n  File: ${dt.filePath}`;
@@ -1431,7 +1812,7 @@ Example of the tone to aim for:
       }
 
       let codeReviewContext = "";
-      const reviews = await storage.getCodeReviews(task.id);
+      const reviews = await storage.getCodeReviews(task.projectId, task.id);
       if (reviews.length > 0) {
         const latest = reviews[0];
         let reviewText = latest.review;
@@ -1486,7 +1867,7 @@ When responding in this task discussion:
 - If the user asks you to change the task status (e.g. "mark as done", "set to Done", "change to In Progress"), include this EXACT plain text (no markdown, no code blocks, no backticks) on its own line at the very END of your response:
 ACTION:UPDATE_STATUS
 {"newStatus":"Done"}
-Replace "Done" with the appropriate status: Done, In Progress, Quality Review, or Open. IMPORTANT: Do NOT wrap this in markdown code blocks or backticks - it must be plain text so the system can parse it. Only include this when the user explicitly requests a status change.
+Replace "Done" with the appropriate status, one of: ${statusChoices}. IMPORTANT: Do NOT wrap this in markdown code blocks or backticks - it must be plain text so the system can parse it. Only include this when the user explicitly requests a status change.
 
 Example of the tone to aim for:
 "Good news — the notifications screen is built and working! The only thing left is the tab navigation isn't wired up yet. Once you add the tab to _layout.tsx, users will be able to access it. Want me to generate the fix prompt for that?"`;
@@ -1495,21 +1876,18 @@ Example of the tone to aim for:
 
       sendSSE("stage", { stage: "thinking", message: "Thinking..." });
 
-      const anthropic = new Anthropic({ apiKey });
-      const stream = anthropic.messages.stream({
+      let fullResponse = "";
+      let firstToken = true;
+
+      await provider.stream({
         model: selectedModel,
-        max_tokens: 2048,
+        maxTokens: 2048,
         system: systemPrompt,
         messages: [
           ...(previousDiscussion ? [{ role: "user" as const, content: `PREVIOUS DISCUSSION:\n${previousDiscussion}` }, { role: "assistant" as const, content: "I have the context from our previous discussion. How can I help?" }] : []),
-          { role: "user" as const, content: userPrompt },
+          { role: "user" as const, content: await withAttachmentImages(userPrompt, bizId, task.attachments) },
         ],
-      });
-
-      let fullResponse = "";
-      let firstToken = true;
-
-      stream.on("text", (text) => {
+      }, (text) => {
         if (firstToken) {
           sendSSE("stage", { stage: "writing", message: "Writing response..." });
           firstToken = false;
@@ -1518,8 +1896,6 @@ Example of the tone to aim for:
         sendSSE("token", { token: text });
       });
 
-      const finalMessage = await stream.finalMessage();
-
       let responseText = fullResponse;
 
       let statusUpdated = false;
@@ -1531,13 +1907,9 @@ Example of the tone to aim for:
         try {
           const parsed = JSON.parse(statusActionMatch[1]);
           const newStatus = parsed.newStatus;
-          if (["Open", "In Progress", "Quality Review", "Done"].includes(newStatus)) {
-            await storage.updateTask(
-              req.params.projectId,
-              req.params.taskId,
-              { status: newStatus } as any,
-              bizId
-            );
+          // An unknown status or a move the workflow forbids throws, leaving the action visible in the reply
+          if (typeof newStatus === "string") {
+            await transitionTask(bizId, req.params.projectId, req.params.taskId, newStatus, { actor: "agent", name: selectedModel });
             statusUpdated = true;
             responseText = responseText
               .replace(/```\s*\n?\s*ACTION:UPDATE_STATUS\s*\n?\s*```/g, "")
@@ -1572,7 +1944,7 @@ Example of the tone to aim for:
           autoAnalysisComplete: true,
           autoAnalysisResult: analysisResult,
           autoAnalysisTimestamp: new Date().toISOString(),
-        } as any, bizId);
+        } as any);
       }
 
       sendSSE("done", { statusUpdated, filesLoaded: loadedFilePaths });
@@ -1590,21 +1962,21 @@ Example of the tone to aim for:
 
   // Generate a code fix for a task using AI
   app.post("/api/businesses/:bizId/projects/:projectId/tasks/:taskId/generate-code-fix", async (req, res) => {
-    const { model, instructions } = req.body;
-    const selectedModel = model || "claude-sonnet-4-5-20250929";
+    const { model, regenerateFixId } = req.body;
+    let { instructions } = req.body;
 
     const task = await storage.getTask(req.params.projectId, req.params.taskId);
     if (!task) return res.status(404).json({ message: "Task not found" });
 
     const bizId = req.params.bizId;
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) return res.status(500).json({ message: "No AI agent configured." });
+    const provider = await resolveProvider(bizId, "code_fix");
+    if (!provider) return res.status(500).json({ message: "No AI agent configured." });
+    const selectedModel = provider.resolveModel(model);
 
     const repoId = task.repositoryId;
     let repo: any = null;
     if (repoId) {
-      repo = await storage.getRepositoryWithToken(repoId);
+      repo = await businessRepositoryWithToken(req.params.bizId, repoId);
     }
     if (!repo && bizId) {
       const bizRepos = await storage.getRepositoriesWithTokens(bizId);
@@ -1635,6 +2007,19 @@ Example of the tone to aim for:
       }
     }
 
+    // Regenerating a fix that no longer applies: redo the same change on the current file contents
+    let supersededFix: CodeFix | undefined;
+    if (regenerateFixId) {
+      supersededFix = discussion.find(m => m.codeFix?.id === regenerateFixId)?.codeFix;
+      if (!supersededFix) return res.status(404).json({ message: "Code fix not found" });
+      for (const f of supersededFix.files) filePaths.add(f.path);
+      const changedPaths = (supersededFix.conflicts || []).map(c => c.path);
+      instructions = [
+        `This replaces an earlier fix ("${supersededFix.commitMessage}") that no longer applies because ${changedPaths.length > 0 ? changedPaths.join(", ") : "the files"} changed after it was generated. Make the same change against the current file contents above, keeping the newer code intact. Earlier fix: ${supersededFix.description}`,
+        instructions,
+      ].filter(Boolean).join("\n\n");
+    }
+
     // If no explicit files loaded, detect file paths from task text and discussion
     if (filePaths.size === 0) {
       const textSources = [
@@ -1685,15 +2070,11 @@ Example of the tone to aim for:
     // Fetch linked dependency context for code fix generation
     let depContext = "";
     if (task.dependencies && task.dependencies.length > 0) {
-      const depTasks = [];
-      for (const depId of task.dependencies) {
-        const dt = await storage.getTask(req.params.projectId, depId);
-        if (dt) depTasks.push(dt);
-      }
+      const depTasks = await storage.getTasksByReference(bizId, task.dependencies);
       if (depTasks.length > 0) {
         depContext = "\n\nLINKED TASKS (consider these when generating the fix):";
-        for (const dt of depTasks) {
-          depContext += `\n- [${dt.id}] ${dt.title} (${dt.status}): ${dt.description.slice(0, 200)}`;
+        for (const { task: dt, project: dp } of depTasks) {
+          depContext += `\n- ${linkedTaskHeading(dt, dp, task.projectId)} (${dt.status}): ${dt.description.slice(0, 200)}`;
           if (dt.filePath) depContext += ` | File: ${dt.filePath}`;
         }
       }
@@ -1738,20 +2119,16 @@ Rules:
 - The commit message should be concise and descriptive`;
 
     try {
-      const anthropic = new Anthropic({ apiKey });
-      const aiMsg = await anthropic.messages.create({
+      const aiMsg = await provider.complete({
         model: selectedModel,
-        max_tokens: 16384,
-        messages: [{ role: "user", content: "Generate the code fix now. Respond with ONLY the JSON object." }],
+        maxTokens: 16384,
+        messages: [{ role: "user", content: await withAttachmentImages("Generate the code fix now. Respond with ONLY the JSON object.", bizId, task.attachments) }],
         system: systemPrompt,
       });
 
-      const responseText = aiMsg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      const responseText = aiMsg.text;
 
-      const wasTruncated = aiMsg.stop_reason === "max_tokens";
+      const wasTruncated = aiMsg.stopReason === "max_tokens";
 
       let parsed: any;
       try {
@@ -1804,6 +2181,9 @@ Rules:
         model: selectedModel,
         codeFix,
       });
+      if (supersededFix) {
+        await storage.updateDiscussionCodeFix(req.params.projectId, req.params.taskId, supersededFix.id, { ...supersededFix, status: "discarded" });
+      }
 
       const allMessages = await storage.getDiscussion(req.params.projectId, req.params.taskId);
       res.json({ codeFix, messages: allMessages });
@@ -1835,7 +2215,7 @@ Rules:
     // Get repo
     const repoId = task.repositoryId;
     let repo: any = null;
-    if (repoId) repo = await storage.getRepositoryWithToken(repoId);
+    if (repoId) repo = await businessRepositoryWithToken(req.params.bizId, repoId);
     if (!repo && bizId) {
       const bizRepos = await storage.getRepositoriesWithTokens(bizId);
       if (bizRepos.length >= 1) {
@@ -1850,110 +2230,54 @@ Rules:
       return res.status(400).json({ message: "No GitHub repository configured." });
     }
 
-    const headers = {
-      Authorization: `token ${repo.token}`,
-      Accept: "application/vnd.github.v3+json",
-      "User-Agent": "AI-Dev-Hub",
-      "Content-Type": "application/json",
-    };
-
-    const safeBranchName = branchName || `ai-fix/${task.id.toLowerCase()}`;
-
-    try {
-      // 1. Get default branch SHA
-      const repoRes = await fetch(`https://api.github.com/repos/${repo.owner}/${repo.repo}`, { headers });
-      if (!repoRes.ok) return res.status(500).json({ message: "Failed to fetch repository info" });
-      const repoInfo = await repoRes.json();
-      const defaultBranch = repoInfo.default_branch || "main";
-
-      const refRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs/heads/${defaultBranch}`,
-        { headers }
-      );
-      if (!refRes.ok) return res.status(500).json({ message: "Failed to get branch reference" });
-      const refData = await refRes.json();
-      const baseSha = refData.object.sha;
-
-      // 2. Create new branch
-      const createBranchRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs`,
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({ ref: `refs/heads/${safeBranchName}`, sha: baseSha }),
-        }
-      );
-      if (!createBranchRes.ok) {
-        const err = await createBranchRes.json();
-        return res.status(500).json({ message: `Failed to create branch: ${err.message || "Unknown error"}` });
-      }
-
-      // 3. Commit each file change
-      for (const file of codeFix.files) {
-        const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
-
-        // Get current file SHA on the new branch
-        const fileRes = await fetch(
-          `https://api.github.com/repos/${repo.owner}/${repo.repo}/contents/${encodedPath}?ref=${safeBranchName}`,
-          { headers }
-        );
-        let fileSha: string | undefined;
-        if (fileRes.ok) {
-          const fileData = await fileRes.json();
-          fileSha = fileData.sha;
-        }
-
-        // Update or create the file
-        const updateRes = await fetch(
-          `https://api.github.com/repos/${repo.owner}/${repo.repo}/contents/${encodedPath}`,
-          {
-            method: "PUT",
-            headers,
-            body: JSON.stringify({
-              message: `${codeFix.commitMessage} - ${file.path}`,
-              content: Buffer.from(file.newContent).toString("base64"),
-              branch: safeBranchName,
-              ...(fileSha ? { sha: fileSha } : {}),
-            }),
-          }
-        );
-        if (!updateRes.ok) {
-          const err = await updateRes.json();
-          return res.status(500).json({ message: `Failed to update ${file.path}: ${err.message || "Unknown error"}` });
-        }
-      }
-
-      // 4. Create Pull Request
-      const prBody = `## ${codeFix.description}\n\n**Task:** ${task.id} — ${task.title}\n**Type:** ${task.type} | **Priority:** ${task.priority}\n\n### Changes\n${codeFix.files.map(f => `- \`${f.path}\`: ${f.description}`).join("\n")}\n\n---\n*Generated by AI Dev Hub*`;
-
-      const prRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls`,
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({
-            title: `[${task.id}] ${codeFix.commitMessage}`,
-            body: prBody,
-            head: safeBranchName,
-            base: defaultBranch,
-          }),
-        }
-      );
+    const safeBranchName = branchName || `ai-fix/${task.id.toLowerCase()}`;
+    const repoRef = { owner: repo.owner, repo: repo.repo, token: repo.token };
 
-      if (!prRes.ok) {
-        const err = await prRes.json();
-        return res.status(500).json({ message: `Failed to create PR: ${err.message || "Unknown error"}` });
+    try {
+      // Files may have changed on the default branch since the fix was generated
+      const rebased = await rebaseCodeFix(repoRef, codeFix.files);
+      if (rebased.conflicts.length > 0) {
+        const conflictedFix: CodeFix = {
+          ...codeFix,
+          status: "conflict",
+          conflicts: rebased.conflicts,
+          conflictsCheckedAt: new Date().toISOString(),
+        };
+        await storage.updateDiscussionCodeFix(req.params.projectId, req.params.taskId, codeFixId, conflictedFix);
+        const allMessages = await storage.getDiscussion(req.params.projectId, req.params.taskId);
+        return res.status(409).json({
+          message: `The code changed on ${rebased.base.branch} since this fix was generated and could not be merged: ${describeConflicts(rebased.conflicts, rebased.base.branch)}. Regenerate the fix against the latest code.`,
+          conflicts: rebased.conflicts,
+          messages: allMessages,
+        });
       }
 
-      const prData = await prRes.json();
+      // One commit on a fresh branch, then the PR; the branch is removed again if the PR fails
+      const mergedNote = rebased.mergedPaths.length > 0
+        ? `\n\n> Merged with changes made on \`${rebased.base.branch}\` after the fix was generated: ${rebased.mergedPaths.map(p => `\`${p}\``).join(", ")}`
+        : "";
+      const prBody = `## ${codeFix.description}\n\n**Task:** ${task.id} — ${task.title}\n**Type:** ${task.type} | **Priority:** ${task.priority}\n\n### Changes\n${codeFix.files.map(f => `- \`${f.path}\`: ${f.description}`).join("\n")}${mergedNote}\n\n---\n*Generated by AI Dev Hub*`;
+      const prTitle = `[${task.id}] ${codeFix.commitMessage}`;
+      const pr = await createPullRequestWithChanges(repoRef, {
+        branch: safeBranchName,
+        message: prTitle,
+        changes: rebased.changes,
+        title: prTitle,
+        body: prBody,
+        base: rebased.base,
+      });
 
-      // 5. Update the code fix with PR info
+      // Update the code fix with PR info
       const updatedFix: CodeFix = {
         ...codeFix,
         status: "pr_created",
-        prUrl: prData.html_url,
-        prNumber: prData.number,
+        prUrl: pr.url,
+        prNumber: pr.number,
         branchName: safeBranchName,
+        conflicts: undefined,
+        prState: "open",
+        prHeadSha: pr.headSha,
+        prUpdatedAt: new Date().toISOString(),
       };
 
       // Update the discussion message with PR info
@@ -1962,7 +2286,7 @@ Rules:
       // Add a new message about the PR
       await storage.addDiscussionMessage(req.params.projectId, req.params.taskId, {
         sender: "claude",
-        content: `**Pull Request Created!**\n\n**PR #${prData.number}:** [${prData.title}](${prData.html_url})\n**Branch:** \`${safeBranchName}\` → \`${defaultBranch}\`\n\n${codeFix.files.length} file${codeFix.files.length !== 1 ? "s" : ""} changed. Review and merge when ready.`,
+        content: `**Pull Request Created!**\n\n**PR #${pr.number}:** [${prTitle}](${pr.url})\n**Branch:** \`${safeBranchName}\` → \`${pr.baseBranch}\`\n\n${codeFix.files.length} file${codeFix.files.length !== 1 ? "s" : ""} changed${rebased.mergedPaths.length > 0 ? ` (${rebased.mergedPaths.length} merged with newer changes on \`${pr.baseBranch}\`)` : ""}. Review and merge when ready.`,
         timestamp: new Date().toISOString(),
         filesLoaded: codeFix.files.map(f => f.path),
         isAutoAnalysis: false,
@@ -1970,14 +2294,14 @@ Rules:
       });
 
       const allMessages = await storage.getDiscussion(req.params.projectId, req.params.taskId);
-      res.json({ prUrl: prData.html_url, prNumber: prData.number, branchName: safeBranchName, messages: allMessages });
+      res.json({ prUrl: pr.url, prNumber: pr.number, branchName: safeBranchName, messages: allMessages });
     } catch (err: any) {
-      res.status(500).json({ message: err.message || "Failed to create PR" });
+      res.status(err instanceof GitHubApiError && err.status === 409 ? 409 : 500).json({ message: err.message || "Failed to create PR" });
     }
   });
 
   app.get("/api/businesses/:bizId/repositories/:repoId/files", async (req, res) => {
-    const repo = await storage.getRepositoryWithToken(req.params.repoId);
+    const repo = await businessRepositoryWithToken(req.params.bizId, req.params.repoId);
     if (!repo) return res.status(404).json({ message: "Repository not found" });
     if (!repo.token || !repo.owner || !repo.repo) {
       return res.status(400).json({ message: "Repository does not have GitHub configuration" });
@@ -2012,7 +2336,7 @@ Rules:
   });
 
   app.get("/api/businesses/:bizId/repositories/:repoId/files/content", async (req, res) => {
-    const repo = await storage.getRepositoryWithToken(req.params.repoId);
+    const repo = await businessRepositoryWithToken(req.params.bizId, req.params.repoId);
     if (!repo) return res.status(404).json({ message: "Repository not found" });
     if (!repo.token || !repo.owner || !repo.repo) {
       return res.status(400).json({ message: "Repository does not have GitHub configuration" });
@@ -2103,9 +2427,8 @@ Rules:
     const biz = await storage.getBusiness(req.params.bizId);
     if (!biz) return res.status(404).json({ message: "Business not found" });
 
-    const reviewAgent = await storage.getReviewAgent(req.params.bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const provider = await resolveProvider(req.params.bizId, "transcript");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set. Add an agent in Settings or set ANTHROPIC_API_KEY in Replit Secrets." });
     }
 
@@ -2124,18 +2447,13 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
 
       const userPrompt = `Meeting: ${meetingTitle || "Untitled"}\nDate: ${meetingDate || "Not specified"}\n\nTranscript:\n${transcript}`;
 
-      const anthropic = new Anthropic({ apiKey });
-      const msg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 4096,
+      const msg = await provider.complete({
+        maxTokens: 4096,
         messages: [{ role: "user", content: userPrompt }],
         system: systemPrompt,
       });
 
-      const responseText = msg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      const responseText = msg.text;
 
       let parsed;
       try {
@@ -2178,9 +2496,11 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
     }
 
     const bizId = businessId || repo.businessId;
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    if (!(await checkBusinessAccess(req, repo.businessId, "editor")) || !(await checkBusinessAccess(req, bizId, "editor"))) {
+      return res.status(403).json({ message: "You do not have access to this business" });
+    }
+    const provider = await resolveProvider(bizId, "review");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
     }
 
@@ -2229,18 +2549,13 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
       if (taskContext) userPrompt += taskContext;
       if (question) userPrompt += `\n\nSpecific question: ${question}`;
 
-      const anthropic = new Anthropic({ apiKey });
-      const msg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 4096,
+      const msg = await provider.complete({
+        maxTokens: 4096,
         messages: [{ role: "user", content: userPrompt }],
         system: systemPrompt,
       });
 
-      const reviewText = msg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("\n\n");
+      const reviewText = msg.text;
 
       if (taskId) {
         const projects = await storage.getProjects(bizId);
@@ -2277,18 +2592,18 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
 
     const biz = await storage.getBusiness(businessId);
     if (!biz) return res.status(404).json({ message: "Business not found" });
+    if (!(await checkBusinessAccess(req, businessId, "editor"))) {
+      return res.status(403).json({ message: "You do not have access to this business" });
+    }
 
-    const reviewAgent = await storage.getReviewAgent(businessId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const provider = await resolveProvider(businessId, "review");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
     }
 
     try {
-      const anthropic = new Anthropic({ apiKey });
-      const msg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 4096,
+      const msg = await provider.complete({
+        maxTokens: 4096,
         messages: [{
           role: "user",
           content: `Extract all actionable items from this code review as a JSON array. Each item should have: title (short, clear action statement), type (one of "Bug", "Feature", or "Task"), priority (one of "High", "Medium", or "Low"), description (the issue found), reasoning (why it's a problem), fixSteps (numbered steps to fix it as a single string). Return only valid JSON array, no markdown fences or other text.\n\nCode Review:\n${reviewText}`,
@@ -2296,10 +2611,7 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
         system: "You are a task extraction assistant. Analyze code reviews and extract actionable items as structured JSON. Return only a valid JSON array with no additional text, no markdown code fences, no explanation.",
       });
 
-      const rawText = msg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      const rawText = msg.text;
 
       let cleanText = rawText.trim();
       const fenceMatch = cleanText.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -2343,9 +2655,11 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
     }
 
     const bizId = businessId || repo.businessId;
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    if (!(await checkBusinessAccess(req, repo.businessId, "editor")) || !(await checkBusinessAccess(req, bizId, "editor"))) {
+      return res.status(403).json({ message: "You do not have access to this business" });
+    }
+    const provider = await resolveProvider(bizId, "review");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
     }
 
@@ -2376,10 +2690,8 @@ Return only valid JSON with "items" and "suggestedProjects" fields, nothing else
         taskFixSteps ? `Fix Steps: ${taskFixSteps}` : "",
       ].filter(Boolean).join("\n");
 
-      const anthropic = new Anthropic({ apiKey });
-      const msg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 1024,
+      const msg = await provider.complete({
+        maxTokens: 1024,
         messages: [{
           role: "user",
           content: `Given this task and the list of files in the repository, which files most likely need to be reviewed to address this task? Return a JSON object with: "files" (array of file paths, most relevant first, max 5), "question" (a focused review question based on the task).
@@ -2393,10 +2705,7 @@ ${fileList.join("\n")}`,
         system: "You are a code review assistant. Analyze the task and return ONLY valid JSON with 'files' (array of file paths) and 'question' (string). No markdown, no explanation.",
       });
 
-      const rawText = msg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      const rawText = msg.text;
 
       let parsed;
       try {
@@ -2441,25 +2750,22 @@ ${fileList.join("\n")}`,
     let totalOpen = 0, totalInProgress = 0, totalDone = 0, totalBlocked = 0;
     let completedThisWeek = 0;
 
-    const allTasks: (import("@shared/schema").Task & { projectName: string })[] = [];
+    const allTasks: (import("@shared/schema").Task & { projectName: string; category?: WorkflowCategory; openBlockerIds: string[] })[] = [];
+    // Blockers may sit in another project and are judged by that project's workflow
+    const businessTasks = allProjectData.flatMap(g => g.tasks);
+    const workflowOf = (projectId: string) => allProjectData.find(g => g.project.id === projectId)?.project.workflow;
 
     for (const { project, tasks } of allProjectData) {
       for (const t of tasks) {
-        allTasks.push({ ...t, projectName: project.name });
-        if (t.status === "Open") totalOpen++;
-        if (t.status === "In Progress") {
-          totalInProgress++;
-          const lastActivity = t.discussion?.length
-            ? new Date(t.discussion[t.discussion.length - 1].timestamp)
-            : null;
-          const statusChange = changelog.filter(c => c.taskId === t.id).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
-          const lastChange = statusChange ? new Date(statusChange.timestamp) : null;
-          const lastDate = lastActivity && lastChange ? (lastActivity > lastChange ? lastActivity : lastChange) : (lastActivity || lastChange);
-          if (!lastDate || lastDate < sevenDaysAgo) totalBlocked++;
-        }
-        if (t.status === "Done") {
+        const category = statusCategory(project.workflow, t.status);
+        const openBlockerIds = category === "done" ? [] : openBlockers(t, businessTasks, workflowOf).map(b => b.id);
+        allTasks.push({ ...t, projectName: project.name, category, openBlockerIds });
+        if (openBlockerIds.length > 0) totalBlocked++;
+        if (category === "todo") totalOpen++;
+        if (category === "in_progress") totalInProgress++;
+        if (category === "done") {
           totalDone++;
-          const doneEntry = changelog.filter(c => c.taskId === t.id && c.toStatus === "Done").sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+          const doneEntry = changelog.filter(c => c.taskId === t.id && c.toStatus === t.status).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
           if (doneEntry && new Date(doneEntry.timestamp) >= oneWeekAgo) completedThisWeek++;
         }
       }
@@ -2471,13 +2777,16 @@ ${fileList.join("\n")}`,
     let alertId = 0;
 
     for (const t of allTasks) {
-      if (t.type === "Bug" && t.status !== "Done") {
+      if (t.type === "Bug" && t.category !== "done") {
         const created = changelog.filter(c => c.taskId === t.id).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())[0];
         if (created && new Date(created.timestamp) < threeDaysAgo) {
           alerts.push({ id: `alert-${alertId++}`, severity: "critical", title: `Bug open for 3+ days`, description: `${t.id}: ${t.title} (${t.projectName})`, relatedTaskId: t.id });
         }
       }
-      if (t.status === "In Progress") {
+      if (t.priority === "High" && t.openBlockerIds.length > 0) {
+        alerts.push({ id: `alert-${alertId++}`, severity: "warning", title: `High-priority task blocked`, description: `${t.id}: ${t.title} (${t.projectName}) is waiting on ${t.openBlockerIds.join(", ")}`, relatedTaskId: t.id });
+      }
+      if (t.category === "in_progress") {
         const lastActivity = t.discussion?.length ? new Date(t.discussion[t.discussion.length - 1].timestamp) : null;
         const statusChange = changelog.filter(c => c.taskId === t.id).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
         const lastChange = statusChange ? new Date(statusChange.timestamp) : null;
@@ -2497,7 +2806,7 @@ ${fileList.join("\n")}`,
     for (const { project, tasks } of allProjectData) {
       const total = tasks.length;
       if (total === 0) continue;
-      const done = tasks.filter(t => t.status === "Done").length;
+      const done = countByCategory(project.workflow, tasks).done;
       const pct = Math.round((done / total) * 100);
       if (pct === 50) {
         alerts.push({ id: `alert-${alertId++}`, severity: "info", title: `Milestone: 50% complete`, description: `${project.name}: ${done}/${total} tasks done`, relatedProjectId: project.id });
@@ -2509,7 +2818,7 @@ ${fileList.join("\n")}`,
 
     const projectStats = allProjectData.map(({ project, tasks }) => {
       const total = tasks.length;
-      const done = tasks.filter(t => t.status === "Done").length;
+      const done = countByCategory(project.workflow, tasks).done;
       return { id: project.id, name: project.name, color: project.color, total, done, pct: total > 0 ? Math.round((done / total) * 100) : 0 };
     });
 
@@ -2551,9 +2860,8 @@ ${fileList.join("\n")}`,
     const biz = await storage.getBusiness(bizId);
     if (!biz) return res.status(404).json({ message: "Business not found" });
 
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const provider = await resolveProvider(bizId, "manager");
+    if (!provider) {
       return res.status(500).json({ message: "No AI agent configured and ANTHROPIC_API_KEY is not set." });
     }
 
@@ -2563,7 +2871,6 @@ ${fileList.join("\n")}`,
     const repos = await storage.getRepositories(bizId);
 
     const now = new Date();
-    const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
     let contextParts: string[] = [];
@@ -2571,11 +2878,8 @@ ${fileList.join("\n")}`,
 
     let projectOverview: string[] = [];
     for (const { project, tasks } of allProjectData) {
-      const open = tasks.filter(t => t.status === "Open").length;
-      const inProg = tasks.filter(t => t.status === "In Progress").length;
-      const done = tasks.filter(t => t.status === "Done").length;
-      const qr = tasks.filter(t => t.status === "Quality Review").length;
-      projectOverview.push(`- ${project.name}: ${open} open, ${inProg} in progress, ${qr} quality review, ${done} done (${tasks.length} total)`);
+      const { todo: open, in_progress: inProg, review: qr, done } = countByCategory(project.workflow, tasks);
+      projectOverview.push(`- ${project.name}: ${open} open, ${inProg} in progress, ${qr} in review, ${done} done (${tasks.length} total)`);
     }
     contextParts.push(`\nPROJECTS OVERVIEW:\n${projectOverview.join("\n")}`);
 
@@ -2583,27 +2887,25 @@ ${fileList.join("\n")}`,
     const allInProgress: string[] = [];
     const allBlocked: string[] = [];
     const allTasks: string[] = [];
+    const businessTasks = allProjectData.flatMap(g => g.tasks);
+    const workflowOf = (projectId: string) => allProjectData.find(g => g.project.id === projectId)?.project.workflow;
 
     for (const { project, tasks } of allProjectData) {
       for (const t of tasks) {
         const age = Math.floor((now.getTime() - new Date(changelog.filter(c => c.taskId === t.id).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())[0]?.timestamp || now.toISOString()).getTime()) / (1000 * 60 * 60 * 24));
-        const line = `- ${t.id}: ${t.title} (${project.name}) [${t.type}/${t.priority}] - ${age} days old`;
-        if (t.status === "Open" && t.priority === "High") allOpenHigh.push(line);
-        if (t.status === "In Progress") {
-          allInProgress.push(line);
-          const lastDiscussion = t.discussion?.length ? new Date(t.discussion[t.discussion.length - 1].timestamp) : null;
-          const lastStatusChange = changelog.filter(c => c.taskId === t.id).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
-          const lastChange = lastStatusChange ? new Date(lastStatusChange.timestamp) : null;
-          const lastDate = lastDiscussion && lastChange ? (lastDiscussion > lastChange ? lastDiscussion : lastChange) : (lastDiscussion || lastChange);
-          if (!lastDate || lastDate < sevenDaysAgo) allBlocked.push(line);
-        }
-        if (t.status !== "Done") allTasks.push(line);
+        const line = `- ${t.id}: ${t.title} (${project.name}) [${t.type}/${t.priority}/${t.status}] - ${age} days old`;
+        const category = statusCategory(project.workflow, t.status);
+        if (category === "todo" && t.priority === "High") allOpenHigh.push(line);
+        if (category === "in_progress") allInProgress.push(line);
+        const blockers = category === "done" ? [] : openBlockers(t, businessTasks, workflowOf);
+        if (blockers.length > 0) allBlocked.push(`${line} - blocked by ${blockers.map(b => `${b.id} (${b.status})`).join(", ")}`);
+        if (category !== "done") allTasks.push(line);
       }
     }
 
     if (allOpenHigh.length > 0) contextParts.push(`\nOPEN HIGH PRIORITY TASKS:\n${allOpenHigh.join("\n")}`);
     if (allInProgress.length > 0) contextParts.push(`\nIN PROGRESS TASKS:\n${allInProgress.join("\n")}`);
-    if (allBlocked.length > 0) contextParts.push(`\nBLOCKED TASKS (no activity in 7+ days):\n${allBlocked.join("\n")}`);
+    if (allBlocked.length > 0) contextParts.push(`\nBLOCKED TASKS (waiting on unfinished blockers):\n${allBlocked.join("\n")}`);
 
     const pendingInbox = inboxItems.filter(i => i.status === "New" || i.status === "Reviewed");
     if (pendingInbox.length > 0) {
@@ -2613,13 +2915,15 @@ ${fileList.join("\n")}`,
 
     const recentChanges = changelog.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).slice(0, 20);
     if (recentChanges.length > 0) {
-      const changeLines = recentChanges.map(c => `- ${c.taskTitle}: ${c.fromStatus} → ${c.toStatus} (${new Date(c.timestamp).toLocaleDateString()})`);
+      const changeLines = recentChanges.map(c => `- ${c.taskTitle}: ${c.fromStatus || "created"} → ${c.toStatus}${c.actor ? ` by ${c.actor}${c.actorName ? ` (${c.actorName})` : ""}` : ""} (${new Date(c.timestamp).toLocaleDateString()})`);
       contextParts.push(`\nRECENT ACTIVITY:\n${changeLines.join("\n")}`);
     }
 
-    const completedThisWeek = changelog.filter(c => c.toStatus === "Done" && new Date(c.timestamp) >= oneWeekAgo);
+    // Any status a project files under "done" counts as a completion
+    const doneStatuses = new Set(allProjectData.flatMap(({ project }) => project.workflow.statuses.filter(st => st.category === "done").map(st => st.name)));
+    const completedThisWeek = changelog.filter(c => doneStatuses.has(c.toStatus) && new Date(c.timestamp) >= oneWeekAgo);
     const lastWeek = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
-    const completedLastWeek = changelog.filter(c => c.toStatus === "Done" && new Date(c.timestamp) >= lastWeek && new Date(c.timestamp) < oneWeekAgo);
+    const completedLastWeek = changelog.filter(c => doneStatuses.has(c.toStatus) && new Date(c.timestamp) >= lastWeek && new Date(c.timestamp) < oneWeekAgo);
     contextParts.push(`\nVELOCITY:\nCompleted this week: ${completedThisWeek.length}\nCompleted last week: ${completedLastWeek.length}\nTrend: ${completedThisWeek.length > completedLastWeek.length ? "Improving" : completedThisWeek.length < completedLastWeek.length ? "Declining" : "Stable"}`);
 
     if (repos.length > 0) {
@@ -2729,12 +3033,22 @@ ${fileList.join("\n")}`,
             projectFocusContext += `Type: ${t.type} | Priority: ${t.priority}`;
             if (t.filePath) projectFocusContext += ` | File: ${t.filePath}`;
             if (t.dependencies && t.dependencies.length > 0) {
-              const depNames = t.dependencies.map(dId => {
-                const dt = fpTasks.find(x => x.id === dId);
-                return dt ? `${dId} (${dt.title})` : dId;
+              const depNames = t.dependencies.map(ref => {
+                const group = allProjectData.find(pd => pd.project.id === ref.projectId);
+                const dt = group?.tasks.find(x => x.id === ref.taskId);
+                if (!group || !dt) return ref.taskId;
+                return group.project.id === fp.id ? `${dt.id} (${dt.title})` : `${dt.id} (${dt.title}, in project ${group.project.name})`;
               });
               projectFocusContext += `\nLinked to: ${depNames.join(", ")}`;
             }
+            if (t.blockedBy && t.blockedBy.length > 0) {
+              const blockerNames = blockersOf(t, allProjectData.flatMap(pd => pd.tasks)).map(b => {
+                if (b.projectId === fp.id) return `${b.id} (${b.status})`;
+                const group = allProjectData.find(pd => pd.project.id === b.projectId);
+                return `${b.id} (${b.status}, in project ${group?.project.name})`;
+              });
+              if (blockerNames.length > 0) projectFocusContext += `\nBlocked by: ${blockerNames.join(", ")}`;
+            }
             projectFocusContext += `\nDescription: ${t.description || "None"}`;
             if (t.reasoning) projectFocusContext += `\nReasoning: ${t.reasoning}`;
             if (t.fixSteps) projectFocusContext += `\nFix Steps: ${t.fixSteps}`;
@@ -2759,7 +3073,7 @@ ACTION:CREATE_TASK
 {"projectId":"P1","projectName":"Project Name","title":"...","type":"Bug|Task|Feature","priority":"High|Medium|Low","description":"...","reasoning":"...","fixSteps":"1. ...","replitPrompt":""}
 
 ACTION:UPDATE_TASK_STATUS
-{"taskId":"TASK-001","taskTitle":"...","newStatus":"In Progress|Quality Review|Done","reason":"..."}
+{"taskId":"TASK-001","taskTitle":"...","newStatus":"a status from the task's project workflow","reason":"..."}
 
 ACTION:CREATE_PROJECT
 {"name":"...","description":"...","color":"#58a6ff"}
@@ -2768,7 +3082,7 @@ ACTION:BULK_UPDATE_REPOSITORY
 {"projectId":"P1","projectName":"Project Name","repositoryId":"R1","repositoryName":"Repo Name","onlyUnlinked":true}
 
 ACTION:MOVE_TASK
-{"taskId":"TASK-001","taskTitle":"...","fromProjectId":"P1","fromProjectName":"Source Project","toProjectId":"P2","toProjectName":"Target Project","reason":"..."}
+{"taskId":"TASK-001","taskTitle":"...","fromProjectId":"P1","fromProjectName":"Source Project","toProjectId":"P2","toProjectName":"Target Project","status":"Open","reason":"..."}
 
 ACTION:GENERATE_CODE_FIX
 {"taskId":"TASK-001","taskTitle":"Task title here","projectId":"P1","instructions":"Describe the specific code change to make"}
@@ -2782,7 +3096,7 @@ RULES:
 - For UPDATE_TASK_STATUS, use ONLY actual task IDs that appear in the context above (e.g. ARCH-001, MOB-001, BUG-001, etc.). NEVER invent or guess task IDs.
 - If you cannot find the exact task ID for a status update, do NOT propose the action
 - For BULK_UPDATE_REPOSITORY, use ONLY real project IDs and repository IDs from the AVAILABLE lists below. This action links all unlinked tasks in a project to a specified repository.
-- For MOVE_TASK, use ONLY actual task IDs and real project IDs from the AVAILABLE lists. Include fromProjectId (the task's current project) and toProjectId (the destination project). Always provide the reason for moving.
+- For MOVE_TASK, use ONLY actual task IDs and real project IDs from the AVAILABLE lists. Include fromProjectId (the task's current project) and toProjectId (the destination project). Include status (one of the destination project's statuses) when the task's current status does not exist there; otherwise omit it. Always provide the reason for moving.
 - For GENERATE_CODE_FIX, include the task's actual taskId, taskTitle, its projectId, and detailed instructions about what code change to make. Use this when the user asks you to fix, implement, or change code for a specific task.
 
 CRITICAL - CODE GENERATION RULE (HIGHEST PRIORITY):
@@ -2792,7 +3106,7 @@ You MUST NEVER write code blocks (\`\`\`) in your responses. You CANNOT write co
 3. STOP. Do not write any code. No typescript, no sql, no bash, no json code blocks. NONE.
 If you write code blocks in your response, the user will see useless text they cannot execute. Only ACTION:GENERATE_CODE_FIX creates real files and Pull Requests.`;
 
-    const projectList = allProjectData.map(p => `  ${p.project.id}: ${p.project.name}${p.project.defaultRepositoryId ? ` (default repo: ${p.project.defaultRepositoryId})` : ""}`).join("\n");
+    const projectList = allProjectData.map(p => `  ${p.project.id}: ${p.project.name}${p.project.defaultRepositoryId ? ` (default repo: ${p.project.defaultRepositoryId})` : ""} — statuses: ${describeWorkflow(p.project.workflow)}`).join("\n");
     const repoList = (await storage.getRepositories(bizId)).map(r => `  ${r.id}: ${r.name} (${r.type})`).join("\n");
     const projectRef = `\n\nAVAILABLE PROJECTS:\n${projectList}\n\nAVAILABLE REPOSITORIES:\n${repoList || "  (none)"}`;
 
@@ -2845,22 +3159,16 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
 
     try {
       const maxTokens = fileContents.length > 0 || imageAttachments.length > 0 ? 4096 : 3000;
-      const anthropic = new Anthropic({ apiKey });
-
-      const userContent: any[] = [{ type: "text", text: userPrompt }];
+      const userContent: LLMContentBlock[] = [{ type: "text", text: userPrompt }];
       for (const img of imageAttachments) {
-        const mediaType = img.type as "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+        const mediaType = img.type as LLMImageMediaType;
         if (["image/png", "image/jpeg", "image/gif", "image/webp"].includes(img.type)) {
-          userContent.push({
-            type: "image",
-            source: { type: "base64", media_type: mediaType, data: img.content },
-          });
+          userContent.push({ type: "image", mediaType, data: img.content });
         }
       }
 
-      const aiMsg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: maxTokens,
+      const aiMsg = await provider.complete({
+        maxTokens: maxTokens,
         system: systemPrompt,
         messages: [
           ...(previousConversation && chatMode === "chat" ? [
@@ -2871,10 +3179,7 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
         ],
       });
 
-      const responseText = aiMsg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      const responseText = aiMsg.text;
 
       const extractJsonBlock = (text: string, fromIdx: number): { json: string; endIdx: number } | null => {
         let startIdx = fromIdx;
@@ -3022,9 +3327,11 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
           const projectId = data.projectId;
           const project = await storage.getProject(bizId, projectId);
           if (!project) return res.status(400).json({ message: `Project ${projectId} not found` });
+          if (!(await isBusinessRepository(bizId, data.repositoryId))) {
+            return res.status(400).json({ message: `Repository ${data.repositoryId} not found` });
+          }
           const task = await storage.createTask(projectId, {
             type: data.type || "Task",
-            status: "Open",
             priority: data.priority || "Medium",
             title: data.title || "Untitled Task",
             description: data.description || "",
@@ -3043,25 +3350,20 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
           if (!data.newStatus) return res.status(400).json({ message: "newStatus is required for updating task status" });
           const taskId = data.taskId;
           const newStatus = data.newStatus;
-          const validStatuses = ["Open", "In Progress", "Quality Review", "Done"];
-          if (!validStatuses.includes(newStatus)) {
-            return res.status(400).json({ message: `Invalid status: ${newStatus}` });
-          }
           const allProjectData = await storage.getAllTasksForBusiness(bizId);
           let updatedTask: any = null;
           for (const { project, tasks } of allProjectData) {
             const task = tasks.find(t => t.id === taskId);
             if (task) {
-              const oldStatus = task.status;
-              updatedTask = await storage.updateTask(project.id, taskId, { status: newStatus } as any, bizId);
-              if (updatedTask && oldStatus !== newStatus) {
-                await storage.addChangelogEntry(bizId, {
-                  taskId: updatedTask.id,
-                  taskTitle: updatedTask.title,
-                  fromStatus: oldStatus,
-                  toStatus: newStatus,
-                  timestamp: new Date().toISOString(),
-                });
+              try {
+                const transition = await transitionTask(bizId, project.id, taskId, newStatus, { actor: "manager", name: req.user?.username }, { force: data.force === true });
+                updatedTask = transition?.task ?? null;
+              } catch (err) {
+                if (err instanceof InvalidTransitionError) return res.status(400).json({ message: err.message });
+                if (err instanceof BlockedTransitionError) {
+                  return res.status(409).json({ message: err.message, blockers: err.blockers.map(b => ({ id: b.id, title: b.title, status: b.status })) });
+                }
+                throw err;
               }
               break;
             }
@@ -3072,6 +3374,9 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
         }
         case "CREATE_PROJECT": {
           if (!data.name) return res.status(400).json({ message: "name is required for creating a project" });
+          if (!(await isBusinessRepository(bizId, data.defaultRepositoryId))) {
+            return res.status(400).json({ message: `Repository ${data.defaultRepositoryId} not found` });
+          }
           const project = await storage.createProject(bizId, {
             name: data.name || "New Project",
             description: data.description || "",
@@ -3103,9 +3408,18 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
           const moveToProject = await storage.getProject(bizId, data.toProjectId);
           if (!moveToProject) return res.status(400).json({ message: `Target project ${data.toProjectId} not found` });
           if (data.fromProjectId === data.toProjectId) return res.status(400).json({ message: "Source and target projects are the same" });
-          const movedTask = await storage.moveTask(data.fromProjectId, data.toProjectId, data.taskId);
-          if (!movedTask) return res.status(404).json({ message: `Task ${data.taskId} not found in project ${data.fromProjectId}` });
-          result = { type: "moveTask", task: movedTask, fromProject: moveFromProject.name, toProject: moveToProject.name };
+          let moveOutcome: Awaited<ReturnType<typeof moveTaskToProject>>;
+          try {
+            moveOutcome = await moveTaskToProject(bizId, data.fromProjectId, moveToProject, data.taskId, data.status || undefined, { actor: "manager", name: req.user?.username }, { force: data.force === true });
+          } catch (err) {
+            if (err instanceof InvalidTransitionError) return res.status(400).json({ message: err.message });
+            if (err instanceof BlockedTransitionError) {
+              return res.status(409).json({ message: err.message, blockers: err.blockers.map(b => ({ id: b.id, title: b.title, status: b.status })) });
+            }
+            throw err;
+          }
+          if ("code" in moveOutcome) return res.status(moveOutcome.code).json({ message: moveOutcome.message, statuses: moveOutcome.statuses });
+          result = { type: "moveTask", task: moveOutcome.task, fromProject: moveFromProject.name, toProject: moveToProject.name };
           break;
         }
         default:
@@ -3150,16 +3464,27 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
     res.json({ success: true });
   });
 
-  // Agent loop: streams steps via SSE as the AI reads, writes, and creates PRs
+  // Agent loop: starts a persisted run and streams its steps via SSE (the first event carries the run ID)
   app.post("/api/businesses/:bizId/manager/agent-run", async (req, res) => {
     const bizId = req.params.bizId;
-    const { taskId, projectId, instructions, deployMode } = req.body;
+    const { taskId, projectId, instructions, deployMode, reviewBeforeDeploy } = req.body;
     const mode = deployMode === "pr" ? "pr" : "push";
 
     if (!taskId) {
       return res.status(400).json({ message: "taskId is required" });
     }
 
+    let requestedBudget: AgentBudget;
+    try {
+      requestedBudget = agentBudgetSchema.parse(req.body.budget || {});
+    } catch (err: any) {
+      return res.status(400).json({ message: err.message });
+    }
+
+    // The body's project ID is only trusted once it is known to belong to this business
+    if (projectId && !(await storage.getProject(bizId, projectId))) {
+      return res.status(404).json({ message: "Project not found" });
+    }
     let task = projectId ? await storage.getTask(projectId, taskId) : undefined;
     let resolvedProjectId = projectId;
     if (!task) {
@@ -3175,13 +3500,12 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
     }
     if (!task) return res.status(404).json({ message: "Task not found" });
 
-    const reviewAgent = await storage.getReviewAgent(bizId);
-    const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) return res.status(500).json({ message: "No AI agent configured." });
+    const provider = await resolveProvider(bizId, "agent_run");
+    if (!provider) return res.status(500).json({ message: "No AI agent configured." });
 
     // Find repo
-    let repo: any = null;
-    if (task.repositoryId) repo = await storage.getRepositoryWithToken(task.repositoryId);
+    let repo: Repository | null | undefined = null;
+    if (task.repositoryId) repo = await businessRepositoryWithToken(req.params.bizId, task.repositoryId);
     if (!repo) {
       const bizRepos = await storage.getRepositoriesWithTokens(bizId);
       if (bizRepos.length >= 1) {
@@ -3191,25 +3515,27 @@ Your role is to:\n- Help prioritize work based on business impact and urgency\n-
           : null) || bizRepos[0];
       }
     }
-    if (!repo || !repo.token || !repo.owner || !repo.repo) {
+    if (!canRunAgentOn(repo)) {
       return res.status(400).json({ message: "No GitHub repository configured." });
     }
 
     // Build context from linked tasks
     let depContext = "";
     if (task.dependencies && task.dependencies.length > 0) {
-      const depTasks = [];
-      for (const depId of task.dependencies) {
-        const dt = await storage.getTask(projectId, depId);
-        if (dt) depTasks.push(dt);
-      }
+      const depTasks = await storage.getTasksByReference(bizId, task.dependencies);
       if (depTasks.length > 0) {
-        depContext = "\n\nLINKED TASKS:\n" + depTasks.map(dt =>
-          `- [${dt.id}] ${dt.title} (${dt.status}): ${dt.description.slice(0, 200)}`
+        depContext = "\n\nLINKED TASKS:\n" + depTasks.map(({ task: dt, project: dp }) =>
+          `- ${linkedTaskHeading(dt, dp, task.projectId)} (${dt.status}): ${dt.description.slice(0, 200)}`
         ).join("\n");
       }
     }
 
+    const agentCommands: AgentCommand[] = repo.agentCommands || [];
+    const requiredChecks = agentCommands.filter(c => c.requiredForDeploy).map(c => c.command);
+    const checksGuidance = agentCommands.length > 0 && sandboxConfigured()
+      ? `Use run_command to run the repository's checks (${agentCommands.map(c => c.command).join(", ")}) after writing files and fix any failures${requiredChecks.length > 0 ? `; deploys are refused until ${requiredChecks.join(", ")} pass` : ""}`
+      : "Test your logic mentally before writing";
+
     const systemPrompt = `You are a senior software developer working on the ${repo.owner}/${repo.repo} repository. You have tools to read files, list directories, search code, write files, and create Pull Requests.
 
 YOUR TASK:
@@ -3225,97 +3551,159 @@ ${instructions ? `\nADDITIONAL INSTRUCTIONS: ${instructions}` : ""}
 WORKFLOW:
 1. First, use list_directory and read_file to explore the codebase and understand the existing patterns, structure, and conventions
 2. Plan your changes
-3. Use write_file for each file you need to create or modify (provide COMPLETE file content)
+3. Use apply_edit for targeted changes to existing files, and write_file for new files or complete rewrites (provide COMPLETE file content)
 4. When all files are ready, use ${mode === "push" ? "commit_and_push to push directly to main" : "create_pull_request to submit your changes"}
 5. Keep your thinking concise — explain what you're doing and why
 
-CRITICAL: You MUST call ${mode === "push" ? "commit_and_push" : "create_pull_request"} when you are done writing files. Do NOT stop without deploying your changes. After all write_file calls, immediately call ${mode === "push" ? "commit_and_push" : "create_pull_request"}.
+CRITICAL: You MUST call ${mode === "push" ? "commit_and_push" : "create_pull_request"} when you are done writing files. Do NOT stop without deploying your changes. After all apply_edit/write_file calls, immediately call ${mode === "push" ? "commit_and_push" : "create_pull_request"}.
 
 RULES:
 - Follow the existing code style and patterns in the repo
 - Write production-quality code
 - Include all necessary imports and dependencies
-- Test your logic mentally before writing
+- ${checksGuidance}
 - ${mode === "push" ? "Push directly to main with a clear commit message" : "Create a clear, descriptive PR"}`;
 
     const userMessage = instructions
       ? `Implement the task: ${task.title}. ${instructions}. When done, ${mode === "push" ? "commit and push directly to main" : "create a pull request"}.`
       : `Implement the task: ${task.title}. Read the codebase first to understand the patterns, then make the changes and ${mode === "push" ? "commit and push directly to main" : "create a pull request"}.`;
 
-    // SSE headers
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-    res.setHeader("X-Accel-Buffering", "no");
-    res.flushHeaders();
-
     const { runAgentLoop } = await import("./agentLoop");
-    const { executeCommitAndPush } = await import("./agentTools");
 
-    try {
-      let result = await runAgentLoop({
-        apiKey,
-        repo: { owner: repo.owner, repo: repo.repo, token: repo.token },
-        systemPrompt,
-        userMessage,
-        deployMode: mode,
-        onStep: (step) => {
-          res.write(`data: ${JSON.stringify(step)}\n\n`);
-        },
-      });
+    const run = await storage.createAgentRun(bizId, {
+      taskId: task.id,
+      projectId: resolvedProjectId,
+      deployMode: mode,
+      reviewBeforeDeploy: reviewBeforeDeploy === true,
+      instructions: instructions || "",
+      budget: effectiveAgentBudget(await storage.getAgentBudget(bizId), requestedBudget),
+    });
 
-      // Fallback: agent stopped without deploying — auto-push staged files to main
-      if (
-        result.pendingWrites.length > 0 &&
-        !result.prUrl &&
-        !result.pushSha
-      ) {
-        res.write(`data: ${JSON.stringify({ type: "thinking", content: "Agent stopped without deploying. Auto-pushing staged files to main..." })}\n\n`);
-        try {
-          const pushResult = await executeCommitAndPush(
-            { owner: repo.owner, repo: repo.repo, token: repo.token },
-            result.pendingWrites,
-            `[${task.id}] ${task.title}`,
-          );
-          result = { ...result, pushSha: pushResult.sha };
-          res.write(`data: ${JSON.stringify({
-            type: "pr_created",
-            content: `Pushed ${pushResult.filesCommitted} file(s) to main. Commit: ${pushResult.sha.slice(0, 7)}`,
-            branchName: `main (${pushResult.sha.slice(0, 7)})`,
-          })}\n\n`);
-        } catch (pushErr: any) {
-          res.write(`data: ${JSON.stringify({ type: "error", content: `Auto-push failed: ${pushErr.message}` })}\n\n`);
+    // The loop runs detached from this request so closing the tab does not stop it
+    launchAgentRun(run, async (emit, requestApproval) => {
+      const repoContext = createRepoContext(repo);
+      try {
+        let result = await runAgentLoop({
+          provider,
+          repo: repoContext,
+          systemPrompt,
+          userMessage,
+          deployMode: mode,
+          onStep: emit,
+          requestApproval: run.reviewBeforeDeploy ? requestApproval : undefined,
+          commands: repo.agentCommands || [],
+          budget: run.budget,
+        });
+
+        // Fallback: agent stopped without deploying. Only unreviewed push-mode runs push to main; PR-mode
+        // runs open a pull request instead. A run that was cut off (budget, failed model request) or set to
+        // review before deploy never deploys here, because its staged files were not finished or not approved.
+        const undeployed = result.pendingWrites.length > 0 && !result.prUrl && !result.pushSha;
+        if (result.deployBlocked) {
+          emit({ type: "error", content: `${result.deployBlocked} — staged files were not pushed.` });
+        } else if (undeployed && (result.budgetExceeded || result.aborted || run.reviewBeforeDeploy)) {
+          emit({ type: "thinking", content: "Agent stopped without deploying. Staged files were left undeployed." });
+        } else if (undeployed && mode === "pr") {
+          emit({ type: "thinking", content: "Agent stopped without deploying. Opening a pull request with the staged files..." });
+          const branchName = `agent/${task.id.toLowerCase()}-${run.id.slice(0, 8)}`;
+          try {
+            const pr = await repoContext.createPullRequest(
+              result.pendingWrites,
+              `[${task.id}] ${task.title}`,
+              `Changes staged by the agent for ${task.id}. The agent stopped without opening this pull request itself.`,
+              branchName,
+            );
+            result = { ...result, prUrl: pr.url, prNumber: pr.number };
+            emit({ type: "pr_created", prUrl: pr.url, prNumber: pr.number, branchName, content: `Pull Request #${pr.number} created: ${pr.url}` });
+          } catch (prErr: any) {
+            emit({ type: "error", content: `Opening a pull request failed: ${prErr.message}` });
+          }
+        } else if (undeployed) {
+          emit({ type: "thinking", content: "Agent stopped without deploying. Auto-pushing staged files to main..." });
+          try {
+            const pushResult = await repoContext.commitAndPush(
+              result.pendingWrites,
+              `[${task.id}] ${task.title}`,
+            );
+            result = { ...result, pushSha: pushResult.sha };
+            emit({
+              type: "pr_created",
+              content: `Pushed ${pushResult.filesCommitted} file(s) to main. Commit: ${pushResult.sha.slice(0, 7)}`,
+              branchName: `main (${pushResult.sha.slice(0, 7)})`,
+            });
+          } catch (pushErr: any) {
+            emit({ type: "error", content: `Auto-push failed: ${pushErr.message}` });
+          }
         }
-      }
 
-      // Save a summary message to manager history
-      const filesChanged = result.pendingWrites.map(f => f.path);
-      let summaryContent: string;
-      if (result.prUrl) {
-        summaryContent = `**Agent completed task [${task.id}] ${task.title}**\n\nCreated PR #${result.prNumber}: ${result.prUrl}\n\n**Files changed:** ${filesChanged.join(", ")}`;
-      } else if (result.pushSha) {
-        summaryContent = `**Agent deployed [${task.id}] ${task.title}** to main\n\nCommit: \`${result.pushSha.slice(0, 7)}\`\n\n**Files pushed:** ${filesChanged.join(", ")}\n\n*Pull from Replit to see the changes live.*`;
-      } else {
-        summaryContent = `**Agent worked on [${task.id}] ${task.title}**\n\n**Files staged:** ${filesChanged.length > 0 ? filesChanged.join(", ") : "None"}`;
+        // Save a summary message to manager history, linked to the full run for replay
+        const filesChanged = result.pendingWrites.map(f => f.path);
+        let summaryContent: string;
+        if (result.prUrl) {
+          summaryContent = `**Agent completed task [${task.id}] ${task.title}**\n\nCreated PR #${result.prNumber}: ${result.prUrl}\n\n**Files changed:** ${filesChanged.join(", ")}`;
+        } else if (result.pushSha) {
+          summaryContent = `**Agent deployed [${task.id}] ${task.title}** to main\n\nCommit: \`${result.pushSha.slice(0, 7)}\`\n\n**Files pushed:** ${filesChanged.join(", ")}\n\n*Pull from Replit to see the changes live.*`;
+        } else {
+          summaryContent = `**Agent worked on [${task.id}] ${task.title}**\n\n**Files staged:** ${filesChanged.length > 0 ? filesChanged.join(", ") : "None"}`;
+        }
+        if (result.budgetExceeded) {
+          summaryContent += `\n\n*Stopped early: reached the ${result.budgetExceeded}.*`;
+        } else if (result.aborted) {
+          summaryContent += `\n\n*Stopped early: ${result.aborted}.*`;
+        }
+
+        await storage.addManagerMessage(bizId, {
+          sender: "manager",
+          content: summaryContent,
+          timestamp: new Date().toISOString(),
+          mode: "chat",
+          actions: [],
+          filesLoaded: filesChanged.map(p => ({ path: p, repo: `${repo.owner}/${repo.repo}` })),
+          attachments: [],
+          agentRunId: run.id,
+        });
+
+        return { prUrl: result.prUrl, prNumber: result.prNumber, pushSha: result.pushSha, budgetExceeded: result.budgetExceeded };
+      } finally {
+        await repoContext.dispose().catch(err => console.error("[agent-run] Workspace cleanup failed:", err));
       }
+    });
 
-      await storage.addManagerMessage(bizId, {
-        sender: "manager",
-        content: summaryContent,
-        timestamp: new Date().toISOString(),
-        mode: "chat",
-        actions: [],
-        filesLoaded: filesChanged.map(p => ({ path: p, repo: `${repo.owner}/${repo.repo}` })),
-        attachments: [],
-      });
+    await streamAgentRun(run.id, res);
+  });
+
+  app.get("/api/businesses/:bizId/agent-runs", async (req, res) => {
+    const taskId = typeof req.query.taskId === "string" ? req.query.taskId : undefined;
+    res.json(await storage.getAgentRuns(req.params.bizId, taskId));
+  });
+
+  app.get("/api/businesses/:bizId/agent-runs/:runId", async (req, res) => {
+    const run = await storage.getAgentRun(req.params.bizId, req.params.runId);
+    if (!run) return res.status(404).json({ message: "Agent run not found" });
+    res.json({ ...run, steps: await loadAgentRunSteps(run.id) });
+  });
 
-      res.write(`data: ${JSON.stringify({ type: "complete", prUrl: result.prUrl, prNumber: result.prNumber, pushSha: result.pushSha })}\n\n`);
+  // Resume a run paused in review-before-deploy mode
+  app.post("/api/businesses/:bizId/agent-runs/:runId/approval", async (req, res) => {
+    let decision: AgentApprovalDecision;
+    try {
+      decision = agentApprovalDecisionSchema.parse(req.body);
     } catch (err: any) {
-      console.error("[agent-run] Error:", err);
-      res.write(`data: ${JSON.stringify({ type: "error", content: err.message || "Agent loop failed" })}\n\n`);
+      return res.status(400).json({ message: err.message });
+    }
+    const run = await storage.getAgentRun(req.params.bizId, req.params.runId);
+    if (!run) return res.status(404).json({ message: "Agent run not found" });
+    if (!submitAgentRunApproval(run.id, decision)) {
+      return res.status(409).json({ message: "This run is not waiting for approval" });
     }
+    res.json({ success: true });
+  });
 
-    res.end();
+  // Reattach to a live run (or replay a finished one) as the same SSE feed agent-run produces
+  app.get("/api/businesses/:bizId/agent-runs/:runId/stream", async (req, res) => {
+    const run = await storage.getAgentRun(req.params.bizId, req.params.runId);
+    if (!run) return res.status(404).json({ message: "Agent run not found" });
+    await streamAgentRun(run.id, res);
   });
 
   // Manager generates a code fix for a task and returns it as a manager message
@@ -3347,13 +3735,12 @@ RULES:
         }
       }
 
-      const reviewAgent = await storage.getReviewAgent(bizId);
-      const apiKey = reviewAgent?.apiKey || process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) return res.status(500).json({ message: "No AI agent configured." });
+      const provider = await resolveProvider(bizId, "code_fix");
+      if (!provider) return res.status(500).json({ message: "No AI agent configured." });
 
       // Find repo
       let repo: any = null;
-      if (task?.repositoryId) repo = await storage.getRepositoryWithToken(task.repositoryId);
+      if (task?.repositoryId) repo = await businessRepositoryWithToken(req.params.bizId, task.repositoryId);
       if (!repo) {
         const bizRepos = await storage.getRepositoriesWithTokens(bizId);
         if (bizRepos.length >= 1) {
@@ -3446,14 +3833,10 @@ RULES:
       // Build context with linked tasks
       let depContext = "";
       if (task?.dependencies && task.dependencies.length > 0) {
-        const depTasks = [];
-        for (const depId of task.dependencies) {
-          const dt = await storage.getTask(resolvedProjectId, depId);
-          if (dt) depTasks.push(dt);
-        }
+        const depTasks = await storage.getTasksByReference(bizId, task.dependencies);
         if (depTasks.length > 0) {
-          depContext = "\n\nLINKED TASKS:\n" + depTasks.map(dt =>
-            `- [${dt.id}] ${dt.title} (${dt.status}): ${dt.description.slice(0, 200)}`
+          depContext = "\n\nLINKED TASKS:\n" + depTasks.map(({ task: dt, project: dp }) =>
+            `- ${linkedTaskHeading(dt, dp, task.projectId)} (${dt.status}): ${dt.description.slice(0, 200)}`
           ).join("\n");
         }
       }
@@ -3501,20 +3884,15 @@ Rules:
 - The commit message should be concise and descriptive
 - Use the repository file structure to determine correct paths for new files`;
 
-      const anthropic = new Anthropic({ apiKey });
-      const aiMsg = await anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 16384,
-        messages: [{ role: "user", content: "Generate the code fix now. Respond with ONLY the JSON object." }],
+      const aiMsg = await provider.complete({
+        maxTokens: 16384,
+        messages: [{ role: "user", content: await withAttachmentImages("Generate the code fix now. Respond with ONLY the JSON object.", bizId, task?.attachments || []) }],
         system: systemPrompt,
       });
 
-      const responseText = aiMsg.content
-        .filter((block): block is Anthropic.TextBlock => block.type === "text")
-        .map((block) => block.text)
-        .join("");
+      const responseText = aiMsg.text;
 
-      const wasTruncated = aiMsg.stop_reason === "max_tokens";
+      const wasTruncated = aiMsg.stopReason === "max_tokens";
 
       let parsed: any;
       try {
@@ -3604,95 +3982,52 @@ Rules:
         return res.status(400).json({ message: "No GitHub repository configured." });
       }
 
-      const headers = {
-        Authorization: `token ${repo.token}`,
-        Accept: "application/vnd.github.v3+json",
-        "User-Agent": "AI-Dev-Hub",
-        "Content-Type": "application/json",
-      };
-
       const safeBranchName = branchName || `ai-fix/${codeFix.taskId.toLowerCase()}`;
-
-      // 1. Get default branch SHA
-      const repoRes = await fetch(`https://api.github.com/repos/${repo.owner}/${repo.repo}`, { headers });
-      if (!repoRes.ok) return res.status(500).json({ message: "Failed to fetch repository info" });
-      const repoInfo = await repoRes.json();
-      const defaultBranch = repoInfo.default_branch || "main";
-
-      const refRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs/heads/${defaultBranch}`,
-        { headers }
-      );
-      if (!refRes.ok) return res.status(500).json({ message: "Failed to get branch reference" });
-      const refData = await refRes.json();
-      const baseSha = refData.object.sha;
-
-      // 2. Create new branch
-      const createBranchRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/git/refs`,
-        { method: "POST", headers, body: JSON.stringify({ ref: `refs/heads/${safeBranchName}`, sha: baseSha }) }
-      );
-      if (!createBranchRes.ok) {
-        const err = await createBranchRes.json();
-        return res.status(500).json({ message: `Failed to create branch: ${err.message || "Unknown error"}` });
-      }
-
-      // 3. Commit each file
-      for (const file of codeFix.files) {
-        const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
-        const fileRes = await fetch(
-          `https://api.github.com/repos/${repo.owner}/${repo.repo}/contents/${encodedPath}?ref=${safeBranchName}`,
-          { headers }
-        );
-        let fileSha: string | undefined;
-        if (fileRes.ok) { fileSha = (await fileRes.json()).sha; }
-
-        const updateRes = await fetch(
-          `https://api.github.com/repos/${repo.owner}/${repo.repo}/contents/${encodedPath}`,
-          {
-            method: "PUT", headers,
-            body: JSON.stringify({
-              message: `${codeFix.commitMessage} - ${file.path}`,
-              content: Buffer.from(file.newContent).toString("base64"),
-              branch: safeBranchName,
-              ...(fileSha ? { sha: fileSha } : {}),
-            }),
-          }
-        );
-        if (!updateRes.ok) {
-          const err = await updateRes.json();
-          return res.status(500).json({ message: `Failed to update ${file.path}: ${err.message}` });
-        }
+      const repoRef = { owner: repo.owner, repo: repo.repo, token: repo.token };
+
+      // Files may have changed on the default branch since the fix was generated
+      const rebased = await rebaseCodeFix(repoRef, codeFix.files);
+      if (rebased.conflicts.length > 0) {
+        return res.status(409).json({
+          message: `The code changed on ${rebased.base.branch} since this fix was generated and could not be merged: ${describeConflicts(rebased.conflicts, rebased.base.branch)}. Generate the fix again against the latest code.`,
+          conflicts: rebased.conflicts,
+        });
       }
 
-      // 4. Create PR
+      // One commit on a fresh branch, then the PR; the branch is removed again if the PR fails
       const taskTitle = task?.title || codeFix.taskId;
-      const prBody = `## ${codeFix.description}\n\n**Task:** ${codeFix.taskId} — ${taskTitle}\n\n### Changes\n${codeFix.files.map((f: CodeFixFile) => `- \`${f.path}\`: ${f.description}`).join("\n")}\n\n---\n*Generated by AI Dev Hub Manager*`;
-
-      const prRes = await fetch(
-        `https://api.github.com/repos/${repo.owner}/${repo.repo}/pulls`,
-        {
-          method: "POST", headers,
-          body: JSON.stringify({
-            title: `[${codeFix.taskId}] ${codeFix.commitMessage}`,
-            body: prBody,
-            head: safeBranchName,
-            base: defaultBranch,
-          }),
-        }
-      );
-
-      if (!prRes.ok) {
-        const err = await prRes.json();
-        return res.status(500).json({ message: `Failed to create PR: ${err.message}` });
-      }
+      const mergedNote = rebased.mergedPaths.length > 0
+        ? `\n\n> Merged with changes made on \`${rebased.base.branch}\` after the fix was generated: ${rebased.mergedPaths.map(p => `\`${p}\``).join(", ")}`
+        : "";
+      const prBody = `## ${codeFix.description}\n\n**Task:** ${codeFix.taskId} — ${taskTitle}\n\n### Changes\n${codeFix.files.map((f: CodeFixFile) => `- \`${f.path}\`: ${f.description}`).join("\n")}${mergedNote}\n\n---\n*Generated by AI Dev Hub Manager*`;
+      const prTitle = `[${codeFix.taskId}] ${codeFix.commitMessage}`;
+      const pr = await createPullRequestWithChanges(repoRef, {
+        branch: safeBranchName,
+        message: prTitle,
+        changes: rebased.changes,
+        title: prTitle,
+        body: prBody,
+        base: rebased.base,
+      });
 
-      const prData = await prRes.json();
+      // Record the PR on the fix so webhook events can find and update it
+      await storage.updateManagerMessage(bizId, fixMsg.id, {
+        codeFix: {
+          ...codeFix,
+          status: "pr_created",
+          prUrl: pr.url,
+          prNumber: pr.number,
+          branchName: safeBranchName,
+          prState: "open",
+          prHeadSha: pr.headSha,
+          prUpdatedAt: new Date().toISOString(),
+        },
+      });
 
       // Save PR message
       await storage.addManagerMessage(bizId, {
         sender: "manager",
-        content: `**Pull Request Created!**\n\n**PR #${prData.number}:** [${prData.title}](${prData.html_url})\n**Branch:** \`${safeBranchName}\` → \`${defaultBranch}\`\n\n${codeFix.files.length} file${codeFix.files.length !== 1 ? "s" : ""} changed.`,
+        content: `**Pull Request Created!**\n\n**PR #${pr.number}:** [${prTitle}](${pr.url})\n**Branch:** \`${safeBranchName}\` → \`${pr.baseBranch}\`\n\n${codeFix.files.length} file${codeFix.files.length !== 1 ? "s" : ""} changed.`,
         timestamp: new Date().toISOString(),
         mode: "chat",
         actions: [],
@@ -3701,10 +4036,10 @@ Rules:
       });
 
       const allMessages = await storage.getManagerDiscussion(bizId);
-      res.json({ prUrl: prData.html_url, prNumber: prData.number, branchName: safeBranchName, messages: allMessages });
+      res.json({ prUrl: pr.url, prNumber: pr.number, branchName: safeBranchName, messages: allMessages });
     } catch (err: any) {
       console.error("[manager/create-pr] Error:", err);
-      res.status(500).json({ message: err.message || "Failed to create PR" });
+      res.status(err instanceof GitHubApiError && err.status === 409 ? 409 : 500).json({ message: err.message || "Failed to create PR" });
     }
   });
 
@@ -3718,49 +4053,30 @@ Rules:
 
   // ── Ticket Intake API ──────────────────────────────────────────────
 
-  const laneToInboxType: Record<string, string> = {
-    software_bug: "Bug",
-    improvement: "Feature",
-    ops_alert: "Alert",
-    knowledge_update: "Docs",
-  };
-
-  const urgencyToPriority: Record<string, string> = {
-    critical: "High",
-    normal: "Medium",
-  };
-
-  interface DuplicateCheckResult {
-    hasDuplicate: boolean;
-    duplicateTaskId: string | null;
-    similarity: number;
-    recommendation: "new_task" | "enrich_existing" | "likely_duplicate";
-    reasoning: string;
-  }
-
   async function detectDuplicates(
     description: string,
     tasks: { id: string; title: string; description: string }[],
-  ): Promise<DuplicateCheckResult> {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey || tasks.length === 0) {
+    provider: LLMProvider | null,
+    images: LLMContentBlock[] = [],
+  ): Promise<DuplicateCheck> {
+    if (!provider || tasks.length === 0) {
       return { hasDuplicate: false, duplicateTaskId: null, similarity: 0, recommendation: "new_task", reasoning: "No tasks to compare or API key missing" };
     }
 
-    const anthropic = new Anthropic({ apiKey });
     const taskList = tasks.map((t) => `- [${t.id}] ${t.title}: ${t.description.slice(0, 200)}`).join("\n");
+    const prompt = `New ticket description:\n${description}${images.length > 0 ? `\n(The reporter's screenshots are attached below.)` : ""}\n\nExisting open tasks:\n${taskList}\n\nReturn JSON:\n{"hasDuplicate":boolean,"duplicateTaskId":string|null,"similarity":0-100,"recommendation":"new_task"|"enrich_existing"|"likely_duplicate","reasoning":"one sentence"}`;
 
-    const response = await anthropic.messages.create({
+    const response = await provider.complete({
       model: "claude-sonnet-4-6",
-      max_tokens: 500,
+      maxTokens: 500,
       system: "You are a duplicate ticket detector. Return ONLY valid JSON, no markdown.",
       messages: [{
         role: "user",
-        content: `New ticket description:\n${description}\n\nExisting open tasks:\n${taskList}\n\nReturn JSON:\n{"hasDuplicate":boolean,"duplicateTaskId":string|null,"similarity":0-100,"recommendation":"new_task"|"enrich_existing"|"likely_duplicate","reasoning":"one sentence"}`,
+        content: images.length > 0 ? [{ type: "text", text: prompt }, ...images] : prompt,
       }],
     });
 
-    const text = response.content[0].type === "text" ? response.content[0].text : "";
+    const text = response.text;
     return JSON.parse(text);
   }
 
@@ -3768,16 +4084,15 @@ Rules:
     description: string,
     lane: string,
     projects: { id: string; name: string; description: string }[],
+    provider: LLMProvider | null,
   ): Promise<string | null> {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey || projects.length === 0) return null;
+    if (!provider || projects.length === 0) return null;
 
-    const anthropic = new Anthropic({ apiKey });
     const projectList = projects.map((p) => `- [${p.id}] ${p.name}: ${p.description.slice(0, 200)}`).join("\n");
 
-    const response = await anthropic.messages.create({
+    const response = await provider.complete({
       model: "claude-sonnet-4-6",
-      max_tokens: 200,
+      maxTokens: 200,
       system: "You are a project classifier. Return ONLY valid JSON, no markdown.",
       messages: [{
         role: "user",
@@ -3785,14 +4100,20 @@ Rules:
       }],
     });
 
-    const text = response.content[0].type === "text" ? response.content[0].text : "";
+    const text = response.text;
     const parsed = JSON.parse(text);
     return parsed.projectId || null;
   }
 
-  function generateApprovalTaskId(type: string, existingTasks: { id: string }[]): string {
-    const typeToTaskType = type === "Alert" ? "Bug" : type === "Docs" ? "Task" : type;
-    const prefix = typeToTaskType === "Bug" ? "BUG" : typeToTaskType === "Feature" ? "FEAT" : "ARCH";
+  // Improvements become features as in bulk import; ideas still need shaping, so they start as plain tasks
+  function inboxTypeToTaskType(type: string): TaskType {
+    if (type === "Bug") return "Bug";
+    if (type === "Feature" || type === "Improvement") return "Feature";
+    return "Task";
+  }
+
+  function generateApprovalTaskId(taskType: TaskType, existingTasks: { id: string }[]): string {
+    const prefix = taskType === "Bug" ? "BUG" : taskType === "Feature" ? "FEAT" : "ARCH";
     const existing = existingTasks
       .filter((t) => t.id.startsWith(prefix + "-"))
       .map((t) => parseInt(t.id.split("-")[1], 10))
@@ -3801,15 +4122,85 @@ Rules:
     return `${prefix}-${String(next).padStart(3, "0")}`;
   }
 
-  function checkPipelineApiKey(req: any): boolean {
-    const header = req.headers.authorization;
-    if (!header) return false;
-    const token = header.replace(/^Bearer\s+/i, "");
-    return token === process.env.AI_DEV_HUB_API_KEY;
+  type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+  /**
+   * Takes a pending inbox item for one outcome. Only one of two concurrent approvals, merges or
+   * rejections gets the row; false means someone else already handled it.
+   */
+  async function claimInboxItem(tx: Transaction, inboxItemId: string, updates: { status: "approved" | "merged" | "rejected"; linkedProjectId?: string; linkedTaskId?: string }): Promise<boolean> {
+    const claimed = await tx.update(inboxItemsTable).set(updates)
+      .where(and(eq(inboxItemsTable.id, inboxItemId), eq(inboxItemsTable.status, "pending_approval")))
+      .returning({ id: inboxItemsTable.id });
+    return claimed.length > 0;
+  }
+
+  /** Approves a pending inbox item and creates its task in one transaction; null if the item was already handled. */
+  async function createTaskFromInboxItem(
+    inboxItemId: string,
+    ticketId: number | null,
+    task: Pick<typeof tasksTable.$inferInsert, "projectId" | "type" | "status" | "priority" | "title" | "description" | "reasoning" | "attachments">,
+  ): Promise<string | null> {
+    return db.transaction(async (tx) => {
+      if (!(await claimInboxItem(tx, inboxItemId, { status: "approved", linkedProjectId: task.projectId }))) return null;
+      // Task IDs are unique across projects
+      const taskId = generateApprovalTaskId(task.type as TaskType, await tx.select({ id: tasksTable.id }).from(tasksTable));
+      await tx.insert(tasksTable).values({
+        ...task,
+        id: taskId,
+        source: "cool_dispatch",
+        fixSteps: "",
+        replitPrompt: "",
+        filePath: "",
+        discussion: [],
+        autoAnalysisComplete: false,
+        generatedPrompts: [],
+        dependencies: [],
+      });
+      await tx.update(inboxItemsTable).set({ linkedTaskId: taskId }).where(eq(inboxItemsTable.id, inboxItemId));
+      if (ticketId) {
+        await tx.update(ticketsTable).set({ status: "working", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+      }
+      return taskId;
+    });
+  }
+
+  /** Appends a report to an existing task and marks the inbox item merged, in one transaction; false if the item was already handled. */
+  async function mergeInboxItemIntoTask(
+    inboxItemId: string,
+    ticketId: number | null,
+    target: { projectId: string; id: string },
+    merge: (task: typeof tasksTable.$inferSelect) => Partial<Pick<Task, "description" | "attachments" | "priority">>,
+  ): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      if (!(await claimInboxItem(tx, inboxItemId, { status: "merged", linkedTaskId: target.id }))) return false;
+      const where = and(eq(tasksTable.projectId, target.projectId), eq(tasksTable.id, target.id));
+      const [row] = await tx.select().from(tasksTable).where(where).for("update");
+      if (!row) throw new Error(`Task ${target.id} no longer exists`);
+      await tx.update(tasksTable).set(merge(row)).where(where);
+      if (ticketId) {
+        await tx.update(ticketsTable).set({ status: "working", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+      }
+      return true;
+    });
+  }
+
+  /** Rejects a pending inbox item and its ticket in one transaction; false if the item was already handled. */
+  async function rejectInboxItem(inboxItemId: string, ticketId: number | null): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      if (!(await claimInboxItem(tx, inboxItemId, { status: "rejected" }))) return false;
+      if (ticketId) {
+        await tx.update(ticketsTable).set({ status: "rejected", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+      }
+      return true;
+    });
   }
 
-  app.post("/api/tickets", async (req, res) => {
-    if (!checkPipelineApiKey(req)) {
+  // Intake routes act for the business whose intake API key the request carries (see server/auth.ts)
+  app.post("/api/tickets", express.json({ limit: MAX_TICKET_BODY_BYTES }), async (req, res) => {
+    const bizId = req.intakeBusinessId;
+    const business = bizId ? await storage.getBusiness(bizId) : undefined;
+    if (!business) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
@@ -3823,15 +4214,23 @@ Rules:
         route_id,
         urgency,
         screenshot_urls,
+        attachments: uploads,
       } = req.body;
 
       if (!reporter_type || !description) {
         return res.status(400).json({ message: "reporter_type and description are required" });
       }
+      if (screenshot_urls !== undefined && (!Array.isArray(screenshot_urls) || screenshot_urls.some((u: unknown) => typeof u !== "string"))) {
+        return res.status(400).json({ message: "screenshot_urls must be an array of URLs" });
+      }
+      if (uploads !== undefined && !Array.isArray(uploads)) {
+        return res.status(400).json({ message: "attachments must be an array of { name, type, content } with base64 content" });
+      }
 
       const [ticket] = await db
         .insert(ticketsTable)
         .values({
+          businessId: business.id,
           reporterType: reporter_type,
           reporterName: reporter_name || null,
           reporterId: reporter_id || null,
@@ -3844,21 +4243,30 @@ Rules:
         })
         .returning();
 
-      let triage;
+      const { attachments, errors: attachmentErrors } = await storeTicketAttachments(business.id, ticket.id, uploads || [], screenshot_urls || []);
+      for (const error of attachmentErrors) console.warn(`[tickets] Attachment of ticket #${ticket.id} not stored: ${error}`);
+      const images = await attachmentImageBlocks(business.id, attachments);
+
+      const provider = await resolveProvider(business.id, "triage");
+      const triageConfig = (await storage.getTriageConfig(business.id)) || defaultTriageConfig(business);
+
+      let triage: TriageResult;
       try {
         triage = await triageTicket({
           reporter_type,
           reporter_name,
           description,
           page_url,
-        });
+          urgency,
+          images,
+        }, triageConfig, provider);
       } catch (err: any) {
         console.error("[triage error full]", JSON.stringify(err, Object.getOwnPropertyNames(err)));
         triage = {
-          lane: "ops_alert" as const,
-          urgency: urgency || "normal",
+          lane: triageConfig.fallbackLane,
+          urgency: urgency === "critical" ? "critical" : "normal",
           assigned_agent: null,
-          triage_notes: "Triage agent unavailable — defaulting to ops_alert",
+          triage_notes: `Triage agent unavailable — defaulting to ${triageConfig.fallbackLane}`,
           confidence: 0,
         };
       }
@@ -3877,71 +4285,67 @@ Rules:
         })
         .where(eq(ticketsTable.id, ticket.id));
 
-      // Get the first business (Cool Dispatch)
-      const [firstBusiness] = await db.select().from(businessesTable).limit(1);
-      if (!firstBusiness) {
-        return res.status(500).json({ message: "No business configured" });
-      }
-
       // Get open tasks + projects for duplicate detection and project suggestion
-      const openTasks = await db
-        .select({ id: tasksTable.id, title: tasksTable.title, description: tasksTable.description })
-        .from(tasksTable)
-        .where(ne(tasksTable.status, "Done"))
-        .limit(30);
-
-      const projects = await db
-        .select({ id: projectsTable.id, name: projectsTable.name, description: projectsTable.description })
-        .from(projectsTable)
-        .where(eq(projectsTable.businessId, firstBusiness.id));
+      const businessTasks = await storage.getAllTasksForBusiness(business.id);
+      const openTasks = businessTasks
+        .flatMap(({ project, tasks }) => tasks.filter(t => statusCategory(project.workflow, t.status) !== "done"))
+        .slice(0, 30)
+        .map(t => ({ id: t.id, title: t.title, description: t.description }));
+      const projects = businessTasks.map(({ project }) => ({ id: project.id, name: project.name, description: project.description }));
 
       // Run duplicate detection + project suggestion in parallel
-      let duplicateCheck: DuplicateCheckResult = {
+      let duplicateCheck: DuplicateCheck = {
         hasDuplicate: false, duplicateTaskId: null, similarity: 0,
         recommendation: "new_task", reasoning: "Detection skipped",
       };
-      let suggestedProjectId: string | null = null;
+      const routing = triageRouting(triageConfig, triage);
+      // The lane's own project wins over a suggestion; a project deleted since falls back to suggesting one
+      const laneProjectId = projects.some(p => p.id === routing.projectId) ? routing.projectId : null;
+      let suggestedProjectId: string | null = laneProjectId;
 
       try {
         const [dupResult, projResult] = await Promise.all([
-          detectDuplicates(description, openTasks),
-          suggestProject(description, triage.lane, projects),
+          detectDuplicates(description, openTasks, provider, images),
+          laneProjectId ? Promise.resolve(laneProjectId) : suggestProject(description, triage.lane, projects, provider),
         ]);
         duplicateCheck = dupResult;
-        suggestedProjectId = projResult;
+        suggestedProjectId = projects.some(p => p.id === projResult) ? projResult : null;
       } catch (err: any) {
         console.error("[tickets] AI analysis error:", err.message);
       }
 
       const ticketTitle = triage.triage_notes?.slice(0, 80) || description.slice(0, 80);
-      const inboxType = laneToInboxType[triage.lane] || "Bug";
-      const inboxPriority = urgencyToPriority[triage.urgency] || "Medium";
 
-      const notesJson = JSON.stringify({
-        ticketId: ticket.id,
+      const inboxTriage: InboxTriage = {
+        lane: triage.lane,
+        notes: triage.triage_notes,
+        confidence: triage.confidence,
+        assignedAgent: triage.assigned_agent,
+        suggestedProjectId,
         pageUrl: page_url || null,
         routeId: route_id ?? null,
-        assignedAgent: triage.assigned_agent,
-        triageConfidence: triage.confidence,
-        suggestedProject: suggestedProjectId,
         duplicateCheck,
-      });
+        attachments,
+      };
 
       const inboxId = crypto.randomUUID();
       await db.insert(inboxItemsTable).values({
         id: inboxId,
-        businessId: firstBusiness.id,
+        businessId: business.id,
         title: ticketTitle,
-        type: inboxType,
+        type: routing.inboxType,
         source: "cool_dispatch",
         description: `${description}\n\n---\nTriage: ${triage.triage_notes}`,
-        priority: inboxPriority,
+        priority: routing.priority,
         status: "pending_approval",
         dateReceived: new Date().toISOString(),
         linkedProjectId: null,
         linkedTaskId: null,
-        notes: notesJson,
+        notes: "",
+        ticketId: ticket.id,
+        triage: inboxTriage,
       });
+      await notifyTicketEvent(business.id, ticket.id, "triaged");
 
       res.json({
         success: true,
@@ -3951,6 +4355,8 @@ Rules:
         lane: triage.lane,
         duplicateCheck,
         suggestedProject: suggestedProjectId,
+        attachments: attachments.map(a => ({ id: a.id, name: a.name, mediaType: a.mediaType, size: a.size })),
+        attachment_errors: attachmentErrors,
       });
     } catch (err: any) {
       console.error("[tickets] POST error:", err);
@@ -3959,7 +4365,8 @@ Rules:
   });
 
   app.patch("/api/tickets/:id", async (req, res) => {
-    if (!checkPipelineApiKey(req)) {
+    const bizId = req.intakeBusinessId;
+    if (!bizId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
@@ -3980,7 +4387,7 @@ Rules:
       const [updated] = await db
         .update(ticketsTable)
         .set(updates)
-        .where(eq(ticketsTable.id, ticketId))
+        .where(and(eq(ticketsTable.id, ticketId), eq(ticketsTable.businessId, bizId)))
         .returning();
 
       if (!updated) {
@@ -3994,11 +4401,17 @@ Rules:
     }
   });
 
-  app.get("/api/tickets", async (_req, res) => {
+  app.get("/api/tickets", async (req, res) => {
+    const bizId = req.intakeBusinessId;
+    if (!bizId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
       const tickets = await db
         .select()
         .from(ticketsTable)
+        .where(eq(ticketsTable.businessId, bizId))
         .orderBy(desc(ticketsTable.createdAt));
       res.json(tickets);
     } catch (err: any) {
@@ -4008,6 +4421,11 @@ Rules:
   });
 
   app.get("/api/tickets/:id", async (req, res) => {
+    const bizId = req.intakeBusinessId;
+    if (!bizId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
       const ticketId = parseInt(req.params.id, 10);
       if (isNaN(ticketId)) {
@@ -4017,7 +4435,7 @@ Rules:
       const [ticket] = await db
         .select()
         .from(ticketsTable)
-        .where(eq(ticketsTable.id, ticketId));
+        .where(and(eq(ticketsTable.id, ticketId), eq(ticketsTable.businessId, bizId)));
 
       if (!ticket) {
         return res.status(404).json({ message: "Ticket not found" });
@@ -4033,7 +4451,8 @@ Rules:
   // ── Ticket Approval ─────────────────────────────────────────────────
 
   app.post("/api/tickets/:id/approve", async (req, res) => {
-    if (!checkPipelineApiKey(req)) {
+    const bizId = req.intakeBusinessId;
+    if (!bizId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
@@ -4051,70 +4470,49 @@ Rules:
       const [ticket] = await db
         .select()
         .from(ticketsTable)
-        .where(eq(ticketsTable.id, ticketId));
+        .where(and(eq(ticketsTable.id, ticketId), eq(ticketsTable.businessId, bizId)));
       if (!ticket) {
         return res.status(404).json({ message: "Ticket not found" });
       }
 
-      // Find the linked inbox item by ticketId in notes JSON
-      const allInboxRows = await db.select().from(inboxItemsTable).where(eq(inboxItemsTable.status, "pending_approval"));
-      const inboxItem = allInboxRows.find((row) => {
-        try {
-          const notes = JSON.parse(row.notes || "{}");
-          return notes.ticketId === ticketId;
-        } catch { return false; }
-      });
+      const [inboxItem] = await db.select().from(inboxItemsTable).where(and(
+        eq(inboxItemsTable.ticketId, ticketId),
+        eq(inboxItemsTable.businessId, bizId),
+        eq(inboxItemsTable.status, "pending_approval"),
+      ));
       if (!inboxItem) {
         return res.status(404).json({ message: "No pending inbox item found for this ticket" });
       }
 
-      const [firstBusiness] = await db.select().from(businessesTable).limit(1);
-      const bizId = firstBusiness?.id || inboxItem.businessId;
-      let notes: any = {};
-      try { notes = JSON.parse(inboxItem.notes || "{}"); } catch {}
-
       if (action === "approve") {
-        const resolvedProjectId = projectId || notes.suggestedProject;
+        const resolvedProjectId = projectId || inboxItem.triage?.suggestedProjectId;
         if (!resolvedProjectId) {
           return res.status(400).json({ message: "No projectId provided and no suggestedProject available" });
         }
 
-        const existingTasks = await db
-          .select()
-          .from(tasksTable)
-          .where(eq(tasksTable.projectId, resolvedProjectId));
-
-        const taskId = generateApprovalTaskId(inboxItem.type, existingTasks);
+        const project = await storage.getProject(inboxItem.businessId, resolvedProjectId);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
 
-        await db.insert(tasksTable).values({
-          id: taskId,
+        const initialStatus = project.workflow.initialStatus;
+        const taskId = await createTaskFromInboxItem(inboxItem.id, ticketId, {
           projectId: resolvedProjectId,
-          source: "cool_dispatch",
-          type: inboxItem.type === "Alert" ? "Bug" : inboxItem.type === "Docs" ? "Task" : (inboxItem.type as string),
-          status: "Open",
+          type: inboxTypeToTaskType(inboxItem.type),
+          status: initialStatus,
           priority: inboxItem.priority,
           title: inboxItem.title,
-          description: `${inboxItem.description}\n\nPage: ${notes.pageUrl || "N/A"}\nRoute: ${notes.routeId || "N/A"}`,
+          description: `${inboxItem.description}\n\nPage: ${ticket.pageUrl || "N/A"}\nRoute: ${ticket.routeId ?? "N/A"}`,
           reasoning: ticket.triageNotes || "",
-          fixSteps: "",
-          replitPrompt: "",
-          filePath: "",
-          discussion: [],
-          autoAnalysisComplete: false,
-          generatedPrompts: [],
-          dependencies: [],
+          attachments: inboxItem.triage?.attachments || [],
         });
-
-        await db.update(inboxItemsTable).set({
-          status: "approved",
-          linkedProjectId: resolvedProjectId,
-          linkedTaskId: taskId,
-        }).where(eq(inboxItemsTable.id, inboxItem.id));
-
-        await db.update(ticketsTable).set({
-          status: "working",
-          updatedAt: new Date(),
-        }).where(eq(ticketsTable.id, ticketId));
+        if (!taskId) {
+          return res.status(409).json({ message: "This ticket was already handled" });
+        }
+        await recordTaskCreated(inboxItem.businessId, { id: taskId, title: inboxItem.title, status: initialStatus }, {
+          actor: "webhook", name: `Ticket #${ticketId} approved`,
+        });
+        await notifyTicketEvent(bizId, ticketId, "approved", { id: taskId, title: inboxItem.title, status: initialStatus, projectId: resolvedProjectId });
 
         return res.json({ success: true, taskId, projectId: resolvedProjectId });
       }
@@ -4124,40 +4522,30 @@ Rules:
           return res.status(400).json({ message: "targetTaskId is required for merge" });
         }
 
-        const [existingTask] = await db
-          .select()
-          .from(tasksTable)
-          .where(eq(tasksTable.id, targetTaskId));
+        const existingTask = (await storage.findTaskInBusinesses(targetTaskId, [bizId]))?.task;
         if (!existingTask) {
           return res.status(404).json({ message: "Target task not found" });
         }
 
         const appendText = `\n\n---\nAdditional report (TKT-${ticketId}, ${new Date().toISOString().split("T")[0]}):\n${ticket.description}\nPage: ${ticket.pageUrl || "N/A"}`;
-        const updates: Record<string, any> = {
-          description: existingTask.description + appendText,
-        };
-        if (ticket.urgency === "critical" && existingTask.priority !== "High") {
-          updates.priority = "High";
+        const merged = await mergeInboxItemIntoTask(inboxItem.id, ticketId, existingTask, task => ({
+          description: task.description + appendText,
+          attachments: [...(task.attachments || []), ...(inboxItem.triage?.attachments || [])],
+          ...(ticket.urgency === "critical" && task.priority !== "High" ? { priority: "High" as const } : {}),
+        }));
+        if (!merged) {
+          return res.status(409).json({ message: "This ticket was already handled" });
         }
-
-        await db.update(tasksTable).set(updates).where(eq(tasksTable.id, targetTaskId));
-
-        await db.update(inboxItemsTable).set({
-          status: "merged",
-          linkedTaskId: targetTaskId,
-        }).where(eq(inboxItemsTable.id, inboxItem.id));
-
-        await db.update(ticketsTable).set({
-          status: "working",
-          updatedAt: new Date(),
-        }).where(eq(ticketsTable.id, ticketId));
+        await notifyTicketEvent(bizId, ticketId, "merged", existingTask);
 
         return res.json({ success: true, taskId: targetTaskId, enriched: true });
       }
 
       // action === "reject"
-      await db.update(inboxItemsTable).set({ status: "rejected" }).where(eq(inboxItemsTable.id, inboxItem.id));
-      await db.update(ticketsTable).set({ status: "rejected", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+      if (!(await rejectInboxItem(inboxItem.id, ticketId))) {
+        return res.status(409).json({ message: "This ticket was already handled" });
+      }
+      await notifyTicketEvent(bizId, ticketId, "rejected");
 
       return res.json({ success: true });
     } catch (err: any) {
@@ -4168,32 +4556,50 @@ Rules:
 
   // ── Inbox Pending ───────────────────────────────────────────────────
 
-  app.get("/api/inbox/pending", async (_req, res) => {
+  app.get("/api/inbox/pending", async (req, res) => {
+    const bizId = req.intakeBusinessId;
+    if (!bizId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
     try {
       const rows = await db
         .select()
         .from(inboxItemsTable)
-        .where(eq(inboxItemsTable.status, "pending_approval"))
+        .where(and(eq(inboxItemsTable.status, "pending_approval"), eq(inboxItemsTable.businessId, bizId)))
         .orderBy(desc(inboxItemsTable.dateReceived));
 
-      const items = rows.map((row) => {
-        let parsedNotes: any = {};
-        try { parsedNotes = JSON.parse(row.notes || "{}"); } catch {}
-        return { ...row, parsedNotes };
-      });
-
-      res.json(items);
+      res.json(rows);
     } catch (err: any) {
       console.error("[inbox] pending error:", err);
       res.status(500).json({ message: err.message || "Failed to fetch pending inbox items" });
     }
   });
 
-  // UI-accessible ticket action (no API key required — session-authenticated internal UI)
+  // Ticket screenshots for the approval card and task details; anything but a raster image is served as a download
+  app.get("/api/businesses/:bizId/attachments/:attachmentId", async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(req.params.bizId, req.params.attachmentId);
+      const data = attachment && await readAttachmentFile(req.params.bizId, attachment.id);
+      if (!attachment || !data) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.setHeader("Content-Type", attachment.mediaType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.setHeader("Content-Disposition", `${isLLMImage(attachment) ? "inline" : "attachment"}; filename="${attachment.name.replace(/[^\x20-\x7e]/g, "_")}"`);
+      res.send(data);
+    } catch (err: any) {
+      console.error("[attachments] GET error:", err);
+      res.status(500).json({ message: err.message || "Failed to load attachment" });
+    }
+  });
+
+  // UI-accessible ticket action (no API key required — covered by the session + business membership middleware)
   app.post("/api/businesses/:bizId/inbox/:inboxItemId/ticket-action", async (req, res) => {
     try {
       const { inboxItemId } = req.params;
-      const { action, targetTaskId, projectId: projectIdOverride, agentOverride, priorityOverride, titleOverride, descriptionOverride } = req.body;
+      const { action, targetTaskId, projectId: projectIdOverride, agentOverride, typeOverride, priorityOverride, titleOverride, descriptionOverride } = req.body;
       if (!action || !["approve", "reject", "merge"].includes(action)) {
         return res.status(400).json({ message: "action must be approve, reject, or merge" });
       }
@@ -4201,66 +4607,51 @@ Rules:
       const [inboxItem] = await db
         .select()
         .from(inboxItemsTable)
-        .where(eq(inboxItemsTable.id, inboxItemId));
+        .where(and(eq(inboxItemsTable.id, inboxItemId), eq(inboxItemsTable.businessId, req.params.bizId)));
       if (!inboxItem) {
         return res.status(404).json({ message: "Inbox item not found" });
       }
 
-      let notes: any = {};
-      try { notes = JSON.parse(inboxItem.notes || "{}"); } catch {}
-
-      const ticketId = notes.ticketId ? parseInt(String(notes.ticketId), 10) : null;
+      const { ticketId, triage } = inboxItem;
+      const pageUrl = triage?.pageUrl || "N/A";
 
       if (action === "approve") {
-        const resolvedProjectId = projectIdOverride || notes.suggestedProject;
+        const resolvedProjectId = projectIdOverride || triage?.suggestedProjectId;
         if (!resolvedProjectId) {
-          return res.status(400).json({ message: "No suggestedProject in notes and no projectId provided" });
+          return res.status(400).json({ message: "No suggested project and no projectId provided" });
         }
 
         const resolvedTitle = titleOverride || inboxItem.title;
         const resolvedPriority = priorityOverride || inboxItem.priority;
         const rawDescription = descriptionOverride || inboxItem.description || "";
-        const resolvedDescription = `${rawDescription}\n\nPage: ${notes.pageUrl || "N/A"}`;
-        const resolvedType = (() => {
-          if (inboxItem.type === "Alert") return "Bug";
-          if (inboxItem.type === "Docs") return "Task";
-          return inboxItem.type as string;
-        })();
-
-        const existingTasks = await db
-          .select()
-          .from(tasksTable)
-          .where(eq(tasksTable.projectId, resolvedProjectId));
-
-        const taskId = generateApprovalTaskId(inboxItem.type, existingTasks);
-
-        await db.insert(tasksTable).values({
-          id: taskId,
+        const resolvedDescription = `${rawDescription}\n\nPage: ${pageUrl}`;
+        const resolvedType = inboxTypeToTaskType(typeOverride || inboxItem.type);
+
+        const project = await storage.getProject(inboxItem.businessId, resolvedProjectId);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+
+        const initialStatus = project.workflow.initialStatus;
+        const taskId = await createTaskFromInboxItem(inboxItemId, ticketId, {
           projectId: resolvedProjectId,
-          source: "cool_dispatch",
           type: resolvedType,
-          status: "Open",
+          status: initialStatus,
           priority: resolvedPriority,
           title: resolvedTitle,
           description: resolvedDescription,
-          reasoning: notes.triageNotes || "",
-          fixSteps: "",
-          replitPrompt: "",
-          filePath: "",
-          discussion: [],
-          autoAnalysisComplete: false,
-          generatedPrompts: [],
-          dependencies: [],
+          reasoning: triage?.notes || "",
+          attachments: triage?.attachments || [],
+        });
+        if (!taskId) {
+          return res.status(409).json({ message: "This item was already handled" });
+        }
+        await recordTaskCreated(inboxItem.businessId, { id: taskId, title: resolvedTitle, status: initialStatus }, {
+          actor: "user", name: req.user?.username,
         });
-
-        await db.update(inboxItemsTable).set({
-          status: "approved",
-          linkedProjectId: resolvedProjectId,
-          linkedTaskId: taskId,
-        }).where(eq(inboxItemsTable.id, inboxItemId));
 
         if (ticketId) {
-          await db.update(ticketsTable).set({ status: "working", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+          await notifyTicketEvent(inboxItem.businessId, ticketId, "approved", { id: taskId, title: resolvedTitle, status: initialStatus, projectId: resolvedProjectId });
         }
 
         return res.json({ success: true, taskId, projectId: resolvedProjectId });
@@ -4270,23 +4661,30 @@ Rules:
         if (!targetTaskId) {
           return res.status(400).json({ message: "targetTaskId is required for merge" });
         }
-        const [existingTask] = await db.select().from(tasksTable).where(eq(tasksTable.id, targetTaskId));
+        const existingTask = (await storage.findTaskInBusinesses(targetTaskId, [inboxItem.businessId]))?.task;
         if (!existingTask) {
           return res.status(404).json({ message: "Target task not found" });
         }
-        const appendText = `\n\n---\nAdditional report (${new Date().toISOString().split("T")[0]}):\n${inboxItem.description}\nPage: ${notes.pageUrl || "N/A"}`;
-        await db.update(tasksTable).set({ description: existingTask.description + appendText }).where(eq(tasksTable.id, targetTaskId));
-        await db.update(inboxItemsTable).set({ status: "merged", linkedTaskId: targetTaskId }).where(eq(inboxItemsTable.id, inboxItemId));
+        const appendText = `\n\n---\nAdditional report (${new Date().toISOString().split("T")[0]}):\n${inboxItem.description}\nPage: ${pageUrl}`;
+        const merged = await mergeInboxItemIntoTask(inboxItemId, ticketId, existingTask, task => ({
+          description: task.description + appendText,
+          attachments: [...(task.attachments || []), ...(triage?.attachments || [])],
+        }));
+        if (!merged) {
+          return res.status(409).json({ message: "This item was already handled" });
+        }
         if (ticketId) {
-          await db.update(ticketsTable).set({ status: "working", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+          await notifyTicketEvent(inboxItem.businessId, ticketId, "merged", existingTask);
         }
         return res.json({ success: true, taskId: targetTaskId });
       }
 
       // reject
-      await db.update(inboxItemsTable).set({ status: "rejected" }).where(eq(inboxItemsTable.id, inboxItemId));
+      if (!(await rejectInboxItem(inboxItemId, ticketId))) {
+        return res.status(409).json({ message: "This item was already handled" });
+      }
       if (ticketId) {
-        await db.update(ticketsTable).set({ status: "rejected", updatedAt: new Date() }).where(eq(ticketsTable.id, ticketId));
+        await notifyTicketEvent(inboxItem.businessId, ticketId, "rejected");
       }
       return res.json({ success: true });
     } catch (err: any) {
@@ -4298,157 +4696,17 @@ Rules:
   // ── GitHub Webhook ────────────────────────────────────────────────────────
   app.post("/api/webhooks/github", async (req, res) => {
     try {
-      // 1. Verify signature
-      const secret = process.env.GITHUB_WEBHOOK_SECRET;
-      const signature = req.headers["x-hub-signature-256"] as string | undefined;
-
-      if (!secret) {
-        console.error("[Webhook] GITHUB_WEBHOOK_SECRET is not set");
-        return res.status(500).json({ error: "Webhook secret not configured" });
-      }
-
-      if (!signature) {
-        return res.status(401).json({ error: "Missing x-hub-signature-256 header" });
-      }
-
-      const rawBody = req.rawBody as Buffer;
-      const expected = "sha256=" + crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
-
-      const sigBuf = Buffer.from(signature);
-      const expBuf = Buffer.from(expected);
-      if (
-        sigBuf.length !== expBuf.length ||
-        !crypto.timingSafeEqual(sigBuf, expBuf)
-      ) {
-        return res.status(401).json({ error: "Invalid signature" });
-      }
-
-      // 2. Route by event type
-      const event = req.headers["x-github-event"];
-      const payload = req.body;
-
-      // ── PR merge handler (primary flow) ───────────────────────────────────
-      if (event === "pull_request") {
-        console.log("[Webhook] PR merge event");
-
-        if (payload?.action !== "closed" || payload?.pull_request?.merged !== true) {
-          return res.json({ ignored: true, reason: "PR not merged" });
-        }
-
-        const branchRef: string = payload?.pull_request?.head?.ref || "";
-        const rawId = branchRef.split("/")[0].toUpperCase();
-
-        if (!rawId || !/^[A-Z]+-\d+$/.test(rawId)) {
-          return res.json({ ignored: true, reason: `Branch name "${branchRef}" does not contain a recognisable task ID` });
-        }
-
-        const [task] = await db.select().from(tasksTable).where(eq(tasksTable.id, rawId));
-
-        if (!task) {
-          console.log(`[Webhook] PR merge: task ${rawId} not found`);
-          return res.json({ ignored: true, reason: `Task ${rawId} not found` });
-        }
-
-        if (task.status === "Done") {
-          console.log(`[Webhook] PR merge: task ${rawId} already Done, skipping`);
-          return res.json({ ignored: true, reason: `Task ${rawId} is already Done` });
-        }
-
-        await db.update(tasksTable).set({ status: "Quality Review" }).where(eq(tasksTable.id, rawId));
-        console.log(`[Webhook] PR merged: Task ${rawId} moved to Quality Review`);
-        return res.json({ updated: [rawId] });
-      }
-
-      // ── Push handler (fallback for direct commits with [TASK-ID]) ─────────
-      if (event !== "push") {
-        return res.json({ ignored: true, event });
-      }
-
-      console.log("[Webhook] Push event");
-
-      // 3. Match the repo
-      const owner: string = payload?.repository?.owner?.login || payload?.repository?.owner?.name || "";
-      const repoName: string = payload?.repository?.name || "";
-
-      if (!owner || !repoName) {
-        return res.json({ ignored: true, reason: "Could not parse repository info from payload" });
-      }
-
-      const [matchedRepo] = await db
-        .select()
-        .from(repositoriesTable)
-        .where(and(eq(repositoriesTable.owner, owner), eq(repositoriesTable.repo, repoName)));
-
-      if (!matchedRepo) {
-        console.log(`[Webhook] No matching repository for ${owner}/${repoName}`);
-        return res.json({ ignored: true, reason: `No repository matched ${owner}/${repoName}` });
-      }
-
-      // 4. Parse task IDs from commit messages
-      const commits: Array<{ id?: string; message?: string }> = payload?.commits || [];
-      const taskIdPattern = /\[([A-Z]+-\d+)\]/g;
-      const taskIds = new Set<string>();
-
-      for (const commit of commits) {
-        const message = commit.message || "";
-        let match: RegExpExecArray | null;
-        taskIdPattern.lastIndex = 0;
-        while ((match = taskIdPattern.exec(message)) !== null) {
-          taskIds.add(match[1]);
-        }
-      }
-
-      // 5. Update matching tasks
-      const updated: string[] = [];
-      const skipped: string[] = [];
-      const notFound: string[] = [];
-      const firstCommitSha = commits[0]?.id?.slice(0, 7) || "unknown";
-
-      for (const taskId of taskIds) {
-        try {
-          const [task] = await db.select().from(tasksTable).where(eq(tasksTable.id, taskId));
-
-          if (!task) {
-            notFound.push(taskId);
-            continue;
-          }
-
-          if (task.status === "Done") {
-            skipped.push(taskId);
-            continue;
-          }
-
-          await db.update(tasksTable).set({ status: "Quality Review" }).where(eq(tasksTable.id, taskId));
-          console.log(`[Webhook] Task ${taskId} moved to Quality Review (commit ${firstCommitSha})`);
-          updated.push(taskId);
-        } catch (taskErr) {
-          console.error(`[Webhook] Error updating task ${taskId}:`, taskErr);
-          skipped.push(taskId);
-        }
-      }
-
-      return res.json({ updated, skipped, notFound });
+      const result = await receiveWebhook({
+        event: String(req.headers["x-github-event"] || ""),
+        deliveryId: req.headers["x-github-delivery"] as string | undefined,
+        signature: req.headers["x-hub-signature-256"] as string | undefined,
+      }, req.body, req.rawBody as Buffer);
+      return res.status(result.status).json(result.body);
     } catch (err: any) {
       console.error("[Webhook] Error processing GitHub webhook:", err);
       return res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/test-triage", async (req, res) => {
-    try {
-      const result = await triageTicket({
-        reporter_type: "admin",
-        description: "PDF upload button broken on route detail page",
-        page_url: "/admin/routes/52",
-      });
-      res.json({ success: true, result });
-    } catch (err: any) {
-      res.status(500).json({
-        success: false,
-        error: JSON.stringify(err, Object.getOwnPropertyNames(err)),
-      });
-    }
-  });
-
   return httpServer;
 }
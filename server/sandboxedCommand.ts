@@ -0,0 +1,140 @@
+import { execFile, spawn } from "child_process";
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+
+export interface CommandResult {
+  command: string;
+  /** null when the process was killed (timeout) or could not be started. */
+  exitCode: number | null;
+  output: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60_000;
+const MAX_OUTPUT_CHARS = 20_000;
+const SANDBOX_WORKDIR = "/workspace";
+// "nobody": owns nothing on the host, so the container can only touch the mounted checkout
+const DEFAULT_SANDBOX_USER = "65534:65534";
+
+export function commandTimeoutMs(): number {
+  const fromEnv = Number(process.env.AGENT_COMMAND_TIMEOUT_MS);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_TIMEOUT_MS;
+}
+
+/** Whitespace-insensitive form used to match a requested command against the allow-list. */
+export function normalizeCommand(command: string): string {
+  return command.trim().split(/\s+/).join(" ");
+}
+
+/**
+ * Commands run in a throwaway container from AGENT_SANDBOX_IMAGE, so run_command is only offered
+ * when that is set. A child of the server itself could read the server's environment through
+ * /proc, reach the network and the whole filesystem, however scrubbed its own environment is.
+ */
+export function sandboxConfigured(): boolean {
+  return !!process.env.AGENT_SANDBOX_IMAGE;
+}
+
+function sandboxRuntime(): string {
+  return process.env.AGENT_SANDBOX_RUNTIME || "docker";
+}
+
+// Files the command creates must stay removable by the server, which owns the checkout directory.
+// .git stays the server's own and is mounted read-only, so hooks and config cannot be planted there.
+async function shareCheckout(dir: string, root = dir): Promise<void> {
+  await fs.chmod(dir, 0o777);
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const full = `${dir}/${entry.name}`;
+    if (entry.isSymbolicLink() || (dir === root && entry.name === ".git")) continue;
+    if (entry.isDirectory()) await shareCheckout(full, root);
+    else await fs.chmod(full, 0o666);
+  }
+}
+
+async function hasGitDir(cwd: string): Promise<boolean> {
+  try {
+    return (await fs.lstat(`${cwd}/.git`)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function sandboxArgs(name: string, cwd: string, argv: string[], gitDir: boolean): string[] {
+  return [
+    "run", "--rm", "--name", name,
+    "--network", "none",
+    "--read-only",
+    "--tmpfs", "/tmp:rw,exec,size=512m",
+    "--user", process.env.AGENT_SANDBOX_USER || DEFAULT_SANDBOX_USER,
+    "--cap-drop", "ALL",
+    "--security-opt", "no-new-privileges",
+    "--pids-limit", "512",
+    "--memory", process.env.AGENT_SANDBOX_MEMORY || "2g",
+    "--env", "CI=1", "--env", "FORCE_COLOR=0", "--env", "HOME=/tmp",
+    "--volume", `${cwd}:${SANDBOX_WORKDIR}`,
+    ...(gitDir ? ["--volume", `${cwd}/.git:${SANDBOX_WORKDIR}/.git:ro`] : []),
+    "--workdir", SANDBOX_WORKDIR,
+    process.env.AGENT_SANDBOX_IMAGE!,
+    // The command's words are passed as arguments, never spliced into the script
+    "sh", "-c", 'umask 000 && exec "$@"', "sh", ...argv,
+  ];
+}
+
+/**
+ * Runs an allow-listed command against a checkout in the sandbox container: no network, a
+ * read-only root with only the work tree (not .git) and /tmp writable, an unprivileged user, no
+ * capabilities and its own process namespace. There is no shell — the command is split on
+ * whitespace into argv, so pipes, redirects and substitutions are inert. A wall-clock limit
+ * kills the container on expiry, and captured output is capped, keeping the tail where test
+ * runners print their failures.
+ */
+export async function runSandboxedCommand(cwd: string, command: string, timeoutMs = commandTimeoutMs()): Promise<CommandResult> {
+  const argv = normalizeCommand(command).split(" ");
+  if (!sandboxConfigured()) {
+    return {
+      command, exitCode: null, durationMs: 0, timedOut: false,
+      output: "Commands are disabled: no sandbox is configured on the server (AGENT_SANDBOX_IMAGE).",
+    };
+  }
+  await shareCheckout(cwd);
+  const gitDir = await hasGitDir(cwd);
+  const name = `ai-dev-hub-cmd-${randomUUID()}`;
+
+  const started = Date.now();
+  return new Promise(resolve => {
+    let output = "";
+    let truncated = false;
+    let timedOut = false;
+    const append = (chunk: Buffer) => {
+      output += chunk.toString("utf-8");
+      if (output.length > MAX_OUTPUT_CHARS) {
+        output = output.slice(-MAX_OUTPUT_CHARS);
+        truncated = true;
+      }
+    };
+
+    const child = spawn(sandboxRuntime(), sandboxArgs(name, cwd, argv, gitDir), {
+      env: { PATH: process.env.PATH, HOME: process.env.HOME, ...(process.env.DOCKER_HOST ? { DOCKER_HOST: process.env.DOCKER_HOST } : {}) },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    child.stdout.on("data", append);
+    child.stderr.on("data", append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      // Killing the client would leave the container running
+      execFile(sandboxRuntime(), ["kill", name], () => child.kill("SIGKILL"));
+    }, timeoutMs);
+
+    const finish = (exitCode: number | null, extra = "") => {
+      clearTimeout(timer);
+      let text = (truncated ? "… (earlier output truncated)\n" : "") + output + extra;
+      if (timedOut) text += `\n[killed after ${Math.round(timeoutMs / 1000)}s time limit]`;
+      resolve({ command, exitCode: timedOut ? null : exitCode, output: text.trim(), durationMs: Date.now() - started, timedOut });
+    };
+
+    child.on("error", err => finish(null, `\n${err.message}`));
+    child.on("close", code => finish(code));
+  });
+}
@@ -0,0 +1,135 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Envelope encryption for secrets stored in the database (repository tokens, agent API keys).
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM); the data key is then
+ * wrapped with a server master key. Master keys come from ENCRYPTION_KEYS as a comma-separated
+ * list of `keyId:secret` pairs — the first entry encrypts new values, the rest only decrypt.
+ * Rotating means prepending a new key and restarting: ensureSchemaUpToDate re-wraps every
+ * stored data key under the new master key, after which the old one can be removed.
+ *
+ * Stored format: enc:v1:<keyId>:<wrapped data key>:<ciphertext>, both parts base64(iv|tag|data).
+ */
+
+const PREFIX = "enc:v1:";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedKeys: MasterKey[] | null = null;
+let warnedMissing = false;
+
+function loadMasterKeys(): MasterKey[] {
+  if (cachedKeys) return cachedKeys;
+  const raw = process.env.ENCRYPTION_KEYS || "";
+  cachedKeys = raw
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const sep = entry.indexOf(":");
+      if (sep <= 0) throw new Error("ENCRYPTION_KEYS entries must look like keyId:secret");
+      const id = entry.slice(0, sep);
+      // Derive a fixed-length AES key so any sufficiently random secret string works
+      const key = createHash("sha256").update(entry.slice(sep + 1)).digest();
+      return { id, key };
+    });
+  return cachedKeys;
+}
+
+/**
+ * Called on startup: refuses to run without a master key, so secrets are never stored in plaintext
+ * by accident. ALLOW_PLAINTEXT_SECRETS=true opts out for local development.
+ */
+export function assertEncryptionConfigured(): void {
+  if (loadMasterKeys().length > 0 || process.env.ALLOW_PLAINTEXT_SECRETS === "true") return;
+  throw new Error("ENCRYPTION_KEYS must be set (or ALLOW_PLAINTEXT_SECRETS=true for local development)");
+}
+
+function activeKey(): MasterKey | undefined {
+  const keys = loadMasterKeys();
+  if (keys.length === 0 && !warnedMissing) {
+    warnedMissing = true;
+    console.warn("[secrets] ENCRYPTION_KEYS is not set and ALLOW_PLAINTEXT_SECRETS=true — repository tokens and agent API keys are stored in plaintext");
+  }
+  return keys[0];
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const buf = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, buf.subarray(0, 12));
+  decipher.setAuthTag(buf.subarray(12, 28));
+  return Buffer.concat([decipher.update(buf.subarray(28)), decipher.final()]);
+}
+
+function parse(stored: string): { keyId: string; wrappedKey: string; ciphertext: string } {
+  const [keyId, wrappedKey, ciphertext] = stored.slice(PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !ciphertext) throw new Error("Malformed encrypted secret");
+  return { keyId, wrappedKey, ciphertext };
+}
+
+function masterKeyFor(keyId: string): MasterKey {
+  const key = loadMasterKeys().find(k => k.id === keyId);
+  if (!key) throw new Error(`Encryption key "${keyId}" is not configured in ENCRYPTION_KEYS`);
+  return key;
+}
+
+export function isEncryptedSecret(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+/** The master key id an encrypted value was wrapped with, for log messages; "" for plaintext. */
+export function secretKeyId(stored: string): string {
+  return isEncryptedSecret(stored) ? stored.slice(PREFIX.length).split(":")[0] : "";
+}
+
+export function encryptSecret(plaintext: string): string {
+  if (!plaintext) return plaintext;
+  const master = activeKey();
+  if (!master) return plaintext;
+  const dataKey = randomBytes(32);
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${seal(dataKey, Buffer.from(plaintext, "utf8"))}`;
+}
+
+/** Decrypts a stored secret; values written before encryption was enabled pass through unchanged. */
+export function decryptSecret(stored: string): string {
+  if (!stored || !isEncryptedSecret(stored)) return stored;
+  const { keyId, wrappedKey, ciphertext } = parse(stored);
+  const dataKey = open(masterKeyFor(keyId).key, wrappedKey);
+  return open(dataKey, ciphertext).toString("utf8");
+}
+
+/**
+ * Brings a stored value up to date: encrypts plaintext and re-wraps data keys held under a
+ * retired master key. Returns null when the value is already current (or encryption is off).
+ */
+export function reencryptSecret(stored: string): string | null {
+  if (!stored) return null;
+  const master = activeKey();
+  if (!master) return null;
+  if (!isEncryptedSecret(stored)) return encryptSecret(stored);
+  const { keyId, wrappedKey, ciphertext } = parse(stored);
+  if (keyId === master.id) return null;
+  const dataKey = open(masterKeyFor(keyId).key, wrappedKey);
+  return `${PREFIX}${master.id}:${seal(master.key, dataKey)}:${ciphertext}`;
+}
+
+/** A fresh random shared secret, e.g. for signing GitHub webhook deliveries. */
+export function generateSharedSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/** API keys are looked up by this hash, so the key itself never has to be stored. */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { randomUUID } from "crypto";
 import { db } from "./db";
+import { encryptSecret } from "./secrets";
 import {
   businessesTable,
   repositoriesTable,
@@ -69,7 +70,7 @@ async function migrateJsonToDb(data: StoreData) {
     await db.insert(repositoriesTable).values({
       id: repo.id, businessId: repo.businessId, name: repo.name,
       description: repo.description || "", repoUrl: repo.repoUrl || "",
-      owner: repo.owner || "", repo: repo.repo || "", token: repo.token || "",
+      owner: repo.owner || "", repo: repo.repo || "", token: encryptSecret(repo.token || ""),
       type: repo.type || "other",
     }).onConflictDoNothing();
   }
@@ -109,7 +110,7 @@ async function migrateJsonToDb(data: StoreData) {
     for (const agent of agents) {
       await db.insert(agentsTable).values({
         id: agent.id, businessId: bizId, name: agent.name, type: agent.type,
-        apiKey: agent.apiKey || "", role: agent.role || "",
+        apiKey: encryptSecret(agent.apiKey || ""), role: agent.role || "",
         isReviewAgent: agent.isReviewAgent || false,
       }).onConflictDoNothing();
     }
@@ -1,7 +1,8 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { getEnvProvider, type LLMContentBlock, type LLMProvider } from "../llm";
+import type { Business, InboxItem, TriageConfig, TriageLane, TriagePreRule } from "@shared/schema";
 
 export interface TriageResult {
-  lane: "ops_alert" | "software_bug" | "improvement" | "knowledge_update";
+  lane: string;
   urgency: "critical" | "normal";
   assigned_agent: "claude_code" | "cursor_opus" | null;
   triage_notes: string;
@@ -13,26 +14,105 @@ interface TriageInput {
   reporter_name?: string;
   description: string;
   page_url?: string;
+  urgency?: string;
+  /** Screenshots from the ticket, as image content blocks. */
+  images?: LLMContentBlock[];
 }
 
-const SYSTEM_PROMPT = `You are the triage agent for Cool Dispatch, a refrigerated logistics SaaS.
-Classify the ticket and return ONLY valid JSON, no other text, no markdown.`;
+/** What a business triages with until an owner saves its own configuration in Settings. */
+export function defaultTriageConfig(business: Pick<Business, "name" | "description">): TriageConfig {
+  const about = business.description ? `${business.name} (${business.description})` : business.name;
+  return {
+    systemPrompt: `You are the triage agent for ${about}.`,
+    lanes: [
+      { id: "ops_alert", description: "operational problems for the support team rather than code: service complaints, missing items, staff or field issues", inboxType: "Bug", defaultProjectId: null, defaultPriority: null, assignedAgent: "manual" },
+      { id: "software_bug", description: "broken UI, crashes, upload failures, wrong behaviour", inboxType: "Bug", defaultProjectId: null, defaultPriority: null, assignedAgent: "auto" },
+      { id: "improvement", description: "feature requests, workflow ideas", inboxType: "Feature", defaultProjectId: null, defaultPriority: null, assignedAgent: "manual" },
+      { id: "knowledge_update", description: "new lessons or constraints to document", inboxType: "Idea", defaultProjectId: null, defaultPriority: null, assignedAgent: "manual" },
+    ],
+    fallbackLane: "ops_alert",
+    rules: [
+      "If reporter_type is 'customer' and lane is ambiguous → ops_alert",
+      "If confidence < 80 → ops_alert",
+      "assigned_agent is null for ops_alert and improvement",
+      "For software_bug: claude_code if single file likely, cursor_opus if complex",
+    ],
+    preRules: [],
+  };
+}
+
+/** The lane a triage result lands in; unknown ids (e.g. a lane removed since) resolve to the fallback lane. */
+export function triageLane(config: TriageConfig, laneId: string): TriageLane {
+  return config.lanes.find(l => l.id === laneId)
+    || config.lanes.find(l => l.id === config.fallbackLane)
+    || config.lanes[0];
+}
 
-export async function triageTicket(input: TriageInput): Promise<TriageResult> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY is not set");
+/** Where a triaged ticket goes: the lane's inbox type, and its priority and project unless the lane leaves them open. */
+export function triageRouting(config: TriageConfig, result: Pick<TriageResult, "lane" | "urgency">): {
+  inboxType: InboxItem["type"];
+  priority: InboxItem["priority"];
+  projectId: string | null;
+} {
+  const lane = triageLane(config, result.lane);
+  return {
+    inboxType: lane.inboxType,
+    priority: lane.defaultPriority || (result.urgency === "critical" ? "High" : "Medium"),
+    projectId: lane.defaultProjectId,
+  };
+}
+
+function matchPreRule(input: TriageInput, config: TriageConfig): { rule: TriagePreRule; index: number } | null {
+  const description = input.description.toLowerCase();
+  const reporterType = input.reporter_type.toLowerCase();
+  for (let index = 0; index < config.preRules.length; index++) {
+    const rule = config.preRules[index];
+    const keywordMatch = rule.keywords.length === 0 || rule.keywords.some(k => description.includes(k.toLowerCase()));
+    const reporterMatch = rule.reporterTypes.length === 0 || rule.reporterTypes.some(r => r.toLowerCase() === reporterType);
+    if (keywordMatch && reporterMatch) return { rule, index };
   }
+  return null;
+}
 
-  const anthropic = new Anthropic({ apiKey });
+// A lane with a fixed agent overrides whatever the triage agent picked
+function withLaneAgent(result: TriageResult, config: TriageConfig): TriageResult {
+  const { assignedAgent } = triageLane(config, result.lane);
+  if (assignedAgent === "auto") return result;
+  return { ...result, assigned_agent: assignedAgent === "manual" ? null : assignedAgent };
+}
+
+export async function triageTicket(
+  input: TriageInput,
+  config: TriageConfig,
+  provider: LLMProvider | null = getEnvProvider(),
+): Promise<TriageResult> {
+  const preRule = matchPreRule(input, config);
+  if (preRule) {
+    const { rule, index } = preRule;
+    const reporterUrgency = input.urgency === "critical" ? "critical" : "normal";
+    const matched = [...rule.keywords.map(k => `"${k}"`), ...rule.reporterTypes.map(r => `reporter ${r}`)].join(", ");
+    return withLaneAgent({
+      lane: rule.lane,
+      urgency: rule.urgency || reporterUrgency,
+      assigned_agent: null,
+      triage_notes: `Matched pre-rule ${index + 1} (${matched})`,
+      confidence: 100,
+    }, config);
+  }
+
+  if (!provider) {
+    throw new Error("No AI agent configured and ANTHROPIC_API_KEY is not set");
+  }
 
+  const laneIds = config.lanes.map(l => l.id);
+  const images = input.images || [];
   const userPrompt = `Reporter: ${input.reporter_type} — ${input.reporter_name || "unknown"}
 Page: ${input.page_url || "N/A"}
-Description: ${input.description}
+Description: ${input.description}${images.length > 0 ? `\nScreenshots: ${images.length} attached below` : ""}
 
 Return this exact JSON structure:
 {
-  "lane": "ops_alert" | "software_bug" | "improvement" | "knowledge_update",
+  "lane": ${laneIds.map(id => `"${id}"`).join(" | ")},
   "urgency": "critical" | "normal",
   "assigned_agent": "claude_code" | "cursor_opus" | null,
   "triage_notes": "one sentence rationale",
@@ -40,29 +120,22 @@ Return this exact JSON structure:
 }
 
 Rules:
-- ops_alert: delivery complaints, missing items, driver issues
-- software_bug: broken UI, crashes, upload failures, wrong behaviour
-- improvement: feature requests, workflow ideas
-- knowledge_update: new lessons or constraints to document
-- If reporter_type is 'customer' and lane is ambiguous → ops_alert
-- If confidence < 80 → ops_alert
-- assigned_agent is null for ops_alert and improvement
-- For software_bug: claude_code if single file likely, cursor_opus if complex`;
+${[...config.lanes.map(l => `${l.id}: ${l.description}`), ...config.rules].map(line => `- ${line}`).join("\n")}`;
 
-  const response = await anthropic.messages.create({
+  const response = await provider.complete({
     model: "claude-sonnet-4-6",
-    max_tokens: 500,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: "user", content: userPrompt }],
+    maxTokens: 500,
+    system: `${config.systemPrompt}\nClassify the ticket and return ONLY valid JSON, no other text, no markdown.`,
+    messages: [{ role: "user", content: images.length > 0 ? [{ type: "text", text: userPrompt }, ...images] : userPrompt }],
   });
 
-  const text =
-    response.content[0].type === "text" ? response.content[0].text : "";
+  const text = response.text;
 
   const cleaned = text
     .replace(/^```(?:json)?\s*\n?/i, "")
     .replace(/\n?```\s*$/i, "")
     .trim();
   const result: TriageResult = JSON.parse(cleaned);
-  return result;
+  if (!laneIds.includes(result.lane)) result.lane = config.fallbackLane;
+  return withLaneAgent(result, config);
 }
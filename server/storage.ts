@@ -1,21 +1,46 @@
 import type {
   Business,
   InsertBusiness,
+  BusinessRole,
+  BusinessMember,
+  User,
+  UserSafe,
+  UserPreferences,
   Repository,
   InsertRepository,
   RepositorySafe,
   Agent,
   AgentSafe,
+  AgentFeature,
+  AgentAssignments,
   Project,
   InsertProject,
   Task,
   InsertTask,
+  TriageConfig,
+  IntakeApiKey,
+  TicketCallback,
+  InsertTicketCallback,
+  TicketEvent,
+  CallbackDelivery,
+  Attachment,
+  TaskReference,
   ChangelogEntry,
+  TaskStatus,
+  TaskWorkflow,
   InboxItem,
   InsertInboxItem,
   DiscussionMessage,
   CodeReview,
   ManagerMessage,
+  AgentRun,
+  AgentBudget,
+  AgentStep,
+  CodeFix,
+  WebhookDeliverySummary,
+  WebhookDelivery,
+  WebhookDeliveryWithPayload,
+  WebhookDeliveryOutcome,
 } from "@shared/schema";
 
 export interface IStorage {
@@ -25,6 +50,19 @@ export interface IStorage {
   updateBusiness(id: string, data: Partial<InsertBusiness>): Promise<Business | undefined>;
   deleteBusiness(id: string): Promise<boolean>;
 
+  getUser(id: string): Promise<UserSafe | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  updateUserPreferences(id: string, preferences: UserPreferences): Promise<UserSafe | undefined>;
+  createUser(username: string, passwordHash: string): Promise<UserSafe>;
+  countUsers(): Promise<number>;
+
+  getBusinessesForUser(userId: string): Promise<Business[]>;
+  getBusinessRole(bizId: string, userId: string): Promise<BusinessRole | undefined>;
+  getBusinessMembers(bizId: string): Promise<BusinessMember[]>;
+  setBusinessMember(bizId: string, userId: string, role: BusinessRole): Promise<BusinessMember | undefined>;
+  removeBusinessMember(bizId: string, userId: string): Promise<boolean>;
+  claimUnownedBusinesses(userId: string): Promise<number>;
+
   getRepositories(bizId: string): Promise<RepositorySafe[]>;
   getRepository(bizId: string, repoId: string): Promise<RepositorySafe | undefined>;
   getRepositoryWithToken(repoId: string): Promise<Repository | undefined>;
@@ -32,24 +70,82 @@ export interface IStorage {
   createRepository(bizId: string, data: InsertRepository): Promise<RepositorySafe>;
   updateRepository(bizId: string, repoId: string, data: Record<string, any>): Promise<RepositorySafe | undefined>;
   deleteRepository(bizId: string, repoId: string): Promise<boolean>;
+  /** All repositories (across businesses) connected to a GitHub repo; owner and name compare case-insensitively. */
+  getRepositoriesByGitHub(owner: string, repo: string): Promise<Repository[]>;
+  setRepositoryWebhookSecret(bizId: string, repoId: string, secret: string): Promise<boolean>;
+  recordRepositoryWebhookDelivery(repoId: string, delivery: WebhookDeliverySummary): Promise<void>;
 
   getBusinessAgents(bizId: string): Promise<AgentSafe[]>;
   addAgent(bizId: string, agent: Omit<Agent, "id">): Promise<AgentSafe | undefined>;
   updateAgent(bizId: string, agentId: string, data: Partial<Omit<Agent, "id">>): Promise<AgentSafe | undefined>;
   deleteAgent(bizId: string, agentId: string): Promise<boolean>;
   getReviewAgent(bizId: string): Promise<Agent | undefined>;
+  getAgentAssignments(bizId: string): Promise<AgentAssignments>;
+  setAgentAssignments(bizId: string, assignments: AgentAssignments): Promise<AgentAssignments>;
+  getAgentBudget(bizId: string): Promise<AgentBudget>;
+  setAgentBudget(bizId: string, budget: AgentBudget): Promise<AgentBudget>;
+  /** Null while the business uses the default triage configuration. */
+  getTriageConfig(bizId: string): Promise<TriageConfig | null>;
+  setTriageConfig(bizId: string, config: TriageConfig | null): Promise<void>;
+  getIntakeApiKeys(bizId: string): Promise<IntakeApiKey[]>;
+  createIntakeApiKey(bizId: string, name: string, key: string): Promise<IntakeApiKey>;
+  deleteIntakeApiKey(bizId: string, keyId: string): Promise<boolean>;
+  /** Looks up the key a ticket intake request presented and records that it was used. */
+  useIntakeApiKey(key: string): Promise<IntakeApiKey | undefined>;
+  getTicketCallbacks(bizId: string): Promise<TicketCallback[]>;
+  /** Creates the callback with a fresh signing secret. */
+  createTicketCallback(bizId: string, data: InsertTicketCallback): Promise<TicketCallback>;
+  updateTicketCallback(bizId: string, callbackId: string, data: Partial<InsertTicketCallback>): Promise<TicketCallback | undefined>;
+  /** Also drops the callback's queued and dead deliveries. */
+  deleteTicketCallback(bizId: string, callbackId: string): Promise<boolean>;
+  getTicketCallbackSecret(bizId: string, callbackId: string): Promise<string | undefined>;
+  rotateTicketCallbackSecret(bizId: string, callbackId: string): Promise<string | undefined>;
+  /** Queues one delivery per active callback subscribed to the event; returns how many were queued. */
+  enqueueCallbackDeliveries(bizId: string, event: TicketEvent, ticketId: number, payload: Record<string, unknown>): Promise<number>;
+  /** Pending deliveries whose next attempt is due, oldest first. */
+  getDueCallbackDeliveries(now: string, limit: number): Promise<CallbackDelivery[]>;
+  getCallbackDeliveries(bizId: string, status: CallbackDelivery["status"], limit: number): Promise<CallbackDelivery[]>;
+  updateCallbackDelivery(id: string, updates: Partial<Pick<CallbackDelivery, "status" | "attempts" | "nextAttemptAt" | "lastError" | "deliveredAt">>): Promise<void>;
+  /** Puts a dead delivery back in the queue with a fresh set of attempts. */
+  retryCallbackDelivery(bizId: string, deliveryId: string): Promise<CallbackDelivery | undefined>;
+  deleteCallbackDelivery(bizId: string, deliveryId: string): Promise<boolean>;
+  pruneCallbackDeliveries(deliveredBefore: string): Promise<number>;
+  /** Tickets whose inbox item created or was merged into the task. */
+  getTicketIdsForTask(bizId: string, taskId: string): Promise<number[]>;
+  /** Records a file stored by server/attachments.ts; the storage layer never touches the file itself. */
+  addAttachment(bizId: string, ticketId: number, attachment: Attachment): Promise<void>;
+  getAttachment(bizId: string, attachmentId: string): Promise<Attachment | undefined>;
+  getAgentForFeature(bizId: string, feature: AgentFeature): Promise<Agent | undefined>;
 
   getProjects(bizId: string): Promise<Project[]>;
   getProject(bizId: string, projectId: string): Promise<Project | undefined>;
   createProject(bizId: string, data: InsertProject): Promise<Project>;
   updateProject(bizId: string, projectId: string, data: Partial<InsertProject>): Promise<Project | undefined>;
+  /** Saves a project's own workflow; null returns it to the default workflow. */
+  setProjectWorkflow(bizId: string, projectId: string, workflow: TaskWorkflow | null): Promise<Project | undefined>;
   deleteProject(bizId: string, projectId: string): Promise<boolean>;
 
   getTasks(projectId: string): Promise<Task[]>;
   getAllTasksForBusiness(bizId: string): Promise<{ project: Project; tasks: Task[] }[]>;
   getTask(projectId: string, taskId: string): Promise<Task | undefined>;
+  findTaskInBusinesses(taskId: string, bizIds: string[]): Promise<{ task: Task; project: Project } | undefined>;
+  /** Resolves references in the given order, skipping any that are gone or belong to another business. */
+  getTasksByReference(bizId: string, refs: TaskReference[]): Promise<{ task: Task; project: Project }[]>;
   createTask(projectId: string, data: InsertTask, customId?: string): Promise<Task>;
-  updateTask(projectId: string, taskId: string, data: Partial<InsertTask>, bizId?: string): Promise<Task | undefined>;
+  /** Field edits only; status changes go through transitionTask (server/taskTransitions.ts). */
+  updateTask(projectId: string, taskId: string, data: Partial<Omit<InsertTask, "status">>): Promise<Task | undefined>;
+  /**
+   * Moves a task from `fromStatus` to `toStatus` and records the change in the changelog.
+   * Returns undefined, changing nothing, if the task is missing or no longer in `fromStatus`.
+   */
+  setTaskStatus(
+    projectId: string,
+    taskId: string,
+    fromStatus: TaskStatus,
+    toStatus: TaskStatus,
+    by: Pick<ChangelogEntry, "actor" | "actorName">,
+  ): Promise<Task | undefined>;
+  setTaskBlockers(projectId: string, taskId: string, blockedBy: TaskReference[]): Promise<Task | undefined>;
   deleteTask(projectId: string, taskId: string): Promise<boolean>;
   moveTask(fromProjectId: string, toProjectId: string, taskId: string): Promise<Task | undefined>;
   bulkUpdateTasksRepository(projectId: string, repositoryId: string, onlyUnlinked: boolean): Promise<number>;
@@ -57,10 +153,12 @@ export interface IStorage {
   getDiscussion(projectId: string, taskId: string): Promise<DiscussionMessage[]>;
   addDiscussionMessage(projectId: string, taskId: string, message: Omit<DiscussionMessage, "id">): Promise<DiscussionMessage | undefined>;
   updateDiscussionCodeFix(projectId: string, taskId: string, codeFixId: string, codeFix: any): Promise<void>;
+  /** Applies `update` to every code fix (task discussions and manager messages) in these businesses whose PR has this URL; returns the updated fixes. */
+  updateCodeFixesByPrUrl(prUrl: string, bizIds: string[], update: (codeFix: CodeFix) => CodeFix): Promise<CodeFix[]>;
 
   addGeneratedPrompt(projectId: string, taskId: string, prompt: { source: "code_review" | "discussion"; prompt: string; filePath?: string }): Promise<Task | undefined>;
 
-  getCodeReviews(taskId: string): Promise<CodeReview[]>;
+  getCodeReviews(projectId: string, taskId: string): Promise<CodeReview[]>;
   addCodeReview(review: Omit<CodeReview, "id">): Promise<CodeReview>;
 
   getChangelog(bizId: string): Promise<ChangelogEntry[]>;
@@ -77,6 +175,29 @@ export interface IStorage {
   addManagerMessage(bizId: string, message: Omit<ManagerMessage, "id">): Promise<ManagerMessage>;
   updateManagerMessage(bizId: string, messageId: string, updates: Partial<ManagerMessage>): Promise<ManagerMessage | undefined>;
   clearManagerDiscussion(bizId: string): Promise<void>;
+
+  createAgentRun(bizId: string, data: Pick<AgentRun, "taskId" | "projectId" | "deployMode" | "reviewBeforeDeploy" | "instructions" | "budget">): Promise<AgentRun>;
+  getAgentRun(bizId: string, runId: string): Promise<AgentRun | undefined>;
+  getAgentRuns(bizId: string, taskId?: string): Promise<AgentRun[]>;
+  updateAgentRun(runId: string, updates: Partial<Omit<AgentRun, "id" | "businessId">>): Promise<void>;
+  addAgentRunStep(runId: string, seq: number, step: AgentStep): Promise<void>;
+  getAgentRunSteps(runId: string): Promise<AgentStep[]>;
+  /** Marks runs left running or awaiting approval by a previous process as failed; returns how many were updated. */
+  failInterruptedAgentRuns(): Promise<number>;
+
+  /** Logs a delivery; returns undefined if one with the same GitHub delivery ID is already logged. */
+  createWebhookDelivery(data: Omit<WebhookDeliveryWithPayload, "id">): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveryByDeliveryId(deliveryId: string): Promise<WebhookDelivery | undefined>;
+  /** Marks deliveries left pending by a previous process as errors so they can be reprocessed; returns how many were updated. */
+  failInterruptedWebhookDeliveries(): Promise<number>;
+  /** Deliveries involving a business, newest first, without payloads. */
+  getWebhookDeliveries(bizId: string, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(bizId: string, id: string): Promise<WebhookDeliveryWithPayload | undefined>;
+  /** Records the delivery's result for all of its businesses, replacing any per-business reprocessing results. */
+  updateWebhookDelivery(id: string, updates: Partial<Omit<WebhookDeliveryWithPayload, "id">>): Promise<void>;
+  /** Records one business's result of reprocessing the delivery, leaving what the other businesses see alone. */
+  setWebhookDeliveryOutcome(id: string, bizId: string, outcome: WebhookDeliveryOutcome): Promise<void>;
+  pruneWebhookDeliveries(receivedBefore: string): Promise<number>;
 }
 
 import { DatabaseStorage } from "./dbStorage";
@@ -0,0 +1,98 @@
+import type { ChangelogActor, Task, TaskStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { statusCategory, transitionError } from "@shared/taskWorkflow";
+import { openBlockers } from "@shared/taskDependencies";
+import { notifyTaskTicketEvent } from "./ticketCallbacks";
+
+/**
+ * The one way a task's status changes. Every transition — a person in the UI, a GitHub webhook,
+ * an agent acting from a task discussion, or the AI Manager — is checked against the project's
+ * workflow and written together with a changelog entry naming who made it, so the changelog
+ * and velocity stats see all of them.
+ */
+
+export interface TransitionActor {
+  actor: ChangelogActor;
+  /** Username, model, or the event that caused the change (e.g. "PR #12 merged"). */
+  name?: string;
+}
+
+/** The target is not a status of the project's workflow, or the workflow does not allow the move. */
+export class InvalidTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/** The task would start while tasks it is blocked by are unfinished; callers may retry with `force`. */
+export class BlockedTransitionError extends Error {
+  constructor(public readonly blockers: Task[], taskId: string) {
+    super(`${taskId} is blocked by ${blockers.map(b => `${b.id} (${b.status})`).join(", ")}.`);
+    this.name = "BlockedTransitionError";
+  }
+}
+
+export interface TransitionResult {
+  task: Task;
+  fromStatus: TaskStatus;
+  /** False when the task already had the requested status; no changelog entry is written then. */
+  changed: boolean;
+}
+
+const MAX_ATTEMPTS = 3;
+
+/** The task's blockers, in any project of the business, that are not done by their own project's workflow. */
+export async function findOpenBlockers(bizId: string, task: Task): Promise<Task[]> {
+  const found = await storage.getTasksByReference(bizId, task.blockedBy || []);
+  const workflows = new Map(found.map(f => [f.project.id, f.project.workflow]));
+  return openBlockers(task, found.map(f => f.task), projectId => workflows.get(projectId));
+}
+
+export async function transitionTask(
+  bizId: string,
+  projectId: string,
+  taskId: string,
+  toStatus: string,
+  by: TransitionActor,
+  /** Start the task even if unfinished tasks block it. */
+  options: { force?: boolean } = {},
+): Promise<TransitionResult | undefined> {
+  const project = await storage.getProject(bizId, projectId);
+  if (!project) return undefined;
+
+  // Someone else may move the task between the read and the write; the rules are then checked again
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const task = await storage.getTask(projectId, taskId);
+    if (!task) return undefined;
+    const error = transitionError(project.workflow, task.status, toStatus);
+    if (error) throw new InvalidTransitionError(error);
+    if (task.status === toStatus) return { task, fromStatus: task.status, changed: false };
+    const { workflow } = project;
+    if (!options.force && statusCategory(workflow, toStatus) === "in_progress" && statusCategory(workflow, task.status) !== "in_progress") {
+      const blockers = await findOpenBlockers(bizId, task);
+      if (blockers.length > 0) throw new BlockedTransitionError(blockers, task.id);
+    }
+
+    const updated = await storage.setTaskStatus(projectId, taskId, task.status, toStatus, { actor: by.actor, actorName: by.name || "" });
+    if (updated) {
+      console.log(`[transition] ${taskId}: ${task.status} → ${toStatus} (${by.actor}${by.name ? `: ${by.name}` : ""})`);
+      await notifyTaskTicketEvent(bizId, updated, project.workflow, task.status);
+      return { task: updated, fromStatus: task.status, changed: true };
+    }
+  }
+  throw new Error(`Task ${taskId} kept changing status while being moved; try again`);
+}
+
+/** Records a task created straight into a status (e.g. from an approved ticket) as its first changelog entry. */
+export async function recordTaskCreated(bizId: string, task: Pick<Task, "id" | "title" | "status">, by: TransitionActor): Promise<void> {
+  await storage.addChangelogEntry(bizId, {
+    taskId: task.id,
+    taskTitle: task.title,
+    fromStatus: "",
+    toStatus: task.status,
+    timestamp: new Date().toISOString(),
+    actor: by.actor,
+    actorName: by.name || "",
+  });
+}
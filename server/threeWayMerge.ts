@@ -0,0 +1,120 @@
+/**
+ * Line-based three-way merge (diff3) for applying a generated change to a file that has moved
+ * on since the change was generated. Regions only one side touched merge cleanly; regions both
+ * sides changed differently become git-style conflict blocks.
+ */
+
+export interface MergeResult {
+  /** Merged text; contains <<<<<<< / ======= / >>>>>>> blocks when conflicts > 0. */
+  content: string;
+  conflicts: number;
+}
+
+// Above this many cells the LCS table is not worth building; the merge reports one conflict instead
+const MAX_LCS_CELLS = 4_000_000;
+
+/** For each line of `a`, the index of the matching line in `b` (or -1), along a longest common subsequence. */
+function matchLines(a: string[], b: string[]): Int32Array | null {
+  const match = new Int32Array(a.length).fill(-1);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    match[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    match[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) return match;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) return null;
+
+  // lengths[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  for (let i = 0, j = 0; i < n && j < m; ) {
+    if (a[start + i] === b[start + j]) {
+      match[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return match;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merges `ours` and `theirs`, both derived from `base`. Conflict blocks label our side with
+ * `oursLabel` and theirs with `theirsLabel`.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, oursLabel = "ours", theirsLabel = "theirs"): MergeResult {
+  if (ours === theirs || theirs === base) return { content: ours, conflicts: 0 };
+  if (ours === base) return { content: theirs, conflicts: 0 };
+
+  const baseLines = base.split("\n");
+  const oursLines = ours.split("\n");
+  const theirsLines = theirs.split("\n");
+  const toOurs = matchLines(baseLines, oursLines);
+  const toTheirs = matchLines(baseLines, theirsLines);
+  if (!toOurs || !toTheirs) {
+    return { content: [`<<<<<<< ${oursLabel}`, ours, "=======", theirs, `>>>>>>> ${theirsLabel}`].join("\n"), conflicts: 1 };
+  }
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let o = 0;
+  let t = 0;
+  while (i < baseLines.length || o < oursLines.length || t < theirsLines.length) {
+    // A base line kept in place on both sides is stable and copied through
+    if (i < baseLines.length && toOurs[i] === o && toTheirs[i] === t) {
+      out.push(baseLines[i]);
+      i++;
+      o++;
+      t++;
+      continue;
+    }
+
+    // Otherwise the changed region runs up to the next base line both sides still contain
+    let next = i;
+    while (next < baseLines.length && (toOurs[next] < o || toTheirs[next] < t)) next++;
+    const endO = next < baseLines.length ? toOurs[next] : oursLines.length;
+    const endT = next < baseLines.length ? toTheirs[next] : theirsLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const oursChunk = oursLines.slice(o, endO);
+    const theirsChunk = theirsLines.slice(t, endT);
+    if (sameLines(oursChunk, baseChunk)) {
+      out.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      out.push(...oursChunk);
+    } else {
+      conflicts++;
+      out.push(`<<<<<<< ${oursLabel}`, ...oursChunk, "=======", ...theirsChunk, `>>>>>>> ${theirsLabel}`);
+    }
+    i = next;
+    o = endO;
+    t = endT;
+  }
+  return { content: out.join("\n"), conflicts };
+}
@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { eq } from "drizzle-orm";
+import { ticketsTable, type CallbackDelivery, type Task, type TaskWorkflow, type TicketEvent } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { statusCategory } from "@shared/taskWorkflow";
+
+/**
+ * Tells the business's reporting app what happened to its tickets. Every event is queued as one
+ * delivery per subscribed callback and POSTed as JSON, signed with the callback's secret in
+ * X-Signature-256 ("sha256=" + HMAC-SHA256 of the body, like GitHub webhooks). Failed attempts
+ * are retried with growing delays; a delivery that runs out of attempts is kept as "dead" until
+ * an owner retries or discards it in Settings. A retry keeps the X-Delivery-Id, so receivers
+ * can ignore a delivery they already handled. Callbacks are never sent to loopback, private or
+ * link-local addresses, and redirects are not followed.
+ */
+
+// Waits before the 2nd, 3rd, ... attempt
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10_000;
+const POLL_INTERVAL_MS = 30_000;
+const BATCH_SIZE = 20;
+const DELIVERED_RETENTION_DAYS = 30;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.168.0.0", 16], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function signCallbackBody(secret: string, body: string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Queues `event` for every callback subscribed to it and starts delivering. Never throws: a
+ * reporting app that cannot be notified must not fail the action that caused the event.
+ */
+export async function notifyTicketEvent(
+  bizId: string,
+  ticketId: number,
+  event: TicketEvent,
+  task?: Pick<Task, "id" | "title" | "status" | "projectId">,
+): Promise<void> {
+  try {
+    const [ticket] = await db.select().from(ticketsTable).where(eq(ticketsTable.id, ticketId));
+    if (!ticket || ticket.businessId !== bizId) return;
+
+    const payload = {
+      event,
+      occurredAt: new Date().toISOString(),
+      ticket: {
+        id: ticket.id,
+        status: ticket.status,
+        title: ticket.title,
+        lane: ticket.lane,
+        urgency: ticket.urgency,
+        reporterType: ticket.reporterType,
+        reporterId: ticket.reporterId,
+        reporterName: ticket.reporterName,
+        branchName: ticket.branchName,
+        feedback: ticket.feedback,
+      },
+      task: task ? { id: task.id, title: task.title, status: task.status, projectId: task.projectId } : null,
+    };
+    const queued = await storage.enqueueCallbackDeliveries(bizId, event, ticketId, payload);
+    if (queued > 0) void processDueCallbacks();
+  } catch (err) {
+    console.error(`[callbacks] Could not queue ${event} for ticket #${ticketId}:`, err);
+  }
+}
+
+/** Called for every status change: entering the review or done category notifies the task's tickets. */
+export async function notifyTaskTicketEvent(bizId: string, task: Task, workflow: TaskWorkflow, fromStatus: string): Promise<void> {
+  const category = statusCategory(workflow, task.status);
+  if (category === statusCategory(workflow, fromStatus)) return;
+  const event: TicketEvent | null = category === "review" ? "task_in_review" : category === "done" ? "task_done" : null;
+  if (!event) return;
+  try {
+    const ticketIds = await storage.getTicketIdsForTask(bizId, task.id);
+    for (const ticketId of ticketIds) {
+      await notifyTicketEvent(bizId, ticketId, event, task);
+    }
+  } catch (err) {
+    console.error(`[callbacks] Could not look up tickets of ${task.id}:`, err);
+  }
+}
+
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges too
+function isBlockedAddress(address: string, family: number): boolean {
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * The `lookup` every callback connection resolves through: the addresses are checked when the
+ * socket is about to connect to them, so a DNS answer that changes between a separate check and
+ * the request (rebinding) cannot reach a private address.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    const blocked = addresses.find(a => isBlockedAddress(a.address, a.family));
+    if (blocked) return callback(new Error(`${hostname} resolves to ${blocked.address}, which is not a public address`), "");
+    if (addresses.length === 0) return callback(new Error(`${hostname} did not resolve`), "");
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POSTs `body` and resolves with the response status. Redirects are not followed (a 3xx is just
+ * a failed attempt), and an IP-literal host, which never goes through a lookup, is checked here.
+ */
+function postCallback(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const request = target.protocol === "https:" ? https.request : target.protocol === "http:" ? http.request : null;
+  if (!request) return Promise.reject(new Error(`Unsupported callback URL protocol ${target.protocol}`));
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isBlockedAddress(host, net.isIP(host))) {
+    return Promise.reject(new Error(`${host} is not a public address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const finish = (err: Error | null, status = 0) => {
+      clearTimeout(timer);
+      if (err) reject(err);
+      else resolve(status);
+    };
+    const req = request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: publicLookup,
+    }, res => {
+      res.resume();
+      res.on("end", () => finish(null, res.statusCode || 0));
+      res.on("error", finish);
+    });
+    timer = setTimeout(() => {
+      const err = new Error("Request timed out");
+      err.name = "TimeoutError";
+      req.destroy(err);
+    }, REQUEST_TIMEOUT_MS);
+    req.on("error", finish);
+    req.end(body);
+  });
+}
+
+async function attemptDelivery(delivery: CallbackDelivery): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  const secret = await storage.getTicketCallbackSecret(delivery.businessId, delivery.callbackId);
+  if (secret === undefined) {
+    await storage.updateCallbackDelivery(delivery.id, { status: "dead", attempts, nextAttemptAt: null, lastError: "Callback was deleted" });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  let error: string;
+  try {
+    const status = await postCallback(delivery.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "AI-Dev-Hub-Callbacks",
+      "X-Ticket-Event": delivery.event,
+      "X-Delivery-Id": delivery.id,
+      "X-Signature-256": signCallbackBody(secret, body),
+    }, body);
+    if (status >= 200 && status < 300) {
+      await storage.updateCallbackDelivery(delivery.id, {
+        status: "delivered", attempts, nextAttemptAt: null, lastError: null, deliveredAt: new Date().toISOString(),
+      });
+      return;
+    }
+    error = `HTTP ${status}`;
+  } catch (err: any) {
+    error = err.name === "TimeoutError" ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s` : err.message || String(err);
+  }
+
+  if (attempts >= MAX_ATTEMPTS) {
+    console.warn(`[callbacks] Giving up on ${delivery.event} for ticket #${delivery.ticketId} to ${delivery.url}: ${error}`);
+    await storage.updateCallbackDelivery(delivery.id, { status: "dead", attempts, nextAttemptAt: null, lastError: error });
+    return;
+  }
+  const nextAttemptAt = new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]).toISOString();
+  await storage.updateCallbackDelivery(delivery.id, { attempts, nextAttemptAt, lastError: error });
+}
+
+let processing = false;
+
+/** Sends every delivery that is due; overlapping calls return at once while a pass is running. */
+export async function processDueCallbacks(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    for (;;) {
+      const due = await storage.getDueCallbackDeliveries(new Date().toISOString(), BATCH_SIZE);
+      for (const delivery of due) {
+        await attemptDelivery(delivery);
+      }
+      if (due.length < BATCH_SIZE) break;
+    }
+  } catch (err) {
+    console.error("[callbacks] Delivery pass failed:", err);
+  } finally {
+    processing = false;
+  }
+}
+
+function pruneDeliveredCallbacks(): void {
+  const cutoff = new Date(Date.now() - DELIVERED_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  storage.pruneCallbackDeliveries(cutoff).catch(err => console.error("[callbacks] Could not prune delivered callbacks:", err));
+}
+
+/** Picks up retries (and anything queued before a restart) and prunes old deliveries in the background. */
+export function startCallbackWorker(): void {
+  pruneDeliveredCallbacks();
+  void processDueCallbacks();
+  setInterval(() => void processDueCallbacks(), POLL_INTERVAL_MS).unref();
+  setInterval(pruneDeliveredCallbacks, PRUNE_INTERVAL_MS).unref();
+}
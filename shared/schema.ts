@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { pgTable, text, varchar, boolean, jsonb, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, jsonb, serial, integer, doublePrecision, timestamp } from "drizzle-orm/pg-core";
 
 export const agentTypeEnum = z.enum(["Claude", "ChatGPT", "Replit", "Other"]);
 
@@ -10,11 +10,22 @@ export const agentSchema = z.object({
   apiKey: z.string(),
   role: z.string(),
   isReviewAgent: z.boolean().default(false),
+  model: z.string().optional().default(""),
+  baseUrl: z.string().optional().default(""),
+  /** The stored key could not be decrypted (its master key is missing); `apiKey` is empty until it is re-entered. */
+  apiKeyUnavailable: z.boolean().optional(),
 });
 
 export type Agent = z.infer<typeof agentSchema>;
 export type AgentSafe = Omit<Agent, "apiKey">;
 
+export const agentFeatureEnum = z.enum(["review", "discuss", "code_fix", "manager", "transcript", "triage", "agent_run"]);
+export type AgentFeature = z.infer<typeof agentFeatureEnum>;
+
+/** Maps an AI feature to the agent that serves it; unassigned features fall back to the review agent. */
+export const agentAssignmentsSchema = z.record(agentFeatureEnum, z.string());
+export type AgentAssignments = Partial<Record<AgentFeature, string>>;
+
 export const businessSchema = z.object({
   id: z.string(),
   name: z.string().min(1),
@@ -31,8 +42,109 @@ export const insertBusinessSchema = z.object({
 export type Business = z.infer<typeof businessSchema>;
 export type InsertBusiness = z.infer<typeof insertBusinessSchema>;
 
+export const businessRoleEnum = z.enum(["owner", "editor", "viewer"]);
+export type BusinessRole = z.infer<typeof businessRoleEnum>;
+
+/** How a user last looked at a project's tasks; follows them across devices. */
+export const taskViewPreferenceSchema = z.object({
+  mode: z.enum(["list", "board"]).default("list"),
+  swimlanes: z.enum(["none", "priority", "repository"]).default("none"),
+});
+
+export const userPreferencesSchema = z.object({
+  taskView: taskViewPreferenceSchema.optional(),
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string().min(3),
+  passwordHash: z.string(),
+  createdAt: z.string(),
+  preferences: userPreferencesSchema.default({}),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export type User = z.infer<typeof userSchema>;
+export type UserSafe = Omit<User, "passwordHash">;
+export type TaskViewPreference = z.infer<typeof taskViewPreferenceSchema>;
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+export type Login = z.infer<typeof loginSchema>;
+
+export const businessMemberSchema = z.object({
+  userId: z.string(),
+  username: z.string(),
+  role: businessRoleEnum,
+});
+
+export const insertBusinessMemberSchema = z.object({
+  username: z.string().trim().min(3),
+  role: businessRoleEnum.optional().default("editor"),
+  /** Only used to create the account when the username does not exist yet. */
+  password: z.string().min(8).optional(),
+});
+
+export type BusinessMember = z.infer<typeof businessMemberSchema>;
+export type InsertBusinessMember = z.infer<typeof insertBusinessMemberSchema>;
+
 export const repositoryTypeEnum = z.enum(["backend", "frontend", "mobile", "fullstack", "api", "other"]);
 
+/** How agent runs access a repository: per-call GitHub REST requests, or a cloned git working copy. */
+export const repoAgentBackendEnum = z.enum(["github_api", "local_git"]);
+export type RepoAgentBackend = z.infer<typeof repoAgentBackendEnum>;
+
+/** A command the agent may run in its checkout; required ones must pass before any deploy. */
+export const agentCommandSchema = z.object({
+  command: z.string().trim().min(1),
+  requiredForDeploy: z.boolean().optional().default(false),
+});
+export type AgentCommand = z.infer<typeof agentCommandSchema>;
+
+export const webhookOutcomeEnum = z.enum(["processed", "ignored", "error", "rejected"]);
+export type WebhookOutcome = z.infer<typeof webhookOutcomeEnum>;
+
+/** Outcome of the most recent GitHub webhook delivery for a repository, shown in Settings. */
+export const webhookDeliverySummarySchema = z.object({
+  at: z.string(),
+  event: z.string(),
+  deliveryId: z.string().optional(),
+  status: webhookOutcomeEnum,
+  message: z.string(),
+});
+export type WebhookDeliverySummary = z.infer<typeof webhookDeliverySummarySchema>;
+
+/** A logged GitHub webhook delivery; "pending" while it is being processed. */
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  deliveryId: z.string().optional(),
+  event: z.string(),
+  action: z.string().optional(),
+  /** "owner/repo" as named in the payload. */
+  repository: z.string(),
+  repositoryIds: z.array(z.string()),
+  businessIds: z.array(z.string()),
+  status: z.union([z.literal("pending"), webhookOutcomeEnum]),
+  message: z.string(),
+  taskIds: z.array(z.string()),
+  codeFixIds: z.array(z.string()),
+  error: z.string().optional(),
+  attempts: z.number(),
+  receivedAt: z.string(),
+  processedAt: z.string().optional(),
+});
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+/** One business's result of reprocessing a delivery it shares with others; that business sees it in place of the delivery's own. */
+export type WebhookDeliveryOutcome = Pick<WebhookDelivery, "status" | "message" | "taskIds" | "codeFixIds" | "error" | "attempts" | "processedAt">;
+
+export interface WebhookDeliveryWithPayload extends WebhookDelivery {
+  /** Absent for deliveries rejected before their signature was verified. */
+  payload?: unknown;
+}
+
 export const repositorySchema = z.object({
   id: z.string(),
   businessId: z.string(),
@@ -43,6 +155,14 @@ export const repositorySchema = z.object({
   repo: z.string(),
   token: z.string(),
   type: repositoryTypeEnum.optional().default("other"),
+  agentBackend: repoAgentBackendEnum.optional().default("github_api"),
+  cloneUrl: z.string().optional().default(""),
+  agentCommands: z.array(agentCommandSchema).optional().default([]),
+  webhookSecret: z.string().optional().default(""),
+  lastWebhookDelivery: webhookDeliverySummarySchema.nullable().optional(),
+  /** The stored token / webhook secret could not be decrypted (its master key is missing) and reads as empty. */
+  tokenUnavailable: z.boolean().optional(),
+  webhookSecretUnavailable: z.boolean().optional(),
 });
 
 export const insertRepositorySchema = z.object({
@@ -51,11 +171,55 @@ export const insertRepositorySchema = z.object({
   repoUrl: z.string().optional().default(""),
   token: z.string().optional().default(""),
   type: repositoryTypeEnum.optional().default("other"),
+  agentBackend: repoAgentBackendEnum.optional().default("github_api"),
+  cloneUrl: z.string().optional().default(""),
+  agentCommands: z.array(agentCommandSchema).optional().default([]),
 });
 
 export type Repository = z.infer<typeof repositorySchema>;
 export type InsertRepository = z.infer<typeof insertRepositorySchema>;
-export type RepositorySafe = Omit<Repository, "token">;
+export type RepositorySafe = Omit<Repository, "token" | "webhookSecret"> & { hasWebhookSecret: boolean };
+
+/** What a workflow status means to the rest of the app (stats, start-work, webhooks), whatever it is called. */
+export const workflowCategoryEnum = z.enum(["todo", "in_progress", "review", "done"]);
+
+export const workflowStatusSchema = z.object({
+  name: z.string().trim().min(1).max(30),
+  category: workflowCategoryEnum,
+  /** Board column limit; more tasks than this are allowed but flagged. */
+  wipLimit: z.number().int().positive().optional(),
+});
+
+/**
+ * A project's task statuses and the moves allowed between them. A status with no entry in
+ * `transitions` may move to any other status.
+ */
+export const taskWorkflowSchema = z.object({
+  statuses: z.array(workflowStatusSchema).min(1),
+  transitions: z.record(z.string(), z.array(z.string())).default({}),
+  /** Status new tasks start in. */
+  initialStatus: z.string(),
+  /** Status "Start Work" moves a task to. */
+  startStatus: z.string(),
+  /** Status a merged PR or a `[TASK-ID]` push moves a task to. */
+  webhookStatus: z.string(),
+}).superRefine((workflow, ctx) => {
+  const names = workflow.statuses.map(s => s.name);
+  const known = new Set(names);
+  if (known.size !== names.length) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Status names must be unique", path: ["statuses"] });
+  for (const key of ["initialStatus", "startStatus", "webhookStatus"] as const) {
+    if (!known.has(workflow[key])) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status "${workflow[key]}"`, path: [key] });
+  }
+  for (const [from, targets] of Object.entries(workflow.transitions)) {
+    for (const name of [from, ...targets]) {
+      if (!known.has(name)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status "${name}"`, path: ["transitions", from] });
+    }
+  }
+});
+
+export type WorkflowCategory = z.infer<typeof workflowCategoryEnum>;
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>;
+export type TaskWorkflow = z.infer<typeof taskWorkflowSchema>;
 
 export const projectSchema = z.object({
   id: z.string(),
@@ -65,6 +229,9 @@ export const projectSchema = z.object({
   color: z.string(),
   relatedRepositories: z.array(z.string()).optional().default([]),
   defaultRepositoryId: z.string().optional().default(""),
+  /** The project's own workflow, or the default one when it has not defined any. */
+  workflow: taskWorkflowSchema,
+  hasCustomWorkflow: z.boolean().optional().default(false),
 });
 
 export const insertProjectSchema = z.object({
@@ -79,6 +246,7 @@ export type Project = z.infer<typeof projectSchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 
 export const taskTypeEnum = z.enum(["Bug", "Feature", "Task"]);
+/** Statuses of the default workflow; projects may define their own (see taskWorkflowSchema). */
 export const taskStatusEnum = z.enum(["Open", "In Progress", "Quality Review", "Done"]);
 export const taskPriorityEnum = z.enum(["High", "Medium", "Low"]);
 
@@ -95,6 +263,31 @@ export const codeFixFileSchema = z.object({
   description: z.string(),
 });
 
+/** A fix file whose target changed on the default branch in a way that cannot be merged automatically. */
+export const codeFixConflictSchema = z.object({
+  path: z.string(),
+  reason: z.enum(["conflict", "deleted"]),
+  hunks: z.number(),
+  /** Merge result with <<<<<<< / >>>>>>> markers around the clashing regions. */
+  mergedContent: z.string().optional(),
+});
+
+/** Latest review verdict per reviewer on a code fix's pull request. */
+export const codeFixReviewSchema = z.object({
+  reviewer: z.string(),
+  state: z.enum(["approved", "changes_requested", "commented", "dismissed"]),
+  submittedAt: z.string(),
+});
+
+/** A CI check run on the pull request's current head commit. */
+export const codeFixCheckSchema = z.object({
+  name: z.string(),
+  status: z.enum(["queued", "in_progress", "completed"]),
+  conclusion: z.string().nullable().optional(),
+  url: z.string().optional(),
+  updatedAt: z.string(),
+});
+
 export const codeFixSchema = z.object({
   id: z.string(),
   taskId: z.string(),
@@ -102,14 +295,26 @@ export const codeFixSchema = z.object({
   commitMessage: z.string(),
   description: z.string(),
   files: z.array(codeFixFileSchema),
-  status: z.enum(["generated", "pr_created", "merged", "discarded"]).default("generated"),
+  status: z.enum(["generated", "conflict", "pr_created", "merged", "discarded"]).default("generated"),
   prUrl: z.string().optional(),
   prNumber: z.number().optional(),
   branchName: z.string().optional(),
+  conflicts: z.array(codeFixConflictSchema).optional(),
+  conflictsCheckedAt: z.string().optional(),
+  // Live pull request state, kept current by the GitHub webhook
+  prState: z.enum(["open", "closed", "merged"]).optional(),
+  prHeadSha: z.string().optional(),
+  prUpdatedAt: z.string().optional(),
+  mergedAt: z.string().optional(),
+  reviews: z.array(codeFixReviewSchema).optional(),
+  checks: z.array(codeFixCheckSchema).optional(),
 });
 
 export type CodeFix = z.infer<typeof codeFixSchema>;
 export type CodeFixFile = z.infer<typeof codeFixFileSchema>;
+export type CodeFixConflict = z.infer<typeof codeFixConflictSchema>;
+export type CodeFixReview = z.infer<typeof codeFixReviewSchema>;
+export type CodeFixCheck = z.infer<typeof codeFixCheckSchema>;
 
 export const discussionMessageSchema = z.object({
   id: z.string(),
@@ -119,7 +324,8 @@ export const discussionMessageSchema = z.object({
   filesLoaded: z.array(z.string()).optional().default([]),
   isAutoAnalysis: z.boolean().optional().default(false),
   isReverification: z.boolean().optional().default(false),
-  model: aiModelEnum.optional(),
+  /** The model that answered, which may be any model an agent is configured with. */
+  model: z.string().optional(),
   codeFix: codeFixSchema.optional(),
 });
 
@@ -144,13 +350,33 @@ export const generatedPromptSchema = z.object({
 
 export type GeneratedPrompt = z.infer<typeof generatedPromptSchema>;
 
+/** Points at a task in any project of the same business; task IDs alone do not say which project holds them. */
+export const taskReferenceSchema = z.object({
+  projectId: z.string(),
+  taskId: z.string(),
+});
+
+export type TaskReference = z.infer<typeof taskReferenceSchema>;
+
+/** A file that came with a ticket; the bytes are kept in local attachment storage (server/attachments.ts). */
+export const attachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mediaType: z.string(),
+  size: z.number(),
+  /** Set when the file was fetched from a URL the reporter sent instead of uploaded. */
+  sourceUrl: z.string().nullable(),
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
 export const taskSchema = z.object({
   id: z.string(),
   projectId: z.string(),
   repositoryId: z.string().optional().default(""),
   source: z.string().optional().default(""),
   type: taskTypeEnum,
-  status: taskStatusEnum,
+  status: z.string().min(1),
   priority: taskPriorityEnum,
   title: z.string().min(1),
   description: z.string(),
@@ -163,26 +389,45 @@ export const taskSchema = z.object({
   autoAnalysisResult: autoAnalysisResultEnum.optional(),
   autoAnalysisTimestamp: z.string().optional(),
   generatedPrompts: z.array(generatedPromptSchema).optional().default([]),
-  dependencies: z.array(z.string()).optional().default([]),
+  /** Tasks this one is linked with for context, in any project of the business; the links carry no ordering. */
+  dependencies: z.array(taskReferenceSchema).optional().default([]),
+  /** Tasks, in any project of the business, that have to be done before this one can start (see shared/taskDependencies.ts). */
+  blockedBy: z.array(taskReferenceSchema).optional().default([]),
+  /** Screenshots and files of the tickets the task was created from or merged with. */
+  attachments: z.array(attachmentSchema).optional().default([]),
 });
 
-export const insertTaskSchema = taskSchema.omit({ id: true, projectId: true, discussion: true });
+// Blockers are only changed through the blocker endpoints, which reject cycles; attachments only come from tickets
+export const insertTaskSchema = taskSchema.omit({ id: true, projectId: true, discussion: true, blockedBy: true, attachments: true }).extend({
+  /** Defaults to the project workflow's initial status. */
+  status: z.string().min(1).optional(),
+});
 
 export type Task = z.infer<typeof taskSchema>;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type TaskType = z.infer<typeof taskTypeEnum>;
-export type TaskStatus = z.infer<typeof taskStatusEnum>;
+/** A status name from the task's project workflow. */
+export type TaskStatus = string;
 export type TaskPriority = z.infer<typeof taskPriorityEnum>;
 
+/** Who made a status change: a person in the UI, a GitHub webhook, an agent in a task discussion, or the AI Manager. */
+export const changelogActorEnum = z.enum(["user", "webhook", "agent", "manager"]);
+
 export const changelogEntrySchema = z.object({
   id: z.string(),
   taskId: z.string(),
   taskTitle: z.string(),
+  /** Empty when the entry records the task being created. */
   fromStatus: z.string(),
   toStatus: z.string(),
   timestamp: z.string(),
+  /** Absent on entries recorded before actors were tracked. */
+  actor: changelogActorEnum.optional(),
+  /** Username, model, or the event that caused the change (e.g. "PR #12 merged"). */
+  actorName: z.string().optional(),
 });
 
+export type ChangelogActor = z.infer<typeof changelogActorEnum>;
 export type ChangelogEntry = z.infer<typeof changelogEntrySchema>;
 
 export interface GitHubFile {
@@ -205,6 +450,31 @@ export const inboxSourceEnum = z.enum(["Customer", "Internal", "Meeting", "Other
 export const inboxStatusEnum = z.enum(["New", "Reviewed", "Assigned", "Dismissed"]);
 export const inboxPriorityEnum = z.enum(["High", "Medium", "Low"]);
 
+export const duplicateCheckSchema = z.object({
+  hasDuplicate: z.boolean(),
+  duplicateTaskId: z.string().nullable(),
+  similarity: z.number(),
+  recommendation: z.enum(["new_task", "enrich_existing", "likely_duplicate"]),
+  reasoning: z.string(),
+});
+
+export type DuplicateCheck = z.infer<typeof duplicateCheckSchema>;
+
+/** What the ticket pipeline found out about an inbox item created from a ticket. */
+export const inboxTriageSchema = z.object({
+  lane: z.string(),
+  notes: z.string(),
+  confidence: z.number(),
+  assignedAgent: z.string().nullable(),
+  suggestedProjectId: z.string().nullable(),
+  pageUrl: z.string().nullable(),
+  routeId: z.number().nullable(),
+  duplicateCheck: duplicateCheckSchema,
+  attachments: z.array(attachmentSchema),
+});
+
+export type InboxTriage = z.infer<typeof inboxTriageSchema>;
+
 export const inboxItemSchema = z.object({
   id: z.string(),
   title: z.string().min(1),
@@ -217,13 +487,141 @@ export const inboxItemSchema = z.object({
   linkedProjectId: z.string().nullable(),
   linkedTaskId: z.string().nullable(),
   notes: z.string(),
+  /** Set on items created by the ticket pipeline. */
+  ticketId: z.number().nullable(),
+  triage: inboxTriageSchema.nullable(),
 });
 
 export type InboxItem = z.infer<typeof inboxItemSchema>;
 
-export const insertInboxItemSchema = inboxItemSchema.omit({ id: true, dateReceived: true, linkedProjectId: true, linkedTaskId: true, status: true });
+export const insertInboxItemSchema = inboxItemSchema.omit({ id: true, dateReceived: true, linkedProjectId: true, linkedTaskId: true, status: true, ticketId: true, triage: true });
 export type InsertInboxItem = z.infer<typeof insertInboxItemSchema>;
 
+export const triageUrgencyEnum = z.enum(["critical", "normal"]);
+/** Who works a lane's tickets: "auto" keeps the triage agent's pick, "manual" leaves them to a person. */
+export const triageAgentEnum = z.enum(["auto", "claude_code", "cursor_opus", "manual"]);
+
+export const triageLaneSchema = z.object({
+  id: z.string().trim().regex(/^[a-z0-9_]+$/, "Lane ids may only use lowercase letters, digits and underscores"),
+  /** What belongs in the lane; shown to the triage agent. */
+  description: z.string().trim().min(1),
+  /** Type of the inbox item (and, on approval, the task) created for the lane's tickets. */
+  inboxType: inboxTypeEnum,
+  /** Skips the project suggestion when set; ignored if the project no longer exists. */
+  defaultProjectId: z.string().nullable(),
+  /** Null derives the priority from the ticket's urgency. */
+  defaultPriority: inboxPriorityEnum.nullable(),
+  assignedAgent: triageAgentEnum,
+});
+
+export type TriageLane = z.infer<typeof triageLaneSchema>;
+
+/** Sends matching tickets straight to a lane without asking the triage agent. */
+export const triagePreRuleSchema = z.object({
+  /** Matches when the description contains any of these, ignoring case; empty matches any description. */
+  keywords: z.array(z.string().trim().min(1)),
+  /** Matches these reporter types, e.g. "customer"; empty matches any reporter. */
+  reporterTypes: z.array(z.string().trim().min(1)),
+  lane: z.string(),
+  /** Null keeps the urgency the reporter sent. */
+  urgency: triageUrgencyEnum.nullable(),
+}).refine((rule) => rule.keywords.length > 0 || rule.reporterTypes.length > 0, {
+  message: "A pre-rule needs at least one keyword or reporter type",
+});
+
+export type TriagePreRule = z.infer<typeof triagePreRuleSchema>;
+
+/** How a business's incoming tickets are classified and routed; null on the business means the built-in default. */
+export const triageConfigSchema = z.object({
+  /** Who the triage agent works for; the JSON answer format is always appended by the server. */
+  systemPrompt: z.string().trim().min(1),
+  /** Lanes offered to the model, each with what belongs in it and where its tickets go. */
+  lanes: z.array(triageLaneSchema).min(1),
+  /** Used when triage fails or answers with a lane that is not offered. */
+  fallbackLane: z.string(),
+  /** Extra instructions, one per entry, e.g. when to prefer the fallback lane. */
+  rules: z.array(z.string().trim().min(1)),
+  /** Checked in order before the triage agent runs; the first match decides the lane. */
+  preRules: z.array(triagePreRuleSchema),
+}).superRefine((config, ctx) => {
+  const ids = config.lanes.map((l) => l.id);
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lanes"], message: "Each lane id can only be used once" });
+  }
+  if (!ids.includes(config.fallbackLane)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fallbackLane"], message: "The fallback lane must be one of the lanes" });
+  }
+  config.preRules.forEach((rule, i) => {
+    if (!ids.includes(rule.lane)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["preRules", i, "lane"], message: `Unknown lane "${rule.lane}"` });
+    }
+  });
+});
+
+export type TriageConfig = z.infer<typeof triageConfigSchema>;
+
+/** A key the business's reporting app sends to the ticket intake API; only a hash of the key is stored. */
+export const intakeApiKeySchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  name: z.string(),
+  /** First characters of the key, so owners can tell keys apart. */
+  keyPrefix: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().nullable(),
+});
+
+export type IntakeApiKey = z.infer<typeof intakeApiKeySchema>;
+
+/**
+ * What happened to a reporter's ticket. The task events fire when the task created from (or
+ * merged with) the ticket enters a status of the review or done category of its workflow.
+ */
+export const ticketEventEnum = z.enum(["triaged", "approved", "merged", "rejected", "task_in_review", "task_done"]);
+export type TicketEvent = z.infer<typeof ticketEventEnum>;
+
+/** An endpoint of the business's reporting app that is told about ticket events. */
+export const ticketCallbackSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  url: z.string(),
+  events: z.array(ticketEventEnum),
+  active: z.boolean(),
+  createdAt: z.string(),
+});
+
+export type TicketCallback = z.infer<typeof ticketCallbackSchema>;
+
+export const insertTicketCallbackSchema = z.object({
+  url: z.string().trim().url().refine((url) => /^https?:\/\//.test(url), "Callback URLs must use http or https"),
+  events: z.array(ticketEventEnum).min(1, "Pick at least one event"),
+  active: z.boolean().default(true),
+});
+
+export type InsertTicketCallback = z.infer<typeof insertTicketCallbackSchema>;
+
+/** A delivery waits as "pending" between attempts and turns "dead" once it runs out of them. */
+export const callbackDeliveryStatusEnum = z.enum(["pending", "delivered", "dead"]);
+
+export const callbackDeliverySchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  callbackId: z.string(),
+  url: z.string(),
+  event: ticketEventEnum,
+  ticketId: z.number(),
+  payload: z.record(z.unknown()),
+  status: callbackDeliveryStatusEnum,
+  attempts: z.number(),
+  nextAttemptAt: z.string().nullable(),
+  /** HTTP status or network error of the last attempt. */
+  lastError: z.string().nullable(),
+  createdAt: z.string(),
+  deliveredAt: z.string().nullable(),
+});
+
+export type CallbackDelivery = z.infer<typeof callbackDeliverySchema>;
+
 export const codeReviewSchema = z.object({
   id: z.string(),
   taskId: z.string(),
@@ -264,10 +662,116 @@ export const managerMessageSchema = z.object({
     type: z.string(),
   })).optional().default([]),
   codeFix: codeFixSchema.optional(),
+  agentRunId: z.string().optional(),
 });
 
 export type ManagerMessage = z.infer<typeof managerMessageSchema>;
 
+export const agentStepTypeEnum = z.enum(["run_started", "thinking", "tool_call", "tool_result", "file_write", "command_result", "usage", "budget_exceeded", "awaiting_approval", "approval_decision", "pr_created", "error", "done", "complete"]);
+export const agentRunStatusEnum = z.enum(["running", "awaiting_approval", "completed", "failed"]);
+export type AgentRunStatus = z.infer<typeof agentRunStatusEnum>;
+
+/** One event in an agent run's feed; "run_started" and "complete" bracket the steps the loop emits. */
+export interface AgentStep {
+  type: z.infer<typeof agentStepTypeEnum>;
+  content?: string;
+  tool?: string;
+  input?: any;
+  result?: string;
+  path?: string;
+  fileContent?: string;
+  description?: string;
+  prUrl?: string;
+  prNumber?: number;
+  branchName?: string;
+  pushSha?: string;
+  runId?: string;
+  files?: AgentStagedFile[];
+  command?: string;
+  exitCode?: number | null;
+  durationMs?: number;
+  usage?: AgentRunUsage;
+}
+
+/**
+ * Limits on a single agent run; unset fields are unlimited, except iterations which fall back
+ * to the loop's own cap. A business sets defaults and a run request can only tighten them.
+ */
+export const agentBudgetSchema = z.object({
+  maxInputTokens: z.number().int().positive().optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+  maxDurationSeconds: z.number().int().positive().optional(),
+  maxIterations: z.number().int().positive().max(100).optional(),
+});
+
+export type AgentBudget = z.infer<typeof agentBudgetSchema>;
+
+/** Running totals for an agent run; cost is estimated from published per-token prices. */
+export interface AgentRunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  iterations: number;
+  durationMs: number;
+}
+
+/** A file the agent has staged for deploy, with the repo's current content for diffing. */
+export interface AgentStagedFile {
+  path: string;
+  content: string;
+  description: string;
+  originalContent?: string;
+}
+
+/**
+ * The user's answer to a review-before-deploy pause. "approve" deploys exactly `files` —
+ * edited content included, rejected files left out; "feedback" resumes the conversation.
+ */
+export const agentApprovalDecisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+    files: z.array(z.object({
+      path: z.string().min(1),
+      content: z.string(),
+      description: z.string().optional().default(""),
+    })),
+  }),
+  z.object({ action: z.literal("feedback"), message: z.string().min(1, "Feedback is required") }),
+  z.object({ action: z.literal("reject"), reason: z.string().optional() }),
+]);
+
+export type AgentApprovalDecision = z.infer<typeof agentApprovalDecisionSchema>;
+
+export const agentRunSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  taskId: z.string(),
+  projectId: z.string(),
+  deployMode: z.enum(["pr", "push"]),
+  reviewBeforeDeploy: z.boolean().optional().default(false),
+  instructions: z.string().optional().default(""),
+  status: agentRunStatusEnum,
+  prUrl: z.string().optional(),
+  prNumber: z.number().optional(),
+  pushSha: z.string().optional(),
+  error: z.string().optional(),
+  budget: agentBudgetSchema.optional().default({}),
+  inputTokens: z.number().optional().default(0),
+  outputTokens: z.number().optional().default(0),
+  costUsd: z.number().optional().default(0),
+  iterations: z.number().optional().default(0),
+  budgetExceeded: z.string().optional(),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+});
+
+export type AgentRun = z.infer<typeof agentRunSchema>;
+
+export interface AgentRunWithSteps extends AgentRun {
+  steps: AgentStep[];
+}
+
 export const managerAlertSeverityEnum = z.enum(["critical", "warning", "info"]);
 
 export interface ManagerAlert {
@@ -296,6 +800,8 @@ export const businessesTable = pgTable("businesses", {
   name: text("name").notNull(),
   description: text("description").notNull().default(""),
   color: varchar("color", { length: 20 }).notNull().default("#58a6ff"),
+  agentBudget: jsonb("agent_budget").$type<AgentBudget>().notNull().default({}),
+  triageConfig: jsonb("triage_config").$type<TriageConfig>(),
 });
 
 export const repositoriesTable = pgTable("repositories", {
@@ -308,6 +814,11 @@ export const repositoriesTable = pgTable("repositories", {
   repo: varchar("repo").notNull().default(""),
   token: text("token").notNull().default(""),
   type: varchar("type", { length: 20 }).notNull().default("other"),
+  agentBackend: varchar("agent_backend", { length: 20 }).notNull().default("github_api"),
+  cloneUrl: text("clone_url").notNull().default(""),
+  agentCommands: jsonb("agent_commands").$type<AgentCommand[]>().notNull().default([]),
+  webhookSecret: text("webhook_secret").notNull().default(""),
+  lastWebhookDelivery: jsonb("last_webhook_delivery").$type<WebhookDeliverySummary>(),
 });
 
 export const projectsTable = pgTable("projects", {
@@ -318,6 +829,7 @@ export const projectsTable = pgTable("projects", {
   color: varchar("color", { length: 20 }).notNull().default("#58a6ff"),
   relatedRepositories: jsonb("related_repositories").$type<string[]>().notNull().default([]),
   defaultRepositoryId: varchar("default_repository_id").notNull().default(""),
+  workflow: jsonb("workflow").$type<TaskWorkflow>(),
 });
 
 export const tasksTable = pgTable("tasks", {
@@ -339,7 +851,9 @@ export const tasksTable = pgTable("tasks", {
   autoAnalysisResult: varchar("auto_analysis_result", { length: 20 }),
   autoAnalysisTimestamp: text("auto_analysis_timestamp"),
   generatedPrompts: jsonb("generated_prompts").$type<GeneratedPrompt[]>().notNull().default([]),
-  dependencies: jsonb("dependencies").$type<string[]>().notNull().default([]),
+  dependencies: jsonb("dependencies").$type<TaskReference[]>().notNull().default([]),
+  blockedBy: jsonb("blocked_by").$type<TaskReference[]>().notNull().default([]),
+  attachments: jsonb("attachments").$type<Attachment[]>().notNull().default([]),
 });
 
 export const agentsTable = pgTable("agents", {
@@ -350,6 +864,30 @@ export const agentsTable = pgTable("agents", {
   apiKey: text("api_key").notNull().default(""),
   role: text("role").notNull().default(""),
   isReviewAgent: boolean("is_review_agent").notNull().default(false),
+  model: text("model").notNull().default(""),
+  baseUrl: text("base_url").notNull().default(""),
+});
+
+export const agentAssignmentsTable = pgTable("agent_assignments", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  feature: varchar("feature", { length: 30 }).notNull(),
+  agentId: varchar("agent_id").notNull(),
+});
+
+export const usersTable = pgTable("users", {
+  id: varchar("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: text("created_at").notNull(),
+  preferences: jsonb("preferences").$type<UserPreferences>().notNull().default({}),
+});
+
+export const businessMembersTable = pgTable("business_members", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: varchar("role", { length: 20 }).notNull().default("editor"),
 });
 
 export const inboxItemsTable = pgTable("inbox_items", {
@@ -365,6 +903,8 @@ export const inboxItemsTable = pgTable("inbox_items", {
   linkedProjectId: varchar("linked_project_id"),
   linkedTaskId: varchar("linked_task_id"),
   notes: text("notes").notNull().default(""),
+  ticketId: integer("ticket_id"),
+  triage: jsonb("triage").$type<InboxTriage>(),
 });
 
 export const changelogEntriesTable = pgTable("changelog_entries", {
@@ -375,6 +915,8 @@ export const changelogEntriesTable = pgTable("changelog_entries", {
   fromStatus: varchar("from_status", { length: 30 }).notNull(),
   toStatus: varchar("to_status", { length: 30 }).notNull(),
   timestamp: text("timestamp").notNull(),
+  actor: varchar("actor", { length: 20 }),
+  actorName: text("actor_name").notNull().default(""),
 });
 
 export const codeReviewsTable = pgTable("code_reviews", {
@@ -399,10 +941,113 @@ export const managerMessagesTable = pgTable("manager_messages", {
   filesLoaded: jsonb("files_loaded").$type<{ path: string; repo: string }[]>().notNull().default([]),
   attachments: jsonb("attachments").$type<{ name: string; content: string; type: string }[]>().notNull().default([]),
   codeFix: jsonb("code_fix").$type<CodeFix>(),
+  agentRunId: varchar("agent_run_id"),
+});
+
+export const agentRunsTable = pgTable("agent_runs", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  taskId: varchar("task_id").notNull(),
+  projectId: varchar("project_id").notNull(),
+  deployMode: varchar("deploy_mode", { length: 10 }).notNull().default("push"),
+  reviewBeforeDeploy: boolean("review_before_deploy").notNull().default(false),
+  instructions: text("instructions").notNull().default(""),
+  status: varchar("status", { length: 20 }).notNull().default("running"),
+  prUrl: text("pr_url"),
+  prNumber: integer("pr_number"),
+  pushSha: text("push_sha"),
+  error: text("error"),
+  budget: jsonb("budget").$type<AgentBudget>().notNull().default({}),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  iterations: integer("iterations").notNull().default(0),
+  budgetExceeded: text("budget_exceeded"),
+  startedAt: text("started_at").notNull(),
+  finishedAt: text("finished_at"),
+});
+
+export const agentRunStepsTable = pgTable("agent_run_steps", {
+  id: serial("id").primaryKey(),
+  runId: varchar("run_id").notNull(),
+  seq: integer("seq").notNull(),
+  step: jsonb("step").$type<AgentStep>().notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const webhookDeliveriesTable = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey(),
+  deliveryId: varchar("delivery_id"),
+  event: varchar("event", { length: 50 }).notNull(),
+  action: varchar("action", { length: 50 }),
+  repository: text("repository").notNull().default(""),
+  repositoryIds: jsonb("repository_ids").$type<string[]>().notNull().default([]),
+  businessIds: jsonb("business_ids").$type<string[]>().notNull().default([]),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  message: text("message").notNull().default(""),
+  taskIds: jsonb("task_ids").$type<string[]>().notNull().default([]),
+  codeFixIds: jsonb("code_fix_ids").$type<string[]>().notNull().default([]),
+  error: text("error"),
+  payload: jsonb("payload"),
+  attempts: integer("attempts").notNull().default(1),
+  receivedAt: text("received_at").notNull(),
+  processedAt: text("processed_at"),
+  businessOutcomes: jsonb("business_outcomes").$type<Record<string, WebhookDeliveryOutcome>>().notNull().default({}),
+});
+
+export const intakeApiKeysTable = pgTable("intake_api_keys", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  name: text("name").notNull(),
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+  keyPrefix: varchar("key_prefix", { length: 12 }).notNull(),
+  createdAt: text("created_at").notNull(),
+  lastUsedAt: text("last_used_at"),
+});
+
+export const ticketCallbacksTable = pgTable("ticket_callbacks", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  url: text("url").notNull(),
+  /** Encrypted; signs every delivery. */
+  secret: text("secret").notNull(),
+  events: jsonb("events").$type<TicketEvent[]>().notNull().default([]),
+  active: boolean("active").notNull().default(true),
+  createdAt: text("created_at").notNull(),
+});
+
+export const callbackDeliveriesTable = pgTable("callback_deliveries", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  callbackId: varchar("callback_id").notNull(),
+  url: text("url").notNull(),
+  event: varchar("event", { length: 30 }).notNull(),
+  ticketId: integer("ticket_id").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: text("next_attempt_at"),
+  lastError: text("last_error"),
+  createdAt: text("created_at").notNull(),
+  deliveredAt: text("delivered_at"),
+});
+
+/** Metadata of stored ticket files; the file itself is named by the id in the attachment directory. */
+export const attachmentsTable = pgTable("attachments", {
+  id: varchar("id").primaryKey(),
+  businessId: varchar("business_id").notNull(),
+  ticketId: integer("ticket_id").notNull(),
+  name: text("name").notNull(),
+  mediaType: varchar("media_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  sourceUrl: text("source_url"),
+  createdAt: text("created_at").notNull(),
 });
 
 export const ticketsTable = pgTable("tickets", {
   id: serial("id").primaryKey(),
+  /** Null only for tickets received before intake keys were per business and never linked to an inbox item. */
+  businessId: varchar("business_id"),
   reporterType: text("reporter_type").notNull(),
   reporterName: text("reporter_name"),
   reporterId: text("reporter_id"),
@@ -0,0 +1,74 @@
+import type { Task, TaskReference, TaskWorkflow } from "@shared/schema";
+import { statusCategory } from "@shared/taskWorkflow";
+
+/**
+ * Directed "blocked by" edges between tasks of a business. `Task.blockedBy` references the tasks
+ * that have to be finished first, in any project; "blocks" is the same edge read from the other
+ * end. References that no longer resolve (deleted tasks) are ignored.
+ */
+
+type DependencyTask = Pick<Task, "id" | "projectId" | "blockedBy">;
+
+/** How `Task.dependencies` and `Task.blockedBy` point at `task`; links may cross projects, so the project is part of the reference. */
+export function taskReference(task: Pick<Task, "id" | "projectId">): TaskReference {
+  return { projectId: task.projectId, taskId: task.id };
+}
+
+export function sameTaskReference(a: TaskReference, b: TaskReference): boolean {
+  return a.projectId === b.projectId && a.taskId === b.taskId;
+}
+
+function referenceKey(ref: TaskReference): string {
+  return `${ref.projectId}/${ref.taskId}`;
+}
+
+export function isBlockedBy(task: DependencyTask, blocker: TaskReference): boolean {
+  return (task.blockedBy || []).some(ref => sameTaskReference(ref, blocker));
+}
+
+export function blockersOf<T extends DependencyTask>(task: DependencyTask, tasks: T[]): T[] {
+  return tasks.filter(t => isBlockedBy(task, taskReference(t)));
+}
+
+export function tasksBlockedBy<T extends DependencyTask>(task: DependencyTask, tasks: T[]): T[] {
+  const ref = taskReference(task);
+  return tasks.filter(t => isBlockedBy(t, ref));
+}
+
+/** Blockers that are not in a done-category status of their own project's workflow. */
+export function openBlockers<T extends DependencyTask & Pick<Task, "status">>(
+  task: DependencyTask,
+  tasks: T[],
+  workflowOf: (projectId: string) => TaskWorkflow | undefined,
+): T[] {
+  return blockersOf(task, tasks).filter(t => {
+    const workflow = workflowOf(t.projectId);
+    return !workflow || statusCategory(workflow, t.status) !== "done";
+  });
+}
+
+/**
+ * The chain that adding "`task` is blocked by `blocker`" would close, e.g.
+ * ["A", "B", "C", "A"] when C is already (transitively) blocked by A; null if the edge is safe.
+ */
+export function findBlockingCycle(tasks: DependencyTask[], task: TaskReference, blocker: TaskReference): string[] | null {
+  if (sameTaskReference(task, blocker)) return [task.taskId, task.taskId];
+  const byRef = new Map(tasks.map(t => [referenceKey(taskReference(t)), t]));
+  const visited = new Set<string>();
+
+  // Walk from the new blocker through what it is blocked by; reaching the task closes a loop
+  const walk = (ref: TaskReference, path: string[]): string[] | null => {
+    if (sameTaskReference(ref, task)) return path;
+    const key = referenceKey(ref);
+    if (visited.has(key)) return null;
+    visited.add(key);
+    for (const next of byRef.get(key)?.blockedBy || []) {
+      const found = walk(next, [...path, next.taskId]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const chain = walk(blocker, [blocker.taskId]);
+  return chain ? [task.taskId, ...chain] : null;
+}
@@ -0,0 +1,59 @@
+import type { TaskWorkflow, WorkflowCategory, WorkflowStatus } from "@shared/schema";
+
+/** The workflow every project had before workflows were configurable; used until a project defines its own. */
+export const DEFAULT_TASK_WORKFLOW: TaskWorkflow = {
+  statuses: [
+    { name: "Open", category: "todo" },
+    { name: "In Progress", category: "in_progress" },
+    { name: "Quality Review", category: "review" },
+    { name: "Done", category: "done" },
+  ],
+  transitions: {},
+  initialStatus: "Open",
+  startStatus: "In Progress",
+  webhookStatus: "Quality Review",
+};
+
+export function findWorkflowStatus(workflow: TaskWorkflow, name: string): WorkflowStatus | undefined {
+  return workflow.statuses.find(s => s.name === name);
+}
+
+export function statusCategory(workflow: TaskWorkflow, name: string): WorkflowCategory | undefined {
+  return findWorkflowStatus(workflow, name)?.category;
+}
+
+/** The first status of a category in workflow order, e.g. where "Mark as done" sends a task. */
+export function firstStatusIn(workflow: TaskWorkflow, category: WorkflowCategory): string | undefined {
+  return workflow.statuses.find(s => s.category === category)?.name;
+}
+
+/** Task counts per category; tasks in a status the workflow no longer has are not counted. */
+export function countByCategory(workflow: TaskWorkflow, tasks: { status: string }[]): Record<WorkflowCategory, number> {
+  const counts: Record<WorkflowCategory, number> = { todo: 0, in_progress: 0, review: 0, done: 0 };
+  for (const task of tasks) {
+    const category = statusCategory(workflow, task.status);
+    if (category) counts[category]++;
+  }
+  return counts;
+}
+
+/** Statuses a task in `from` may move to. A status the workflow does not know (e.g. left over from an older workflow) may move anywhere. */
+export function allowedTransitions(workflow: TaskWorkflow, from: string): string[] {
+  const others = workflow.statuses.map(s => s.name).filter(name => name !== from);
+  const targets = workflow.transitions[from];
+  return targets ? others.filter(name => targets.includes(name)) : others;
+}
+
+/** Why a task cannot move from `from` to `to`, or null if it can. */
+export function transitionError(workflow: TaskWorkflow, from: string, to: string): string | null {
+  if (!findWorkflowStatus(workflow, to)) {
+    return `"${to}" is not a status in this project's workflow (${workflow.statuses.map(s => s.name).join(", ")})`;
+  }
+  if (from === to || allowedTransitions(workflow, from).includes(to)) return null;
+  const allowed = allowedTransitions(workflow, from);
+  return `Cannot move a task from "${from}" to "${to}"${allowed.length > 0 ? `; allowed: ${allowed.join(", ")}` : ""}`;
+}
+
+export function describeWorkflow(workflow: TaskWorkflow): string {
+  return workflow.statuses.map(s => s.name).join(", ");
+}